@@ -0,0 +1,48 @@
+/**
+ * Service worker for Web Push swell alerts.
+ * The server sends { title, body, url, tag } (see server/layers/retention/delivery/push.ts);
+ * clicking the notification focuses an open tab on the spot page or opens one.
+ */
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "NYC Surf Co.", {
+      body: data.body || "",
+      icon: "/Favicon.png",
+      badge: "/Favicon.png",
+      tag: data.tag,
+      data: { url: data.url || "/" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      for (const client of clients) {
+        if (client.url.startsWith(self.location.origin) && "navigate" in client) {
+          return client.navigate(url).then((navigated) => (navigated || client).focus());
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -23,6 +23,8 @@ const Mission                = lazy(() => import("./pages/Mission"));
 const Members                = lazy(() => import("./pages/Members"));
 const AdminAlerts            = lazy(() => import("./pages/AdminAlerts"));
 const AdminForecastComparison = lazy(() => import("./pages/AdminForecastComparison"));
+const AdminJobs              = lazy(() => import("./pages/AdminJobs"));
+const EmailPreferences       = lazy(() => import("./pages/EmailPreferences"));
 
 function Router() {
   return (
@@ -35,11 +37,13 @@ function Router() {
         <Route path="/check-email" component={CheckEmail} />
         <Route path="/welcome" component={Welcome} />
         <Route path="/members" component={Members} />
+        <Route path="/email-preferences" component={EmailPreferences} />
         <Route path="/report/submit" component={SubmitReport} />
         <Route path="/dashboard" component={Dashboard} />
         <Route path="/admin" component={AdminAlerts} />
         <Route path="/admin/alerts" component={AdminAlerts} />
         <Route path="/admin/forecasts" component={AdminForecastComparison} />
+        <Route path="/admin/jobs" component={AdminJobs} />
         <Route path="/spot/:id" component={SpotDetail} />
         <Route path="/surf-analysis" component={SurfAnalysis} />
         <Route path="/terms" component={Terms} />
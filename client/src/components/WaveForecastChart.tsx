@@ -40,6 +40,11 @@ interface DayData {
   windDirectionDeg: number | null;
   // Euro cross-reference
   ecmwfWaveHeightFt: number | null;
+  // Multi-model ensemble at the bucket's peak: weighted mean and 10th-90th percentile band
+  ensembleHeightFt: number | null;
+  bandLowFt: number | null;
+  bandHighFt: number | null;
+  ensembleSourceCount: number;
 }
 
 const PERIOD_HOURS: Record<Period, number> = {
@@ -70,6 +75,27 @@ function getScore(p: { quality_score?: number | null; probabilityScore?: number
   return p.quality_score ?? p.probabilityScore ?? 0;
 }
 
+type EnsemblePoint = {
+  ensembleBreakingWaveHeightFt: number | null;
+  breakingHeightP10Ft: number | null;
+  breakingHeightP90Ft: number | null;
+  ensembleSources: string[];
+};
+
+// Ensemble fields for a bucket of hours, taken at its peak (bars show the bucket's biggest surf)
+function getEnsembleBand(pts: EnsemblePoint[]): Pick<DayData, "ensembleHeightFt" | "bandLowFt" | "bandHighFt" | "ensembleSourceCount"> {
+  const peak = (values: Array<number | null>) => {
+    const present = values.filter((v): v is number => v != null);
+    return present.length > 0 ? Math.max(...present) : null;
+  };
+  return {
+    ensembleHeightFt: peak(pts.map((p) => p.ensembleBreakingWaveHeightFt)),
+    bandLowFt: peak(pts.map((p) => p.breakingHeightP10Ft)),
+    bandHighFt: peak(pts.map((p) => p.breakingHeightP90Ft)),
+    ensembleSourceCount: Math.max(0, ...pts.map((p) => p.ensembleSources.length)),
+  };
+}
+
 export function WaveForecastChart({ spotId, model = 'om', lat, lng }: WaveForecastChartProps) {
   const [period, setPeriod] = useState<Period>("7D");
   const [selectedCol, setSelectedCol] = useState<number | null>(null);
@@ -138,6 +164,7 @@ export function WaveForecastChart({ spotId, model = 'om', lat, lng }: WaveForeca
           windDir: formatCardinal(best.windDirectionDeg),
           windDirectionDeg: best.windDirectionDeg ?? null,
           ecmwfWaveHeightFt: avgEuroHeight,
+          ...getEnsembleBand(slice),
           isNight: bucketIsNight,
         });
       }
@@ -197,13 +224,14 @@ export function WaveForecastChart({ spotId, model = 'om', lat, lng }: WaveForeca
         windDir: formatCardinal(best.windDirectionDeg),
         windDirectionDeg: best.windDirectionDeg ?? null,
         ecmwfWaveHeightFt: maxEuroHeight,
+        ...getEnsembleBand(pts),
         isNight: false,
       };
     });
   })();
 
   const monoFont = { fontFamily: "'JetBrains Mono', monospace" };
-  const maxHeight = Math.max(...chartData.map((d) => d.waveHeight), 1);
+  const maxHeight = Math.max(...chartData.map((d) => Math.max(d.waveHeight, d.bandHighFt ?? 0)), 1);
   const selected = selectedCol != null ? chartData[selectedCol] : null;
 
   if (!spotId) {
@@ -269,6 +297,9 @@ export function WaveForecastChart({ spotId, model = 'om', lat, lng }: WaveForeca
             <div className="flex" style={{ minWidth: `${Math.max(chartData.length * 64, 320)}px` }}>
               {chartData.map((d, i) => {
                 const barPx = Math.max(Math.round((d.waveHeight / maxHeight) * BAR_SECTION_HEIGHT), 4);
+                const hasBand = d.bandLowFt != null && d.bandHighFt != null && d.ensembleSourceCount >= 2;
+                const bandLowPx = hasBand ? Math.round((d.bandLowFt! / maxHeight) * BAR_SECTION_HEIGHT) : 0;
+                const bandHighPx = hasBand ? Math.round((d.bandHighFt! / maxHeight) * BAR_SECTION_HEIGHT) : 0;
                 const barColor = getScoreBadgeHexColor(d.qualityScore);
                 const windArrowDeg = d.windDirectionDeg != null ? (d.windDirectionDeg + 180) % 360 : null;
                 const isSelected = selectedCol === i;
@@ -297,7 +328,7 @@ export function WaveForecastChart({ spotId, model = 'om', lat, lng }: WaveForeca
                     </div>
 
                     {/* Bar area */}
-                    <div className="flex flex-col items-center justify-end px-1" style={{ height: BAR_SECTION_HEIGHT + 20 }}>
+                    <div className="relative flex flex-col items-center justify-end px-1" style={{ height: BAR_SECTION_HEIGHT + 20 }}>
                       <div className="text-[9px] font-bold text-center leading-tight mb-0.5" style={{ color: barColor }}>
                         {d.waveHeight > 0.4 ? formatSurfHeight(d.waveHeight) : ""}
                       </div>
@@ -311,6 +342,17 @@ export function WaveForecastChart({ spotId, model = 'om', lat, lng }: WaveForeca
                         outline: isSelected ? `2px solid ${barColor}` : "none",
                         outlineOffset: "1px",
                       }} />
+                      {/* Ensemble 10-90% range across models */}
+                      {hasBand && mounted && (
+                        <div
+                          className="absolute left-0.5 right-0.5 pointer-events-none border border-dashed border-gray-500"
+                          style={{
+                            bottom: bandLowPx,
+                            height: Math.max(bandHighPx - bandLowPx, 2),
+                            backgroundColor: "rgba(17, 24, 39, 0.12)",
+                          }}
+                        />
+                      )}
                     </div>
 
                     {/* Wind divider */}
@@ -438,6 +480,20 @@ export function WaveForecastChart({ spotId, model = 'om', lat, lng }: WaveForeca
                     </div>
                   )}
 
+                  {/* Ensemble range across models */}
+                  {selected.bandLowFt != null && selected.bandHighFt != null && selected.ensembleSourceCount >= 2 && (
+                    <div className="flex items-baseline gap-2 text-[10px] text-gray-500">
+                      <span className="uppercase tracking-widest">Models</span>
+                      <span className="font-bold text-black">
+                        {selected.bandLowFt.toFixed(1)}–{selected.bandHighFt.toFixed(1)}ft
+                      </span>
+                      {selected.ensembleHeightFt != null && (
+                        <span>ensemble {selected.ensembleHeightFt.toFixed(1)}ft</span>
+                      )}
+                      <span className="text-gray-400">({selected.ensembleSourceCount} sources)</span>
+                    </div>
+                  )}
+
                   {/* Row 3: Wind — always OM */}
                   <div className="flex items-center gap-2 pt-2 border-t border-gray-200 flex-wrap">
                     {selected.windDirectionDeg != null && (
@@ -476,6 +532,10 @@ export function WaveForecastChart({ spotId, model = 'om', lat, lng }: WaveForeca
                 <span className="text-[8px] uppercase text-gray-500">{label}</span>
               </div>
             ))}
+            <div className="flex items-center gap-1">
+              <div className="w-2.5 h-2.5 border border-dashed border-gray-500" style={{ backgroundColor: "rgba(17, 24, 39, 0.12)" }} />
+              <span className="text-[8px] uppercase text-gray-500">Model range</span>
+            </div>
           </div>
         </>
       )}
@@ -0,0 +1,75 @@
+/**
+ * Browser side of Web Push: register /sw.js and subscribe this device with the server's VAPID key.
+ * The subscription itself is saved through trpc.notifications.subscribe by the caller.
+ */
+
+export interface PushSubscriptionInput {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+  userAgent?: string;
+}
+
+export function isPushSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+function base64UrlToUint8Array(base64Url: string): Uint8Array<ArrayBuffer> {
+  const base64 = (base64Url + "=".repeat((4 - (base64Url.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  return (await navigator.serviceWorker.getRegistration("/")) ?? navigator.serviceWorker.register("/sw.js", { scope: "/" });
+}
+
+/**
+ * This device's current subscription, if it has one
+ */
+export async function getCurrentPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration("/");
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Ask for notification permission and subscribe this device.
+ *
+ * @throws If push isn't supported or permission is denied
+ */
+export async function subscribeToPush(vapidPublicKey: string): Promise<PushSubscriptionInput> {
+  if (!isPushSupported()) throw new Error("Push notifications aren't supported in this browser");
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("Notifications are blocked for this site");
+
+  const registration = await getRegistration();
+  await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToUint8Array(vapidPublicKey),
+    }));
+
+  const json = subscription.toJSON();
+  return {
+    endpoint: subscription.endpoint,
+    keys: { p256dh: json.keys?.p256dh ?? "", auth: json.keys?.auth ?? "" },
+    userAgent: navigator.userAgent.slice(0, 255),
+  };
+}
+
+/**
+ * Unsubscribe this device in the browser
+ *
+ * @returns The endpoint that was unsubscribed, for trpc.notifications.unsubscribe
+ */
+export async function unsubscribeFromPush(): Promise<string | null> {
+  const subscription = await getCurrentPushSubscription();
+  if (!subscription) return null;
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+}
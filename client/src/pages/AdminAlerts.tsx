@@ -41,7 +41,7 @@ export default function AdminAlerts() {
 
   const sendBulkAlertMutation = trpc.admin.alerts.sendBulkAlert.useMutation({
     onSuccess: (result) => {
-      toast.success(`Sent ${result.emailSent} emails`);
+      toast.success(`Queued ${result.emailQueued} emails`);
       setMessage("");
     },
     onError: (error) => {
@@ -122,6 +122,9 @@ export default function AdminAlerts() {
             <button onClick={() => setLocation("/admin/forecasts")} className="text-gray-500 hover:text-white text-xs uppercase tracking-widest" style={monoStyle}>
               Forecasts →
             </button>
+            <button onClick={() => setLocation("/admin/jobs")} className="text-gray-500 hover:text-white text-xs uppercase tracking-widest" style={monoStyle}>
+              Jobs →
+            </button>
             <button onClick={() => setLocation("/dashboard")} className="text-gray-500 hover:text-white text-xs uppercase tracking-widest" style={monoStyle}>
               ← Dashboard
             </button>
@@ -381,6 +381,9 @@ export default function AdminForecastComparison() {
           </div>
         </div>
 
+        {/* Verification scoreboard */}
+        {selectedSpotId !== null && <VerificationScoreboard spotId={selectedSpotId} />}
+
         {/* Status bar */}
         {comparisonQuery.data && (
           <div className="border border-white/20 px-4 py-3 flex flex-wrap gap-6 text-xs" style={monoStyle}>
@@ -510,6 +513,9 @@ export default function AdminForecastComparison() {
           <p className="text-xs text-gray-500 mb-3" style={monoStyle}>
             OM = Open-Meteo (our forecast) · SG = Stormglass (ECMWF) · Diff = absolute difference in feet
           </p>
+          <p className="text-xs text-gray-500 mb-3" style={monoStyle}>
+            Verification: error = forecast swell − buoy swell height (SwH) · Bias &gt; 0 = over-forecast · Trust = lowest MAE for that lead time
+          </p>
           <div className="flex flex-wrap gap-6 text-xs" style={monoStyle}>
             <div className="flex items-center gap-2">
               <CheckCircle className="h-3 w-3 text-green-400" />
@@ -530,3 +536,127 @@ export default function AdminForecastComparison() {
     </div>
   );
 }
+
+const LEAD_BUCKETS = [0, 24, 48, 72, 96, 120, 144];
+
+const MODEL_LABELS: Record<string, string> = {
+  ww3: "OM",
+  ecmwf_wam: "ECMWF WAM",
+  gfs_wave: "GFS-Wave",
+  stormglass: "SG (ECMWF)",
+};
+
+/**
+ * Rolling model-vs-buoy error per lead-time bucket for one spot.
+ * Bias > 0 means the model over-forecasts the buoy's swell height (SwH).
+ */
+function VerificationScoreboard({ spotId }: { spotId: number }) {
+  const [days, setDays] = useState<number>(30);
+
+  const statsQuery = trpc.admin.forecasts.getVerificationStats.useQuery({ days, spotId });
+
+  const stats = statsQuery.data?.stats ?? [];
+  const models = Array.from(new Set(stats.map((s) => s.model))).sort();
+
+  const getStat = (model: string, bucket: number) =>
+    stats.find((s) => s.model === model && s.leadBucketStartH === bucket);
+
+  // Lowest MAE per bucket wins
+  const getBestModel = (bucket: number): string | null => {
+    let best: { model: string; mae: number } | null = null;
+    for (const model of models) {
+      const stat = getStat(model, bucket);
+      if (stat && (!best || stat.maeFt < best.mae)) best = { model, mae: stat.maeFt };
+    }
+    return models.length > 1 ? best?.model ?? null : null;
+  };
+
+  const getBiasColor = (bias: number) => {
+    if (Math.abs(bias) < 0.5) return "text-green-400";
+    if (Math.abs(bias) < 1.0) return "text-white";
+    return "text-yellow-400";
+  };
+
+  return (
+    <div className="border border-white/20">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-white/20 bg-white/5">
+        <span className="text-[10px] uppercase tracking-widest text-gray-500" style={monoStyle}>
+          Verification vs buoy — bias / MAE / RMSE (ft)
+        </span>
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] uppercase tracking-widest text-gray-500" style={monoStyle}>Last:</span>
+          <div className="relative">
+            <select
+              value={days.toString()}
+              onChange={(e) => setDays(parseInt(e.target.value))}
+              className="bg-black border border-white/40 text-white text-xs px-3 py-1.5 pr-8 appearance-none cursor-pointer hover:border-white focus:outline-none focus:border-white"
+              style={monoStyle}
+            >
+              {[7, 30, 90].map((v) => (
+                <option key={v} value={v.toString()} className="bg-black">{v} days</option>
+              ))}
+            </select>
+            <ChevronDown className="h-3 w-3 text-gray-400 absolute right-2 top-1/2 -translate-y-1/2 pointer-events-none" />
+          </div>
+        </div>
+      </div>
+
+      {statsQuery.isLoading ? (
+        <div className="p-6 flex justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : models.length === 0 ? (
+        <p className="px-4 py-6 text-center text-gray-600 text-xs" style={monoStyle}>
+          No verified forecasts yet — the forecast-verification job scores each hour once the buoy has reported
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs" style={monoStyle}>
+            <thead>
+              <tr className="border-b border-white/10">
+                <th className="text-left px-4 py-2 text-gray-500 uppercase tracking-widest text-[10px] font-normal">Lead time</th>
+                {models.map((model) => (
+                  <th key={model} className="text-right px-4 py-2 text-gray-500 uppercase tracking-widest text-[10px] font-normal">
+                    {MODEL_LABELS[model] ?? model}
+                  </th>
+                ))}
+                <th className="text-right px-4 py-2 text-gray-500 uppercase tracking-widest text-[10px] font-normal">Trust</th>
+              </tr>
+            </thead>
+            <tbody>
+              {LEAD_BUCKETS.map((bucket) => {
+                const best = getBestModel(bucket);
+                return (
+                  <tr key={bucket} className="border-b border-white/5 hover:bg-white/5">
+                    <td className="px-4 py-2 text-white">
+                      Day {bucket / 24 + 1} <span className="text-gray-600">({bucket}–{bucket + 24}h)</span>
+                    </td>
+                    {models.map((model) => {
+                      const stat = getStat(model, bucket);
+                      return (
+                        <td key={model} className="px-4 py-2 text-right">
+                          {stat ? (
+                            <span className={best === model ? "font-bold" : ""}>
+                              <span className={getBiasColor(stat.biasFt)}>{stat.biasFt > 0 ? "+" : ""}{stat.biasFt.toFixed(2)}</span>
+                              <span className="text-gray-300"> / {stat.maeFt.toFixed(2)} / {stat.rmseFt.toFixed(2)}</span>
+                              <span className="text-gray-600"> n={stat.samples}</span>
+                            </span>
+                          ) : (
+                            <span className="text-gray-600">—</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                    <td className="px-4 py-2 text-right text-white">
+                      {best ? (MODEL_LABELS[best] ?? best) : "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Loader2, RefreshCw, Play, CheckCircle, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+
+const monoStyle = { fontFamily: "'JetBrains Mono', monospace" };
+const bebasStyle = { fontFamily: "'Bebas Neue', sans-serif" };
+
+export default function AdminJobs() {
+  const [, setLocation] = useLocation();
+  const { user, loading: authLoading } = useAuth();
+  const [selectedJob, setSelectedJob] = useState<string | undefined>(undefined);
+
+  const isAdmin = !!user && user.role === "admin";
+
+  const jobsQuery = trpc.admin.jobs.list.useQuery(undefined, {
+    enabled: isAdmin,
+    refetchInterval: 15000,
+  });
+
+  const runsQuery = trpc.admin.jobs.getRuns.useQuery(
+    { jobName: selectedJob, limit: 100 },
+    { enabled: isAdmin, refetchInterval: 15000 }
+  );
+
+  const runNowMutation = trpc.admin.jobs.runNow.useMutation({
+    onSuccess: (result, variables) => {
+      toast.success(`Started ${variables.jobName} (run #${result.runId})`);
+      jobsQuery.refetch();
+      runsQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to start job");
+    },
+  });
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, []);
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-white" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="border-2 border-white p-8 max-w-md w-full mx-4 text-center">
+          <h1 className="text-4xl text-white mb-4" style={bebasStyle}>ACCESS DENIED</h1>
+          <p className="text-gray-400 mb-6" style={monoStyle}>You must be an admin to access this page.</p>
+          <button
+            onClick={() => setLocation("/dashboard")}
+            className="bg-white text-black px-6 py-2 font-bold uppercase tracking-widest text-sm hover:bg-gray-200"
+            style={monoStyle}
+          >
+            Go to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const formatDateTime = (date: Date | string | null | undefined): string => {
+    if (!date) return "—";
+    return new Date(date).toLocaleString("en-US", {
+      timeZone: "America/New_York",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      hour12: true,
+    });
+  };
+
+  const formatDuration = (start: Date | string, end: Date | string | null): string => {
+    if (!end) return "—";
+    const seconds = (new Date(end).getTime() - new Date(start).getTime()) / 1000;
+    if (seconds < 60) return `${seconds.toFixed(1)}s`;
+    return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+  };
+
+  const getStatusDisplay = (status: string | null | undefined) => {
+    switch (status) {
+      case "success":
+        return (
+          <span className="flex items-center gap-1 text-green-400 text-xs font-bold" style={monoStyle}>
+            <CheckCircle className="h-3.5 w-3.5" /> SUCCESS
+          </span>
+        );
+      case "failed":
+        return (
+          <span className="flex items-center gap-1 text-yellow-400 text-xs font-bold" style={monoStyle}>
+            <AlertTriangle className="h-3.5 w-3.5" /> FAILED
+          </span>
+        );
+      case "running":
+        return (
+          <span className="flex items-center gap-1 text-white text-xs font-bold" style={monoStyle}>
+            <Loader2 className="h-3.5 w-3.5 animate-spin" /> RUNNING
+          </span>
+        );
+      default:
+        return <span className="text-gray-600 text-xs" style={monoStyle}>NEVER RUN</span>;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      {/* Header */}
+      <div className="border-b-2 border-white px-4 sm:px-8 py-6">
+        <div className="max-w-7xl mx-auto flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-5xl sm:text-6xl text-white leading-none" style={bebasStyle}>
+              BACKGROUND JOBS
+            </h1>
+            <p className="text-gray-400 text-xs mt-2 max-w-2xl" style={monoStyle}>
+              Scheduled jobs (Eastern time) and their recent runs. Only one instance runs each job at a time.
+            </p>
+          </div>
+          <div className="flex items-center gap-4 mt-1">
+            <button onClick={() => setLocation("/admin")} className="text-gray-500 hover:text-white text-xs uppercase tracking-widest" style={monoStyle}>
+              ← Admin
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-8 py-6 space-y-6">
+        {/* Jobs */}
+        <div className="border border-white/20">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/20 bg-white/5">
+            <span className="text-[10px] uppercase tracking-widest text-gray-500" style={monoStyle}>Jobs</span>
+            <button
+              onClick={() => { jobsQuery.refetch(); runsQuery.refetch(); }}
+              disabled={jobsQuery.isFetching}
+              className="flex items-center gap-1.5 border border-white/40 text-white text-xs px-3 py-1.5 hover:bg-white hover:text-black disabled:opacity-40 uppercase tracking-widest transition-colors"
+              style={monoStyle}
+            >
+              <RefreshCw className={`h-3 w-3 ${jobsQuery.isFetching ? "animate-spin" : ""}`} />
+              Refresh
+            </button>
+          </div>
+
+          {jobsQuery.isLoading ? (
+            <div className="p-8 flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <div className="divide-y divide-white/10">
+              {(jobsQuery.data ?? []).map((job) => (
+                <div key={job.name} className="px-4 py-4 flex flex-wrap items-center gap-4">
+                  <div className="flex-1 min-w-[220px]">
+                    <button
+                      onClick={() => setSelectedJob(selectedJob === job.name ? undefined : job.name)}
+                      className={`text-sm font-bold uppercase tracking-wider ${selectedJob === job.name ? "text-white underline" : "text-gray-200 hover:text-white"}`}
+                      style={monoStyle}
+                    >
+                      {job.name}
+                    </button>
+                    <p className="text-gray-500 text-xs mt-1" style={monoStyle}>{job.description}</p>
+                  </div>
+                  <div className="text-xs text-gray-400 w-32" style={monoStyle}>
+                    <div className="text-[10px] uppercase tracking-widest text-gray-600">Schedule</div>
+                    {job.enabled ? job.schedule : "disabled"}
+                  </div>
+                  <div className="text-xs text-gray-400 w-36" style={monoStyle}>
+                    <div className="text-[10px] uppercase tracking-widest text-gray-600">Next run</div>
+                    {formatDateTime(job.nextRunAt)}
+                  </div>
+                  <div className="text-xs text-gray-400 w-36" style={monoStyle}>
+                    <div className="text-[10px] uppercase tracking-widest text-gray-600">Last run</div>
+                    {formatDateTime(job.lastRun?.startedAt)}
+                  </div>
+                  <div className="w-28">{getStatusDisplay(job.lastRun?.status)}</div>
+                  <button
+                    onClick={() => runNowMutation.mutate({ jobName: job.name })}
+                    disabled={runNowMutation.isPending || job.runningHere || job.lastRun?.status === "running"}
+                    className="flex items-center gap-1.5 bg-white text-black text-xs px-3 py-2 font-bold uppercase tracking-widest hover:bg-gray-200 disabled:opacity-40"
+                    style={monoStyle}
+                  >
+                    <Play className="h-3 w-3" />
+                    Run now
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Run history */}
+        <div className="border border-white/20">
+          <div className="px-4 py-3 border-b border-white/20 bg-white/5">
+            <span className="text-[10px] uppercase tracking-widest text-gray-500" style={monoStyle}>
+              Recent runs{selectedJob ? ` — ${selectedJob}` : ""}
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs" style={monoStyle}>
+              <thead>
+                <tr className="text-[10px] uppercase tracking-widest text-gray-500 border-b border-white/10">
+                  <th className="text-left px-4 py-2">#</th>
+                  <th className="text-left px-4 py-2">Job</th>
+                  <th className="text-left px-4 py-2">Trigger</th>
+                  <th className="text-left px-4 py-2">Started</th>
+                  <th className="text-left px-4 py-2">Duration</th>
+                  <th className="text-left px-4 py-2">Status</th>
+                  <th className="text-right px-4 py-2">Processed</th>
+                  <th className="text-right px-4 py-2">Failed</th>
+                  <th className="text-left px-4 py-2">Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(runsQuery.data ?? []).map((run) => (
+                  <tr key={run.id} className="border-b border-white/5 hover:bg-white/5">
+                    <td className="px-4 py-2 text-gray-500">{run.id}</td>
+                    <td className="px-4 py-2 text-gray-200">{run.jobName}</td>
+                    <td className="px-4 py-2 text-gray-400 uppercase">{run.triggeredBy}</td>
+                    <td className="px-4 py-2 text-gray-400">{formatDateTime(run.startedAt)}</td>
+                    <td className="px-4 py-2 text-gray-400">{formatDuration(run.startedAt, run.finishedAt)}</td>
+                    <td className="px-4 py-2">{getStatusDisplay(run.status)}</td>
+                    <td className="px-4 py-2 text-right text-gray-300">{run.itemsProcessed}</td>
+                    <td className={`px-4 py-2 text-right ${run.itemsFailed > 0 ? "text-yellow-400" : "text-gray-500"}`}>{run.itemsFailed}</td>
+                    <td className="px-4 py-2 text-gray-500 max-w-xs truncate" title={run.error ?? undefined}>{run.error ?? ""}</td>
+                  </tr>
+                ))}
+                {runsQuery.data?.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className="px-4 py-6 text-center text-gray-600">No runs recorded yet</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
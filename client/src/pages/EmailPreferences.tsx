@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { format } from "date-fns";
+import { trpc } from "@/lib/trpc";
+import { Logo } from "@/components/Logo";
+import { Loader2, CheckCircle, XCircle, BellOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+const headingStyle = { fontFamily: "'Bebas Neue', 'Oswald', sans-serif" };
+const monoStyle = { fontFamily: "'JetBrains Mono', monospace" };
+const buttonClass = "bg-black text-white hover:bg-gray-800 border-2 border-black rounded-none uppercase tracking-wide font-bold py-4 px-8 text-sm";
+
+/**
+ * Landing page for the pause / snooze / stop links in alert, digest and report-prompt emails.
+ * Asks for confirmation before applying, so link-prefetching mail scanners don't change anything.
+ */
+export default function EmailPreferences() {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const token = new URLSearchParams(search).get("token") ?? "";
+  const [doneMessage, setDoneMessage] = useState<string | null>(null);
+
+  const describeQuery = trpc.emailPreferences.describe.useQuery({ token }, { enabled: !!token, retry: false });
+
+  const applyMutation = trpc.emailPreferences.confirm.useMutation({
+    onSuccess: (result) => {
+      if (result.action === "pause_alert") setDoneMessage("This alert is paused. Resume it any time from your alerts.");
+      else if (result.action === "pause_digest") setDoneMessage("This digest is paused. Resume its alerts any time from your alerts.");
+      else if (result.action === "snooze_alerts" && result.snoozedUntil) {
+        setDoneMessage(`Alerts snoozed until ${format(new Date(result.snoozedUntil), "EEE MMM d, h:mm a")}.`);
+      } else setDoneMessage("You won't get post-session report emails anymore.");
+    },
+  });
+
+  const description = describeQuery.data;
+  const errorMessage = !token
+    ? "No link token provided"
+    : describeQuery.error?.message || applyMutation.error?.message || null;
+
+  let body: React.ReactNode;
+  if (errorMessage) {
+    body = (
+      <>
+        <div className="w-16 h-16 bg-red-600 flex items-center justify-center mx-auto mb-6">
+          <XCircle className="h-8 w-8 text-white" />
+        </div>
+        <h1 className="text-2xl sm:text-3xl font-black text-black uppercase tracking-tight mb-3" style={headingStyle}>
+          Link Invalid
+        </h1>
+        <p className="text-sm text-gray-600 mb-6" style={monoStyle}>
+          {errorMessage}. You can still manage your alerts from the members page.
+        </p>
+      </>
+    );
+  } else if (!description) {
+    body = (
+      <div className="w-16 h-16 bg-black flex items-center justify-center mx-auto">
+        <Loader2 className="h-8 w-8 text-white animate-spin" />
+      </div>
+    );
+  } else if (doneMessage || description.alertPaused) {
+    body = (
+      <>
+        <div className="w-16 h-16 bg-green-600 flex items-center justify-center mx-auto mb-6">
+          <CheckCircle className="h-8 w-8 text-white" />
+        </div>
+        <h1 className="text-2xl sm:text-3xl font-black text-black uppercase tracking-tight mb-3" style={headingStyle}>
+          Done
+        </h1>
+        <p className="text-sm text-gray-600 mb-6" style={monoStyle}>
+          {doneMessage ?? (description.action === "pause_digest" ? "This digest is already paused." : "This alert is already paused.")}
+        </p>
+      </>
+    );
+  } else {
+    const pending = applyMutation.isPending;
+    body = (
+      <>
+        <div className="w-16 h-16 bg-black flex items-center justify-center mx-auto mb-6">
+          <BellOff className="h-8 w-8 text-white" />
+        </div>
+        <h1 className="text-2xl sm:text-3xl font-black text-black uppercase tracking-tight mb-3" style={headingStyle}>
+          {description.action === "pause_alert" && "Pause This Alert?"}
+          {description.action === "pause_digest" && "Pause This Digest?"}
+          {description.action === "snooze_alerts" && "Snooze All Alerts"}
+          {description.action === "stop_report_prompts" && "Stop Report Emails?"}
+        </h1>
+        <p className="text-sm text-gray-600 mb-6" style={monoStyle}>
+          {description.action === "pause_alert" &&
+            `${description.alertLabel ?? "This alert"} won't send anything until you resume it.`}
+          {description.action === "pause_digest" &&
+            `${description.alertLabel ?? "This digest"} won't go out until you resume its alerts.`}
+          {description.action === "snooze_alerts" && "No swell alerts (email or SMS) for:"}
+          {description.action === "stop_report_prompts" &&
+            "No more \"How was your session?\" emails the day after you check a forecast."}
+        </p>
+        {description.action === "snooze_alerts" ? (
+          <div className="flex flex-wrap justify-center gap-2">
+            {description.snoozeDayOptions.map((days) => (
+              <Button
+                key={days}
+                disabled={pending}
+                onClick={() => applyMutation.mutate({ token, snoozeDays: days })}
+                className="bg-black text-white hover:bg-gray-800 border-2 border-black rounded-none uppercase tracking-wide font-bold py-3 px-4 text-sm"
+                style={monoStyle}
+              >
+                {days === 1 ? "1 day" : `${days} days`}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <Button disabled={pending} onClick={() => applyMutation.mutate({ token })} className={buttonClass} style={monoStyle}>
+            {pending ? <Loader2 className="h-4 w-4 animate-spin" /> : description.action === "pause_alert" ? "Pause Alert" : description.action === "pause_digest" ? "Pause Digest" : "Stop Emails"}
+          </Button>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col">
+      {/* Header */}
+      <div className="border-b-2 border-black">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 sm:py-3">
+          <div className="flex items-center justify-between">
+            <Logo
+              logoSize="h-10 sm:h-12 md:h-14"
+              textSize="text-xl sm:text-2xl md:text-3xl lg:text-4xl"
+              textColor="text-black hover:text-gray-600"
+              showLink={true}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="flex-1 flex items-center justify-center px-4 sm:px-6 lg:px-8 py-12 sm:py-16">
+        <div className="w-full max-w-md">
+          <div className="bg-white border-2 border-black p-8 sm:p-10 text-center">
+            {body}
+            {(errorMessage || doneMessage || description?.alertPaused) && (
+              <button
+                onClick={() => setLocation("/members?tab=alerts")}
+                className="text-xs text-gray-500 underline uppercase tracking-wide"
+                style={monoStyle}
+              >
+                Manage Alerts
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import { Footer } from "@/components/Footer";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 import { ReportFeed } from "@/components/ReportFeed";
 import { UserStatsWidget } from "@/components/UserStatsWidget";
 import { ReportDatePicker } from "@/components/ReportDatePicker";
@@ -18,6 +18,7 @@ import { AnnouncementsFeed } from "@/components/AnnouncementsFeed";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { TideSparkline } from "@/components/TideSparkline";
 import { formatSurfHeight } from "@/lib/forecastUtils";
+import { getCurrentPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/push";
 
 export default function Members() {
   const [, setLocation] = useLocation();
@@ -55,6 +56,9 @@ export default function Members() {
   const [minQualityScore, setMinQualityScore] = useState<number>(70);
   const [alertFrequency, setAlertFrequency] = useState<string>("once");
   const [emailEnabled, setEmailEnabled] = useState(false);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [pushBusy, setPushBusy] = useState(false);
+  const [devicePushEndpoint, setDevicePushEndpoint] = useState<string | null>(null);
   const [isSliderDragging, setIsSliderDragging] = useState(false);
   const [deletingAlertId, setDeletingAlertId] = useState<number | null>(null);
   
@@ -64,6 +68,10 @@ export default function Members() {
   const [minPeriod, setMinPeriod] = useState<number | null>(7);
   const [allowedDays, setAllowedDays] = useState<number[]>([0, 1, 2, 3, 4, 5, 6]); // 0=Sun, 6=Sat
 
+  // Backtest state (replays the form's criteria over past conditions)
+  const [backtestOpen, setBacktestOpen] = useState(false);
+  const [backtestMonths, setBacktestMonths] = useState(3);
+
   // Crowd report state
   const [crowdSpotId, setCrowdSpotId] = useState<number | null>(null);
   const [crowdLevel, setCrowdLevel] = useState<number>(3);
@@ -97,6 +105,8 @@ export default function Members() {
   const [dossierMinWaveHeight, setDossierMinWaveHeight] = useState<number>(2);
   const [dossierWindPreference, setDossierWindPreference] = useState("OFFSHORE");
   const [dossierMinQualityScore, setDossierMinQualityScore] = useState<number>(60);
+  const [apiKeyName, setApiKeyName] = useState("");
+  const [newApiKey, setNewApiKey] = useState<string | null>(null); // Only shown right after it's created
 
   // Depends on dossierHomeBreak state — must come after useState declarations
   const homeBreakSpotIdEarly = spots?.find((s) => s.name === dossierHomeBreak)?.id;
@@ -124,6 +134,7 @@ export default function Members() {
       setMinQualityScore(70);
       setAlertFrequency("once");
       setEmailEnabled(false);
+      setPushEnabled(false);
       // Reset advanced filters
       setShowAdvancedFilters(false);
       setMinWaveHeight(null);
@@ -162,6 +173,46 @@ export default function Members() {
     },
   });
 
+  const updateEmailPreferencesMutation = trpc.auth.updateEmailPreferences.useMutation({
+    onSuccess: async () => {
+      await utils.auth.me.invalidate();
+    },
+  });
+  // Keys for the REST API (/api/v1), in the profile sheet
+  const apiKeysQuery = trpc.apiKeys.list.useQuery(undefined, { enabled: !!user && isDossierOpen });
+  const createApiKeyMutation = trpc.apiKeys.create.useMutation({
+    onSuccess: async (data) => {
+      setNewApiKey(data.key);
+      setApiKeyName("");
+      await utils.apiKeys.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create API key");
+    },
+  });
+  const revokeApiKeyMutation = trpc.apiKeys.revoke.useMutation({
+    onSuccess: async () => {
+      toast.success("API key revoked");
+      await utils.apiKeys.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to revoke API key");
+    },
+  });
+
+  // Secret .ics URL for the alerts' upcoming windows; resetting it breaks the old link
+  const calendarFeedQuery = trpc.alerts.calendarFeed.useQuery(undefined, { enabled: !!user });
+  const resetCalendarFeedMutation = trpc.alerts.resetCalendarFeed.useMutation({
+    onSuccess: (data) => {
+      utils.alerts.calendarFeed.setData(undefined, data);
+    },
+  });
+  const alertsSnoozedUntil =
+    user?.alertsSnoozedUntil && new Date(user.alertsSnoozedUntil) > new Date() ? new Date(user.alertsSnoozedUntil) : null;
+  // Digest timing is per user (all digest alerts go out together), in the browser's timezone
+  const updateDigestSchedule = (schedule: { digestHour?: number; digestDayOfWeek?: number }) =>
+    updateEmailPreferencesMutation.mutate({ ...schedule, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+
   const submitCrowdMutation = trpc.crowd.submit.useMutation({
     onSuccess: () => {
       toast.success("Report submitted!");
@@ -220,6 +271,30 @@ export default function Members() {
     }
   }, [dossierStorageKey]);
 
+  // Backtests need one spot (or best spot); re-runs as the criteria change, but not mid-drag
+  const backtestSpotId = bestSpotOnly ? null : alertSpotIds.length === 1 ? alertSpotIds[0] : undefined;
+  const backtestQuery = trpc.alerts.backtest.useQuery(
+    {
+      spotId: backtestSpotId ?? null,
+      minQualityScore,
+      minWaveHeightFt: minWaveHeight ?? undefined,
+      minPeriodSec: minPeriod ?? undefined,
+      allowedDays,
+      months: backtestMonths,
+    },
+    { enabled: backtestOpen && backtestSpotId !== undefined && !isSliderDragging, staleTime: 5 * 60 * 1000 }
+  );
+
+  // Web Push: each browser / device subscribes separately; alerts with push go to all of them
+  const vapidKeyQuery = trpc.notifications.vapidPublicKey.useQuery();
+  const subscribePushMutation = trpc.notifications.subscribe.useMutation();
+  const unsubscribePushMutation = trpc.notifications.unsubscribe.useMutation();
+  const pushAvailable = isPushSupported() && !!vapidKeyQuery.data?.publicKey;
+
+  useEffect(() => {
+    getCurrentPushSubscription().then((subscription) => setDevicePushEndpoint(subscription?.endpoint ?? null));
+  }, []);
+
   // CONDITIONAL RETURNS - must come AFTER all hooks
   // Show loading state while checking auth
   if (loading) {
@@ -244,8 +319,8 @@ export default function Members() {
     e.preventDefault();
 
     // Validate that at least one notification method is enabled
-    if (!emailEnabled) {
-      toast.error("Please enable email notifications to receive alerts");
+    if (!emailEnabled && !pushEnabled) {
+      toast.error("Please enable email or push notifications to receive alerts");
       return;
     }
 
@@ -265,8 +340,9 @@ export default function Members() {
         allowedDays,
         emailEnabled,
         smsEnabled: false,
+        pushEnabled,
         hoursAdvanceNotice: daysAdvanceNotice * 24,
-        notificationFrequency: alertFrequency as "once" | "twice" | "threshold" | "realtime",
+        notificationFrequency: alertFrequency as "once" | "twice" | "threshold" | "realtime" | "daily_digest" | "weekly_digest",
       });
     } else {
       // Create an alert for each selected spot
@@ -279,8 +355,9 @@ export default function Members() {
           allowedDays,
           emailEnabled,
           smsEnabled: false,
+          pushEnabled,
           hoursAdvanceNotice: daysAdvanceNotice * 24,
-          notificationFrequency: alertFrequency as "once" | "twice" | "threshold" | "realtime",
+          notificationFrequency: alertFrequency as "once" | "twice" | "threshold" | "realtime" | "daily_digest" | "weekly_digest",
         });
       }
     }
@@ -314,6 +391,133 @@ export default function Members() {
   const labelStyles = "block text-[10px] font-semibold uppercase tracking-widest text-gray-700 mb-1.5";
   const bebasStyle = { fontFamily: "'Bebas Neue', 'Oswald', sans-serif" };
   const monoStyle = { fontFamily: "'JetBrains Mono', monospace" };
+
+  const enablePushOnThisDevice = async (): Promise<boolean> => {
+    if (!vapidKeyQuery.data?.publicKey) return false;
+    setPushBusy(true);
+    try {
+      const subscription = await subscribeToPush(vapidKeyQuery.data.publicKey);
+      await subscribePushMutation.mutateAsync(subscription);
+      setDevicePushEndpoint(subscription.endpoint);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Couldn't turn on push notifications");
+      return false;
+    } finally {
+      setPushBusy(false);
+    }
+  };
+
+  const disablePushOnThisDevice = async () => {
+    setPushBusy(true);
+    try {
+      const endpoint = await unsubscribeFromPush();
+      if (endpoint) await unsubscribePushMutation.mutateAsync({ endpoint });
+      setDevicePushEndpoint(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Couldn't turn off push notifications");
+    } finally {
+      setPushBusy(false);
+    }
+  };
+
+  const copyCalendarFeedUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Calendar link copied");
+    } catch {
+      toast.error("Couldn't copy the link");
+    }
+  };
+
+  const resetCalendarFeed = async () => {
+    const hadFeed = !!calendarFeedQuery.data?.url;
+    try {
+      const { url } = await resetCalendarFeedMutation.mutateAsync();
+      if (hadFeed) toast.success("New calendar link created; the old one no longer works");
+      else await copyCalendarFeedUrl(url);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Couldn't create a calendar link");
+    }
+  };
+
+  const renderBacktest = () => {
+    if (backtestSpotId === undefined) {
+      return (
+        <p className="mt-2 text-xs text-gray-500" style={monoStyle}>
+          Pick one spot (or Best Spot Only) to see how often it would have fired.
+        </p>
+      );
+    }
+    if (backtestQuery.isLoading || !backtestQuery.data) {
+      return <Loader2 className="mt-2 h-4 w-4 animate-spin text-gray-400" />;
+    }
+
+    const { notificationCount, notifications, ratings } = backtestQuery.data;
+    const stars = (avg: number | null) => (avg === null ? "—" : `${avg.toFixed(1)}★`);
+    return (
+      <div className="mt-2 space-y-2" style={monoStyle}>
+        <p className="text-xs text-black">
+          Would have fired <span className="font-bold">{notificationCount}</span> time{notificationCount === 1 ? "" : "s"} in the last{" "}
+          {backtestMonths} months
+        </p>
+        {(ratings.alertDays.reportCount > 0 || ratings.otherDays.reportCount > 0) && (
+          <p className="text-[10px] text-gray-500">
+            Session reports: {stars(ratings.alertDays.avgStarRating)} on those days ({ratings.alertDays.reportCount}) vs{" "}
+            {stars(ratings.otherDays.avgStarRating)} other days ({ratings.otherDays.reportCount})
+          </p>
+        )}
+        {notifications.length > 0 && (
+          <div className="max-h-40 overflow-y-auto border border-gray-200 divide-y divide-gray-100">
+            {notifications.map((n) => (
+              <div key={`${n.localDate}-${n.spotId}`} className="flex items-center justify-between px-2 py-1 text-[10px]">
+                <span className="text-black">
+                  {format(new Date(`${n.localDate}T12:00:00`), "EEE MMM d")} · {n.spotName}
+                </span>
+                <span className="text-gray-500">
+                  {formatSurfHeight(n.peakWaveHeightFt)} · {n.peakQualityScore} · {n.reportCount > 0 ? stars(n.avgStarRating) : "no reports"}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Hour (and weekday, for weekly) digests go out; saved straight to the user's preferences
+  const renderDigestSchedule = (weekly: boolean) => (
+    <div className={`grid ${weekly ? "grid-cols-2" : "grid-cols-1"} gap-1.5 mt-2`}>
+      {weekly && (
+        <div>
+          <label className={labelStyles} style={monoStyle}>Weekly digest on</label>
+          <select
+            value={user?.digestDayOfWeek ?? 4}
+            onChange={(e) => updateDigestSchedule({ digestDayOfWeek: Number(e.target.value) })}
+            disabled={updateEmailPreferencesMutation.isPending}
+            className={selectStyles}
+          >
+            {["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"].map((day, index) => (
+              <option key={day} value={index}>{day}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div>
+        <label className={labelStyles} style={monoStyle}>Digests arrive at</label>
+        <select
+          value={user?.digestHour ?? 7}
+          onChange={(e) => updateDigestSchedule({ digestHour: Number(e.target.value) })}
+          disabled={updateEmailPreferencesMutation.isPending}
+          className={selectStyles}
+        >
+          {Array.from({ length: 24 }, (_, hour) => (
+            <option key={hour} value={hour}>{format(new Date(2000, 0, 1, hour), "h a")}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
   const navigateToTab = (value: string) => {
     setActiveTab(value);
     setLocation(`/members?tab=${value}`);
@@ -937,6 +1141,84 @@ export default function Members() {
               Precision in data leads to certainty in the water.
             </p>
           </form>
+
+          <section className="border border-black/15 bg-white/60 p-4 mt-5">
+            <div className="text-[10px] uppercase tracking-widest text-gray-700 mb-3" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+              API Access
+            </div>
+            <p className="text-xs text-gray-600 mb-3" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+              Read-only forecast JSON for scripts and home automation. Send the key as <code>Authorization: Bearer</code>.{" "}
+              <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="underline">OpenAPI spec</a>
+            </p>
+            {newApiKey && (
+              <div className="mb-3 p-3 border-2 border-black bg-white">
+                <div className={labelStyles} style={{ fontFamily: "'JetBrains Mono', monospace" }}>New key - copy it now, it won't be shown again</div>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 text-xs break-all">{newApiKey}</code>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      navigator.clipboard.writeText(newApiKey).then(
+                        () => toast.success("API key copied"),
+                        () => toast.error("Couldn't copy the key")
+                      );
+                    }}
+                    className="px-2 py-1 text-[10px] font-bold uppercase text-gray-500 border-2 border-gray-200 hover:border-black hover:text-black transition-all"
+                    style={{ fontFamily: "'JetBrains Mono', monospace" }}
+                  >
+                    Copy
+                  </button>
+                </div>
+              </div>
+            )}
+            {apiKeysQuery.data && apiKeysQuery.data.length > 0 && (
+              <div className="space-y-2 mb-3">
+                {apiKeysQuery.data.map((apiKey) => (
+                  <div key={apiKey.id} className="flex items-center justify-between gap-2 text-xs" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+                    <div className={apiKey.revokedAt ? "text-gray-400 line-through" : "text-gray-900"}>
+                      <span className="font-bold">{apiKey.name}</span> <span className="text-gray-500">{apiKey.keyPrefix}…</span>
+                      <div className="text-[10px] text-gray-500">
+                        {apiKey.rateLimitPerMinute}/min · {apiKey.lastUsedAt ? `Used ${formatDistanceToNow(new Date(apiKey.lastUsedAt), { addSuffix: true })}` : "Never used"}
+                      </div>
+                    </div>
+                    {!apiKey.revokedAt && (
+                      <button
+                        type="button"
+                        onClick={() => revokeApiKeyMutation.mutate({ id: apiKey.id })}
+                        disabled={revokeApiKeyMutation.isPending}
+                        className="px-2 py-1 text-[10px] font-bold uppercase text-gray-500 border-2 border-gray-200 hover:border-black hover:text-black transition-all"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (apiKeyName.trim()) createApiKeyMutation.mutate({ name: apiKeyName.trim() });
+              }}
+              className="flex gap-2"
+            >
+              <input
+                value={apiKeyName}
+                onChange={(e) => setApiKeyName(e.target.value)}
+                maxLength={64}
+                className={selectStyles}
+                placeholder="Key name, e.g. Home Assistant"
+              />
+              <Button
+                type="submit"
+                disabled={!apiKeyName.trim() || createApiKeyMutation.isPending}
+                className="bg-black text-white hover:bg-gray-800 border border-black uppercase tracking-widest text-xs"
+                style={{ fontFamily: "'JetBrains Mono', monospace" }}
+              >
+                Create Key
+              </Button>
+            </form>
+          </section>
           </div>
         </SheetContent>
       </Sheet>
@@ -1771,6 +2053,8 @@ export default function Members() {
                       { value: "twice", label: "Twice Daily", desc: "AM + PM updates" },
                       { value: "threshold", label: "Threshold Only", desc: "When quality hits minimum" },
                       { value: "realtime", label: "Real-Time", desc: "As forecast updates" },
+                      { value: "daily_digest", label: "Daily Digest", desc: "Every swell, one email" },
+                      { value: "weekly_digest", label: "Weekly Digest", desc: "The week ahead" },
                     ].map((option) => (
                       <button
                         key={option.value}
@@ -1788,6 +2072,8 @@ export default function Members() {
                       </button>
                     ))}
                   </div>
+                  {(alertFrequency === "daily_digest" || alertFrequency === "weekly_digest") &&
+                    renderDigestSchedule(alertFrequency === "weekly_digest")}
                 </div>
 
                 {/* Section 05: How Should We Notify You */}
@@ -1796,7 +2082,7 @@ export default function Members() {
                     <span className="text-[10px] text-gray-400 font-semibold tracking-widest" style={{ fontFamily: "'JetBrains Mono', monospace" }}>05</span>
                     <h3 className="text-base font-black text-black uppercase tracking-tight" style={{ fontFamily: "'Bebas Neue', 'Oswald', sans-serif" }}>Notify Via</h3>
                   </div>
-                  <div className="grid grid-cols-2 gap-1.5">
+                  <div className="grid grid-cols-3 gap-1.5">
                     <button
                       type="button"
                       onClick={() => setEmailEnabled(!emailEnabled)}
@@ -1809,6 +2095,26 @@ export default function Members() {
                     >
                       <span className="font-bold text-xs uppercase tracking-wider" style={{ fontFamily: "'JetBrains Mono', monospace" }}>Email</span>
                     </button>
+                    <button
+                      type="button"
+                      onClick={() => (pushEnabled ? setPushEnabled(false) : void enablePushOnThisDevice().then((ok) => setPushEnabled(ok)))}
+                      disabled={!pushAvailable || pushBusy}
+                      className={`px-2 py-2 text-center transition-all ${
+                        !pushAvailable
+                          ? "border-gray-300 bg-gray-100 text-gray-400 cursor-not-allowed"
+                          : pushEnabled
+                            ? "border-black bg-black text-white"
+                            : "border-black bg-white text-black hover:bg-gray-50"
+                      }`}
+                      style={{ borderWidth: "2px", borderStyle: "solid" }}
+                    >
+                      <span className="font-bold text-xs uppercase tracking-wider" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+                        {pushBusy ? <Loader2 className="h-3 w-3 animate-spin inline" /> : "Push"}
+                      </span>
+                      {!pushAvailable && (
+                        <span className="block text-[10px] text-gray-400" style={{ fontFamily: "'JetBrains Mono', monospace" }}>Not available</span>
+                      )}
+                    </button>
                     <button
                       type="button"
                       disabled
@@ -1819,13 +2125,45 @@ export default function Members() {
                       <span className="block text-[10px] text-gray-400" style={{ fontFamily: "'JetBrains Mono', monospace" }}>Coming Soon</span>
                     </button>
                   </div>
-                  {!emailEnabled && (
+                  {!emailEnabled && !pushEnabled && (
                     <p className="mt-2 text-xs text-amber-600" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
-                      Please enable email to receive alerts
+                      Please enable email or push to receive alerts
                     </p>
                   )}
                 </div>
 
+                {/* Backtest */}
+                <div className="p-3 sm:p-4 border-b-2 border-gray-200">
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setBacktestOpen(!backtestOpen)}
+                      className="text-[10px] font-bold uppercase tracking-widest text-gray-500 hover:text-black"
+                      style={monoStyle}
+                    >
+                      {backtestOpen ? "▾" : "▸"} How often would this fire?
+                    </button>
+                    {backtestOpen && (
+                      <div className="flex gap-1">
+                        {[3, 6, 12].map((months) => (
+                          <button
+                            key={months}
+                            type="button"
+                            onClick={() => setBacktestMonths(months)}
+                            className={`px-2 py-0.5 text-[10px] font-bold border-2 ${
+                              backtestMonths === months ? "bg-black text-white border-black" : "bg-white text-black border-gray-300 hover:border-black"
+                            }`}
+                            style={monoStyle}
+                          >
+                            {months}MO
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  {backtestOpen && renderBacktest()}
+                </div>
+
                 {/* Submit Button */}
                 <div className="p-3 sm:p-4 bg-black">
                   <Button
@@ -1851,6 +2189,21 @@ export default function Members() {
                     Your Alerts {alerts && alerts.length > 0 ? `(${alerts.length})` : ""}
                   </h3>
                 </div>
+                {alertsSnoozedUntil && (
+                  <div className="flex items-center justify-between gap-2 p-3 mb-2 bg-yellow-50 border-2 border-yellow-400">
+                    <p className="text-xs font-bold uppercase text-black" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+                      All alerts snoozed until {format(alertsSnoozedUntil, "EEE MMM d, h:mm a")}
+                    </p>
+                    <button
+                      onClick={() => updateEmailPreferencesMutation.mutate({ snoozeAlertsDays: null })}
+                      disabled={updateEmailPreferencesMutation.isPending}
+                      className="px-2 py-1 text-xs font-bold uppercase border-2 border-black bg-white hover:bg-black hover:text-white transition-all"
+                      style={{ fontFamily: "'JetBrains Mono', monospace" }}
+                    >
+                      Resume
+                    </button>
+                  </div>
+                )}
                 {alerts && alerts.length > 0 ? (
                   <div className="space-y-2">
                     {alerts.map((alert) => {
@@ -1860,11 +2213,14 @@ export default function Members() {
                         threshold: "Threshold Only",
                         realtime: "Real-Time",
                         immediate: "Immediate",
+                        daily_digest: "Daily Digest",
+                        weekly_digest: "Weekly Digest",
                       }[alert.notificationFrequency || "once"] || alert.notificationFrequency;
                       
                       const notificationMethods = [];
                       if (alert.emailEnabled) notificationMethods.push("Email");
                       if (alert.smsEnabled) notificationMethods.push("SMS");
+                      if (alert.pushEnabled) notificationMethods.push("Push");
                       
                       return (
                         <div
@@ -1874,6 +2230,9 @@ export default function Members() {
                           <div className="min-w-0 flex-1">
                             <p className="font-bold text-sm uppercase" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
                               {alert.spotId ? spots?.find(s => s.id === alert.spotId)?.name : "Best spot only"}
+                              {alert.pausedAt && (
+                                <span className="ml-2 px-1.5 py-0.5 text-[10px] bg-gray-200 text-gray-600">Paused</span>
+                              )}
                             </p>
                             <p className="text-xs text-gray-500 mt-0.5" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
                               {Math.round((alert.hoursAdvanceNotice || 24) / 24)} day window · {alert.minQualityScore ?? "Any"}+ quality
@@ -1882,6 +2241,14 @@ export default function Members() {
                               {frequencyLabel} · {notificationMethods.join(" + ") || "No notifications"} · Created {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
                             </p>
                           </div>
+                          <button
+                            onClick={() => updateAlertMutation.mutate({ alertId: alert.id, paused: !alert.pausedAt })}
+                            disabled={updateAlertMutation.isPending}
+                            className="px-2 py-1 mr-1 text-[10px] font-bold uppercase text-gray-500 border-2 border-gray-200 hover:border-black hover:text-black transition-all"
+                            style={{ fontFamily: "'JetBrains Mono', monospace" }}
+                          >
+                            {alert.pausedAt ? "Resume" : "Pause"}
+                          </button>
                           <button
                             onClick={() => {
                               setDeletingAlertId(alert.id);
@@ -1907,6 +2274,79 @@ export default function Members() {
                     </p>
                   </div>
                 )}
+                {pushAvailable && alerts?.some((alert) => alert.pushEnabled) && (
+                  <div className="flex items-center justify-between gap-2 mt-3">
+                    <span className="text-xs text-gray-500" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+                      Push alerts on this device: {devicePushEndpoint ? "On" : "Off"}
+                    </span>
+                    <button
+                      onClick={() => void (devicePushEndpoint ? disablePushOnThisDevice() : enablePushOnThisDevice())}
+                      disabled={pushBusy}
+                      className="px-2 py-1 text-[10px] font-bold uppercase text-gray-500 border-2 border-gray-200 hover:border-black hover:text-black transition-all"
+                      style={{ fontFamily: "'JetBrains Mono', monospace" }}
+                    >
+                      {devicePushEndpoint ? "Turn Off" : "Turn On"}
+                    </button>
+                  </div>
+                )}
+                {alerts && alerts.length > 0 && (
+                  <div className="flex items-center justify-between gap-2 mt-3">
+                    <span className="text-xs text-gray-500" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+                      Surf windows in your calendar
+                    </span>
+                    <div className="flex items-center gap-1">
+                      {calendarFeedQuery.data?.url ? (
+                        <>
+                          <a
+                            href={calendarFeedQuery.data.url.replace(/^https?:/, "webcal:")}
+                            className="px-2 py-1 text-[10px] font-bold uppercase text-gray-500 border-2 border-gray-200 hover:border-black hover:text-black transition-all"
+                            style={{ fontFamily: "'JetBrains Mono', monospace" }}
+                          >
+                            Subscribe
+                          </a>
+                          <button
+                            onClick={() => void copyCalendarFeedUrl(calendarFeedQuery.data!.url!)}
+                            className="px-2 py-1 text-[10px] font-bold uppercase text-gray-500 border-2 border-gray-200 hover:border-black hover:text-black transition-all"
+                            style={{ fontFamily: "'JetBrains Mono', monospace" }}
+                          >
+                            Copy Link
+                          </button>
+                          <button
+                            onClick={() => void resetCalendarFeed()}
+                            disabled={resetCalendarFeedMutation.isPending}
+                            className="px-2 py-1 text-[10px] font-bold uppercase text-gray-500 border-2 border-gray-200 hover:border-black hover:text-black transition-all"
+                            style={{ fontFamily: "'JetBrains Mono', monospace" }}
+                          >
+                            Reset
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => void resetCalendarFeed()}
+                          disabled={resetCalendarFeedMutation.isPending || calendarFeedQuery.isLoading}
+                          className="px-2 py-1 text-[10px] font-bold uppercase text-gray-500 border-2 border-gray-200 hover:border-black hover:text-black transition-all"
+                          style={{ fontFamily: "'JetBrains Mono', monospace" }}
+                        >
+                          Get Calendar Link
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+                {alerts?.some((alert) => alert.notificationFrequency === "daily_digest" || alert.notificationFrequency === "weekly_digest") &&
+                  renderDigestSchedule(alerts.some((alert) => alert.notificationFrequency === "weekly_digest"))}
+                <label className="flex items-center gap-2 mt-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={user?.reportPromptsOptOut !== 1}
+                    onChange={(e) => updateEmailPreferencesMutation.mutate({ reportPrompts: e.target.checked })}
+                    disabled={updateEmailPreferencesMutation.isPending}
+                    className="h-4 w-4 accent-black"
+                  />
+                  <span className="text-xs text-gray-500" style={{ fontFamily: "'JetBrains Mono', monospace" }}>
+                    Email me a "How was your session?" prompt the day after I check a forecast
+                  </span>
+                </label>
               </div>
             </div>
           </TabsContent>
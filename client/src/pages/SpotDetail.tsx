@@ -37,7 +37,7 @@ import {
   Info,
 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/components/ui/tooltip";
-import { Link, useParams } from "wouter";
+import { Link, useParams, useSearch } from "wouter";
 import { toast } from "sonner";
 import { useState, useMemo, useEffect, useRef, Fragment } from "react";
 import { ChevronDown, ChevronUp, Bell } from "lucide-react";
@@ -216,6 +216,7 @@ export default function SpotDetail() {
 
   const { user, isAuthenticated } = useAuth();
   const [, setLocation] = useLocation();
+  const search = useSearch();
   const [crowdLevel, setCrowdLevel] = useState(3);
   const [showCrowdReport, setShowCrowdReport] = useState(false);
   const [reportDate, setReportDate] = useState<Date>(new Date());
@@ -413,6 +414,26 @@ export default function SpotDetail() {
     return sortedDays;
   }, [timelineQuery.data?.timeline]);
 
+  // Alert links (push / email) carry ?at=<swell start>; open that day once the timeline has it
+  const alertDayKey = useMemo(() => {
+    const at = new URLSearchParams(search).get("at");
+    const date = at ? new Date(at) : null;
+    if (!date || isNaN(date.getTime())) return null;
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }, [search]);
+  const alertDayOpenedRef = useRef(false);
+
+  useEffect(() => {
+    if (!alertDayKey || alertDayOpenedRef.current) return;
+    if (!groupedTimeline.some(([dayKey]) => dayKey === alertDayKey)) return;
+    alertDayOpenedRef.current = true;
+    setForecastView("timeline");
+    setExpandedDays((prev) => new Set(prev).add(alertDayKey));
+    requestAnimationFrame(() => {
+      document.getElementById(`day-${alertDayKey}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+    });
+  }, [alertDayKey, groupedTimeline]);
+
   const refreshMutation = trpc.forecasts.refresh.useMutation({
     onSuccess: () => {
       toast.success("Forecast refreshed!");
@@ -2446,6 +2467,7 @@ export default function SpotDetail() {
                         const dayCard = (
                           <div
                             key={dayKey}
+                            id={`day-${dayKey}`}
                             className={`${showSurfableHoursCallout ? 'bg-white' : getCardBackgroundColor(displayScore)} border-l-4 ${getAccentColor(displayScore)} transition-all`}
                           >
                             {/* Day Summary Card */}
@@ -0,0 +1,46 @@
+-- Create spot_profiles table (per-spot breaking-height and scoring parameters)
+CREATE TABLE IF NOT EXISTS `spot_profiles` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `spotId` INT NOT NULL UNIQUE,
+  `profileKey` VARCHAR(64) NOT NULL UNIQUE,
+  `swellTargetDeg` INT NOT NULL,
+  `swellToleranceDeg` INT NOT NULL,
+  `minPeriodS` INT NOT NULL,
+  `multiplier` DECIMAL(4,2) NOT NULL,
+  `baseMultiplier` DECIMAL(4,2) NOT NULL DEFAULT 1.00,
+  `groundswellBonus` DECIMAL(4,2) NOT NULL DEFAULT 0.10,
+  `groundswellMinPeriodS` INT NOT NULL DEFAULT 10,
+  `smallSwellMultiplier` DECIMAL(4,2) NOT NULL DEFAULT 0.80,
+  `risingTideBoost` TINYINT NOT NULL DEFAULT 0,
+  `highTideMultiplier` DECIMAL(4,2) NOT NULL DEFAULT 1.00,
+  `buoyTideAdjustment` TINYINT NOT NULL DEFAULT 0,
+  `offshoreWindBearingDeg` INT NOT NULL DEFAULT 0,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (`spotId`) REFERENCES `surf_spots`(`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+--> statement-breakpoint
+
+-- Seed profiles for the original four spots (values previously hardcoded in spotProfiles.ts)
+INSERT IGNORE INTO `spot_profiles`
+  (`spotId`, `profileKey`, `swellTargetDeg`, `swellToleranceDeg`, `minPeriodS`, `multiplier`, `baseMultiplier`, `risingTideBoost`, `highTideMultiplier`, `buoyTideAdjustment`, `offshoreWindBearingDeg`)
+SELECT `id`, 'lido', 145, 35, 6, 1.50, 1.10, 1, 0.90, 1, 0 FROM `surf_spots` WHERE `name` = 'Lido Beach' ORDER BY `createdAt` DESC LIMIT 1;
+
+--> statement-breakpoint
+
+INSERT IGNORE INTO `spot_profiles`
+  (`spotId`, `profileKey`, `swellTargetDeg`, `swellToleranceDeg`, `minPeriodS`, `multiplier`, `baseMultiplier`, `risingTideBoost`, `highTideMultiplier`, `buoyTideAdjustment`, `offshoreWindBearingDeg`)
+SELECT `id`, 'long-beach', 135, 45, 5, 1.30, 1.05, 1, 0.80, 1, 0 FROM `surf_spots` WHERE `name` = 'Long Beach' ORDER BY `createdAt` DESC LIMIT 1;
+
+--> statement-breakpoint
+
+INSERT IGNORE INTO `spot_profiles`
+  (`spotId`, `profileKey`, `swellTargetDeg`, `swellToleranceDeg`, `minPeriodS`, `multiplier`, `baseMultiplier`, `risingTideBoost`, `highTideMultiplier`, `buoyTideAdjustment`, `offshoreWindBearingDeg`)
+SELECT `id`, 'rockaway', 145, 35, 5, 1.10, 1.10, 1, 1.00, 0, 0 FROM `surf_spots` WHERE `name` = 'Rockaway Beach' ORDER BY `createdAt` DESC LIMIT 1;
+
+--> statement-breakpoint
+
+INSERT IGNORE INTO `spot_profiles`
+  (`spotId`, `profileKey`, `swellTargetDeg`, `swellToleranceDeg`, `minPeriodS`, `multiplier`, `baseMultiplier`, `risingTideBoost`, `highTideMultiplier`, `buoyTideAdjustment`, `offshoreWindBearingDeg`)
+SELECT `id`, 'montauk', 135, 55, 6, 1.20, 1.15, 0, 1.00, 0, 340 FROM `surf_spots` WHERE `name` = 'Montauk' ORDER BY `createdAt` DESC LIMIT 1;
@@ -0,0 +1,23 @@
+-- Create job_runs table (history of scheduled and manual background job executions)
+CREATE TABLE IF NOT EXISTS `job_runs` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `jobName` VARCHAR(64) NOT NULL,
+  `triggeredBy` ENUM('schedule', 'manual') NOT NULL DEFAULT 'schedule',
+  `status` ENUM('running', 'success', 'failed') NOT NULL DEFAULT 'running',
+  `startedAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `finishedAt` TIMESTAMP NULL,
+  `itemsProcessed` INT NOT NULL DEFAULT 0,
+  `itemsFailed` INT NOT NULL DEFAULT 0,
+  `error` TEXT NULL,
+  `instanceId` VARCHAR(128) NOT NULL,
+  INDEX `idx_job_runs_job_started` (`jobName`, `startedAt`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+--> statement-breakpoint
+
+-- Create job_locks table (DB lease so only one instance runs each job at a time)
+CREATE TABLE IF NOT EXISTS `job_locks` (
+  `jobName` VARCHAR(64) PRIMARY KEY,
+  `lockedBy` VARCHAR(128) NULL,
+  `lockedUntil` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
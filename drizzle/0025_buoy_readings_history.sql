@@ -0,0 +1,33 @@
+-- Add met + spectral columns to buoy_readings for historical NDBC ingestion
+-- (.txt provides GST/APD, .spec provides the swell / wind wave separation)
+ALTER TABLE `buoy_readings`
+ADD COLUMN `windGustCmps` INT NULL,
+ADD COLUMN `averagePeriodDs` INT NULL,
+ADD COLUMN `swellHeightCm` INT NULL,
+ADD COLUMN `swellPeriodDs` INT NULL,
+ADD COLUMN `swellDirDeg` INT NULL,
+ADD COLUMN `windWaveHeightCm` INT NULL,
+ADD COLUMN `windWavePeriodDs` INT NULL,
+ADD COLUMN `windWaveDirDeg` INT NULL,
+ADD COLUMN `steepness` VARCHAR(16) NULL;
+
+--> statement-breakpoint
+
+-- Clean up existing duplicates before adding unique constraint
+-- Strategy: Keep the FIRST reading per buoy/timestamp (lowest id)
+DELETE br1 FROM buoy_readings br1
+INNER JOIN (
+  SELECT buoyId, `timestamp`, MIN(id) as keepId
+  FROM buoy_readings
+  GROUP BY buoyId, `timestamp`
+  HAVING COUNT(*) > 1
+) br2
+ON br1.buoyId = br2.buoyId
+AND br1.`timestamp` = br2.`timestamp`
+AND br1.id != br2.keepId;
+
+--> statement-breakpoint
+
+-- One row per buoy observation so re-ingesting the 45-day window upserts in place
+ALTER TABLE `buoy_readings`
+ADD UNIQUE KEY `unique_buoy_timestamp` (`buoyId`, `timestamp`);
@@ -0,0 +1,19 @@
+-- Create forecast_verifications table (model forecast error against later buoy observations)
+CREATE TABLE IF NOT EXISTS `forecast_verifications` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `spotId` INT NOT NULL,
+  `model` VARCHAR(16) NOT NULL,
+  `modelRunTime` TIMESTAMP NOT NULL,
+  `forecastTimestamp` TIMESTAMP NOT NULL,
+  `leadHours` INT NOT NULL,
+  `forecastWaveHeightFt` DECIMAL(4,1) NOT NULL,
+  `buoyId` VARCHAR(16) NOT NULL,
+  `observedWaveHeightFt` DECIMAL(4,1) NULL,
+  `observedAt` TIMESTAMP NULL,
+  `errorFt` DECIMAL(5,2) NULL,
+  `verifiedAt` TIMESTAMP NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY `unique_fv_run_hour` (`spotId`, `model`, `modelRunTime`, `forecastTimestamp`),
+  INDEX `idx_fv_spot_verified` (`spotId`, `verifiedAt`),
+  INDEX `idx_fv_forecast_timestamp` (`forecastTimestamp`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
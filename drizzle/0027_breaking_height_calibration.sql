@@ -0,0 +1,25 @@
+-- Create breaking_height_calibrations table (versions of the surf-report-fitted correction table)
+CREATE TABLE IF NOT EXISTS `breaking_height_calibrations` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `isActive` INT NOT NULL DEFAULT 0,
+  `samplesUsed` INT NOT NULL DEFAULT 0,
+  `samplesRejected` INT NOT NULL DEFAULT 0,
+  `minSamples` INT NOT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+--> statement-breakpoint
+
+-- Create breaking_height_corrections table (per spot + swell period band factors)
+CREATE TABLE IF NOT EXISTS `breaking_height_corrections` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `calibrationId` INT NOT NULL,
+  `spotId` INT NOT NULL,
+  `periodBand` VARCHAR(16) NOT NULL,
+  `factor` DECIMAL(5,3) NOT NULL,
+  `sampleCount` INT NOT NULL,
+  `rejectedCount` INT NOT NULL DEFAULT 0,
+  `meanDeltaFt` DECIMAL(4,1) NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY `unique_calibration_spot_band` (`calibrationId`, `spotId`, `periodBand`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,11 @@
+-- Create tide_predictions table (NOAA CO-OPS predictions cached per station, 6-minute curve + hi/lo events)
+CREATE TABLE IF NOT EXISTS `tide_predictions` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `stationId` VARCHAR(16) NOT NULL,
+  `time` TIMESTAMP NOT NULL,
+  `heightFt` DECIMAL(5,2) NOT NULL,
+  `resolution` VARCHAR(8) NOT NULL,
+  `type` VARCHAR(1) NULL,
+  `fetchedAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY `unique_station_resolution_time` (`stationId`, `resolution`, `time`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
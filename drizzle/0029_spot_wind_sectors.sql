@@ -0,0 +1,19 @@
+-- Per-spot shoreline orientation and wind sector table (replaces offshoreWindBearingDeg)
+ALTER TABLE `spot_profiles` ADD COLUMN `shorelineNormalDeg` INT NOT NULL DEFAULT 180 AFTER `buoyTideAdjustment`;
+
+--> statement-breakpoint
+
+ALTER TABLE `spot_profiles` ADD COLUMN `windSectors` TEXT NULL AFTER `shorelineNormalDeg`;
+
+--> statement-breakpoint
+
+-- Backfill from the old offshore bearing; Rockaway's jetties shelter W/WNW winds.
+-- References offshoreWindBearingDeg, so it only runs before the column is dropped below.
+UPDATE `spot_profiles`
+SET
+  `shorelineNormalDeg` = MOD(`offshoreWindBearingDeg` + 180, 360),
+  `windSectors` = CASE WHEN `profileKey` = 'rockaway' THEN '[{"tier":"solid_offshore","startDeg":21},{"tier":"okay_offshore","startDeg":35},{"tier":"bad_side_offshore","startDeg":51},{"tier":"poor_side_shore","startDeg":71},{"tier":"onshore","startDeg":111},{"tier":"sheltered_side_shore","startDeg":260},{"tier":"sheltered_side_offshore","startDeg":290},{"tier":"solid_offshore","startDeg":310},{"tier":"premium_offshore","startDeg":330}]' ELSE `windSectors` END;
+
+--> statement-breakpoint
+
+ALTER TABLE `spot_profiles` DROP COLUMN `offshoreWindBearingDeg`;
@@ -0,0 +1,46 @@
+-- Create swell_events table (swells tracked across forecast model runs, with the observed buoy peak)
+CREATE TABLE IF NOT EXISTS `swell_events` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `spotId` INT NOT NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'upcoming',
+  `label` VARCHAR(64) NOT NULL,
+  `directionDeg` INT NOT NULL,
+  `periodS` INT NOT NULL,
+  `startTime` TIMESTAMP NOT NULL,
+  `peakTime` TIMESTAMP NOT NULL,
+  `endTime` TIMESTAMP NOT NULL,
+  `peakHeightFt` DECIMAL(4,1) NOT NULL,
+  `peakPeriodS` INT NOT NULL,
+  `peakBreakingHeightFt` DECIMAL(4,1) NULL,
+  `firstRunTime` TIMESTAMP NOT NULL,
+  `latestRunTime` TIMESTAMP NOT NULL,
+  `revisionCount` INT NOT NULL DEFAULT 1,
+  `buoyId` VARCHAR(16) NOT NULL,
+  `observedPeakHeightFt` DECIMAL(4,1) NULL,
+  `observedPeakPeriodS` DECIMAL(4,1) NULL,
+  `observedPeakDirectionDeg` INT NULL,
+  `observedPeakAt` TIMESTAMP NULL,
+  `observedAt` TIMESTAMP NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  INDEX `idx_se_spot_status` (`spotId`, `status`),
+  INDEX `idx_se_end_time` (`endTime`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+--> statement-breakpoint
+
+-- Create swell_event_revisions table (each model run's prediction for an event)
+CREATE TABLE IF NOT EXISTS `swell_event_revisions` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `eventId` INT NOT NULL,
+  `modelRunTime` TIMESTAMP NOT NULL,
+  `startTime` TIMESTAMP NOT NULL,
+  `peakTime` TIMESTAMP NOT NULL,
+  `endTime` TIMESTAMP NOT NULL,
+  `peakHeightFt` DECIMAL(4,1) NOT NULL,
+  `peakPeriodS` INT NOT NULL,
+  `peakBreakingHeightFt` DECIMAL(4,1) NULL,
+  `directionDeg` INT NOT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY `unique_ser_event_run` (`eventId`, `modelRunTime`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
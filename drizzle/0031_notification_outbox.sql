@@ -0,0 +1,25 @@
+-- Create notification_outbox table (queued email/SMS with retry and delivery status)
+CREATE TABLE IF NOT EXISTS `notification_outbox` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `channel` VARCHAR(16) NOT NULL,
+  `kind` VARCHAR(32) NOT NULL,
+  `refId` INT NULL,
+  `userId` INT NULL,
+  `recipient` VARCHAR(320) NOT NULL,
+  `subject` VARCHAR(255) NULL,
+  `body` TEXT NOT NULL,
+  `html` TEXT NULL,
+  `dedupeKey` VARCHAR(128) NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'pending',
+  `attempts` INT NOT NULL DEFAULT 0,
+  `maxAttempts` INT NOT NULL DEFAULT 5,
+  `nextAttemptAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `lastError` VARCHAR(512) NULL,
+  `providerMessageId` VARCHAR(128) NULL,
+  `sentAt` TIMESTAMP NULL,
+  `failedAt` TIMESTAMP NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `unique_outbox_dedupe_key` (`dedupeKey`),
+  INDEX `idx_outbox_status_next_attempt` (`status`, `nextAttemptAt`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,12 @@
+-- SMS delivery status reported by the provider's status webhook
+ALTER TABLE `swell_alert_logs`
+ADD COLUMN `smsStatus` VARCHAR(16) NULL AFTER `smsSentAt`,
+ADD COLUMN `smsDeliveredAt` TIMESTAMP NULL AFTER `smsStatus`;
+
+--> statement-breakpoint
+
+ALTER TABLE `notification_outbox`
+ADD COLUMN `provider` VARCHAR(16) NULL AFTER `lastError`,
+ADD COLUMN `deliveryStatus` VARCHAR(16) NULL AFTER `providerMessageId`,
+ADD COLUMN `deliveredAt` TIMESTAMP NULL AFTER `deliveryStatus`,
+ADD INDEX `idx_outbox_provider_message` (`providerMessageId`);
@@ -0,0 +1,13 @@
+-- Email preference links: pause one alert, snooze all alerts, opt out of report prompts
+ALTER TABLE `swell_alerts` ADD COLUMN `pausedAt` TIMESTAMP NULL AFTER `isActive`;
+
+--> statement-breakpoint
+
+ALTER TABLE `users`
+ADD COLUMN `alertsSnoozedUntil` TIMESTAMP NULL AFTER `smsOptIn`,
+ADD COLUMN `reportPromptsOptOut` INT NOT NULL DEFAULT 0 AFTER `alertsSnoozedUntil`;
+
+--> statement-breakpoint
+
+-- Extra email headers (List-Unsubscribe) as JSON
+ALTER TABLE `notification_outbox` ADD COLUMN `headers` TEXT NULL AFTER `html`;
@@ -0,0 +1,26 @@
+-- Daily / weekly swell digests: when each user wants them, and which swells each one included
+ALTER TABLE `users`
+ADD COLUMN `digestHour` INT NOT NULL DEFAULT 7 AFTER `reportPromptsOptOut`,
+ADD COLUMN `digestDayOfWeek` INT NOT NULL DEFAULT 4 AFTER `digestHour`,
+ADD COLUMN `timezone` VARCHAR(64) NOT NULL DEFAULT 'America/New_York' AFTER `digestDayOfWeek`;
+
+--> statement-breakpoint
+
+CREATE TABLE IF NOT EXISTS `swell_digests` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `frequency` VARCHAR(16) NOT NULL,
+  `localDate` VARCHAR(10) NOT NULL,
+  `swellCount` INT NOT NULL DEFAULT 0,
+  `emailSent` INT NOT NULL DEFAULT 0,
+  `emailSentAt` TIMESTAMP NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY `unique_swell_digest_user_date` (`userId`, `frequency`, `localDate`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+--> statement-breakpoint
+
+-- Swells included in a digest are logged like any other alert, with the digest they went out in
+ALTER TABLE `swell_alert_logs`
+ADD COLUMN `digestId` INT NULL AFTER `avgPeriodSec`,
+ADD INDEX `idx_swell_alert_logs_user_spot` (`userId`, `spotId`, `swellStartTime`);
@@ -0,0 +1,14 @@
+-- Web Push subscriptions (one per browser / device)
+CREATE TABLE IF NOT EXISTS `push_subscriptions` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `endpoint` VARCHAR(512) NOT NULL,
+  `p256dh` VARCHAR(128) NOT NULL,
+  `auth` VARCHAR(64) NOT NULL,
+  `userAgent` VARCHAR(255) NULL,
+  `lastSuccessAt` TIMESTAMP NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `unique_push_subscription_endpoint` (`endpoint`),
+  INDEX `idx_push_subscriptions_user` (`userId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,3 @@
+-- Compound alert criteria as a JSON rule expression; NULL keeps using the criteria columns
+ALTER TABLE `swell_alerts`
+ADD COLUMN `rule` TEXT NULL AFTER `allowedDays`;
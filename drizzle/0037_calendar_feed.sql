@@ -0,0 +1,4 @@
+-- Secret token for a user's iCalendar feed of upcoming surf windows (/calendar/:token.ics); NULL until requested
+ALTER TABLE `users`
+ADD COLUMN `calendarToken` VARCHAR(64) NULL AFTER `timezone`,
+ADD UNIQUE INDEX `users_calendarToken_unique` (`calendarToken`);
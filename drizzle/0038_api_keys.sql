@@ -0,0 +1,14 @@
+-- API keys for the public REST API (/api/v1); only a SHA-256 of each key is stored
+CREATE TABLE IF NOT EXISTS `api_keys` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `name` VARCHAR(64) NOT NULL,
+  `keyPrefix` VARCHAR(16) NOT NULL,
+  `keyHash` VARCHAR(64) NOT NULL,
+  `rateLimitPerMinute` INT NOT NULL DEFAULT 60,
+  `lastUsedAt` TIMESTAMP NULL,
+  `revokedAt` TIMESTAMP NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY `unique_api_key_hash` (`keyHash`),
+  INDEX `idx_api_keys_user` (`userId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,24 @@
+-- Shared rate limit counters (RATE_LIMIT_STORE=mysql), one row per key and fixed window
+CREATE TABLE IF NOT EXISTS `rate_limit_buckets` (
+  `bucketKey` VARCHAR(191) PRIMARY KEY,
+  `hits` INT NOT NULL DEFAULT 0,
+  `expiresAt` TIMESTAMP NOT NULL,
+  INDEX `idx_rate_limit_buckets_expires` (`expiresAt`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+--> statement-breakpoint
+
+-- Who triggered forecast refreshes and admin data operations
+CREATE TABLE IF NOT EXISTS `audit_log` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `action` VARCHAR(64) NOT NULL,
+  `userId` INT NULL,
+  `ip` VARCHAR(45) NULL,
+  `input` TEXT NULL,
+  `status` ENUM('success', 'failed') NOT NULL,
+  `error` TEXT NULL,
+  `durationMs` INT NOT NULL DEFAULT 0,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  INDEX `idx_audit_log_action_created` (`action`, `createdAt`),
+  INDEX `idx_audit_log_user` (`userId`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,23 @@
+-- Keep every forecast run: forecast_points becomes an append-only archive keyed by
+-- (spotId, modelRunTime, source, forecastTimestamp). Old runs are compacted and expired by the
+-- forecast-archive job instead of being deleted on insert.
+--
+-- The primary key leads with the run, and every unique key includes modelRunTime, so the table
+-- can later be partitioned by RANGE (UNIX_TIMESTAMP(modelRunTime)) without another key change.
+
+-- Drop duplicate rows for the same run and hour (keep the newest insert) so the new key can be added
+DELETE older FROM `forecast_points` older
+JOIN `forecast_points` newer
+  ON newer.`spotId` = older.`spotId`
+  AND newer.`modelRunTime` = older.`modelRunTime`
+  AND newer.`source` = older.`source`
+  AND newer.`forecastTimestamp` = older.`forecastTimestamp`
+  AND newer.`id` > older.`id`;
+
+--> statement-breakpoint
+
+ALTER TABLE `forecast_points`
+DROP PRIMARY KEY,
+ADD PRIMARY KEY (`spotId`, `modelRunTime`, `source`, `forecastTimestamp`),
+ADD INDEX `idx_fp_id` (`id`),
+ADD INDEX `idx_fp_spot_forecast_time` (`spotId`, `forecastTimestamp`);
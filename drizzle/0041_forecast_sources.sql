@@ -0,0 +1,6 @@
+-- One forecast_points run per source: Open-Meteo's default blend ('ww3'), its ECMWF WAM and
+-- GFS-Wave models ('ecmwf_wam', 'gfs_wave') and Stormglass ECMWF ('stormglass'), each with full
+-- swell, wind-wave, wind and temperature columns. See server/services/forecastSources.ts.
+
+ALTER TABLE `forecast_points`
+MODIFY COLUMN `source` enum('ww3','gfs','hrrr','openmeteo','ecmwf_wam','gfs_wave','stormglass') NOT NULL DEFAULT 'ww3';
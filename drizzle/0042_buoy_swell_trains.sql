@@ -0,0 +1,5 @@
+-- Swell trains partitioned from each reading's raw NDBC spectrum (.data_spec energy density with
+-- .swdir / .swr1 / .swr2 directions), stored as a JSON array of up to four trains with height,
+-- peak period and mean direction. See server/layers/environmental/clients/ndbcSpectral.ts.
+
+ALTER TABLE `buoy_readings` ADD COLUMN `swellTrains` TEXT NULL AFTER `steepness`;
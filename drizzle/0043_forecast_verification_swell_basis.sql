@@ -0,0 +1,25 @@
+-- Forecast verification now compares swell with swell: forecast_points.waveHeightFt (primary swell
+-- height) against the buoy's spectral swell height (buoy_readings.swellHeightCm, NDBC SwH) instead
+-- of total WVHT. Snapshots of Stormglass fetches are taken once, from the "stormglass" forecast run.
+--
+-- `basis` records what each row was verified against. Rows from before this migration get NULL and
+-- are rebased exactly once below; the column then becomes NOT NULL DEFAULT 'swh', so re-running
+-- this file on boot matches no rows and leaves verified history alone.
+
+ALTER TABLE `forecast_verifications` ADD COLUMN `basis` VARCHAR(8) NULL AFTER `errorFt`;
+
+--> statement-breakpoint
+
+-- Drop the duplicate Stormglass snapshots scored on total wave height
+DELETE FROM `forecast_verifications` WHERE `basis` IS NULL AND `model` = 'ecmwf';
+
+--> statement-breakpoint
+
+-- Re-verify the rest against SwH; snapshots older than the 7-day give-up window are then expired by the job
+UPDATE `forecast_verifications`
+SET `observedWaveHeightFt` = NULL, `observedAt` = NULL, `errorFt` = NULL, `verifiedAt` = NULL, `basis` = 'swh'
+WHERE `basis` IS NULL;
+
+--> statement-breakpoint
+
+ALTER TABLE `forecast_verifications` MODIFY COLUMN `basis` VARCHAR(8) NOT NULL DEFAULT 'swh';
@@ -1,4 +1,4 @@
-import { decimal, index, int, mysqlEnum, mysqlTable, timestamp, unique, varchar } from "drizzle-orm/mysql-core";
+import { decimal, index, int, mysqlEnum, mysqlTable, primaryKey, text, timestamp, unique, varchar } from "drizzle-orm/mysql-core";
 
 // Surf Spots Table
 export const surfSpots = mysqlTable("surf_spots", {
@@ -17,6 +17,34 @@ export const surfSpots = mysqlTable("surf_spots", {
 export type SurfSpot = typeof surfSpots.$inferSelect;
 export type InsertSurfSpot = typeof surfSpots.$inferInsert;
 
+// Spot Profiles Table (per-spot breaking-height and scoring parameters)
+export const spotProfiles = mysqlTable("spot_profiles", {
+  id: int("id").autoincrement().primaryKey(),
+  spotId: int("spotId").notNull().unique(), // FK to surf_spots.id
+  profileKey: varchar("profileKey", { length: 64 }).notNull().unique(), // e.g. "lido", "gilgo"
+  swellTargetDeg: int("swellTargetDeg").notNull(), // ideal swell direction in degrees
+  swellToleranceDeg: int("swellToleranceDeg").notNull(), // acceptable deviation from target
+  minPeriodS: int("minPeriodS").notNull(), // minimum usable period (seconds)
+  multiplier: decimal("multiplier", { precision: 4, scale: 2 }).notNull(), // fixed multiplier (quality scoring)
+  // Multiplier tiers used by calculateSpotMultiplier
+  baseMultiplier: decimal("baseMultiplier", { precision: 4, scale: 2 }).notNull().default("1.00"),
+  groundswellBonus: decimal("groundswellBonus", { precision: 4, scale: 2 }).notNull().default("0.10"),
+  groundswellMinPeriodS: int("groundswellMinPeriodS").notNull().default(10), // bonus applies above this period
+  smallSwellMultiplier: decimal("smallSwellMultiplier", { precision: 4, scale: 2 }).notNull().default("0.80"), // small wind swell damping
+  // Tide rules used by getTideMultiplier
+  risingTideBoost: int("risingTideBoost").notNull().default(0), // 1 = 1.2x on rising 1-2.1ft tide
+  highTideMultiplier: decimal("highTideMultiplier", { precision: 4, scale: 2 }).notNull().default("1.00"), // applied above 3.2ft
+  buoyTideAdjustment: int("buoyTideAdjustment").notNull().default(0), // 1 = apply tide multiplier to buoy-derived heights
+  // Wind sectors (see server/utils/windSectors.ts)
+  shorelineNormalDeg: int("shorelineNormalDeg").notNull().default(180), // direction the beach faces; dead offshore = +180°
+  windSectors: text("windSectors"), // JSON WindSector[] relative to dead offshore, null = default table
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type SpotProfileRow = typeof spotProfiles.$inferSelect;
+export type InsertSpotProfileRow = typeof spotProfiles.$inferInsert;
+
 // Buoy Readings Table (raw data from NDBC)
 export const buoyReadings = mysqlTable("buoy_readings", {
   id: int("id").autoincrement().primaryKey(),
@@ -27,15 +55,51 @@ export const buoyReadings = mysqlTable("buoy_readings", {
   swellDirectionDeg: int("swellDirectionDeg"), // mean wave direction in degrees
   windSpeedCmps: int("windSpeedCmps"), // wind speed in cm/s
   windDirectionDeg: int("windDirectionDeg"), // wind direction in degrees
+  windGustCmps: int("windGustCmps"), // peak gust in cm/s
+  averagePeriodDs: int("averagePeriodDs"), // average wave period in deciseconds
+  // Spectral separation from the realtime2 .spec file
+  swellHeightCm: int("swellHeightCm"), // SwH - swell height in cm
+  swellPeriodDs: int("swellPeriodDs"), // SwP - swell period in deciseconds
+  swellDirDeg: int("swellDirDeg"), // SwD - swell direction in degrees (from 16-point cardinal)
+  windWaveHeightCm: int("windWaveHeightCm"), // WWH - wind wave height in cm
+  windWavePeriodDs: int("windWavePeriodDs"), // WWP - wind wave period in deciseconds
+  windWaveDirDeg: int("windWaveDirDeg"), // WWD - wind wave direction in degrees (from 16-point cardinal)
+  steepness: varchar("steepness", { length: 16 }), // e.g. "SWELL", "AVERAGE", "STEEP", "VERY_STEEP"
+  // Partitioned from the raw .data_spec / .swdir / .swr1 / .swr2 spectra
+  swellTrains: text("swellTrains"), // JSON BuoySwellTrain[] (up to 4, largest first), null = no spectrum
   createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
+}, (table) => ({
+  uniqueBuoyTimestamp: unique("unique_buoy_timestamp").on(table.buoyId, table.timestamp),
+}));
 
 export type BuoyReading = typeof buoyReadings.$inferSelect;
 export type InsertBuoyReading = typeof buoyReadings.$inferInsert;
 
+// Tide Predictions Table (NOAA CO-OPS predictions cached per station)
+// Full-resolution curve points (resolution "6" = 6-minute, "h" = hourly) plus hi/lo events (resolution "hilo", type H/L)
+export const tidePredictions = mysqlTable(
+  "tide_predictions",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    stationId: varchar("stationId", { length: 16 }).notNull(),
+    time: timestamp("time").notNull(), // UTC
+    heightFt: decimal("heightFt", { precision: 5, scale: 2 }).notNull(), // feet above MLLW
+    resolution: varchar("resolution", { length: 8 }).notNull(), // NOAA interval: "6", "h" or "hilo"
+    type: varchar("type", { length: 1 }), // "H" / "L" for hilo events, null for curve points
+    fetchedAt: timestamp("fetchedAt").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueStationResolutionTime: unique("unique_station_resolution_time").on(table.stationId, table.resolution, table.time),
+  })
+);
+
+export type TidePredictionRow = typeof tidePredictions.$inferSelect;
+export type InsertTidePredictionRow = typeof tidePredictions.$inferInsert;
+
 // Forecast Points Table (NOMADS time-series forecast data)
+// Append-only archive of every model run; old runs are compacted / expired by jobs/compactForecastArchive.ts
 export const forecastPoints = mysqlTable("forecast_points", {
-  id: int("id").autoincrement().primaryKey(),
+  id: int("id").autoincrement().notNull(),
   spotId: int("spotId").notNull(),
   forecastTimestamp: timestamp("forecastTimestamp").notNull(), // when this forecast is for
   modelRunTime: timestamp("modelRunTime").notNull(), // when WW3 model ran (00z, 06z, 12z, 18z)
@@ -59,11 +123,16 @@ export const forecastPoints = mysqlTable("forecast_points", {
   // Temperature data (NEW)
   waterTempF: decimal("waterTempF", { precision: 4, scale: 1 }), // Fahrenheit
   airTempF: decimal("airTempF", { precision: 4, scale: 1 }), // Fahrenheit
-  source: mysqlEnum("source", ["ww3", "gfs", "hrrr", "openmeteo"]).default("ww3").notNull(),
+  // "ww3" = Open-Meteo's default blend; other sources come from server/services/forecastSources.ts
+  source: mysqlEnum("source", ["ww3", "gfs", "hrrr", "openmeteo", "ecmwf_wam", "gfs_wave", "stormglass"]).default("ww3").notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 }, (table) => ({
+  // One row per run and hour; leads with the run so the table can be partitioned by modelRunTime
+  pk: primaryKey({ columns: [table.spotId, table.modelRunTime, table.source, table.forecastTimestamp] }),
+  idIdx: index("idx_fp_id").on(table.id),
   spotIdHoursIdx: index("idx_fp_spot_hours").on(table.spotId, table.hoursOut),
   spotIdModelRunIdx: index("idx_fp_spot_modelrun").on(table.spotId, table.modelRunTime),
+  spotIdForecastTimeIdx: index("idx_fp_spot_forecast_time").on(table.spotId, table.forecastTimestamp),
 }));
 
 export type ForecastPoint = typeof forecastPoints.$inferSelect;
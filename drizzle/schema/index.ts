@@ -12,3 +12,6 @@ export * from './social';
 
 // Retention Layer (Alerts/Notifications)
 export * from './retention';
+
+// System Layer (Background Jobs/Scheduling)
+export * from './system';
@@ -1,4 +1,4 @@
-import { decimal, int, mysqlTable, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { decimal, index, int, mysqlTable, timestamp, unique, varchar } from "drizzle-orm/mysql-core";
 
 // Forecasts Table (model output)
 export const forecasts = mysqlTable("forecasts", {
@@ -59,3 +59,136 @@ export const conditionsLog = mysqlTable("conditions_log", {
 
 export type ConditionsLog = typeof conditionsLog.$inferSelect;
 export type InsertConditionsLog = typeof conditionsLog.$inferInsert;
+
+// Forecast Verifications Table (model forecast vs later buoy observation)
+// One row per model run + valid hour, snapshotted before forecast_points is replaced,
+// then filled in with the buoy's significant wave height once the hour has passed
+export const forecastVerifications = mysqlTable(
+  "forecast_verifications",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    spotId: int("spotId").notNull(), // FK to surf_spots.id
+    model: varchar("model", { length: 16 }).notNull(), // forecast_points.source (e.g. "ww3", "ecmwf_wam", "stormglass")
+    modelRunTime: timestamp("modelRunTime").notNull(), // forecast_points.modelRunTime
+    forecastTimestamp: timestamp("forecastTimestamp").notNull(), // valid time
+    leadHours: int("leadHours").notNull(), // forecastTimestamp - modelRunTime (0-168)
+    forecastWaveHeightFt: decimal("forecastWaveHeightFt", { precision: 4, scale: 1 }).notNull(), // primary swell height
+    buoyId: varchar("buoyId", { length: 16 }).notNull(),
+    observedWaveHeightFt: decimal("observedWaveHeightFt", { precision: 4, scale: 1 }), // buoy swell height (SwH), null until verified
+    observedAt: timestamp("observedAt"), // timestamp of the matched buoy reading
+    errorFt: decimal("errorFt", { precision: 5, scale: 2 }), // forecast - observed (positive = over-forecast)
+    basis: varchar("basis", { length: 8 }).notNull().default("swh"), // observation compared against ("swh" = buoy SwH)
+    verifiedAt: timestamp("verifiedAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueRunHour: unique("unique_fv_run_hour").on(table.spotId, table.model, table.modelRunTime, table.forecastTimestamp),
+    pendingIdx: index("idx_fv_spot_verified").on(table.spotId, table.verifiedAt),
+    forecastTimestampIdx: index("idx_fv_forecast_timestamp").on(table.forecastTimestamp),
+  })
+);
+
+export type ForecastVerification = typeof forecastVerifications.$inferSelect;
+export type InsertForecastVerification = typeof forecastVerifications.$inferInsert;
+
+// Breaking Height Calibrations Table (one row per fitted version of the correction table)
+export const breakingHeightCalibrations = mysqlTable("breaking_height_calibrations", {
+  id: int("id").autoincrement().primaryKey(), // calibration version
+  isActive: int("isActive").notNull().default(0), // 1 = applied by generateForecastTimeline
+  samplesUsed: int("samplesUsed").notNull().default(0), // validation rows kept across all corrections
+  samplesRejected: int("samplesRejected").notNull().default(0), // outliers dropped
+  minSamples: int("minSamples").notNull(), // per spot/band threshold used for this fit
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type BreakingHeightCalibration = typeof breakingHeightCalibrations.$inferSelect;
+export type InsertBreakingHeightCalibration = typeof breakingHeightCalibrations.$inferInsert;
+
+// Breaking Height Corrections Table (per spot + swell period band factor within a calibration)
+// corrected breaking height = model breaking height × factor
+export const breakingHeightCorrections = mysqlTable(
+  "breaking_height_corrections",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    calibrationId: int("calibrationId").notNull(), // FK to breaking_height_calibrations.id
+    spotId: int("spotId").notNull(), // FK to surf_spots.id
+    periodBand: varchar("periodBand", { length: 16 }).notNull(), // "short", "medium", "long", "groundswell"
+    factor: decimal("factor", { precision: 5, scale: 3 }).notNull(), // reported / observed (geometric mean)
+    sampleCount: int("sampleCount").notNull(),
+    rejectedCount: int("rejectedCount").notNull().default(0),
+    meanDeltaFt: decimal("meanDeltaFt", { precision: 4, scale: 1 }), // mean(reported - observed) of kept samples
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueCalibrationSpotBand: unique("unique_calibration_spot_band").on(table.calibrationId, table.spotId, table.periodBand),
+  })
+);
+
+export type BreakingHeightCorrection = typeof breakingHeightCorrections.$inferSelect;
+export type InsertBreakingHeightCorrection = typeof breakingHeightCorrections.$inferInsert;
+
+// Swell Events Table (a named swell tracked across forecast model runs)
+// Consecutive forecast hours with a similar dominant swell direction + period are clustered
+// into an event; each run's clusters are matched to existing events so the id stays stable.
+// Columns hold the latest run's prediction (every run's is kept in swell_event_revisions),
+// plus the buoy-observed peak once the event has passed
+export const swellEvents = mysqlTable(
+  "swell_events",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    spotId: int("spotId").notNull(), // FK to surf_spots.id
+    status: varchar("status", { length: 16 }).notNull().default("upcoming"), // upcoming, active, passed, dropped
+    label: varchar("label", { length: 64 }).notNull(), // e.g. "SE Groundswell"
+    directionDeg: int("directionDeg").notNull(), // mean dominant swell direction
+    periodS: int("periodS").notNull(), // mean dominant swell period
+    startTime: timestamp("startTime").notNull(),
+    peakTime: timestamp("peakTime").notNull(),
+    endTime: timestamp("endTime").notNull(),
+    peakHeightFt: decimal("peakHeightFt", { precision: 4, scale: 1 }).notNull(), // offshore dominant swell height
+    peakPeriodS: int("peakPeriodS").notNull(),
+    peakBreakingHeightFt: decimal("peakBreakingHeightFt", { precision: 4, scale: 1 }), // breaking height at the peak hour
+    firstRunTime: timestamp("firstRunTime").notNull(), // model run that first showed the event
+    latestRunTime: timestamp("latestRunTime").notNull(), // model run the columns above come from
+    revisionCount: int("revisionCount").notNull().default(1),
+    // Buoy observation (filled in once the event has passed)
+    buoyId: varchar("buoyId", { length: 16 }).notNull(),
+    observedPeakHeightFt: decimal("observedPeakHeightFt", { precision: 4, scale: 1 }), // buoy swell height (SwH, else WVHT)
+    observedPeakPeriodS: decimal("observedPeakPeriodS", { precision: 4, scale: 1 }),
+    observedPeakDirectionDeg: int("observedPeakDirectionDeg"),
+    observedPeakAt: timestamp("observedPeakAt"),
+    observedAt: timestamp("observedAt"), // when the observation was recorded
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => ({
+    spotStatusIdx: index("idx_se_spot_status").on(table.spotId, table.status),
+    endTimeIdx: index("idx_se_end_time").on(table.endTime),
+  })
+);
+
+export type SwellEvent = typeof swellEvents.$inferSelect;
+export type InsertSwellEvent = typeof swellEvents.$inferInsert;
+
+// Swell Event Revisions Table (one row per model run that predicted an event)
+export const swellEventRevisions = mysqlTable(
+  "swell_event_revisions",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    eventId: int("eventId").notNull(), // FK to swell_events.id
+    modelRunTime: timestamp("modelRunTime").notNull(),
+    startTime: timestamp("startTime").notNull(),
+    peakTime: timestamp("peakTime").notNull(),
+    endTime: timestamp("endTime").notNull(),
+    peakHeightFt: decimal("peakHeightFt", { precision: 4, scale: 1 }).notNull(),
+    peakPeriodS: int("peakPeriodS").notNull(),
+    peakBreakingHeightFt: decimal("peakBreakingHeightFt", { precision: 4, scale: 1 }),
+    directionDeg: int("directionDeg").notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueEventRun: unique("unique_ser_event_run").on(table.eventId, table.modelRunTime),
+  })
+);
+
+export type SwellEventRevision = typeof swellEventRevisions.$inferSelect;
+export type InsertSwellEventRevision = typeof swellEventRevisions.$inferInsert;
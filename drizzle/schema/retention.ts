@@ -1,4 +1,4 @@
-import { decimal, int, mysqlTable, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { decimal, index, int, mysqlTable, text, timestamp, unique, varchar } from "drizzle-orm/mysql-core";
 
 // Swell Alerts Table (user alert preferences)
 export const swellAlerts = mysqlTable("swell_alerts", {
@@ -11,19 +11,21 @@ export const swellAlerts = mysqlTable("swell_alerts", {
   minPeriodSec: int("minPeriodSec"), // e.g., 8s minimum period
   idealWindOnly: int("idealWindOnly").default(0), // 0 = any wind, 1 = offshore/side-offshore only (DEPRECATED)
   allowedDays: varchar("allowedDays", { length: 20 }).default("0,1,2,3,4,5,6"), // CSV of allowed days (0=Sun, 6=Sat). Default = all days
+  rule: text("rule"), // JSON AlertRule (server/layers/retention/alertRules.ts); overrides the criteria above when set
   // Notification preferences
   emailEnabled: int("emailEnabled").default(1), // 0/1 boolean
   smsEnabled: int("smsEnabled").default(0), // 0/1 boolean for text/SMS notifications
-  pushEnabled: int("pushEnabled").default(0), // 0/1 boolean (future: web push)
+  pushEnabled: int("pushEnabled").default(0), // 0/1 boolean for Web Push to the user's subscribed devices
   // Alert timing
   hoursAdvanceNotice: int("hoursAdvanceNotice").default(24), // Alert X hours before swell arrives
   daysAdvanceNotice: int("daysAdvanceNotice"), // Alert X days before swell arrives (alternative to hours, more user-friendly)
-  notificationFrequency: varchar("notificationFrequency", { length: 32 }).default("immediate"), // "immediate" | "daily_digest" | "weekly_digest" | "per_swell"
+  notificationFrequency: varchar("notificationFrequency", { length: 32 }).default("immediate"), // "once" | "twice" | "threshold" | "realtime" | "immediate" | "daily_digest" | "weekly_digest"
   // Content preferences
   includeConfidenceIntervals: int("includeConfidenceIntervals").default(1), // 0/1 boolean
   includeExplanation: int("includeExplanation").default(1), // 0/1 boolean (why they should target)
   // Status
-  isActive: int("isActive").default(1), // 0/1 boolean
+  isActive: int("isActive").default(1), // 0/1 boolean (0 = deleted)
+  pausedAt: timestamp("pausedAt"), // Paused from an email link; kept but not checked until resumed
   // Threshold tracking - stores last score to detect when threshold is crossed
   lastNotifiedScore: int("lastNotifiedScore"), // Track last score for threshold-only notifications
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -34,27 +36,125 @@ export type SwellAlert = typeof swellAlerts.$inferSelect;
 export type InsertSwellAlert = typeof swellAlerts.$inferInsert;
 
 // Swell Alert Logs Table (prevent duplicate notifications)
-export const swellAlertLogs = mysqlTable("swell_alert_logs", {
-  id: int("id").autoincrement().primaryKey(),
-  alertId: int("alertId").notNull(), // FK to swell_alerts.id
-  userId: int("userId").notNull(), // FK to users.id
-  spotId: int("spotId").notNull(), // FK to surf_spots.id
-  // When the swell is expected
-  swellStartTime: timestamp("swellStartTime").notNull(),
-  swellEndTime: timestamp("swellEndTime").notNull(),
-  // Conditions that triggered the alert
-  peakWaveHeightFt: decimal("peakWaveHeightFt", { precision: 4, scale: 1 }),
-  peakQualityScore: int("peakQualityScore"),
-  avgPeriodSec: int("avgPeriodSec"),
-  // Delivery status
-  emailSent: int("emailSent").default(0), // 0/1 boolean
-  smsSent: int("smsSent").default(0), // 0/1 boolean
-  pushSent: int("pushSent").default(0), // 0/1 boolean
-  emailSentAt: timestamp("emailSentAt"),
-  smsSentAt: timestamp("smsSentAt"),
-  pushSentAt: timestamp("pushSentAt"),
-  createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
+export const swellAlertLogs = mysqlTable(
+  "swell_alert_logs",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    alertId: int("alertId").notNull(), // FK to swell_alerts.id
+    userId: int("userId").notNull(), // FK to users.id
+    spotId: int("spotId").notNull(), // FK to surf_spots.id
+    // When the swell is expected
+    swellStartTime: timestamp("swellStartTime").notNull(),
+    swellEndTime: timestamp("swellEndTime").notNull(),
+    // Conditions that triggered the alert
+    peakWaveHeightFt: decimal("peakWaveHeightFt", { precision: 4, scale: 1 }),
+    peakQualityScore: int("peakQualityScore"),
+    avgPeriodSec: int("avgPeriodSec"),
+    digestId: int("digestId"), // FK to swell_digests.id when the swell went out in a digest rather than on its own
+    // Delivery status
+    emailSent: int("emailSent").default(0), // 0/1 boolean
+    smsSent: int("smsSent").default(0), // 0/1 boolean
+    pushSent: int("pushSent").default(0), // 0/1 boolean
+    emailSentAt: timestamp("emailSentAt"),
+    smsSentAt: timestamp("smsSentAt"),
+    smsStatus: varchar("smsStatus", { length: 16 }), // Provider delivery status: sent, delivered, undelivered, failed
+    smsDeliveredAt: timestamp("smsDeliveredAt"),
+    pushSentAt: timestamp("pushSentAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => ({
+    userSpotIdx: index("idx_swell_alert_logs_user_spot").on(table.userId, table.spotId, table.swellStartTime),
+  })
+);
 
 export type SwellAlertLog = typeof swellAlertLogs.$inferSelect;
 export type InsertSwellAlertLog = typeof swellAlertLogs.$inferInsert;
+
+// Swell Digests Table (one row per user, frequency and local day a digest was built)
+// Built even when no swells matched, so the swell-digests job evaluates each user once per day
+export const swellDigests = mysqlTable(
+  "swell_digests",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(), // FK to users.id
+    frequency: varchar("frequency", { length: 16 }).notNull(), // "daily_digest" | "weekly_digest"
+    localDate: varchar("localDate", { length: 10 }).notNull(), // YYYY-MM-DD in the user's timezone
+    swellCount: int("swellCount").notNull().default(0), // swell_alert_logs rows with this digestId
+    emailSent: int("emailSent").notNull().default(0), // 0/1 boolean
+    emailSentAt: timestamp("emailSentAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueUserDate: unique("unique_swell_digest_user_date").on(table.userId, table.frequency, table.localDate),
+  })
+);
+
+export type SwellDigest = typeof swellDigests.$inferSelect;
+export type InsertSwellDigest = typeof swellDigests.$inferInsert;
+
+// Push Subscriptions Table (one row per browser / device a user enabled push on)
+// endpoint is unique: re-subscribing the same browser (or a different user signing in on it) replaces the row
+export const pushSubscriptions = mysqlTable(
+  "push_subscriptions",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(), // FK to users.id
+    endpoint: varchar("endpoint", { length: 512 }).notNull(), // Push service URL for this browser
+    p256dh: varchar("p256dh", { length: 128 }).notNull(), // Browser's P-256 public key (base64url)
+    auth: varchar("auth", { length: 64 }).notNull(), // Auth secret (base64url)
+    userAgent: varchar("userAgent", { length: 255 }), // For telling devices apart
+    lastSuccessAt: timestamp("lastSuccessAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => ({
+    uniqueEndpoint: unique("unique_push_subscription_endpoint").on(table.endpoint),
+    userIdx: index("idx_push_subscriptions_user").on(table.userId),
+  })
+);
+
+export type PushSubscriptionRow = typeof pushSubscriptions.$inferSelect;
+export type InsertPushSubscriptionRow = typeof pushSubscriptions.$inferInsert;
+
+// Notification Outbox Table (queued email/SMS, sent by the notification-outbox job)
+// Failed sends are retried with exponential backoff until maxAttempts, then marked failed.
+// kind + refId say what the message is for, so delivery can be recorded on the source row
+// (e.g. swell_alert_logs.emailSent, forecast_views.promptSent)
+export const notificationOutbox = mysqlTable(
+  "notification_outbox",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    channel: varchar("channel", { length: 16 }).notNull(), // "email" | "sms" | "push"
+    kind: varchar("kind", { length: 32 }).notNull(), // "swell_alert" | "swell_digest" | "report_prompt" | "bulk_alert"
+    refId: int("refId"), // swell_alert_logs.id for swell_alert, swell_digests.id for swell_digest, forecast_views.id for report_prompt
+    userId: int("userId"), // FK to users.id
+    recipient: varchar("recipient", { length: 320 }).notNull(), // email address, phone number, or push_subscriptions.id
+    subject: varchar("subject", { length: 255 }), // email only
+    body: text("body").notNull(), // SMS text / plain-text email / push payload JSON
+    html: text("html"), // email only
+    headers: text("headers"), // email only: extra headers as JSON, e.g. List-Unsubscribe
+    dedupeKey: varchar("dedupeKey", { length: 128 }), // enqueueing the same key twice is a no-op
+    // Delivery state
+    status: varchar("status", { length: 16 }).notNull().default("pending"), // pending, sending, sent, failed
+    attempts: int("attempts").notNull().default(0),
+    maxAttempts: int("maxAttempts").notNull().default(5),
+    nextAttemptAt: timestamp("nextAttemptAt").defaultNow().notNull(),
+    lastError: varchar("lastError", { length: 512 }),
+    provider: varchar("provider", { length: 16 }), // "resend", "twilio", "openphone", "fake"
+    providerMessageId: varchar("providerMessageId", { length: 128 }), // Resend / SMS provider message id
+    deliveryStatus: varchar("deliveryStatus", { length: 16 }), // From the SMS status webhook: delivered, undelivered, failed
+    deliveredAt: timestamp("deliveredAt"),
+    sentAt: timestamp("sentAt"),
+    failedAt: timestamp("failedAt"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => ({
+    uniqueDedupeKey: unique("unique_outbox_dedupe_key").on(table.dedupeKey),
+    dueIdx: index("idx_outbox_status_next_attempt").on(table.status, table.nextAttemptAt),
+    providerMessageIdx: index("idx_outbox_provider_message").on(table.providerMessageId),
+  })
+);
+
+export type NotificationOutboxMessage = typeof notificationOutbox.$inferSelect;
+export type InsertNotificationOutboxMessage = typeof notificationOutbox.$inferInsert;
@@ -18,6 +18,12 @@ export const users = mysqlTable("users", {
   email: varchar("email", { length: 320 }),
   phone: varchar("phone", { length: 20 }), // Phone number for sign-up
   smsOptIn: int("smsOptIn").default(0), // 0 = false, 1 = true
+  alertsSnoozedUntil: timestamp("alertsSnoozedUntil"), // No swell alerts until then
+  reportPromptsOptOut: int("reportPromptsOptOut").default(0).notNull(), // 1 = no "How was your session?" emails
+  digestHour: int("digestHour").default(7).notNull(), // Local hour (0-23) daily / weekly swell digests go out
+  digestDayOfWeek: int("digestDayOfWeek").default(4).notNull(), // Weekly digest day (0=Sun, 6=Sat); Thursday puts the weekend in view
+  timezone: varchar("timezone", { length: 64 }).default("America/New_York").notNull(), // IANA zone for digest timing
+  calendarToken: varchar("calendarToken", { length: 64 }).unique(), // Secret for the /calendar/:token.ics feed; replaced to revoke old links
   loginMethod: varchar("loginMethod", { length: 64 }),
   role: mysqlEnum("role", ["user", "admin"]).default("user").notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -169,3 +175,26 @@ export const verificationTokens = mysqlTable("verification_tokens", {
 
 export type VerificationToken = typeof verificationTokens.$inferSelect;
 export type InsertVerificationToken = typeof verificationTokens.$inferInsert;
+
+// API Keys Table (public REST API at /api/v1, managed from /members)
+export const apiKeys = mysqlTable(
+  "api_keys",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(), // FK to users.id
+    name: varchar("name", { length: 64 }).notNull(), // e.g. "Home Assistant"
+    keyPrefix: varchar("keyPrefix", { length: 16 }).notNull(), // First characters of the key, to tell keys apart
+    keyHash: varchar("keyHash", { length: 64 }).notNull(), // SHA-256 hex; the key itself is only shown once
+    rateLimitPerMinute: int("rateLimitPerMinute").default(60).notNull(),
+    lastUsedAt: timestamp("lastUsedAt"),
+    revokedAt: timestamp("revokedAt"), // Revoked keys are kept for the list, but rejected
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueKeyHash: unique("unique_api_key_hash").on(table.keyHash),
+    userIdx: index("idx_api_keys_user").on(table.userId),
+  })
+);
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
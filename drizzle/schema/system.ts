@@ -0,0 +1,71 @@
+import { index, int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+
+// Job Runs Table (history of scheduled and manual background job executions)
+export const jobRuns = mysqlTable(
+  "job_runs",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    jobName: varchar("jobName", { length: 64 }).notNull(), // e.g. "forecast-refresh"
+    triggeredBy: mysqlEnum("triggeredBy", ["schedule", "manual"]).default("schedule").notNull(),
+    status: mysqlEnum("status", ["running", "success", "failed"]).default("running").notNull(),
+    startedAt: timestamp("startedAt").defaultNow().notNull(),
+    finishedAt: timestamp("finishedAt"),
+    itemsProcessed: int("itemsProcessed").notNull().default(0),
+    itemsFailed: int("itemsFailed").notNull().default(0),
+    error: text("error"),
+    instanceId: varchar("instanceId", { length: 128 }).notNull(), // host-pid of the instance that ran it
+  },
+  (table) => ({
+    jobStartedIdx: index("idx_job_runs_job_started").on(table.jobName, table.startedAt),
+  })
+);
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = typeof jobRuns.$inferInsert;
+
+// Job Locks Table (DB lease so only one instance runs each job at a time)
+export const jobLocks = mysqlTable("job_locks", {
+  jobName: varchar("jobName", { length: 64 }).primaryKey(),
+  lockedBy: varchar("lockedBy", { length: 128 }), // instanceId holding the lease
+  lockedUntil: timestamp("lockedUntil").notNull(), // lease expiry
+});
+
+export type JobLock = typeof jobLocks.$inferSelect;
+
+// Rate Limit Buckets Table (shared counters when RATE_LIMIT_STORE=mysql; see _core/rateLimit.ts)
+export const rateLimitBuckets = mysqlTable(
+  "rate_limit_buckets",
+  {
+    bucketKey: varchar("bucketKey", { length: 191 }).primaryKey(), // "<procedure>:<user or ip>:<window>"
+    hits: int("hits").notNull().default(0),
+    expiresAt: timestamp("expiresAt").notNull(), // End of the window; expired rows are swept
+  },
+  (table) => ({
+    expiresIdx: index("idx_rate_limit_buckets_expires").on(table.expiresAt),
+  })
+);
+
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+
+// Audit Log Table (who triggered forecast refreshes and admin data operations)
+export const auditLog = mysqlTable(
+  "audit_log",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    action: varchar("action", { length: 64 }).notNull(), // tRPC procedure path, e.g. "forecasts.refreshAll"
+    userId: int("userId"), // null = signed out
+    ip: varchar("ip", { length: 45 }),
+    input: text("input"), // JSON, truncated
+    status: mysqlEnum("status", ["success", "failed"]).notNull(),
+    error: text("error"),
+    durationMs: int("durationMs").notNull().default(0),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => ({
+    actionCreatedIdx: index("idx_audit_log_action_created").on(table.action, table.createdAt),
+    userIdx: index("idx_audit_log_user").on(table.userId),
+  })
+);
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
@@ -0,0 +1,12 @@
+/**
+ * Print a new VAPID key pair for Web Push (VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY).
+ * Changing keys invalidates existing subscriptions; browsers re-subscribe on their next visit.
+ *
+ * Usage: pnpm tsx scripts/generate-vapid-keys.ts
+ */
+import { generateVapidKeys } from "../server/layers/retention/delivery/push";
+
+const { publicKey, privateKey } = generateVapidKeys();
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log("VAPID_SUBJECT=mailto:hello@nycsurfco.com");
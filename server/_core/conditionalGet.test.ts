@@ -0,0 +1,54 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { conditionalGet } from "./conditionalGet";
+
+let body = '{"result":{"data":1}}';
+let baseUrl = "";
+let server: ReturnType<ReturnType<typeof express>["listen"]>;
+
+beforeAll(async () => {
+  const app = express();
+  // Writes the way tRPC's node adapter does: headers, chunks, then end()
+  app.use("/api/trpc", conditionalGet, (_req, res) => {
+    res.setHeader("Content-Type", "application/json");
+    res.write(body.slice(0, 5));
+    res.write(body.slice(5));
+    res.end();
+  });
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, "127.0.0.1", () => resolve());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/trpc/spots.list`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("conditionalGet", () => {
+  it("answers a matching If-None-Match with 304 until the body changes", async () => {
+    const first = await fetch(baseUrl);
+    const etag = first.headers.get("etag");
+    expect(first.status).toBe(200);
+    expect(await first.text()).toBe(body);
+    expect(etag).toMatch(/^W\/".+"$/);
+    expect(first.headers.get("cache-control")).toBe("private, no-cache");
+
+    const unchanged = await fetch(baseUrl, { headers: { "If-None-Match": etag! } });
+    expect(unchanged.status).toBe(304);
+    expect(await unchanged.text()).toBe("");
+
+    body = '{"result":{"data":2}}';
+    const changed = await fetch(baseUrl, { headers: { "If-None-Match": etag! } });
+    expect(changed.status).toBe(200);
+    expect(await changed.text()).toBe(body);
+    expect(changed.headers.get("etag")).not.toBe(etag);
+  });
+
+  it("leaves mutations alone", async () => {
+    const response = await fetch(baseUrl, { method: "POST" });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("etag")).toBeNull();
+  });
+});
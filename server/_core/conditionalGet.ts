@@ -0,0 +1,71 @@
+/**
+ * ETag / If-None-Match for tRPC queries
+ *
+ * tRPC's adapter writes responses itself, so Express's automatic ETag (res.send) never applies.
+ * This middleware buffers GET responses, tags them with a hash of the body and answers a
+ * matching If-None-Match with 304 and no body. Responses are `private, no-cache`, so the
+ * browser revalidates every time and hands fetch() its cached copy on a 304 - polling a
+ * timeline that hasn't changed costs a round trip rather than the payload.
+ */
+
+import { createHash } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+type WriteCallback = (error?: Error | null) => void;
+
+function toBuffer(chunk: unknown, encoding?: BufferEncoding): Buffer {
+  if (Buffer.isBuffer(chunk)) return chunk;
+  if (chunk instanceof Uint8Array) return Buffer.from(chunk);
+  return Buffer.from(String(chunk), encoding);
+}
+
+/**
+ * Whether an If-None-Match header lists this ETag (weak comparison, as for GET)
+ */
+function matchesEtag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+  return ifNoneMatch.split(",").some((tag) => tag.trim() === "*" || opaque(tag) === opaque(etag));
+}
+
+export function conditionalGet(req: Request, res: Response, next: NextFunction) {
+  if (req.method !== "GET") return next();
+
+  const chunks: Buffer[] = [];
+  const end = res.end.bind(res) as (...args: unknown[]) => Response;
+
+  res.write = ((chunk: unknown, encoding?: BufferEncoding | WriteCallback, callback?: WriteCallback) => {
+    if (chunk != null) chunks.push(toBuffer(chunk, typeof encoding === "string" ? encoding : undefined));
+    const done = typeof encoding === "function" ? encoding : callback;
+    done?.();
+    return true;
+  }) as Response["write"];
+
+  res.end = ((chunk?: unknown, encoding?: BufferEncoding | WriteCallback, callback?: WriteCallback) => {
+    if (typeof chunk === "function") {
+      callback = chunk as WriteCallback;
+      chunk = undefined;
+    }
+    if (chunk != null) chunks.push(toBuffer(chunk, typeof encoding === "string" ? encoding : undefined));
+    const done = typeof encoding === "function" ? encoding : callback;
+    const body = Buffer.concat(chunks);
+
+    if (res.statusCode === 200 && !res.headersSent) {
+      const etag = `W/"${createHash("sha1").update(body).digest("base64url")}"`;
+      res.setHeader("ETag", etag);
+      if (!res.getHeader("Cache-Control")) res.setHeader("Cache-Control", "private, no-cache");
+
+      // Not req.fresh: fetch() adds Cache-Control: no-cache to hand-set If-None-Match, which fresh treats as a reload
+      if (matchesEtag(req.headers["if-none-match"], etag)) {
+        res.statusCode = 304;
+        res.removeHeader("Content-Type");
+        res.removeHeader("Content-Length");
+        return end(done);
+      }
+      res.setHeader("Content-Length", body.length);
+    }
+    return end(body, done);
+  }) as Response["end"];
+
+  next();
+}
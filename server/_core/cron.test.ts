@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { cronMatches, intervalToCron, nextCronMatch, parseCron, previousCronMatch } from "./cron";
+
+describe("parseCron", () => {
+  it("expands wildcards, ranges, steps and lists", () => {
+    const schedule = parseCron("*/15 7,19 1-5 * 0-6/3");
+    expect(Array.from(schedule.minute.values)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(schedule.hour.values)).toEqual([7, 19]);
+    expect(Array.from(schedule.dayOfMonth.values)).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.month.wildcard).toBe(true);
+    expect(Array.from(schedule.dayOfWeek.values)).toEqual([0, 3, 6]);
+    expect(Array.from(parseCron("20/20 * * * *").minute.values)).toEqual([20, 40]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow(/5 fields/);
+    expect(() => parseCron("60 * * * *")).toThrow(/allowed 0-59/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/step/);
+    expect(() => parseCron("5-1 * * * *")).toThrow();
+  });
+});
+
+describe("cronMatches", () => {
+  it("evaluates in Eastern time on both sides of daylight saving", () => {
+    const sevenAm = parseCron("0 7 * * *");
+    expect(cronMatches(sevenAm, new Date("2026-07-01T11:00:00Z"))).toBe(true); // EDT (UTC-4)
+    expect(cronMatches(sevenAm, new Date("2026-01-15T12:00:00Z"))).toBe(true); // EST (UTC-5)
+    expect(cronMatches(sevenAm, new Date("2026-01-15T11:00:00Z"))).toBe(false);
+  });
+
+  it("matches either day field when both are restricted", () => {
+    const schedule = parseCron("0 12 1 * 1"); // The 1st, or any Monday
+    expect(cronMatches(schedule, new Date("2026-06-01T16:00:00Z"))).toBe(true); // Monday the 1st
+    expect(cronMatches(schedule, new Date("2026-06-08T16:00:00Z"))).toBe(true); // Monday
+    expect(cronMatches(schedule, new Date("2026-07-01T16:00:00Z"))).toBe(true); // Wednesday the 1st
+    expect(cronMatches(schedule, new Date("2026-06-09T16:00:00Z"))).toBe(false);
+  });
+});
+
+describe("nextCronMatch / previousCronMatch", () => {
+  it("skips a local time that doesn't exist on the spring-forward day", () => {
+    // 2026-03-08: clocks jump from 2:00 EST to 3:00 EDT, so there is no 2:30
+    const schedule = parseCron("30 2 * * *");
+    expect(nextCronMatch(schedule, new Date("2026-03-08T05:00:00Z"))).toEqual(new Date("2026-03-09T06:30:00Z"));
+  });
+
+  it("runs twice in the repeated hour on the fall-back day", () => {
+    // 2026-11-01: 1:00-2:00 happens in EDT and again in EST
+    const schedule = parseCron("30 1 * * *");
+    const first = nextCronMatch(schedule, new Date("2026-11-01T04:00:00Z"));
+    expect(first).toEqual(new Date("2026-11-01T05:30:00Z"));
+    expect(nextCronMatch(schedule, first!)).toEqual(new Date("2026-11-01T06:30:00Z"));
+  });
+
+  it("finds the latest slot at or before a time within the lookback", () => {
+    const schedule = parseCron("15 * * * *");
+    expect(previousCronMatch(schedule, new Date("2026-06-20T12:15:40Z"))).toEqual(new Date("2026-06-20T12:15:00Z"));
+    expect(previousCronMatch(schedule, new Date("2026-06-20T12:14:00Z"))).toEqual(new Date("2026-06-20T11:15:00Z"));
+    expect(previousCronMatch(parseCron("0 3 * * *"), new Date("2026-06-20T12:00:00Z"), 60)).toBeNull();
+  });
+});
+
+describe("intervalToCron", () => {
+  it("translates legacy interval settings", () => {
+    expect(intervalToCron(30)).toEqual({ expression: "*/30 * * * *", exact: true });
+    expect(intervalToCron(6 * 60)).toEqual({ expression: "0 */6 * * *", exact: true });
+    expect(intervalToCron(24 * 60)).toEqual({ expression: "0 0 * * *", exact: true });
+    expect(intervalToCron(45)).toEqual({ expression: "*/45 * * * *", exact: false });
+    expect(intervalToCron(5 * 60)).toEqual({ expression: "0 */5 * * *", exact: false });
+    expect(() => intervalToCron(0)).toThrow();
+  });
+});
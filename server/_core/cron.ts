@@ -0,0 +1,198 @@
+/**
+ * Minimal 5-field cron expressions evaluated in a fixed time zone.
+ *
+ * Format: "minute hour day-of-month month day-of-week"
+ * Each field supports "*", numbers, ranges ("1-5"), steps ("*\/15", "0-30/10")
+ * and comma lists ("7,19"). Day-of-week is 0-6 with 0 = Sunday.
+ * As in standard cron, when both day fields are restricted a match on either is enough.
+ */
+
+export const SCHEDULER_TIME_ZONE = "America/New_York";
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+export interface CronSchedule {
+  expression: string;
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 6],  // day of week
+];
+
+function parseField(field: string, min: number, max: number): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart !== undefined ? parseInt(stepPart, 10) : 1;
+    if (isNaN(step) || step <= 0) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = min;
+      end = max;
+    } else if (rangePart.includes("-")) {
+      const [a, b] = rangePart.split("-").map((v) => parseInt(v, 10));
+      start = a;
+      end = b;
+    } else {
+      start = parseInt(rangePart, 10);
+      end = stepPart !== undefined ? max : start;
+    }
+
+    if (isNaN(start) || isNaN(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${field}" (allowed ${min}-${max})`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return { values, wildcard: field === "*" };
+}
+
+/**
+ * Parse a 5-field cron expression. Throws on invalid input.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: "${expression}"`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1])
+  );
+
+  return { expression, minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+// Offset lookups are cached per UTC hour (DST changes happen on the hour)
+const offsetCache = new Map<number, number>();
+const offsetFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: SCHEDULER_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hour12: false,
+});
+
+/**
+ * Offset of the scheduler time zone from UTC in minutes (e.g. -240 for EDT)
+ */
+function getZoneOffsetMinutes(date: Date): number {
+  const hourKey = Math.floor(date.getTime() / 3_600_000);
+  const cached = offsetCache.get(hourKey);
+  if (cached !== undefined) return cached;
+
+  const parts = offsetFormatter.formatToParts(date);
+  const getPart = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
+  const asUtc = Date.UTC(
+    getPart("year"),
+    getPart("month") - 1,
+    getPart("day"),
+    getPart("hour") % 24,
+    getPart("minute"),
+    getPart("second")
+  );
+  const offset = Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+
+  if (offsetCache.size > 1000) offsetCache.clear();
+  offsetCache.set(hourKey, offset);
+  return offset;
+}
+
+/**
+ * True if the given instant (to the minute) matches the schedule in Eastern time
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  const local = new Date(date.getTime() + getZoneOffsetMinutes(date) * 60_000);
+
+  if (!schedule.minute.values.has(local.getUTCMinutes())) return false;
+  if (!schedule.hour.values.has(local.getUTCHours())) return false;
+  if (!schedule.month.values.has(local.getUTCMonth() + 1)) return false;
+
+  const domMatch = schedule.dayOfMonth.values.has(local.getUTCDate());
+  const dowMatch = schedule.dayOfWeek.values.has(local.getUTCDay());
+  if (!schedule.dayOfMonth.wildcard && !schedule.dayOfWeek.wildcard) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+function floorToMinute(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / 60_000) * 60_000);
+}
+
+/**
+ * Most recent matching minute at or before `from`, looking back at most `lookbackMinutes`
+ */
+export function previousCronMatch(
+  schedule: CronSchedule,
+  from: Date,
+  lookbackMinutes: number = 24 * 60
+): Date | null {
+  const start = floorToMinute(from).getTime();
+  for (let i = 0; i <= lookbackMinutes; i++) {
+    const candidate = new Date(start - i * 60_000);
+    if (cronMatches(schedule, candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Next matching minute strictly after `from`, looking ahead at most `lookaheadMinutes`
+ */
+export function nextCronMatch(
+  schedule: CronSchedule,
+  from: Date,
+  lookaheadMinutes: number = 7 * 24 * 60
+): Date | null {
+  const start = floorToMinute(from).getTime();
+  for (let i = 1; i <= lookaheadMinutes; i++) {
+    const candidate = new Date(start + i * 60_000);
+    if (cronMatches(schedule, candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Cron expression for a legacy fixed-interval setting (the *_INTERVAL_MINUTES / *_HOURS env vars
+ * that predate cron schedules). Intervals that don't divide the hour or day evenly restart at
+ * the top of each hour or at midnight, so `exact` is false for them.
+ */
+export function intervalToCron(minutes: number): { expression: string; exact: boolean } {
+  if (!Number.isFinite(minutes) || minutes < 1) {
+    throw new Error(`Invalid interval "${minutes}" minutes`);
+  }
+  const wholeMinutes = Math.round(minutes);
+  if (wholeMinutes < 60) {
+    return { expression: `*/${wholeMinutes} * * * *`, exact: 60 % wholeMinutes === 0 && wholeMinutes === minutes };
+  }
+
+  const hours = Math.round(wholeMinutes / 60);
+  const exact = hours * 60 === minutes;
+  if (hours >= 24) {
+    return { expression: "0 0 * * *", exact: exact && hours === 24 };
+  }
+  return { expression: `0 */${hours} * * *`, exact: exact && 24 % hours === 0 };
+}
@@ -4,12 +4,22 @@ import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { migrate } from "drizzle-orm/mysql2/migrator";
 import { registerOAuthRoutes } from "./oauth";
 import { registerGoogleOAuthRoutes } from "./googleOAuth";
+import { registerSmsWebhookRoutes } from "../layers/retention/delivery/smsWebhooks";
+import { registerEmailPreferenceRoutes } from "../layers/retention/emailPreferences";
+import { getCalendarFeedForToken } from "../layers/retention/calendarFeed";
+import { registerApiV1Routes } from "../api/v1";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
+import { conditionalGet } from "./conditionalGet";
 import { serveStatic, setupVite } from "./vite";
 import { getAllSpots, getAverageCrowdLevel, insertForecast, getDb } from "../db";
 import { getCurrentTideInfo } from "../layers/environmental/clients/tides";
 import { generateForecast } from "../services/forecast";
+import { refreshForecastPoints } from "../services/timelineCache";
+import { loadSpotProfiles } from "../utils/spotProfiles";
+import { loadHeightCorrections } from "../utils/heightCalibration";
+import { intervalToCron } from "./cron";
+import { registerJob, startScheduler, type JobResult } from "./scheduler";
 import { getCurrentConditionsFromOpenMeteo } from "../layers/environmental/clients/openmeteo";
 import { readFileSync, readdirSync } from "fs";
 import { join, dirname } from "path";
@@ -167,7 +177,7 @@ async function runMigrations(): Promise<void> {
  * Refreshes forecasts for all surf spots.
  * This function is used by both the scheduled task and the manual refresh endpoint.
  */
-async function refreshAllForecasts(): Promise<void> {
+async function refreshAllForecasts(): Promise<JobResult> {
   try {
     console.log("[Forecast Refresh] Starting automatic forecast refresh...");
     
@@ -175,7 +185,7 @@ async function refreshAllForecasts(): Promise<void> {
     const db = await getDb();
     if (!db) {
       console.warn("[Forecast Refresh] Database not available - skipping refresh");
-      return;
+      return { processed: 0, failed: 0 };
     }
     
     const spots = await getAllSpots();
@@ -217,6 +227,9 @@ async function refreshAllForecasts(): Promise<void> {
           tidePhase: forecastResult.tidePhase,
         });
 
+        // New hourly run for the timeline; recomputes the spot's cached getTimeline result
+        await refreshForecastPoints(spot);
+
         results.success++;
         console.log(`[Forecast Refresh] ✓ Updated forecast for ${spot.name}`);
       } catch (error) {
@@ -226,193 +239,202 @@ async function refreshAllForecasts(): Promise<void> {
     }
 
     console.log(`[Forecast Refresh] Completed: ${results.success} succeeded, ${results.failed} failed`);
+    return { processed: results.success, failed: results.failed };
   } catch (error) {
     console.error("[Forecast Refresh] Error during automatic refresh:", error);
+    throw error;
   }
 }
 
 /**
- * Sets up automatic forecast refresh on a schedule.
+ * Schedule for a job: its *_CRON env var, else a legacy interval env var translated to cron
+ * (deployments configured before the scheduler keep their cadence), else the default
  */
-function setupAutomaticRefresh(): void {
-  // Get refresh interval from environment variable (default: 30 minutes)
-  // Supports FORECAST_REFRESH_INTERVAL_MINUTES or legacy FORECAST_REFRESH_INTERVAL_HOURS
-  const intervalMinutes = process.env.FORECAST_REFRESH_INTERVAL_MINUTES
-    ? parseInt(process.env.FORECAST_REFRESH_INTERVAL_MINUTES, 10)
-    : process.env.FORECAST_REFRESH_INTERVAL_HOURS
-      ? parseInt(process.env.FORECAST_REFRESH_INTERVAL_HOURS, 10) * 60
-      : 30; // Default: 30 minutes
-
-  const intervalMs = intervalMinutes * 60 * 1000;
-
-  console.log(`[Forecast Refresh] Automatic refresh enabled - will run every ${intervalMinutes} minute(s)`);
-
-  // Run immediately on startup
-  refreshAllForecasts().catch(console.error);
-
-  // Set up interval to run periodically
-  setInterval(() => {
-    refreshAllForecasts().catch(console.error);
-  }, intervalMs);
+function resolveSchedule(
+  cronVar: string,
+  legacy: Array<{ name: string; minutesPerUnit: number }>,
+  defaultSchedule: string
+): string {
+  const cron = process.env[cronVar];
+  const legacyVar = legacy.find(({ name }) => process.env[name]);
+  if (cron) {
+    if (legacyVar) console.warn(`[Scheduler] ${legacyVar.name} is ignored because ${cronVar} is set`);
+    return cron;
+  }
+  if (!legacyVar) return defaultSchedule;
+
+  const value = parseFloat(process.env[legacyVar.name]!);
+  try {
+    const { expression, exact } = intervalToCron(value * legacyVar.minutesPerUnit);
+    console.warn(
+      `[Scheduler] ${legacyVar.name}=${process.env[legacyVar.name]} is deprecated; using ${cronVar}="${expression}"` +
+        (exact ? "" : " (nearest cron schedule, the interval doesn't divide evenly)")
+    );
+    return expression;
+  } catch {
+    console.warn(`[Scheduler] Ignoring invalid ${legacyVar.name}=${process.env[legacyVar.name]}; using "${defaultSchedule}"`);
+    return defaultSchedule;
+  }
 }
 
 /**
- * Sets up automatic swell alert checking on a schedule.
+ * Registers the background jobs with the scheduler.
+ * Schedules are cron expressions in Eastern time and can be overridden via env.
  */
-function setupSwellAlertChecking(): void {
-  // Get check interval from environment variable (default: 6 hours)
-  const intervalHours = process.env.SWELL_ALERT_CHECK_INTERVAL_HOURS
-    ? parseInt(process.env.SWELL_ALERT_CHECK_INTERVAL_HOURS, 10)
-    : 6;
-
-  const intervalMs = intervalHours * 60 * 60 * 1000;
-
-  console.log(`[Swell Alerts] Automatic checking enabled - will run every ${intervalHours} hour(s)`);
-
-  // Import the check function dynamically
-  import("../layers/retention/jobs/checkSwellAlerts").then(({ checkSwellAlerts }) => {
-    // Run immediately on startup (after a short delay to let forecasts load)
-    setTimeout(() => {
-      console.log("[Swell Alerts] Running first check (after 5-minute startup delay)");
-      checkSwellAlerts().catch(console.error);
-    }, 5 * 60 * 1000); // Wait 5 minutes for forecasts to refresh
-
-    // Set up interval to run periodically
-    setInterval(() => {
-      console.log(`[Swell Alerts] Running periodic check (every ${intervalHours} hours)`);
-      checkSwellAlerts().catch(console.error);
-    }, intervalMs);
-  }).catch((error) => {
-    console.error("[Swell Alerts] Failed to load alert checking module:", error);
+function registerScheduledJobs(): void {
+  // Forecast refresh (default: every 30 minutes)
+  registerJob({
+    name: "forecast-refresh",
+    description: "Refresh current-conditions forecasts and hourly forecast runs for all spots",
+    schedule: resolveSchedule(
+      "FORECAST_REFRESH_CRON",
+      [
+        { name: "FORECAST_REFRESH_INTERVAL_MINUTES", minutesPerUnit: 1 },
+        { name: "FORECAST_REFRESH_INTERVAL_HOURS", minutesPerUnit: 60 },
+      ],
+      "*/30 * * * *"
+    ),
+    run: refreshAllForecasts,
   });
-}
 
-// ==================== REPORT PROMPTS JOB ====================
-// Send "How was your session?" emails 24 hours after forecast views
-const reportPromptsEnabled = process.env.REPORT_PROMPTS_ENABLED !== "false"; // Default: enabled
-
-if (reportPromptsEnabled) {
-  console.log("[Report Prompts] Automatic checking enabled - will run every hour");
-
-  // Import the job function dynamically
-  import("../layers/retention/jobs/sendReportPrompts").then(({ sendReportPrompts }) => {
-    // Run immediately on startup (after a short delay)
-    setTimeout(() => {
-      sendReportPrompts().catch(console.error);
-    }, 2 * 60 * 1000); // Wait 2 minutes after startup
-
-    // Set up interval to run every hour
-    setInterval(() => {
-      sendReportPrompts().catch(console.error);
-    }, 60 * 60 * 1000); // Every hour
-  }).catch((error) => {
-    console.error("[Report Prompts] Failed to load report prompts module:", error);
+  // Comparison forecast sources: Open-Meteo ECMWF WAM / GFS-Wave runs (default: hourly at :20,
+  // each spot / source fetched at most every 6 hours)
+  registerJob({
+    name: "forecast-sources",
+    description: "Fetch ECMWF WAM and GFS-Wave forecast runs for source comparison",
+    schedule: process.env.FORECAST_SOURCES_CRON || "20 * * * *",
+    run: async () => {
+      const { refreshForecastSources } = await import("../layers/environmental/jobs/refreshForecastSources");
+      return refreshForecastSources();
+    },
   });
-} else {
-  console.log("[Report Prompts] Automatic checking disabled (set REPORT_PROMPTS_ENABLED=true to enable)");
-}
 
-/**
- * Gets the current hour in Eastern Time (ET).
- */
-function getEasternTimeHour(): number {
-  const formatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: 'America/New_York',
-    hour: 'numeric',
-    hour12: false,
+  // Swell alert checking (default: every 6 hours)
+  registerJob({
+    name: "swell-alerts",
+    description: "Check active swell alerts and send notifications",
+    schedule: resolveSchedule(
+      "SWELL_ALERT_CRON",
+      [{ name: "SWELL_ALERT_CHECK_INTERVAL_HOURS", minutesPerUnit: 60 }],
+      "0 */6 * * *"
+    ),
+    run: async () => {
+      const { checkSwellAlerts } = await import("../layers/retention/jobs/checkSwellAlerts");
+      return checkSwellAlerts();
+    },
   });
-  return parseInt(formatter.format(new Date()), 10);
-}
 
-/**
- * Calculates milliseconds until the next target hour in Eastern Time.
- * @param targetHour - Hour in 24h format (e.g., 7 for 7 AM, 19 for 7 PM)
- */
-function msUntilNextETHour(targetHour: number): number {
-  const now = new Date();
-
-  // Get current time in ET
-  const etFormatter = new Intl.DateTimeFormat('en-US', {
-    timeZone: 'America/New_York',
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit',
-    second: '2-digit',
-    hour12: false,
+  // Daily / weekly swell digests at each user's chosen local hour (default: hourly, just after the hour)
+  registerJob({
+    name: "swell-digests",
+    description: "Send daily and weekly swell digest emails that are due",
+    schedule: process.env.SWELL_DIGESTS_CRON || "5 * * * *",
+    run: async () => {
+      const { sendSwellDigests } = await import("../layers/retention/jobs/sendSwellDigests");
+      return sendSwellDigests();
+    },
   });
 
-  const etParts = etFormatter.formatToParts(now);
-  const getPart = (type: string) => etParts.find(p => p.type === type)?.value || '0';
+  // Send "How was your session?" emails 24 hours after forecast views (default: hourly)
+  registerJob({
+    name: "report-prompts",
+    description: "Email post-session report prompts 24h after forecast views",
+    schedule: process.env.REPORT_PROMPTS_CRON || "0 * * * *",
+    enabled: process.env.REPORT_PROMPTS_ENABLED !== "false", // Default: enabled
+    run: async () => {
+      const { sendReportPrompts } = await import("../layers/retention/jobs/sendReportPrompts");
+      return sendReportPrompts();
+    },
+  });
 
-  const etHour = parseInt(getPart('hour'), 10);
-  const etMinute = parseInt(getPart('minute'), 10);
-  const etSecond = parseInt(getPart('second'), 10);
+  // Send queued email/SMS and retry failed sends (default: every 5 minutes)
+  registerJob({
+    name: "notification-outbox",
+    description: "Send queued email/SMS from the notification outbox with retries",
+    schedule: process.env.NOTIFICATION_OUTBOX_CRON || "*/5 * * * *",
+    run: async () => {
+      const { processNotificationOutbox } = await import("../layers/retention/jobs/processNotificationOutbox");
+      return processNotificationOutbox();
+    },
+  });
 
-  // Calculate hours until target
-  let hoursUntil = targetHour - etHour;
-  if (hoursUntil <= 0) {
-    hoursUntil += 24; // Next day
-  }
+  // Stormglass ECMWF verification: 7 AM + 7 PM ET to stay within free tier quota.
+  // Uses 6 API calls/day (3 spots × 2 syncs), leaving 4 spare. The job also skips
+  // spots fetched within the last 10 hours, so catch-up runs after a deploy are cheap.
+  registerJob({
+    name: "stormglass-verification",
+    description: "Fetch Stormglass ECMWF verification data and forecast runs",
+    schedule: process.env.STORMGLASS_VERIFICATION_CRON || "0 7,19 * * *",
+    run: async () => {
+      const { fetchStormglassVerification } = await import("../layers/environmental/jobs/fetchStormglassVerification");
+      return fetchStormglassVerification();
+    },
+  });
 
-  // Convert to milliseconds, accounting for current minutes/seconds
-  const msUntil = (hoursUntil * 60 * 60 * 1000)
-    - (etMinute * 60 * 1000)
-    - (etSecond * 1000);
+  // NDBC buoy history (default: hourly at :15, after the buoys' :40/:50 observations post)
+  registerJob({
+    name: "buoy-history",
+    description: "Ingest the last 45 days of NDBC .txt/.spec readings into buoy_readings",
+    schedule: process.env.BUOY_HISTORY_CRON || "15 * * * *",
+    run: async () => {
+      const { ingestBuoyHistory } = await import("../layers/environmental/jobs/ingestBuoyHistory");
+      return ingestBuoyHistory();
+    },
+  });
 
-  return msUntil;
-}
+  // Model vs buoy verification (default: hourly at :30, after buoy-history has ingested the latest readings)
+  registerJob({
+    name: "forecast-verification",
+    description: "Snapshot model runs and score past forecast hours against buoy observations",
+    schedule: process.env.FORECAST_VERIFICATION_CRON || "30 * * * *",
+    run: async () => {
+      const { verifyForecasts } = await import("../layers/environmental/jobs/verifyForecasts");
+      return verifyForecasts();
+    },
+  });
 
-/**
- * Sets up automatic Stormglass ECMWF verification data fetching.
- * Runs twice daily at 7 AM and 7 PM ET to stay within free tier quota.
- * Uses 6 API calls/day (3 spots × 2 syncs), leaving 4 spare.
- */
-function setupStormglassVerification(): void {
-  const MORNING_HOUR = 7;  // 7 AM ET
-  const EVENING_HOUR = 19; // 7 PM ET
-
-  console.log(`[Stormglass Verification] Scheduled for 7 AM + 7 PM ET daily`);
-
-  // Import the fetch function dynamically
-  import("../layers/environmental/jobs/fetchStormglassVerification").then(({ fetchStormglassVerification }) => {
-
-    // Schedule next morning sync
-    const scheduleMorningSync = () => {
-      const msUntilMorning = msUntilNextETHour(MORNING_HOUR);
-      console.log(`[Stormglass Verification] Next morning sync in ${(msUntilMorning / 1000 / 60 / 60).toFixed(1)} hours`);
-
-      setTimeout(() => {
-        console.log(`[Stormglass Verification] Running 7 AM ET sync...`);
-        fetchStormglassVerification().catch(console.error);
-        // Schedule next morning sync (24 hours later)
-        setTimeout(scheduleMorningSync, 1000); // Small delay before rescheduling
-      }, msUntilMorning);
-    };
-
-    // Schedule next evening sync
-    const scheduleEveningSync = () => {
-      const msUntilEvening = msUntilNextETHour(EVENING_HOUR);
-      console.log(`[Stormglass Verification] Next evening sync in ${(msUntilEvening / 1000 / 60 / 60).toFixed(1)} hours`);
-
-      setTimeout(() => {
-        console.log(`[Stormglass Verification] Running 7 PM ET sync...`);
-        fetchStormglassVerification().catch(console.error);
-        // Schedule next evening sync (24 hours later)
-        setTimeout(scheduleEveningSync, 1000); // Small delay before rescheduling
-      }, msUntilEvening);
-    };
-
-    // Start both schedules
-    scheduleMorningSync();
-    scheduleEveningSync();
-
-    // Do NOT run on startup: with 10 calls/day quota, restarts/deploys during 7–8 or 19–20 ET
-    // would burn extra calls and cause "quota exceeded". Rely only on scheduled 7 AM / 7 PM runs.
-
-  }).catch((error) => {
-    console.error("[Stormglass Verification] Failed to load module:", error);
+  // Refit breaking height corrections from surf report validations (default: daily at 4 AM ET)
+  registerJob({
+    name: "height-calibration",
+    description: "Fit per-spot, per-period breaking height corrections from surf reports",
+    schedule: process.env.HEIGHT_CALIBRATION_CRON || "0 4 * * *",
+    run: async () => {
+      const { calibrateBreakingHeights } = await import("../jobs/calibrateBreakingHeights");
+      return calibrateBreakingHeights();
+    },
+  });
+
+  // Track swell events across model runs (default: hourly at :45, after buoy-history and forecast-verification)
+  registerJob({
+    name: "swell-events",
+    description: "Cluster the latest forecast run into swell events and record observed buoy peaks",
+    schedule: process.env.SWELL_EVENTS_CRON || "45 * * * *",
+    run: async () => {
+      const { trackSwellEvents } = await import("../jobs/trackSwellEvents");
+      return trackSwellEvents();
+    },
+  });
+
+  // Thin out and expire archived forecast runs (default: daily at 2 AM ET)
+  registerJob({
+    name: "forecast-archive",
+    description: "Compact archived forecast runs and delete runs past retention",
+    schedule: process.env.FORECAST_ARCHIVE_CRON || "0 2 * * *",
+    run: async () => {
+      const { compactForecastArchive } = await import("../layers/environmental/jobs/compactForecastArchive");
+      return compactForecastArchive();
+    },
+  });
+
+  // Cache 8 days of NOAA tide predictions per station (default: daily at 3 AM ET)
+  registerJob({
+    name: "tide-predictions",
+    description: "Cache the 6-minute NOAA tide curve and hi/lo events for the next 8 days",
+    schedule: process.env.TIDE_PREDICTIONS_CRON || "0 3 * * *",
+    run: async () => {
+      const { refreshTidePredictions } = await import("../layers/environmental/jobs/refreshTidePredictions");
+      return refreshTidePredictions();
+    },
   });
 }
 
@@ -420,6 +442,10 @@ function setupStormglassVerification(): void {
 async function startServer() {
   const app = express();
   const server = createServer(app);
+  // Behind one proxy (Railway): req.ip is the client address it forwarded, used for rate limits
+  app.set("trust proxy", 1);
+  // SMS delivery status webhooks verify signatures over the raw body, so they go before the body parsers
+  registerSmsWebhookRoutes(app);
   // Configure body parser with larger size limit for file uploads
   app.use(express.json({ limit: "50mb" }));
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
@@ -427,14 +453,19 @@ async function startServer() {
   registerOAuthRoutes(app);
   // Google OAuth routes
   registerGoogleOAuthRoutes(app);
-  // tRPC API
+  // One-click unsubscribe (List-Unsubscribe-Post)
+  registerEmailPreferenceRoutes(app);
+  // tRPC API (queries get ETags; unchanged responses are 304s)
   app.use(
     "/api/trpc",
+    conditionalGet,
     createExpressMiddleware({
       router: appRouter,
       createContext,
     })
   );
+  // Public REST API (plain JSON, API keys)
+  registerApiV1Routes(app);
   // Sitemap endpoint for Google Search Console - must be before static middleware
   app.get("/sitemap.xml", async (_req, res) => {
     try {
@@ -497,6 +528,23 @@ async function startServer() {
       res.status(500).setHeader("Content-Type", "text/plain").send("Error generating sitemap");
     }
   });
+  // Per-user iCalendar feed of upcoming surf windows; the token is the only credential
+  app.get("/calendar/:token.ics", async (req, res) => {
+    try {
+      const feed = await getCalendarFeedForToken(req.params.token);
+      if (feed === null) {
+        res.status(404).setHeader("Content-Type", "text/plain").send("Calendar not found");
+        return;
+      }
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "private, max-age=900");
+      res.send(feed);
+    } catch (error) {
+      console.error("Error generating calendar feed:", error);
+      res.status(500).setHeader("Content-Type", "text/plain").send("Error generating calendar feed");
+    }
+  });
   // development mode uses Vite, production mode uses static files
   if (process.env.NODE_ENV === "development") {
     await setupVite(app, server);
@@ -515,14 +563,15 @@ async function startServer() {
   server.listen(port, "0.0.0.0", () => {
     console.log(`[Server] ✓ Server running on http://0.0.0.0:${port}/`);
 
-    // Set up automatic forecast refresh
-    setupAutomaticRefresh();
+    // Load spot profiles from the database (falls back to built-in defaults)
+    loadSpotProfiles().catch(console.error);
 
-    // Set up automatic swell alert checking
-    setupSwellAlertChecking();
+    // Load the active breaking height correction table (if one has been fitted)
+    loadHeightCorrections().catch(console.error);
 
-    // Set up Stormglass ECMWF verification fetching
-    setupStormglassVerification();
+    // Start background jobs (forecast refresh, swell alerts, report prompts, Stormglass)
+    registerScheduledJobs();
+    startScheduler();
   });
 
   server.on("error", (error: any) => {
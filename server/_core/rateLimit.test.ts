@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "../routers";
+import type { TrpcContext } from "./context";
+import { checkRateLimit, createMemoryRateLimitStore, getClientIp, RATE_LIMIT_BUDGETS } from "./rateLimit";
+
+describe("checkRateLimit", () => {
+  it("allows a procedure's budget per caller, then resets with the next window", async () => {
+    const store = createMemoryRateLimitStore();
+    const { limit, windowMs } = RATE_LIMIT_BUDGETS["forecasts.refreshAll"];
+    const start = Math.floor(Date.UTC(2026, 5, 3, 12, 0, 0) / windowMs) * windowMs;
+
+    for (let i = 0; i < limit; i++) {
+      expect((await checkRateLimit("forecasts.refreshAll", "ip:203.0.113.7", start + i, store)).allowed).toBe(true);
+    }
+    const limited = await checkRateLimit("forecasts.refreshAll", "ip:203.0.113.7", start + 60 * 1000, store);
+    expect(limited).toMatchObject({ allowed: false, remaining: 0, retryAfterSeconds: windowMs / 1000 - 60 });
+
+    // Other callers and other procedures count separately
+    expect((await checkRateLimit("forecasts.refreshAll", "user:12", start, store)).allowed).toBe(true);
+    expect((await checkRateLimit("forecasts.refresh", "ip:203.0.113.7", start, store)).allowed).toBe(true);
+    expect((await checkRateLimit("forecasts.refreshAll", "ip:203.0.113.7", start + windowMs, store)).allowed).toBe(true);
+  });
+});
+
+describe("getClientIp", () => {
+  it("uses req.ip, falling back to the socket address", () => {
+    expect(getClientIp({ ip: "203.0.113.7", socket: {} } as Parameters<typeof getClientIp>[0])).toBe("203.0.113.7");
+    expect(getClientIp({ socket: { remoteAddress: "::1" } } as Parameters<typeof getClientIp>[0])).toBe("::1");
+    expect(getClientIp(undefined)).toBe("unknown");
+  });
+});
+
+describe("destructive procedures", () => {
+  it("are admin only", async () => {
+    const ctx: TrpcContext = {
+      user: null,
+      req: { headers: {}, ip: "203.0.113.7" } as TrpcContext["req"],
+      res: {} as TrpcContext["res"],
+    };
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.buoy.clearCache()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.spots.seed()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.forecasts.cleanupSpotData({ spotId: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Rate limits for public tRPC procedures
+ *
+ * Procedures that call upstream APIs or send email are limited per caller: the signed-in user,
+ * or the client IP when signed out. Budgets are per procedure (RATE_LIMIT_BUDGETS) and counted
+ * in fixed windows. Admins aren't limited.
+ *
+ * Counts live in a RateLimitStore. The default in-memory store is per instance; with more than
+ * one replica, set RATE_LIMIT_STORE=mysql to share counters through rate_limit_buckets.
+ * The MySQL store fails open: if the database is down, requests aren't limited.
+ */
+
+import type { Request } from "express";
+import { deleteExpiredRateLimitBuckets, incrementRateLimitBucket } from "../db";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const SWEEP_EVERY_HITS = 100; // MySQL store: drop expired buckets now and then
+
+export interface RateLimitBudget {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitHit {
+  count: number; // Hits in the current window, including this one
+  resetAt: number; // Epoch ms the window ends
+}
+
+export interface RateLimitStore {
+  hit(key: string, windowMs: number, now: number): Promise<RateLimitHit>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Budgets by procedure path. Procedures using the rateLimit middleware without an entry here
+ * get DEFAULT_RATE_LIMIT.
+ */
+export const RATE_LIMIT_BUDGETS: Record<string, RateLimitBudget> = {
+  "forecasts.refresh": { limit: 10, windowMs: 10 * MINUTE_MS },
+  "forecasts.refreshAll": { limit: 3, windowMs: 10 * MINUTE_MS },
+  "forecasts.refreshTimeline": { limit: 10, windowMs: 10 * MINUTE_MS },
+  "conditions.logSnapshot": { limit: 30, windowMs: HOUR_MS },
+  "auth.sendMagicLink": { limit: 5, windowMs: HOUR_MS },
+};
+
+export const DEFAULT_RATE_LIMIT: RateLimitBudget = { limit: 30, windowMs: 10 * MINUTE_MS };
+
+function windowBounds(windowMs: number, now: number): { index: number; resetAt: number } {
+  const index = Math.floor(now / windowMs);
+  return { index, resetAt: (index + 1) * windowMs };
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, RateLimitHit>();
+
+  return {
+    async hit(key, windowMs, now) {
+      const { resetAt } = windowBounds(windowMs, now);
+      const bucket = buckets.get(key);
+      const next = bucket && bucket.resetAt === resetAt ? { count: bucket.count + 1, resetAt } : { count: 1, resetAt };
+      buckets.set(key, next);
+
+      if (buckets.size > 10000) {
+        buckets.forEach((b, k) => {
+          if (b.resetAt <= now) buckets.delete(k);
+        });
+      }
+      return next;
+    },
+  };
+}
+
+export function createMysqlRateLimitStore(): RateLimitStore {
+  let hits = 0;
+
+  return {
+    async hit(key, windowMs, now) {
+      const { index, resetAt } = windowBounds(windowMs, now);
+      let count = 0;
+      try {
+        count = (await incrementRateLimitBucket(`${key}:${index}`.slice(0, 191), new Date(resetAt))) ?? 0;
+        if (++hits % SWEEP_EVERY_HITS === 0) await deleteExpiredRateLimitBuckets();
+      } catch (error) {
+        console.warn("[Rate Limit] MySQL store unavailable, not limiting:", error);
+      }
+      return { count, resetAt };
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  store ??= process.env.RATE_LIMIT_STORE === "mysql" ? createMysqlRateLimitStore() : createMemoryRateLimitStore();
+  return store;
+}
+
+/**
+ * Swap the store (tests, or a custom backend)
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+/**
+ * Count one call to a procedure by a caller (e.g. "user:12" or "ip:203.0.113.7")
+ */
+export async function checkRateLimit(
+  procedure: string,
+  caller: string,
+  now: number = Date.now(),
+  rateLimitStore: RateLimitStore = getRateLimitStore()
+): Promise<RateLimitResult> {
+  const budget = RATE_LIMIT_BUDGETS[procedure] ?? DEFAULT_RATE_LIMIT;
+  const { count, resetAt } = await rateLimitStore.hit(`${procedure}:${caller}`, budget.windowMs, now);
+  return {
+    allowed: count <= budget.limit,
+    limit: budget.limit,
+    remaining: Math.max(0, budget.limit - count),
+    retryAfterSeconds: Math.max(1, Math.ceil((resetAt - now) / 1000)),
+  };
+}
+
+/**
+ * Client IP. The app runs behind one proxy (Railway), and `trust proxy` is set in _core/index.ts,
+ * so req.ip is the address that proxy saw rather than anything the client put in X-Forwarded-For.
+ */
+export function getClientIp(req: Pick<Request, "ip" | "socket"> | undefined): string {
+  return req?.ip || req?.socket?.remoteAddress || "unknown";
+}
@@ -0,0 +1,242 @@
+/**
+ * Background job scheduler
+ *
+ * Jobs register a cron schedule (Eastern time) and a run function. Every run is
+ * recorded in job_runs, and a DB lease in job_locks guarantees that only one
+ * instance executes a given job at a time, so multiple replicas can share a database.
+ *
+ * Missed runs are caught up on startup: if the most recent scheduled slot (within
+ * the last 24h) has no run starting at or after it, the job runs once immediately.
+ */
+
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import {
+  acquireJobLock,
+  releaseJobLock,
+  createJobRun,
+  finishJobRun,
+  failAbandonedJobRuns,
+  getLastJobRun,
+} from "../db";
+import { parseCron, previousCronMatch, nextCronMatch, type CronSchedule } from "./cron";
+
+export interface JobResult {
+  processed: number;
+  failed: number;
+}
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // 5-field cron, Eastern time
+  enabled?: boolean; // default true
+  leaseSeconds?: number; // lock lease, renewed while the job runs (default 15 min)
+  run: () => Promise<JobResult | void>;
+}
+
+interface RegisteredJob extends JobDefinition {
+  cron: CronSchedule;
+  running: boolean;
+}
+
+const DEFAULT_LEASE_SECONDS = 15 * 60;
+const CATCH_UP_LOOKBACK_MINUTES = 24 * 60;
+
+export const INSTANCE_ID = `${hostname()}-${process.pid}-${randomBytes(3).toString("hex")}`;
+
+const jobs = new Map<string, RegisteredJob>();
+let lastTickAt: Date | null = null;
+let started = false;
+
+/**
+ * Register a job. Throws on duplicate names or invalid cron expressions.
+ */
+export function registerJob(definition: JobDefinition): void {
+  if (jobs.has(definition.name)) {
+    throw new Error(`Job "${definition.name}" is already registered`);
+  }
+  jobs.set(definition.name, {
+    ...definition,
+    cron: parseCron(definition.schedule),
+    running: false,
+  });
+}
+
+/**
+ * Registered jobs with their schedule and next run time (for the admin page)
+ */
+export function getRegisteredJobs() {
+  const now = new Date();
+  return Array.from(jobs.values()).map((job) => ({
+    name: job.name,
+    description: job.description,
+    schedule: job.schedule,
+    enabled: job.enabled !== false,
+    runningHere: job.running,
+    nextRunAt: job.enabled !== false ? nextCronMatch(job.cron, now) : null,
+  }));
+}
+
+/**
+ * Acquire the lease and open a job_runs row.
+ * For scheduled runs, `slot` is the cron time being served; the run is skipped if
+ * another run (on any instance) already started at or after it.
+ *
+ * @returns run id, or null if the job is locked elsewhere / already ran for this slot
+ */
+async function beginRun(
+  job: RegisteredJob,
+  triggeredBy: "schedule" | "manual",
+  slot?: Date
+): Promise<number | null> {
+  if (job.running) return null;
+  job.running = true;
+
+  try {
+    const leaseSeconds = job.leaseSeconds ?? DEFAULT_LEASE_SECONDS;
+    const acquired = await acquireJobLock(job.name, INSTANCE_ID, leaseSeconds);
+    if (!acquired) {
+      console.log(`[Scheduler] ${job.name}: locked by another instance, skipping`);
+      job.running = false;
+      return null;
+    }
+
+    if (slot) {
+      const lastRun = await getLastJobRun(job.name);
+      if (lastRun && lastRun.startedAt.getTime() >= slot.getTime()) {
+        job.running = false;
+        await releaseJobLock(job.name, INSTANCE_ID);
+        return null;
+      }
+    }
+
+    await failAbandonedJobRuns(job.name);
+    return await createJobRun(job.name, triggeredBy, INSTANCE_ID);
+  } catch (error) {
+    job.running = false;
+    await releaseJobLock(job.name, INSTANCE_ID).catch(console.error);
+    throw error;
+  }
+}
+
+/**
+ * Execute the job body, renewing the lease while it runs, then record the outcome
+ */
+async function executeRun(job: RegisteredJob, runId: number): Promise<void> {
+  const leaseSeconds = job.leaseSeconds ?? DEFAULT_LEASE_SECONDS;
+  const renewTimer = setInterval(() => {
+    acquireJobLock(job.name, INSTANCE_ID, leaseSeconds).catch((error) => {
+      console.error(`[Scheduler] ${job.name}: failed to renew lease:`, error);
+    });
+  }, (leaseSeconds * 1000) / 2);
+
+  const startedAt = Date.now();
+  console.log(`[Scheduler] ▶ ${job.name} (run #${runId})`);
+
+  try {
+    const result = await job.run();
+    await finishJobRun(runId, {
+      status: "success",
+      itemsProcessed: result?.processed ?? 0,
+      itemsFailed: result?.failed ?? 0,
+    });
+    console.log(`[Scheduler] ✓ ${job.name} (run #${runId}) finished in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+  } catch (error: any) {
+    console.error(`[Scheduler] ✗ ${job.name} (run #${runId}) failed:`, error);
+    await finishJobRun(runId, {
+      status: "failed",
+      itemsProcessed: 0,
+      itemsFailed: 0,
+      error: error?.message || String(error),
+    }).catch(console.error);
+  } finally {
+    clearInterval(renewTimer);
+    job.running = false;
+    await releaseJobLock(job.name, INSTANCE_ID).catch(console.error);
+  }
+}
+
+async function runScheduled(job: RegisteredJob, slot: Date): Promise<void> {
+  const runId = await beginRun(job, "schedule", slot);
+  if (runId !== null) {
+    await executeRun(job, runId);
+  }
+}
+
+/**
+ * Start a job immediately (admin "run now"). Returns once the run is recorded;
+ * the job itself continues in the background.
+ *
+ * @returns run id, or null if the job is already running
+ */
+export async function runJobNow(name: string): Promise<number | null> {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new Error(`Unknown job "${name}"`);
+  }
+
+  const runId = await beginRun(job, "manual");
+  if (runId !== null) {
+    executeRun(job, runId).catch(console.error);
+  }
+  return runId;
+}
+
+/**
+ * Check every minute since the last tick against each job's schedule
+ */
+function tick(): void {
+  const now = new Date();
+  const from = lastTickAt ?? new Date(now.getTime() - 60_000);
+  lastTickAt = now;
+
+  for (const job of Array.from(jobs.values())) {
+    if (job.enabled === false) continue;
+
+    // Latest slot that fell between the previous tick and now
+    const minutesSinceLastTick = Math.max(1, Math.round((now.getTime() - from.getTime()) / 60_000));
+    const slot = previousCronMatch(job.cron, now, minutesSinceLastTick - 1);
+    if (slot) {
+      runScheduled(job, slot).catch((error) => {
+        console.error(`[Scheduler] ${job.name}: scheduled run error:`, error);
+      });
+    }
+  }
+}
+
+function scheduleNextTick(): void {
+  // Align ticks to the start of each minute
+  const msUntilNextMinute = 60_000 - (Date.now() % 60_000) + 250;
+  setTimeout(() => {
+    tick();
+    scheduleNextTick();
+  }, msUntilNextMinute);
+}
+
+/**
+ * Start the scheduler: catch up missed slots, then tick once a minute
+ */
+export function startScheduler(): void {
+  if (started) return;
+  started = true;
+  lastTickAt = new Date();
+
+  const enabledJobs = Array.from(jobs.values()).filter((job) => job.enabled !== false);
+  console.log(`[Scheduler] Instance ${INSTANCE_ID} starting with ${enabledJobs.length} job(s):`);
+  for (const job of enabledJobs) {
+    console.log(`[Scheduler]   ${job.name} — "${job.schedule}" ET`);
+  }
+
+  // Catch up: run any job whose last slot in the past 24h has no run yet
+  for (const job of enabledJobs) {
+    const slot = previousCronMatch(job.cron, lastTickAt, CATCH_UP_LOOKBACK_MINUTES);
+    if (slot) {
+      runScheduled(job, slot).catch((error) => {
+        console.error(`[Scheduler] ${job.name}: catch-up run error:`, error);
+      });
+    }
+  }
+
+  scheduleNextTick();
+}
@@ -2,6 +2,8 @@ import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import { insertAuditLogEntry } from "../db";
+import { checkRateLimit, getClientIp } from "./rateLimit";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
@@ -43,3 +45,58 @@ export const adminProcedure = t.procedure.use(
     });
   }),
 );
+
+/**
+ * Per-caller rate limit for procedures that hit upstream APIs or send email.
+ * Budgets are by procedure path (see rateLimit.ts); admins aren't limited.
+ */
+export const rateLimit = t.middleware(async opts => {
+  const { ctx, path, next } = opts;
+
+  if (ctx.user?.role !== 'admin') {
+    const caller = ctx.user ? `user:${ctx.user.id}` : `ip:${getClientIp(ctx.req)}`;
+    const result = await checkRateLimit(path, caller);
+    if (!result.allowed) {
+      ctx.res?.setHeader?.("Retry-After", String(result.retryAfterSeconds));
+      throw new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: `Too many requests. Try again in ${Math.ceil(result.retryAfterSeconds / 60)} min.`,
+      });
+    }
+  }
+
+  return next();
+});
+
+const AUDIT_INPUT_MAX_LENGTH = 2000;
+
+/**
+ * Records who called a procedure, with what input, and whether it succeeded (audit_log).
+ * Writing the entry never holds up or fails the call.
+ */
+export const auditLog = t.middleware(async opts => {
+  const { ctx, path, next } = opts;
+  const startedAt = Date.now();
+
+  const result = await next();
+
+  let input: string | null = null;
+  try {
+    const raw = await opts.getRawInput();
+    input = raw === undefined ? null : JSON.stringify(raw).slice(0, AUDIT_INPUT_MAX_LENGTH);
+  } catch {
+    input = null;
+  }
+
+  insertAuditLogEntry({
+    action: path,
+    userId: ctx.user?.id ?? null,
+    ip: getClientIp(ctx.req).slice(0, 45),
+    input,
+    status: result.ok ? "success" : "failed",
+    error: result.ok ? null : result.error.message.slice(0, AUDIT_INPUT_MAX_LENGTH),
+    durationMs: Date.now() - startedAt,
+  }).catch(error => console.warn(`[Audit] Failed to record ${path}:`, error));
+
+  return result;
+});
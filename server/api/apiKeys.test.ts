@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { API_KEY_PREFIX, consumeRateLimit, generateApiKey, hashApiKey, readApiKey } from "./apiKeys";
+
+describe("generateApiKey", () => {
+  it("stores a hash and a short prefix, never the key", () => {
+    const { key, keyPrefix, keyHash } = generateApiKey();
+    expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+    expect(key.startsWith(keyPrefix)).toBe(true);
+    expect(keyPrefix.length).toBeLessThan(key.length);
+    expect(keyHash).toBe(hashApiKey(key));
+    expect(keyHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe("readApiKey", () => {
+  it("reads a bearer token or X-API-Key", () => {
+    expect(readApiKey({ headers: { authorization: "Bearer nsc_abc" } })).toBe("nsc_abc");
+    expect(readApiKey({ headers: { "x-api-key": "nsc_def" } })).toBe("nsc_def");
+    expect(readApiKey({ headers: { authorization: "Basic Zm9vOmJhcg==" } })).toBeNull();
+    expect(readApiKey({ headers: {} })).toBeNull();
+  });
+});
+
+describe("consumeRateLimit", () => {
+  it("allows the limit per minute, then resets with the next window", () => {
+    const start = Date.UTC(2026, 5, 3, 12, 0, 0);
+    expect(consumeRateLimit(101, 2, start)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(consumeRateLimit(101, 2, start + 1000)).toMatchObject({ allowed: true, remaining: 0 });
+    const limited = consumeRateLimit(101, 2, start + 2000);
+    expect(limited).toMatchObject({ allowed: false, remaining: 0 });
+    expect(limited.resetAt).toEqual(new Date(start + 60 * 1000));
+
+    // Other keys have their own window
+    expect(consumeRateLimit(102, 2, start + 2000).allowed).toBe(true);
+    expect(consumeRateLimit(101, 2, start + 60 * 1000).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * API Keys
+ *
+ * Keys for the public REST API (/api/v1). A key is `nsc_` plus 32 random bytes (base64url); only
+ * its SHA-256 is stored (api_keys.keyHash), with the first few characters kept as keyPrefix so
+ * members can tell keys apart on /members. Requests send the key as `Authorization: Bearer <key>`
+ * or `X-API-Key: <key>`.
+ *
+ * Each key has its own per-minute limit (api_keys.rateLimitPerMinute), counted in a fixed
+ * one-minute window in memory. Counts are per server instance and reset on deploy, which is
+ * fine for keeping scripts and bots polite.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import type { Request } from "express";
+import type { ApiKey } from "../../drizzle/schema";
+import { getApiKeyByHash, markApiKeyUsed } from "../db";
+
+export const API_KEY_PREFIX = "nsc_";
+export const MAX_API_KEYS_PER_USER = 5;
+
+const KEY_PREFIX_LENGTH = 12; // "nsc_" + 8 characters
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000; // Don't write lastUsedAt on every request
+
+export interface GeneratedApiKey {
+  key: string; // Shown to the member once
+  keyPrefix: string;
+  keyHash: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export type ApiKeyAuthResult =
+  | { ok: true; apiKey: ApiKey; rateLimit: RateLimitResult }
+  | { ok: false; status: 401 | 429; error: string; rateLimit?: RateLimitResult };
+
+const rateLimitWindows = new Map<number, { start: number; count: number }>();
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, keyPrefix: key.slice(0, KEY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+/**
+ * The key from `Authorization: Bearer` or `X-API-Key`, or null if neither is set
+ */
+export function readApiKey(req: Pick<Request, "headers">): string | null {
+  const authorization = req.headers.authorization;
+  if (typeof authorization === "string") {
+    const match = authorization.match(/^Bearer\s+(\S+)$/i);
+    if (match) return match[1];
+  }
+  const header = req.headers["x-api-key"];
+  return typeof header === "string" && header.length > 0 ? header : null;
+}
+
+/**
+ * Count one request against a key's limit for the current minute
+ */
+export function consumeRateLimit(keyId: number, limit: number, now: number = Date.now()): RateLimitResult {
+  let window = rateLimitWindows.get(keyId);
+  if (!window || now - window.start >= RATE_LIMIT_WINDOW_MS) {
+    window = { start: now, count: 0 };
+    rateLimitWindows.set(keyId, window);
+  }
+
+  const allowed = window.count < limit;
+  if (allowed) window.count++;
+
+  // Drop finished windows now and then so revoked / idle keys don't pile up
+  if (rateLimitWindows.size > 1000) {
+    rateLimitWindows.forEach((w, id) => {
+      if (now - w.start >= RATE_LIMIT_WINDOW_MS) rateLimitWindows.delete(id);
+    });
+  }
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    resetAt: new Date(window.start + RATE_LIMIT_WINDOW_MS),
+  };
+}
+
+/**
+ * Check a request's key and count it against the key's rate limit
+ */
+export async function authenticateApiKey(req: Pick<Request, "headers">, now: Date = new Date()): Promise<ApiKeyAuthResult> {
+  const key = readApiKey(req);
+  if (!key || !key.startsWith(API_KEY_PREFIX)) {
+    return { ok: false, status: 401, error: "Missing API key. Send it as 'Authorization: Bearer <key>'." };
+  }
+
+  const apiKey = await getApiKeyByHash(hashApiKey(key));
+  if (!apiKey || apiKey.revokedAt) {
+    return { ok: false, status: 401, error: "Invalid or revoked API key" };
+  }
+
+  const rateLimit = consumeRateLimit(apiKey.id, apiKey.rateLimitPerMinute, now.getTime());
+  if (!rateLimit.allowed) {
+    return { ok: false, status: 429, error: `Rate limit exceeded (${rateLimit.limit} requests per minute)`, rateLimit };
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    markApiKeyUsed(apiKey.id, now).catch((error) => console.warn(`[API] Failed to update lastUsedAt for key ${apiKey.id}:`, error));
+  }
+
+  return { ok: true, apiKey, rateLimit };
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { buildOpenApiDocument } from "./openapi";
+import { API_V1_ROUTES } from "./v1";
+
+describe("buildOpenApiDocument", () => {
+  const doc = buildOpenApiDocument(API_V1_ROUTES) as any;
+
+  it("documents every route with its parameters", () => {
+    expect(Object.keys(doc.paths)).toEqual(API_V1_ROUTES.map((route) => route.path));
+
+    const forecast = doc.paths["/spots/{spotId}/forecast"].get;
+    expect(forecast.parameters).toEqual([
+      { name: "spotId", in: "path", required: true, description: "Spot id from /spots", schema: { type: "integer", exclusiveMinimum: 0, maximum: Number.MAX_SAFE_INTEGER } },
+      { name: "hours", in: "query", required: false, description: "Hours ahead", schema: { type: "integer", minimum: 1, maximum: 180, default: 168 } },
+      { name: "source", in: "query", required: false, description: "Forecast source (ww3 = Open-Meteo default blend)", schema: { type: "string", enum: ["ww3", "ecmwf_wam", "gfs_wave", "stormglass"], default: "ww3" } },
+    ]);
+  });
+
+  it("sends Dates as date-time strings", () => {
+    const spot = doc.paths["/spots/{spotId}"].get.responses["200"].content["application/json"].schema.properties.spot;
+    expect(spot.properties.createdAt).toEqual({ type: "string", format: "date-time" });
+  });
+});
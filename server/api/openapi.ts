@@ -0,0 +1,89 @@
+/**
+ * OpenAPI document for the REST API, generated from each route's zod schemas
+ * (served at /api/v1/openapi.json).
+ */
+
+import { z } from "zod";
+import type { ApiRoute } from "./v1";
+import { errorResponse } from "./schemas";
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * JSON Schema for a zod schema; Dates become date-time strings, as res.json() sends them
+ */
+function toJsonSchema(schema: z.ZodType, io: "input" | "output"): JsonSchema {
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: "any",
+    override: (ctx) => {
+      if (ctx.zodSchema._zod.def.type === "date") {
+        ctx.jsonSchema.type = "string";
+        ctx.jsonSchema.format = "date-time";
+      }
+    },
+  });
+  return jsonSchema;
+}
+
+function toParameters(schema: z.ZodObject | undefined, location: "path" | "query"): JsonSchema[] {
+  if (!schema) return [];
+  return Object.entries(schema.shape).map(([name, field]) => {
+    const { description, ...fieldSchema } = toJsonSchema(field as z.ZodType, "input");
+    return {
+      name,
+      in: location,
+      // Optional and defaulted fields accept a missing value
+      required: location === "path" || !(field as z.ZodType).safeParse(undefined).success,
+      ...(description ? { description } : {}),
+      schema: fieldSchema,
+    };
+  });
+}
+
+function errorContent(description: string): JsonSchema {
+  return { description, content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } };
+}
+
+export function buildOpenApiDocument(routes: ApiRoute[]): JsonSchema {
+  const paths: Record<string, JsonSchema> = {};
+  for (const route of routes) {
+    paths[route.path] = {
+      get: {
+        operationId: route.operationId,
+        summary: route.summary,
+        ...(route.description ? { description: route.description } : {}),
+        parameters: [...toParameters(route.params, "path"), ...toParameters(route.query, "query")],
+        responses: {
+          "200": { description: "OK", content: { "application/json": { schema: toJsonSchema(route.response, "output") } } },
+          "400": errorContent("Invalid parameters"),
+          "401": errorContent("Missing, invalid or revoked API key"),
+          ...(route.params ? { "404": errorContent("Not found") } : {}),
+          "429": errorContent("Rate limit exceeded; see Retry-After"),
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "NYC Surf Co. API",
+      version: "1.0.0",
+      description:
+        "Read-only forecast data as plain JSON. Create a key on the members page and send it as " +
+        "`Authorization: Bearer <key>` (or `X-API-Key`). Each key is rate limited per minute; " +
+        "X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset come back on every response.",
+    },
+    servers: [{ url: "/api/v1" }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: { Error: toJsonSchema(errorResponse, "output") },
+    },
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * REST API v1 schemas
+ *
+ * Request parameters and response bodies for /api/v1. Parameters are parsed with these schemas,
+ * responses are typed by them, and the OpenAPI document (openapi.ts) is generated from them.
+ * Response fields match the tRPC procedures they come from; Dates are serialized as ISO strings.
+ */
+
+import { z } from "zod";
+import { TIMELINE_FORECAST_SOURCES } from "../services/forecastSources";
+
+const windType = z.enum(["offshore", "onshore", "cross", "side-offshore"]);
+const tidePhase = z.enum(["rising", "falling", "high", "low"]);
+const tideSource = z.enum(["noaa", "harmonic"]);
+const confidenceBand = z.enum(["Low", "Medium", "High"]);
+
+// ==================== PARAMETERS ====================
+
+export const spotParams = z.object({
+  spotId: z.coerce.number().int().positive().describe("Spot id from /spots"),
+});
+
+export const buoyParams = z.object({
+  buoyId: z.string().regex(/^[A-Za-z0-9]{1,16}$/).describe("NDBC station id, e.g. 44065"),
+});
+
+export const forecastQuery = z.object({
+  hours: z.coerce.number().int().min(1).max(180).default(168).describe("Hours ahead"),
+  source: z.enum(TIMELINE_FORECAST_SOURCES).default("ww3").describe("Forecast source (ww3 = Open-Meteo default blend)"),
+});
+
+export const buoyReadingsQuery = z.object({
+  days: z.coerce.number().int().min(1).max(45).default(7).describe("Days of history"),
+});
+
+export const tidesQuery = z.object({
+  days: z.coerce.number().int().min(1).max(7).default(2).describe("Days ahead"),
+});
+
+// ==================== RESPONSES ====================
+
+export const errorResponse = z.object({ error: z.string() });
+
+export const spotSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  latitude: z.string(),
+  longitude: z.string(),
+  buoyId: z.string().describe("Nearest NDBC buoy (see /buoys/{buoyId}/readings)"),
+  tideStationId: z.string().describe("NOAA tide station"),
+  bathymetryFactor: z.number().int().describe("1-10"),
+  idealSwellDirMin: z.number().int().describe("Degrees"),
+  idealSwellDirMax: z.number().int().describe("Degrees"),
+  createdAt: z.date(),
+});
+
+export const spotListResponse = z.object({ spots: z.array(spotSchema) });
+
+export const spotResponse = z.object({ spot: spotSchema });
+
+export const currentConditionsSchema = z.object({
+  spotId: z.number().int(),
+  spot: spotSchema,
+  currentConditions: z
+    .object({
+      qualityScore: z.number().describe("0-100"),
+      probabilityScore: z.number().describe("0-100 (legacy score)"),
+      waveHeightTenthsFt: z.number().describe("Tenths of feet (legacy)"),
+      breakingWaveHeightFt: z.number().nullable(),
+      dominantSwellHeightFt: z.number().nullable(),
+      dominantSwellPeriodS: z.number().nullable(),
+      dominantSwellDirectionDeg: z.number().nullable(),
+      dominantSwellType: z.enum(["primary", "secondary", "wind"]).nullable(),
+      confidenceBand,
+      usabilityIntermediate: z.number().describe("0-100"),
+      usabilityAdvanced: z.number().describe("0-100"),
+      windSpeedMph: z.number().nullable(),
+      windDirectionDeg: z.number().nullable(),
+      windType: windType.nullable(),
+      tideHeightFt: z.number().nullable().describe("Tenths of feet"),
+      tidePhase: tidePhase.nullable(),
+      wavePeriodSec: z.number().nullable(),
+      createdAt: z.date().describe("Forecast hour these conditions are for"),
+    })
+    .nullable()
+    .describe("Null when there is no forecast for the last hour"),
+});
+
+export const conditionsResponse = z.object({ conditions: z.array(currentConditionsSchema) });
+
+export const hourlyForecastSchema = z.object({
+  forecastTimestamp: z.date(),
+  hoursOut: z.number(),
+  breakingWaveHeightFt: z.number().nullable().describe("Predicted breaking wave face height"),
+  quality_rating: z.string().nullable().describe("\"Don't Bother\", \"Worth a Look\", \"Go Surf\", \"Firing\", \"All-Time\""),
+  quality_score: z.number().nullable().describe("0-100"),
+  ensembleBreakingWaveHeightFt: z.number().nullable().describe("Verification-weighted mean across forecast sources (default source only)"),
+  breakingHeightP10Ft: z.number().nullable().describe("10th percentile of breaking height across forecast sources"),
+  breakingHeightP90Ft: z.number().nullable().describe("90th percentile of breaking height across forecast sources"),
+  probabilityScore: z.number().describe("0-100 (legacy score)"),
+  confidenceBand,
+  usabilityIntermediate: z.number().describe("0-100"),
+  usabilityAdvanced: z.number().describe("0-100"),
+  dominantSwellHeightFt: z.number().nullable(),
+  dominantSwellPeriodS: z.number().nullable(),
+  dominantSwellDirectionDeg: z.number().nullable(),
+  dominantSwellType: z.enum(["primary", "secondary", "wind"]).nullable(),
+  dominantSwellLabel: z.string().nullable().describe("\"Wind Swell\", \"Swell\" or \"Groundswell\""),
+  waveHeightFt: z.number().nullable().describe("Primary swell"),
+  wavePeriodSec: z.number().nullable(),
+  waveDirectionDeg: z.number().nullable(),
+  secondarySwellHeightFt: z.number().nullable(),
+  secondarySwellPeriodS: z.number().nullable(),
+  secondarySwellDirectionDeg: z.number().nullable(),
+  windWaveHeightFt: z.number().nullable(),
+  windWavePeriodS: z.number().nullable(),
+  windWaveDirectionDeg: z.number().nullable(),
+  windSpeedMph: z.number().nullable(),
+  windGustsMph: z.number().nullable(),
+  windDirectionDeg: z.number().nullable(),
+  windType: windType.nullable(),
+  tideHeightFt: z.number().nullable().describe("Tenths of feet"),
+  tidePhase: tidePhase.nullable(),
+  tideSource: tideSource.nullable(),
+  waterTempF: z.number().nullable(),
+  airTempF: z.number().nullable(),
+});
+
+export const forecastResponse = z.object({
+  spot: spotSchema,
+  source: z.enum(TIMELINE_FORECAST_SOURCES),
+  timeline: z.array(hourlyForecastSchema).describe("Hourly, oldest first"),
+});
+
+export const buoyReadingSchema = z.object({
+  timestamp: z.date(),
+  waveHeightFt: z.number().nullable(),
+  dominantPeriodS: z.number().nullable(),
+  averagePeriodS: z.number().nullable(),
+  meanWaveDirectionDeg: z.number().nullable(),
+  swellHeightFt: z.number().nullable(),
+  swellPeriodS: z.number().nullable(),
+  swellDirectionDeg: z.number().nullable(),
+  windWaveHeightFt: z.number().nullable(),
+  windWavePeriodS: z.number().nullable(),
+  windWaveDirectionDeg: z.number().nullable(),
+  steepness: z.string().nullable().describe("\"SWELL\", \"AVERAGE\", \"STEEP\" or \"VERY_STEEP\""),
+  windSpeedKts: z.number().nullable(),
+  windGustKts: z.number().nullable(),
+  windDirectionDeg: z.number().nullable(),
+});
+
+export const buoyReadingsResponse = z.object({
+  buoyId: z.string(),
+  readings: z.array(buoyReadingSchema).describe("Oldest first"),
+});
+
+export const tidesResponse = z.object({
+  stationId: z.string(),
+  events: z
+    .array(z.object({ time: z.date(), heightFt: z.number(), type: z.enum(["H", "L"]), source: tideSource }))
+    .describe("High and low tides"),
+  curve: z
+    .array(z.object({ time: z.date(), heightFt: z.number(), source: tideSource }))
+    .describe("Predicted water level every 6 minutes"),
+});
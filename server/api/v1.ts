@@ -0,0 +1,215 @@
+/**
+ * REST API v1
+ *
+ * Read-only forecast data as plain JSON under /api/v1, for scripts, Home Assistant, bots and
+ * anything else that would rather not speak tRPC + superjson. Every route calls the same tRPC
+ * procedure the site uses (or the same loader, for tides), so the data matches what members see.
+ *
+ * Each route is one entry in API_V1_ROUTES: its zod schemas parse the path and query, type the
+ * handler's result and generate the OpenAPI document (/api/v1/openapi.json, no key needed).
+ * Everything else needs an API key (apiKeys.ts) and counts against that key's rate limit.
+ */
+
+import type { Express, Request, Response } from "express";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import type { z } from "zod";
+import { appRouter } from "../routers";
+import { loadTideSeries } from "../layers/environmental/clients/tides";
+import { authenticateApiKey, type RateLimitResult } from "./apiKeys";
+import { buildOpenApiDocument } from "./openapi";
+import {
+  buoyParams,
+  buoyReadingsQuery,
+  buoyReadingsResponse,
+  conditionsResponse,
+  forecastQuery,
+  forecastResponse,
+  hourlyForecastSchema,
+  spotListResponse,
+  spotParams,
+  spotResponse,
+  tidesQuery,
+  tidesResponse,
+} from "./schemas";
+
+type Caller = ReturnType<typeof appRouter.createCaller>;
+
+export interface ApiRoute {
+  path: string; // OpenAPI style, relative to /api/v1, e.g. "/spots/{spotId}"
+  operationId: string;
+  summary: string;
+  description?: string;
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  response: z.ZodType;
+  handler: (input: { params: any; query: any }, caller: Caller) => Promise<unknown>;
+}
+
+/**
+ * Ties a handler's input and result types to the route's schemas
+ */
+function defineRoute<
+  R extends z.ZodType,
+  P extends z.ZodObject | undefined = undefined,
+  Q extends z.ZodObject | undefined = undefined,
+>(route: {
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  params?: P;
+  query?: Q;
+  response: R;
+  handler: (
+    input: { params: P extends z.ZodObject ? z.output<P> : {}; query: Q extends z.ZodObject ? z.output<Q> : {} },
+    caller: Caller
+  ) => Promise<z.output<R>>;
+}): ApiRoute {
+  return route;
+}
+
+/**
+ * Just the fields a schema documents (procedures can return extra, internal ones)
+ */
+function pickSchemaFields<S extends z.ZodObject>(schema: S, value: z.output<S>): z.output<S> {
+  return Object.fromEntries(Object.keys(schema.shape).map((key) => [key, (value as Record<string, unknown>)[key]])) as z.output<S>;
+}
+
+function notFound(message: string): TRPCError {
+  return new TRPCError({ code: "NOT_FOUND", message });
+}
+
+export const API_V1_ROUTES: ApiRoute[] = [
+  defineRoute({
+    path: "/spots",
+    operationId: "listSpots",
+    summary: "All surf spots",
+    response: spotListResponse,
+    handler: async (_input, caller) => ({ spots: await caller.spots.list() }),
+  }),
+  defineRoute({
+    path: "/spots/{spotId}",
+    operationId: "getSpot",
+    summary: "One surf spot",
+    params: spotParams,
+    response: spotResponse,
+    handler: async ({ params }, caller) => {
+      const spot = await caller.spots.get({ id: params.spotId });
+      if (!spot) throw notFound("Spot not found");
+      return { spot };
+    },
+  }),
+  defineRoute({
+    path: "/conditions",
+    operationId: "getCurrentConditions",
+    summary: "Current conditions at every spot",
+    description: "Same as the dashboard: the last hour's forecast, with buoy waves and wind when the buoy is reporting.",
+    response: conditionsResponse,
+    handler: async (_input, caller) => ({ conditions: await caller.forecasts.getCurrentConditionsForAll() }),
+  }),
+  defineRoute({
+    path: "/spots/{spotId}/forecast",
+    operationId: "getSpotForecast",
+    summary: "Hourly forecast for a spot",
+    params: spotParams,
+    query: forecastQuery,
+    response: forecastResponse,
+    handler: async ({ params, query }, caller) => {
+      const spot = await caller.spots.get({ id: params.spotId });
+      if (!spot) throw notFound("Spot not found");
+      const { source, timeline } = await caller.forecasts.getTimeline({ spotId: spot.id, hours: query.hours, source: query.source });
+      return { spot, source, timeline: timeline.map((point) => pickSchemaFields(hourlyForecastSchema, point)) };
+    },
+  }),
+  defineRoute({
+    path: "/spots/{spotId}/tides",
+    operationId: "getSpotTides",
+    summary: "Tide predictions at a spot's tide station",
+    params: spotParams,
+    query: tidesQuery,
+    response: tidesResponse,
+    handler: async ({ params, query }, caller) => {
+      const spot = await caller.spots.get({ id: params.spotId });
+      if (!spot) throw notFound("Spot not found");
+
+      const start = new Date();
+      const end = new Date(start.getTime() + query.days * 24 * 60 * 60 * 1000);
+      const series = await loadTideSeries(spot.tideStationId, start, end);
+      const inRange = (point: { time: Date }) => point.time >= start && point.time <= end;
+      return { stationId: series.stationId, events: series.events.filter(inRange), curve: series.curve.filter(inRange) };
+    },
+  }),
+  defineRoute({
+    path: "/buoys/{buoyId}/readings",
+    operationId: "getBuoyReadings",
+    summary: "Recent readings from an NDBC buoy",
+    params: buoyParams,
+    query: buoyReadingsQuery,
+    response: buoyReadingsResponse,
+    handler: async ({ params, query }, caller) => caller.buoy.getHistory({ buoyId: params.buoyId, days: query.days }),
+  }),
+];
+
+let openApiDocument: Record<string, unknown> | null = null;
+
+function toExpressPath(path: string): string {
+  return `/api/v1${path.replace(/\{(\w+)\}/g, ":$1")}`;
+}
+
+function setRateLimitHeaders(res: Response, rateLimit: RateLimitResult | undefined) {
+  if (!rateLimit) return;
+  res.setHeader("X-RateLimit-Limit", String(rateLimit.limit));
+  res.setHeader("X-RateLimit-Remaining", String(rateLimit.remaining));
+  res.setHeader("X-RateLimit-Reset", String(Math.ceil(rateLimit.resetAt.getTime() / 1000)));
+}
+
+function parseInput(schema: z.ZodObject | undefined, value: unknown): { data: unknown } | { error: string } {
+  if (!schema) return { data: {} };
+  const result = schema.safeParse(value);
+  if (result.success) return { data: result.data };
+  const issue = result.error.issues[0];
+  return { error: `${issue.path.join(".") || "input"}: ${issue.message}` };
+}
+
+export function registerApiV1Routes(app: Express) {
+  app.get("/api/v1/openapi.json", (_req: Request, res: Response) => {
+    openApiDocument ??= buildOpenApiDocument(API_V1_ROUTES);
+    res.json(openApiDocument);
+  });
+
+  for (const route of API_V1_ROUTES) {
+    app.get(toExpressPath(route.path), async (req: Request, res: Response) => {
+      const auth = await authenticateApiKey(req);
+      setRateLimitHeaders(res, auth.rateLimit);
+      if (!auth.ok) {
+        if (auth.status === 429 && auth.rateLimit) {
+          res.setHeader("Retry-After", String(Math.max(1, Math.ceil((auth.rateLimit.resetAt.getTime() - Date.now()) / 1000))));
+        }
+        res.status(auth.status).json({ error: auth.error });
+        return;
+      }
+
+      const params = parseInput(route.params, req.params);
+      const query = parseInput(route.query, req.query);
+      if ("error" in params || "error" in query) {
+        res.status(400).json({ error: "error" in params ? params.error : (query as { error: string }).error });
+        return;
+      }
+
+      try {
+        const caller = appRouter.createCaller({ req, res, user: null });
+        res.json(await route.handler({ params: params.data, query: query.data }, caller));
+      } catch (error) {
+        const status = error instanceof TRPCError ? getHTTPStatusCodeFromError(error) : 500;
+        if (status >= 500) console.error(`[API] ${route.operationId} failed (key ${auth.apiKey.id}):`, error);
+        res.status(status).json({ error: status >= 500 ? "Internal server error" : (error as Error).message });
+      }
+    });
+  }
+
+  // Unknown /api/v1 paths get JSON, not the SPA
+  app.use("/api/v1", (_req: Request, res: Response) => {
+    res.status(404).json({ error: "Not found" });
+  });
+}
@@ -1,4 +1,4 @@
-import { eq, desc, and, gte, lte, lt, isNull, isNotNull, or, sql } from "drizzle-orm";
+import { eq, ne, desc, and, gt, gte, lte, lt, isNull, isNotNull, or, inArray, notInArray, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import mysql from "mysql2/promise";
 import {
@@ -18,6 +18,9 @@ import {
   type InsertSurfSpot,
   type BuoyReading,
   type InsertBuoyReading,
+  tidePredictions,
+  type TidePredictionRow,
+  type InsertTidePredictionRow,
   type Forecast,
   type InsertForecast,
   type ForecastPoint,
@@ -38,6 +41,39 @@ import {
   type ConditionsLog,
   surfReportValidation,
   type InsertSurfReportValidation,
+  spotProfiles,
+  type SpotProfileRow,
+  type InsertSpotProfileRow,
+  jobRuns,
+  type JobRun,
+  forecastVerifications,
+  type ForecastVerification,
+  type InsertForecastVerification,
+  breakingHeightCalibrations,
+  breakingHeightCorrections,
+  type BreakingHeightCalibration,
+  type BreakingHeightCorrection,
+  type InsertBreakingHeightCorrection,
+  swellEvents,
+  swellEventRevisions,
+  type SwellEvent,
+  type InsertSwellEvent,
+  type SwellEventRevision,
+  type InsertSwellEventRevision,
+  notificationOutbox,
+  type NotificationOutboxMessage,
+  type InsertNotificationOutboxMessage,
+  swellDigests,
+  type SwellDigest,
+  type InsertSwellDigest,
+  pushSubscriptions,
+  type PushSubscriptionRow,
+  type InsertPushSubscriptionRow,
+  apiKeys,
+  type ApiKey,
+  type InsertApiKey,
+  auditLog,
+  type InsertAuditLogEntry,
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
 
@@ -247,6 +283,54 @@ export async function getUserById(userId: number) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+/**
+ * Alert snooze and report-prompt opt-out (set from email preference links or /members)
+ */
+export async function updateUserEmailPreferences(
+  userId: number,
+  preferences: {
+    alertsSnoozedUntil?: Date | null;
+    reportPromptsOptOut?: boolean;
+    digestHour?: number;
+    digestDayOfWeek?: number;
+    timezone?: string;
+  }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const updates: Partial<InsertUser> = {};
+  if (preferences.alertsSnoozedUntil !== undefined) updates.alertsSnoozedUntil = preferences.alertsSnoozedUntil;
+  if (preferences.reportPromptsOptOut !== undefined) updates.reportPromptsOptOut = preferences.reportPromptsOptOut ? 1 : 0;
+  if (preferences.digestHour !== undefined) updates.digestHour = preferences.digestHour;
+  if (preferences.digestDayOfWeek !== undefined) updates.digestDayOfWeek = preferences.digestDayOfWeek;
+  if (preferences.timezone !== undefined) updates.timezone = preferences.timezone;
+  if (Object.keys(updates).length === 0) return;
+
+  await db.update(users).set(updates).where(eq(users.id, userId));
+}
+
+export async function getUserByCalendarToken(token: string) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get user: database not available");
+    return undefined;
+  }
+
+  const result = await db.select().from(users).where(eq(users.calendarToken, token)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Set (or replace, which revokes the old feed URL) a user's calendar feed token
+ */
+export async function setUserCalendarToken(userId: number, token: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(users).set({ calendarToken: token }).where(eq(users.id, userId));
+}
+
 export async function getUserByEmail(email: string) {
   const db = await getDb();
   if (!db) {
@@ -266,6 +350,55 @@ export async function getUserByEmail(email: string) {
   }
 }
 
+// ==================== API KEYS ====================
+
+export async function createApiKey(key: InsertApiKey): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(apiKeys).values(key);
+  return result[0].insertId;
+}
+
+/**
+ * A user's keys, newest first (revoked ones included, so the list shows them)
+ */
+export async function getApiKeysForUser(userId: number): Promise<ApiKey[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(apiKeys).where(eq(apiKeys.userId, userId)).orderBy(desc(apiKeys.createdAt));
+}
+
+export async function getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash)).limit(1);
+  return result[0];
+}
+
+/**
+ * @returns Whether an active key was revoked
+ */
+export async function revokeApiKey(keyId: number, userId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)));
+  return result[0].affectedRows > 0;
+}
+
+export async function markApiKeyUsed(keyId: number, usedAt: Date = new Date()): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(apiKeys).set({ lastUsedAt: usedAt }).where(eq(apiKeys.id, keyId));
+}
+
 // ==================== SURF SPOTS ====================
 
 export async function getAllSpots(): Promise<SurfSpot[]> {
@@ -294,10 +427,80 @@ export async function getSpotById(id: number): Promise<SurfSpot | undefined> {
   return result[0];
 }
 
-export async function createSpot(spot: InsertSurfSpot): Promise<void> {
+export async function createSpot(spot: InsertSurfSpot): Promise<number | undefined> {
   const db = await getDb();
-  if (!db) return;
-  await db.insert(surfSpots).values(spot);
+  if (!db) return undefined;
+  const result = await db.insert(surfSpots).values(spot);
+  return result[0].insertId;
+}
+
+export async function updateSpot(id: number, updates: Partial<InsertSurfSpot>): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(surfSpots).set(updates).where(eq(surfSpots.id, id));
+}
+
+// ==================== SPOT PROFILES ====================
+
+/**
+ * Spot profile row joined with the location/station fields from surf_spots
+ */
+export type SpotProfileWithSpot = SpotProfileRow & {
+  spotName: string;
+  latitude: string;
+  longitude: string;
+  buoyId: string;
+  tideStationId: string;
+};
+
+/**
+ * Get all spot profiles with their surf_spots location and station data
+ */
+export async function getAllSpotProfiles(): Promise<SpotProfileWithSpot[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({
+      profile: spotProfiles,
+      spotName: surfSpots.name,
+      latitude: surfSpots.latitude,
+      longitude: surfSpots.longitude,
+      buoyId: surfSpots.buoyId,
+      tideStationId: surfSpots.tideStationId,
+    })
+    .from(spotProfiles)
+    .innerJoin(surfSpots, eq(spotProfiles.spotId, surfSpots.id));
+
+  return rows.map((row) => ({
+    ...row.profile,
+    spotName: row.spotName,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    buoyId: row.buoyId,
+    tideStationId: row.tideStationId,
+  }));
+}
+
+export async function getSpotProfileBySpotId(spotId: number): Promise<SpotProfileRow | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(spotProfiles).where(eq(spotProfiles.spotId, spotId)).limit(1);
+  return result[0];
+}
+
+/**
+ * Insert or update the profile for a spot (one profile per spot)
+ */
+export async function upsertSpotProfile(profile: InsertSpotProfileRow): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { spotId, ...updates } = profile;
+  await db
+    .insert(spotProfiles)
+    .values(profile)
+    .onDuplicateKeyUpdate({ set: { ...updates, updatedAt: new Date() } });
 }
 
 // ==================== BUOY READINGS ====================
@@ -314,12 +517,153 @@ export async function getLatestBuoyReading(buoyId: string): Promise<BuoyReading
   return result[0];
 }
 
+/**
+ * Latest stored reading with the .spec swell fields (SwH / SwP) filled in
+ */
+export async function getLatestBuoySwellReading(buoyId: string): Promise<BuoyReading | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db
+    .select()
+    .from(buoyReadings)
+    .where(and(eq(buoyReadings.buoyId, buoyId), isNotNull(buoyReadings.swellHeightCm), isNotNull(buoyReadings.swellPeriodDs)))
+    .orderBy(desc(buoyReadings.timestamp))
+    .limit(1);
+  return result[0];
+}
+
 export async function insertBuoyReading(reading: InsertBuoyReading): Promise<void> {
   const db = await getDb();
   if (!db) return;
   await db.insert(buoyReadings).values(reading);
 }
 
+const BUOY_READING_UPSERT_CHUNK = 500;
+const BUOY_READING_UPSERT_COLUMNS = [
+  "waveHeightCm",
+  "dominantPeriodDs",
+  "swellDirectionDeg",
+  "windSpeedCmps",
+  "windDirectionDeg",
+  "windGustCmps",
+  "averagePeriodDs",
+  "swellHeightCm",
+  "swellPeriodDs",
+  "swellDirDeg",
+  "windWaveHeightCm",
+  "windWavePeriodDs",
+  "windWaveDirDeg",
+  "steepness",
+] as const;
+
+/**
+ * Insert or update buoy readings in bulk.
+ * Uses upsert logic based on unique (buoyId, timestamp) constraint, so re-ingesting
+ * overlapping NDBC windows refreshes rows in place instead of duplicating them.
+ *
+ * @returns Number of readings written
+ */
+export async function upsertBuoyReadings(readings: InsertBuoyReading[]): Promise<number> {
+  const db = await getDb();
+  if (!db || readings.length === 0) return 0;
+
+  for (let i = 0; i < readings.length; i += BUOY_READING_UPSERT_CHUNK) {
+    const chunk = readings.slice(i, i + BUOY_READING_UPSERT_CHUNK);
+    await db.insert(buoyReadings).values(chunk).onDuplicateKeyUpdate({
+      set: {
+        ...Object.fromEntries(
+          BUOY_READING_UPSERT_COLUMNS.map((column) => [column, sql.raw(`VALUES(\`${column}\`)`)])
+        ),
+        // Keep stored trains when a run couldn't fetch the spectrum
+        swellTrains: sql.raw("COALESCE(VALUES(`swellTrains`), `swellTrains`)"),
+      },
+    });
+  }
+  return readings.length;
+}
+
+/**
+ * Get buoy readings for a buoy within a time range, oldest first.
+ */
+export async function getBuoyReadingHistory(
+  buoyId: string,
+  startTime: Date,
+  endTime: Date = new Date()
+): Promise<BuoyReading[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select()
+    .from(buoyReadings)
+    .where(
+      and(
+        eq(buoyReadings.buoyId, buoyId),
+        gte(buoyReadings.timestamp, startTime),
+        lte(buoyReadings.timestamp, endTime)
+      )
+    )
+    .orderBy(buoyReadings.timestamp);
+}
+
+// ==================== TIDE PREDICTIONS ====================
+
+const TIDE_PREDICTION_UPSERT_CHUNK = 500;
+
+/**
+ * Insert or update cached tide predictions.
+ * Uses upsert logic based on unique (stationId, resolution, time) constraint.
+ */
+export async function upsertTidePredictions(rows: InsertTidePredictionRow[]): Promise<void> {
+  const db = await getDb();
+  if (!db || rows.length === 0) return;
+
+  for (let i = 0; i < rows.length; i += TIDE_PREDICTION_UPSERT_CHUNK) {
+    await db
+      .insert(tidePredictions)
+      .values(rows.slice(i, i + TIDE_PREDICTION_UPSERT_CHUNK))
+      .onDuplicateKeyUpdate({
+        set: {
+          heightFt: sql.raw("VALUES(`heightFt`)"),
+          type: sql.raw("VALUES(`type`)"),
+          fetchedAt: new Date(),
+        },
+      });
+  }
+}
+
+/**
+ * Cached predictions for a station within [startTime, endTime], oldest first (all resolutions)
+ */
+export async function getTidePredictions(
+  stationId: string,
+  startTime: Date,
+  endTime: Date
+): Promise<TidePredictionRow[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(tidePredictions)
+    .where(
+      and(
+        eq(tidePredictions.stationId, stationId),
+        gte(tidePredictions.time, startTime),
+        lte(tidePredictions.time, endTime)
+      )
+    )
+    .orderBy(tidePredictions.time);
+}
+
+/**
+ * Remove cached predictions older than the cutoff
+ */
+export async function deleteTidePredictionsBefore(cutoff: Date): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(tidePredictions).where(lt(tidePredictions.time, cutoff));
+}
+
 // ==================== FORECASTS ====================
 
 export async function getLatestForecastForSpot(spotId: number): Promise<Forecast | undefined> {
@@ -407,19 +751,43 @@ export async function insertForecastPoint(forecastPoint: InsertForecastPoint): P
   await db.insert(forecastPoints).values(forecastPoint);
 }
 
+// Value columns rewritten when a run's hour is inserted again (key: spotId, modelRunTime, source, forecastTimestamp)
+const FORECAST_POINT_UPSERT_COLUMNS = [
+  "hoursOut",
+  "waveHeightFt",
+  "wavePeriodSec",
+  "waveDirectionDeg",
+  "secondarySwellHeightFt",
+  "secondarySwellPeriodS",
+  "secondarySwellDirectionDeg",
+  "windWaveHeightFt",
+  "windWavePeriodS",
+  "windWaveDirectionDeg",
+  "windSpeedKts",
+  "windDirectionDeg",
+  "windGustsKts",
+  "waterTempF",
+  "airTempF",
+] as const;
+
+/**
+ * Append a model run to the forecast archive.
+ * Earlier runs are kept (see jobs/compactForecastArchive.ts); re-importing the same run
+ * overwrites its hours in place.
+ */
 export async function insertForecastPoints(forecastPointsArray: InsertForecastPoint[]): Promise<void> {
   const db = await getDb();
   if (!db) return;
   if (forecastPointsArray.length === 0) return;
-  
-  // Extract spotId from first point to clean up old data
+
   const spotId = forecastPointsArray[0].spotId;
-  
-  // Delete old points before inserting fresh ones
-  await db.delete(forecastPoints).where(eq(forecastPoints.spotId, spotId));
 
   try {
-    await db.insert(forecastPoints).values(forecastPointsArray);
+    await db.insert(forecastPoints).values(forecastPointsArray).onDuplicateKeyUpdate({
+      set: Object.fromEntries(
+        FORECAST_POINT_UPSERT_COLUMNS.map((column) => [column, sql.raw(`VALUES(\`${column}\`)`)])
+      ),
+    });
     console.log(`[insertForecastPoints] Inserted ${forecastPointsArray.length} points for spot ${spotId}`);
   } catch (error: any) {
     console.error(`[insertForecastPoints] Insert failed:`, error);
@@ -427,20 +795,30 @@ export async function insertForecastPoints(forecastPointsArray: InsertForecastPo
   }
 }
 
+/**
+ * Hourly forecast for a spot from one source's latest model run only
+ * (default "ww3", Open-Meteo's default blend - see services/forecastSources.ts)
+ */
 export async function getForecastTimeline(
   spotId: number,
-  maxHoursOut: number = 180
+  maxHoursOut: number = 180,
+  source: ForecastPoint["source"] = "ww3"
 ): Promise<ForecastPoint[]> {
   const db = await getDb();
   if (!db) return [];
   
   try {
+    const latestRun = await getLatestModelRunTime(spotId, source);
+    if (!latestRun) return [];
+
     const result = await db
       .select()
       .from(forecastPoints)
       .where(
         and(
           eq(forecastPoints.spotId, spotId),
+          eq(forecastPoints.source, source),
+          eq(forecastPoints.modelRunTime, latestRun),
           lte(forecastPoints.hoursOut, maxHoursOut)
         )
       )
@@ -453,7 +831,53 @@ export async function getForecastTimeline(
   }
 }
 
-export async function getLatestModelRunTime(spotId?: number): Promise<Date | null> {
+/**
+ * Every archived run's forecast for one spot and hour, oldest run first
+ */
+export async function getForecastRunHistory(spotId: number, forecastTimestamp: Date): Promise<ForecastPoint[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(forecastPoints)
+    .where(and(eq(forecastPoints.spotId, spotId), eq(forecastPoints.forecastTimestamp, forecastTimestamp)))
+    .orderBy(forecastPoints.modelRunTime);
+}
+
+export interface ForecastRunSummary {
+  spotId: number;
+  source: ForecastPoint["source"];
+  modelRunTime: Date;
+  points: number;
+}
+
+/**
+ * Archived runs for a spot that started before a time (compaction)
+ */
+export async function getForecastRuns(spotId: number, before: Date): Promise<ForecastRunSummary[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({
+      spotId: forecastPoints.spotId,
+      source: forecastPoints.source,
+      modelRunTime: forecastPoints.modelRunTime,
+      points: sql<number>`COUNT(*)`,
+    })
+    .from(forecastPoints)
+    .where(and(eq(forecastPoints.spotId, spotId), lt(forecastPoints.modelRunTime, before)))
+    .groupBy(forecastPoints.spotId, forecastPoints.source, forecastPoints.modelRunTime)
+    .orderBy(forecastPoints.modelRunTime);
+
+  return rows.map((row) => ({ ...row, points: Number(row.points) }));
+}
+
+export async function getLatestModelRunTime(
+  spotId?: number,
+  source?: ForecastPoint["source"]
+): Promise<Date | null> {
   const db = await getDb();
   if (!db) return null;
   
@@ -464,8 +888,13 @@ export async function getLatestModelRunTime(spotId?: number): Promise<Date | nul
       .orderBy(desc(forecastPoints.modelRunTime))
       .limit(1);
     
-    if (spotId !== undefined) {
-      query = query.where(eq(forecastPoints.spotId, spotId)) as typeof query;
+    if (spotId !== undefined || source !== undefined) {
+      query = query.where(
+        and(
+          spotId !== undefined ? eq(forecastPoints.spotId, spotId) : undefined,
+          source !== undefined ? eq(forecastPoints.source, source) : undefined
+        )
+      ) as typeof query;
     }
     
     const result = await query;
@@ -478,7 +907,8 @@ export async function getLatestModelRunTime(spotId?: number): Promise<Date | nul
 
 export async function isForecastDataStale(
   spotId: number,
-  maxAgeHours: number = 6
+  maxAgeHours: number = 6,
+  source: ForecastPoint["source"] = "ww3"
 ): Promise<boolean> {
   const db = await getDb();
   if (!db) return true;
@@ -492,6 +922,7 @@ export async function isForecastDataStale(
       .where(
         and(
           eq(forecastPoints.spotId, spotId),
+          eq(forecastPoints.source, source),
           gte(forecastPoints.modelRunTime, cutoff)
         )
       )
@@ -505,26 +936,34 @@ export async function isForecastDataStale(
   }
 }
 
+/**
+ * Delete one archived run for a spot (all sources, or just one)
+ * @returns Number of points deleted
+ */
 export async function deleteForecastPointsBySpotAndModelRun(
   spotId: number,
-  modelRunTime: Date
-): Promise<void> {
+  modelRunTime: Date,
+  source?: ForecastPoint["source"]
+): Promise<number> {
   const db = await getDb();
-  if (!db) return;
+  if (!db) return 0;
   
-  await db
+  const result = await db
     .delete(forecastPoints)
     .where(
       and(
         eq(forecastPoints.spotId, spotId),
-        eq(forecastPoints.modelRunTime, modelRunTime)
+        eq(forecastPoints.modelRunTime, modelRunTime),
+        source ? eq(forecastPoints.source, source) : undefined
       )
     );
+
+  return result[0].affectedRows;
 }
 
 /**
- * Delete all forecast points for a spot older than the specified cutoff time
- * This is useful for cleaning up old forecasts during data refresh
+ * Delete all forecast points for a spot from runs older than the cutoff
+ * (the archive's retention limit)
  */
 export async function deleteForecastPointsBySpotOlderThan(
   spotId: number,
@@ -542,24 +981,52 @@ export async function deleteForecastPointsBySpotOlderThan(
       )
     );
   
-  return result.rowsAffected || 0;
+  return result[0].affectedRows;
 }
 
 /**
- * Delete ALL forecast points for a spot
- * Use this for a complete data refresh
+ * Stored forecast hours for a spot between two times (alert backtests), newest run per hour.
+ * Reaches back as far as the forecast archive keeps runs (see jobs/compactForecastArchive.ts).
  */
-export async function deleteAllForecastPointsForSpot(
-  spotId: number
-): Promise<number> {
+export async function getForecastPointsInRange(
+  spotId: number,
+  from: Date,
+  to: Date,
+  source: ForecastPoint["source"] = "ww3"
+): Promise<ForecastPoint[]> {
   const db = await getDb();
-  if (!db) return 0;
-  
-  const result = await db
-    .delete(forecastPoints)
-    .where(eq(forecastPoints.spotId, spotId));
-  
-  return result.rowsAffected || 0;
+  if (!db) return [];
+
+  const rows = await db
+    .select()
+    .from(forecastPoints)
+    .where(
+      and(
+        eq(forecastPoints.spotId, spotId),
+        eq(forecastPoints.source, source),
+        gte(forecastPoints.forecastTimestamp, from),
+        lte(forecastPoints.forecastTimestamp, to)
+      )
+    )
+    .orderBy(forecastPoints.forecastTimestamp, desc(forecastPoints.modelRunTime));
+
+  return rows.filter((row, i) => i === 0 || row.forecastTimestamp.getTime() !== rows[i - 1].forecastTimestamp.getTime());
+}
+
+// ==================== CONDITIONS LOG ====================
+
+/**
+ * Logged best-spot snapshots between two times, oldest first (alert backtests)
+ */
+export async function getConditionsLogInRange(from: Date, to: Date): Promise<ConditionsLog[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(conditionsLog)
+    .where(and(gte(conditionsLog.timestamp, from), lte(conditionsLog.timestamp, to)))
+    .orderBy(conditionsLog.timestamp);
 }
 
 // ==================== SWELL ALERTS ====================
@@ -608,14 +1075,28 @@ export async function getSwellAlertById(alertId: number, userId: number): Promis
   return result[0];
 }
 
-export async function getAllActiveSwellAlerts(): Promise<SwellAlert[]> {
+/**
+ * Alerts to check: not deleted, not paused, and the user's alerts aren't snoozed
+ */
+export async function getAllActiveSwellAlerts(now: Date = new Date()): Promise<SwellAlert[]> {
   const db = await getDb();
   if (!db) return [];
   
+  const snoozedUserIds = db
+    .select({ id: users.id })
+    .from(users)
+    .where(gt(users.alertsSnoozedUntil, now));
+
   const result = await db
     .select()
     .from(swellAlerts)
-    .where(eq(swellAlerts.isActive, 1))
+    .where(
+      and(
+        eq(swellAlerts.isActive, 1),
+        isNull(swellAlerts.pausedAt),
+        notInArray(swellAlerts.userId, snoozedUserIds)
+      )
+    )
     .orderBy(desc(swellAlerts.createdAt));
   
   return result;
@@ -725,6 +1206,7 @@ export async function createSwellAlert(alert: InsertSwellAlert): Promise<number>
   const minPeriodSec = (alert.minPeriodSec === undefined || alert.minPeriodSec === '' || alert.minPeriodSec === null) ? null : alert.minPeriodSec;
   const idealWindOnly = alert.idealWindOnly ?? 0;
   const allowedDays = alert.allowedDays ?? "0,1,2,3,4,5,6"; // Default to all days
+  const rule = alert.rule ?? null;
   const emailEnabled = alert.emailEnabled ?? 1;
   const smsEnabled = alert.smsEnabled ?? 0;
   const pushEnabled = alert.pushEnabled ?? 0;
@@ -735,7 +1217,7 @@ export async function createSwellAlert(alert: InsertSwellAlert): Promise<number>
   const lastNotifiedScore = (alert.lastNotifiedScore === undefined || alert.lastNotifiedScore === '' || alert.lastNotifiedScore === null) ? null : alert.lastNotifiedScore;
   
   // Use raw SQL INSERT with explicit column list and parameterized values
-  // Only 13 fields (id, createdAt, updatedAt, includeConfidenceIntervals, includeExplanation, lastNotifiedScore use DB defaults)
+  // Only 15 fields (id, createdAt, updatedAt, includeConfidenceIntervals, includeExplanation, lastNotifiedScore use DB defaults)
   // Note: lastNotifiedScore removed from INSERT to avoid "Unknown column" error on Railway (migration may not be applied)
   const params = [
     userId,
@@ -745,6 +1227,7 @@ export async function createSwellAlert(alert: InsertSwellAlert): Promise<number>
     minPeriodSec,
     idealWindOnly,
     allowedDays,
+    rule,
     emailEnabled,
     smsEnabled,
     pushEnabled,
@@ -759,10 +1242,10 @@ export async function createSwellAlert(alert: InsertSwellAlert): Promise<number>
     const [result] = await _pool.execute(
       `INSERT INTO swell_alerts (
         userId, spotId, minWaveHeightFt, minQualityScore, minPeriodSec,
-        idealWindOnly, allowedDays, emailEnabled, smsEnabled, pushEnabled,
+        idealWindOnly, allowedDays, rule, emailEnabled, smsEnabled, pushEnabled,
         hoursAdvanceNotice, daysAdvanceNotice, notificationFrequency,
         isActive
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       params
     );
 
@@ -853,6 +1336,11 @@ export async function getActiveAlertUserCount(): Promise<number> {
   return result.length;
 }
 
+/**
+ * Two logged swells at a spot starting within this of each other are the same swell
+ */
+export const SWELL_LOG_TOLERANCE_MS = 12 * 60 * 60 * 1000;
+
 export async function checkIfAlertAlreadySent(
   alertId: number,
   spotId: number,
@@ -864,9 +1352,8 @@ export async function checkIfAlertAlreadySent(
   
   // Check if we've already sent an alert for this swell window
   // Use a 12-hour window tolerance to avoid duplicates
-  const toleranceMs = 12 * 60 * 60 * 1000; // 12 hours
-  const startTimeMin = new Date(swellStartTime.getTime() - toleranceMs);
-  const startTimeMax = new Date(swellStartTime.getTime() + toleranceMs);
+  const startTimeMin = new Date(swellStartTime.getTime() - SWELL_LOG_TOLERANCE_MS);
+  const startTimeMax = new Date(swellStartTime.getTime() + SWELL_LOG_TOLERANCE_MS);
   
   const result = await db
     .select()
@@ -884,11 +1371,57 @@ export async function checkIfAlertAlreadySent(
   return result.length > 0;
 }
 
-export async function logSwellAlertSent(alertLog: InsertSwellAlertLog): Promise<number> {
+/**
+ * Whether this swell already went out in one of the user's digests (from any of their alerts)
+ */
+export async function checkIfSwellInDigest(
+  userId: number,
+  spotId: number,
+  swellStartTime: Date
+): Promise<boolean> {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
-  
-  const result = await db.insert(swellAlertLogs).values({
+  if (!db) return false;
+
+  const result = await db
+    .select({ id: swellAlertLogs.id })
+    .from(swellAlertLogs)
+    .where(
+      and(
+        eq(swellAlertLogs.userId, userId),
+        eq(swellAlertLogs.spotId, spotId),
+        isNotNull(swellAlertLogs.digestId),
+        gte(swellAlertLogs.swellStartTime, new Date(swellStartTime.getTime() - SWELL_LOG_TOLERANCE_MS)),
+        lte(swellAlertLogs.swellStartTime, new Date(swellStartTime.getTime() + SWELL_LOG_TOLERANCE_MS))
+      )
+    )
+    .limit(1);
+
+  return result.length > 0;
+}
+
+/**
+ * Every swell the user has been notified about (alone or in a digest) that starts after `from`
+ */
+export async function getSwellAlertLogsForUser(userId: number, from: Date): Promise<SwellAlertLog[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(swellAlertLogs)
+    .where(
+      and(
+        eq(swellAlertLogs.userId, userId),
+        gte(swellAlertLogs.swellStartTime, new Date(from.getTime() - SWELL_LOG_TOLERANCE_MS))
+      )
+    );
+}
+
+export async function logSwellAlertSent(alertLog: InsertSwellAlertLog): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(swellAlertLogs).values({
     ...alertLog,
     emailSent: alertLog.emailSent ?? 0,
     pushSent: alertLog.pushSent ?? 0,
@@ -913,6 +1446,22 @@ export async function updateSwellAlertLogEmailSent(
     .where(eq(swellAlertLogs.id, logId));
 }
 
+export async function updateSwellAlertLogPushSent(
+  logId: number,
+  sentAt?: Date
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(swellAlertLogs)
+    .set({
+      pushSent: 1,
+      pushSentAt: sentAt || new Date(),
+    })
+    .where(eq(swellAlertLogs.id, logId));
+}
+
 export async function updateSwellAlertLogSmsSent(
   logId: number,
   sentAt?: Date
@@ -947,6 +1496,337 @@ export async function getLastAlertNotificationTime(alertId: number): Promise<Dat
   return result.length > 0 ? result[0].createdAt : null;
 }
 
+// ==================== PUSH SUBSCRIPTIONS ====================
+
+/**
+ * Save a browser's push subscription. Keyed on endpoint, so subscribing the same browser
+ * again (or from another account) updates the row instead of adding one.
+ */
+export async function upsertPushSubscription(subscription: InsertPushSubscriptionRow): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .insert(pushSubscriptions)
+    .values(subscription)
+    .onDuplicateKeyUpdate({
+      set: {
+        userId: subscription.userId,
+        p256dh: subscription.p256dh,
+        auth: subscription.auth,
+        userAgent: subscription.userAgent ?? null,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+export async function getPushSubscriptionsForUser(userId: number): Promise<PushSubscriptionRow[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(pushSubscriptions).where(eq(pushSubscriptions.userId, userId));
+}
+
+export async function getPushSubscriptionById(id: number): Promise<PushSubscriptionRow | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.select().from(pushSubscriptions).where(eq(pushSubscriptions.id, id)).limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * @returns Whether a subscription was removed
+ */
+export async function deletePushSubscription(userId: number, endpoint: string): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .delete(pushSubscriptions)
+    .where(and(eq(pushSubscriptions.userId, userId), eq(pushSubscriptions.endpoint, endpoint)));
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * Drop a subscription the push service says is gone (404 / 410)
+ */
+export async function deletePushSubscriptionById(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(pushSubscriptions).where(eq(pushSubscriptions.id, id));
+}
+
+export async function markPushSubscriptionSuccess(id: number, at: Date = new Date()): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(pushSubscriptions).set({ lastSuccessAt: at }).where(eq(pushSubscriptions.id, id));
+}
+
+// ==================== SWELL DIGESTS ====================
+
+export async function getSwellDigest(
+  userId: number,
+  frequency: string,
+  localDate: string
+): Promise<SwellDigest | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(swellDigests)
+    .where(
+      and(
+        eq(swellDigests.userId, userId),
+        eq(swellDigests.frequency, frequency),
+        eq(swellDigests.localDate, localDate)
+      )
+    )
+    .limit(1);
+
+  return result[0] ?? null;
+}
+
+/**
+ * INSERT IGNORE on (userId, frequency, localDate)
+ *
+ * @returns The new digest's id, or null if that day's digest already exists
+ */
+export async function createSwellDigest(digest: InsertSwellDigest): Promise<number | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(swellDigests).ignore().values(digest);
+  return result[0].affectedRows > 0 ? result[0].insertId : null;
+}
+
+/**
+ * Remove a digest that couldn't be logged or queued, with any swells already logged
+ * with it, so the next run can build it again
+ */
+export async function deleteSwellDigest(digestId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(swellAlertLogs).where(eq(swellAlertLogs.digestId, digestId));
+  await db.delete(swellDigests).where(eq(swellDigests.id, digestId));
+}
+
+/**
+ * Mark a digest and every swell logged with it as emailed
+ */
+export async function markSwellDigestEmailSent(digestId: number, sentAt: Date = new Date()): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(swellDigests).set({ emailSent: 1, emailSentAt: sentAt }).where(eq(swellDigests.id, digestId));
+  await db
+    .update(swellAlertLogs)
+    .set({ emailSent: 1, emailSentAt: sentAt })
+    .where(eq(swellAlertLogs.digestId, digestId));
+}
+
+// ==================== NOTIFICATION OUTBOX ====================
+
+const NOTIFICATION_OUTBOX_INSERT_CHUNK = 200;
+
+/**
+ * Queue messages for the notification-outbox worker.
+ * INSERT IGNORE on dedupeKey, so re-enqueueing the same message is a no-op.
+ *
+ * @returns Number of messages newly queued
+ */
+export async function enqueueNotifications(messages: InsertNotificationOutboxMessage[]): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (messages.length === 0) return 0;
+
+  let queued = 0;
+  for (let i = 0; i < messages.length; i += NOTIFICATION_OUTBOX_INSERT_CHUNK) {
+    const result = await db
+      .insert(notificationOutbox)
+      .ignore()
+      .values(messages.slice(i, i + NOTIFICATION_OUTBOX_INSERT_CHUNK));
+    queued += result[0].affectedRows;
+  }
+  return queued;
+}
+
+/**
+ * Claim up to `limit` pending messages that are due, marking them "sending".
+ * The conditional update means a message claimed elsewhere in the meantime is skipped.
+ */
+export async function claimDueNotifications(limit: number, now: Date = new Date()): Promise<NotificationOutboxMessage[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const due = await db
+    .select()
+    .from(notificationOutbox)
+    .where(and(eq(notificationOutbox.status, "pending"), lte(notificationOutbox.nextAttemptAt, now)))
+    .orderBy(notificationOutbox.nextAttemptAt)
+    .limit(limit);
+
+  const claimed: NotificationOutboxMessage[] = [];
+  for (const message of due) {
+    const result = await db
+      .update(notificationOutbox)
+      .set({ status: "sending" })
+      .where(and(eq(notificationOutbox.id, message.id), eq(notificationOutbox.status, "pending")));
+    if (result[0].affectedRows === 1) claimed.push({ ...message, status: "sending" });
+  }
+  return claimed;
+}
+
+export async function markNotificationSent(
+  id: number,
+  delivery: { attempts: number; provider?: string; providerMessageId: string | null }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db
+    .update(notificationOutbox)
+    .set({
+      status: "sent",
+      attempts: delivery.attempts,
+      provider: delivery.provider ?? null,
+      providerMessageId: delivery.providerMessageId,
+      lastError: null,
+      sentAt: new Date(),
+    })
+    .where(eq(notificationOutbox.id, id));
+}
+
+/**
+ * Record a failed attempt: back to pending until `nextAttemptAt`, or failed for good if null
+ */
+export async function markNotificationAttemptFailed(
+  id: number,
+  failure: { attempts: number; error: string; nextAttemptAt: Date | null }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db
+    .update(notificationOutbox)
+    .set(
+      failure.nextAttemptAt
+        ? { status: "pending", attempts: failure.attempts, lastError: failure.error.slice(0, 512), nextAttemptAt: failure.nextAttemptAt }
+        : { status: "failed", attempts: failure.attempts, lastError: failure.error.slice(0, 512), failedAt: new Date() }
+    )
+    .where(eq(notificationOutbox.id, id));
+}
+
+const FINAL_SMS_STATUSES = ["delivered", "undelivered", "failed"];
+
+/**
+ * Record an SMS delivery status from a provider webhook on the outbox message and, for
+ * swell alerts, on the alert log. A late "sent" never overwrites a final status.
+ *
+ * @returns false if no SMS with that provider message id was found
+ */
+export async function recordSmsDeliveryStatus(update: {
+  providerMessageId: string;
+  status: string;
+  error?: string;
+}): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db
+    .select()
+    .from(notificationOutbox)
+    .where(and(eq(notificationOutbox.channel, "sms"), eq(notificationOutbox.providerMessageId, update.providerMessageId)))
+    .limit(1);
+  const message = rows[0];
+  if (!message) return false;
+
+  const isFinal = FINAL_SMS_STATUSES.includes(update.status);
+  if (!isFinal && message.deliveryStatus && FINAL_SMS_STATUSES.includes(message.deliveryStatus)) return true;
+
+  const deliveredAt = update.status === "delivered" ? new Date() : null;
+  await db
+    .update(notificationOutbox)
+    .set({
+      deliveryStatus: update.status,
+      deliveredAt,
+      ...(update.error ? { lastError: update.error.slice(0, 512) } : {}),
+    })
+    .where(eq(notificationOutbox.id, message.id));
+
+  if (message.kind === "swell_alert" && message.refId !== null) {
+    await db
+      .update(swellAlertLogs)
+      .set({
+        smsStatus: update.status,
+        smsDeliveredAt: deliveredAt,
+        smsSent: update.status === "undelivered" || update.status === "failed" ? 0 : 1,
+      })
+      .where(eq(swellAlertLogs.id, message.refId));
+  }
+  return true;
+}
+
+/**
+ * Put messages left "sending" by a crashed worker back in the queue
+ *
+ * @returns Number of messages released
+ */
+export async function releaseStuckNotifications(olderThan: Date): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const result = await db
+    .update(notificationOutbox)
+    .set({ status: "pending" })
+    .where(and(eq(notificationOutbox.status, "sending"), lt(notificationOutbox.updatedAt, olderThan)));
+  return result[0].affectedRows;
+}
+
+/**
+ * Message counts by status, plus the most recent messages (optionally one status only)
+ */
+export async function getNotificationOutboxSummary(
+  options: { status?: string; limit?: number } = {}
+): Promise<{ counts: Record<string, number>; messages: NotificationOutboxMessage[] }> {
+  const db = await getDb();
+  if (!db) return { counts: {}, messages: [] };
+
+  const countRows = await db
+    .select({ status: notificationOutbox.status, count: sql<number>`COUNT(*)` })
+    .from(notificationOutbox)
+    .groupBy(notificationOutbox.status);
+
+  const messages = await db
+    .select()
+    .from(notificationOutbox)
+    .where(options.status ? eq(notificationOutbox.status, options.status) : undefined)
+    .orderBy(desc(notificationOutbox.id))
+    .limit(options.limit ?? 50);
+
+  return {
+    counts: Object.fromEntries(countRows.map((row) => [row.status, Number(row.count)])),
+    messages,
+  };
+}
+
+/**
+ * Put a failed message back in the queue with a fresh set of attempts
+ */
+export async function retryNotification(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(notificationOutbox)
+    .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), failedAt: null })
+    .where(and(eq(notificationOutbox.id, id), eq(notificationOutbox.status, "failed")));
+}
+
 // ==================== STORMGLASS VERIFICATION ====================
 
 /**
@@ -1024,32 +1904,195 @@ export async function getStormglassVerification(
     swellHeightFt: row.swellHeightFt
   }));
 
-  console.log('[SG Debug] Query result:', {
-    count: result.length,
-    firstTimestamp: result[0]?.forecastTimestamp,
-    lastTimestamp: result[result.length - 1]?.forecastTimestamp,
-    sample
-  });
+  console.log('[SG Debug] Query result:', {
+    count: result.length,
+    firstTimestamp: result[0]?.forecastTimestamp,
+    lastTimestamp: result[result.length - 1]?.forecastTimestamp,
+    sample
+  });
+
+  return result;
+}
+
+/**
+ * Get the most recent Stormglass fetch time for a spot.
+ * Used to determine if we need to fetch new data.
+ */
+export async function getLatestStormglassFetchTime(spotId: number): Promise<Date | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select({ fetchedAt: stormglassVerification.fetchedAt })
+    .from(stormglassVerification)
+    .where(eq(stormglassVerification.spotId, spotId))
+    .orderBy(desc(stormglassVerification.fetchedAt))
+    .limit(1);
+
+  return result.length > 0 ? result[0].fetchedAt : null;
+}
+
+// ==================== FORECAST VERIFICATION (Model vs Buoy) ====================
+
+const FORECAST_VERIFICATION_INSERT_CHUNK = 500;
+
+/**
+ * Most recent model run already snapshotted for a spot + model.
+ * Used to limit snapshots to one run per interval.
+ */
+export async function getLatestForecastVerificationRunTime(
+  spotId: number,
+  model: string
+): Promise<Date | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select({ modelRunTime: forecastVerifications.modelRunTime })
+    .from(forecastVerifications)
+    .where(and(eq(forecastVerifications.spotId, spotId), eq(forecastVerifications.model, model)))
+    .orderBy(desc(forecastVerifications.modelRunTime))
+    .limit(1);
+
+  return result.length > 0 ? result[0].modelRunTime : null;
+}
+
+/**
+ * Snapshot forecast hours for later verification.
+ * INSERT IGNORE on (spotId, model, modelRunTime, forecastTimestamp), so re-snapshotting a run is a no-op.
+ */
+export async function insertForecastVerifications(rows: InsertForecastVerification[]): Promise<void> {
+  const db = await getDb();
+  if (!db || rows.length === 0) return;
+
+  for (let i = 0; i < rows.length; i += FORECAST_VERIFICATION_INSERT_CHUNK) {
+    await db
+      .insert(forecastVerifications)
+      .ignore()
+      .values(rows.slice(i, i + FORECAST_VERIFICATION_INSERT_CHUNK));
+  }
+}
+
+/**
+ * Unverified snapshots for a spot whose valid time falls within [since, until]
+ */
+export async function getPendingForecastVerifications(
+  spotId: number,
+  since: Date,
+  until: Date
+): Promise<ForecastVerification[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(forecastVerifications)
+    .where(
+      and(
+        eq(forecastVerifications.spotId, spotId),
+        isNull(forecastVerifications.verifiedAt),
+        gte(forecastVerifications.forecastTimestamp, since),
+        lte(forecastVerifications.forecastTimestamp, until)
+      )
+    )
+    .orderBy(forecastVerifications.forecastTimestamp);
+}
+
+/**
+ * Record the matched buoy observation and error for a snapshot
+ */
+export async function recordForecastVerification(
+  id: number,
+  observation: { observedWaveHeightFt: number; observedAt: Date; errorFt: number }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db
+    .update(forecastVerifications)
+    .set({
+      observedWaveHeightFt: observation.observedWaveHeightFt.toFixed(1),
+      observedAt: observation.observedAt,
+      errorFt: observation.errorFt.toFixed(2),
+      verifiedAt: new Date(),
+    })
+    .where(eq(forecastVerifications.id, id));
+}
+
+/**
+ * Drop snapshots that can no longer be verified (buoy never reported for that hour)
+ */
+export async function deleteStaleForecastVerifications(olderThan: Date): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db
+    .delete(forecastVerifications)
+    .where(and(isNull(forecastVerifications.verifiedAt), lt(forecastVerifications.forecastTimestamp, olderThan)));
+}
 
-  return result;
+export interface ForecastVerificationStat {
+  spotId: number;
+  spotName: string;
+  model: string;
+  leadBucketStartH: number; // 0, 24, ... 144 (bucket covers start to start + 24h)
+  samples: number;
+  biasFt: number; // mean(forecast - observed)
+  maeFt: number;
+  rmseFt: number;
 }
 
 /**
- * Get the most recent Stormglass fetch time for a spot.
- * Used to determine if we need to fetch new data.
+ * Bias, MAE and RMSE per spot, model and 24h lead-time bucket over a rolling window
+ *
+ * @param days - Only include forecasts valid within the last N days
  */
-export async function getLatestStormglassFetchTime(spotId: number): Promise<Date | null> {
-  const db = await getDb();
-  if (!db) return null;
+export async function getForecastVerificationStats(
+  days: number,
+  spotId?: number
+): Promise<ForecastVerificationStat[]> {
+  if (!_pool) {
+    await getDb();
+  }
+  if (!_pool) return [];
 
-  const result = await db
-    .select({ fetchedAt: stormglassVerification.fetchedAt })
-    .from(stormglassVerification)
-    .where(eq(stormglassVerification.spotId, spotId))
-    .orderBy(desc(stormglassVerification.fetchedAt))
-    .limit(1);
+  const params: Array<number> = [days];
+  let spotFilter = "";
+  if (spotId !== undefined) {
+    spotFilter = "AND fv.spotId = ?";
+    params.push(spotId);
+  }
 
-  return result.length > 0 ? result[0].fetchedAt : null;
+  const [rows] = await _pool.execute(
+    `SELECT
+       fv.spotId,
+       sp.name as spotName,
+       fv.model,
+       LEAST(FLOOR(fv.leadHours / 24), 6) * 24 as leadBucketStartH,
+       COUNT(*) as samples,
+       AVG(fv.errorFt) as biasFt,
+       AVG(ABS(fv.errorFt)) as maeFt,
+       SQRT(AVG(fv.errorFt * fv.errorFt)) as rmseFt
+     FROM forecast_verifications fv
+     JOIN surf_spots sp ON fv.spotId = sp.id
+     WHERE fv.verifiedAt IS NOT NULL
+       AND fv.forecastTimestamp >= DATE_SUB(NOW(), INTERVAL ? DAY)
+       ${spotFilter}
+     GROUP BY fv.spotId, sp.name, fv.model, leadBucketStartH
+     ORDER BY sp.name, fv.model, leadBucketStartH`,
+    params
+  );
+
+  return (rows as any[]).map((row) => ({
+    spotId: Number(row.spotId),
+    spotName: row.spotName,
+    model: row.model,
+    leadBucketStartH: Number(row.leadBucketStartH),
+    samples: Number(row.samples),
+    biasFt: Math.round(Number(row.biasFt) * 100) / 100,
+    maeFt: Math.round(Number(row.maeFt) * 100) / 100,
+    rmseFt: Math.round(Number(row.rmseFt) * 100) / 100,
+  }));
 }
 
 // ==================== FORECAST VIEWS (Post-Surf Report Prompts) ====================
@@ -1500,6 +2543,29 @@ export async function getAverageCrowdFromSurfReports(
   return { averageLevel: Math.round(sum / levels.length), reportCount: levels.length };
 }
 
+/**
+ * Session ratings for some spots between two times (alert backtests)
+ */
+export async function getSurfReportRatingsInRange(
+  spotIds: number[],
+  from: Date,
+  to: Date
+): Promise<Array<Pick<SurfReport, "spotId" | "sessionDate" | "starRating">>> {
+  const db = await getDb();
+  if (!db || spotIds.length === 0) return [];
+
+  return db
+    .select({ spotId: surfReports.spotId, sessionDate: surfReports.sessionDate, starRating: surfReports.starRating })
+    .from(surfReports)
+    .where(
+      and(
+        inArray(surfReports.spotId, spotIds),
+        gte(surfReports.sessionDate, from),
+        lte(surfReports.sessionDate, to)
+      )
+    );
+}
+
 /**
  * Get all surf reports submitted by a specific user.
  * Returns most recent reports first.
@@ -1787,3 +2853,419 @@ export async function getHistoricBigSwellDays() {
     return [];
   }
 }
+
+// ==================== BREAKING HEIGHT CALIBRATION ====================
+
+export interface CalibrationSample {
+  spotId: number;
+  reportedWaveHeightTenths: number;
+  observedWaveHeightTenths: number;
+  wavePeriodSec: number;
+}
+
+/**
+ * Validation rows with both a reported and an observed height, plus the swell period
+ * from the matched conditions_log snapshot
+ */
+export async function getCalibrationSamples(): Promise<CalibrationSample[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({
+      spotId: surfReportValidation.spotId,
+      reportedWaveHeightTenths: surfReportValidation.reportedWaveHeightTenths,
+      observedWaveHeightTenths: surfReportValidation.observedWaveHeightTenths,
+      wavePeriodSec: conditionsLog.wavePeriodSec,
+    })
+    .from(surfReportValidation)
+    .innerJoin(conditionsLog, eq(surfReportValidation.conditionsLogId, conditionsLog.id))
+    .where(
+      and(
+        isNotNull(surfReportValidation.reportedWaveHeightTenths),
+        isNotNull(surfReportValidation.observedWaveHeightTenths),
+        isNotNull(conditionsLog.wavePeriodSec)
+      )
+    );
+
+  return rows as CalibrationSample[];
+}
+
+/**
+ * Store a new calibration version with its corrections and make it the active one
+ *
+ * @returns New calibration version id
+ */
+export async function createBreakingHeightCalibration(
+  calibration: { samplesUsed: number; samplesRejected: number; minSamples: number },
+  corrections: Array<Omit<InsertBreakingHeightCorrection, "calibrationId">>
+): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(breakingHeightCalibrations).values({ ...calibration, isActive: 0 });
+  const calibrationId = result[0].insertId;
+
+  if (corrections.length > 0) {
+    await db
+      .insert(breakingHeightCorrections)
+      .values(corrections.map((correction) => ({ ...correction, calibrationId })));
+  }
+
+  await activateBreakingHeightCalibration(calibrationId);
+  return calibrationId;
+}
+
+/**
+ * Make one calibration version active (and every other version inactive)
+ */
+export async function activateBreakingHeightCalibration(calibrationId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(breakingHeightCalibrations)
+    .set({ isActive: sql`CASE WHEN ${breakingHeightCalibrations.id} = ${calibrationId} THEN 1 ELSE 0 END` });
+}
+
+export async function getBreakingHeightCalibrationById(
+  calibrationId: number
+): Promise<BreakingHeightCalibration | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db
+    .select()
+    .from(breakingHeightCalibrations)
+    .where(eq(breakingHeightCalibrations.id, calibrationId))
+    .limit(1);
+  return result[0];
+}
+
+/**
+ * Active calibration version and its corrections, or null if none has been fitted yet
+ */
+export async function getActiveBreakingHeightCorrections(): Promise<{
+  calibration: BreakingHeightCalibration;
+  corrections: BreakingHeightCorrection[];
+} | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const active = await db
+    .select()
+    .from(breakingHeightCalibrations)
+    .where(eq(breakingHeightCalibrations.isActive, 1))
+    .orderBy(desc(breakingHeightCalibrations.id))
+    .limit(1);
+  if (active.length === 0) return null;
+
+  const corrections = await db
+    .select()
+    .from(breakingHeightCorrections)
+    .where(eq(breakingHeightCorrections.calibrationId, active[0].id));
+
+  return { calibration: active[0], corrections };
+}
+
+/**
+ * Recent calibration versions with their corrections (newest first)
+ */
+export async function getBreakingHeightCalibrations(
+  limit: number = 10
+): Promise<Array<BreakingHeightCalibration & { corrections: BreakingHeightCorrection[] }>> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const calibrations = await db
+    .select()
+    .from(breakingHeightCalibrations)
+    .orderBy(desc(breakingHeightCalibrations.id))
+    .limit(limit);
+  if (calibrations.length === 0) return [];
+
+  const corrections = await db
+    .select()
+    .from(breakingHeightCorrections)
+    .where(gte(breakingHeightCorrections.calibrationId, calibrations[calibrations.length - 1].id));
+
+  return calibrations.map((calibration) => ({
+    ...calibration,
+    corrections: corrections.filter((c) => c.calibrationId === calibration.id),
+  }));
+}
+
+// ==================== SWELL EVENTS ====================
+
+/**
+ * Most recent model run already clustered into a spot's swell events
+ */
+export async function getLatestSwellEventRunTime(spotId: number): Promise<Date | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select({ latestRunTime: swellEvents.latestRunTime })
+    .from(swellEvents)
+    .where(eq(swellEvents.spotId, spotId))
+    .orderBy(desc(swellEvents.latestRunTime))
+    .limit(1);
+
+  return result.length > 0 ? result[0].latestRunTime : null;
+}
+
+/**
+ * Events a new model run can still revise: not yet passed, and ending after `since`
+ */
+export async function getOpenSwellEvents(spotId: number, since: Date): Promise<SwellEvent[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(swellEvents)
+    .where(
+      and(
+        eq(swellEvents.spotId, spotId),
+        inArray(swellEvents.status, ["upcoming", "active", "dropped"]),
+        gte(swellEvents.endTime, since)
+      )
+    )
+    .orderBy(swellEvents.startTime);
+}
+
+/**
+ * @returns New event id
+ */
+export async function createSwellEvent(event: InsertSwellEvent): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(swellEvents).values(event);
+  return result[0].insertId;
+}
+
+export async function updateSwellEvent(id: number, updates: Partial<InsertSwellEvent>): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(swellEvents).set(updates).where(eq(swellEvents.id, id));
+}
+
+/**
+ * Record one run's prediction for an event.
+ * INSERT IGNORE on (eventId, modelRunTime), so re-processing a run is a no-op.
+ */
+export async function insertSwellEventRevision(revision: InsertSwellEventRevision): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.insert(swellEventRevisions).ignore().values(revision);
+}
+
+/**
+ * Passed events without a buoy observation that ended within [since, until]
+ */
+export async function getSwellEventsPendingObservation(
+  spotId: number,
+  since: Date,
+  until: Date
+): Promise<SwellEvent[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(swellEvents)
+    .where(
+      and(
+        eq(swellEvents.spotId, spotId),
+        eq(swellEvents.status, "passed"),
+        isNull(swellEvents.observedAt),
+        gte(swellEvents.endTime, since),
+        lte(swellEvents.endTime, until)
+      )
+    );
+}
+
+/**
+ * Events ending after `since` (optionally for one spot), each with its run-by-run revisions (oldest first)
+ */
+export async function getSwellEventsWithRevisions(
+  since: Date,
+  options: { spotId?: number; eventId?: number; includeDropped?: boolean } = {}
+): Promise<Array<SwellEvent & { revisions: SwellEventRevision[] }>> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [gte(swellEvents.endTime, since)];
+  if (options.spotId !== undefined) conditions.push(eq(swellEvents.spotId, options.spotId));
+  if (options.eventId !== undefined) conditions.push(eq(swellEvents.id, options.eventId));
+  if (!options.includeDropped) conditions.push(ne(swellEvents.status, "dropped"));
+
+  const events = await db
+    .select()
+    .from(swellEvents)
+    .where(and(...conditions))
+    .orderBy(swellEvents.startTime);
+  if (events.length === 0) return [];
+
+  const revisions = await db
+    .select()
+    .from(swellEventRevisions)
+    .where(inArray(swellEventRevisions.eventId, events.map((e) => e.id)))
+    .orderBy(swellEventRevisions.modelRunTime);
+
+  return events.map((event) => ({
+    ...event,
+    revisions: revisions.filter((r) => r.eventId === event.id),
+  }));
+}
+
+// ==================== JOB RUNS (Background Job Scheduler) ====================
+
+/**
+ * Take or renew the lease for a job.
+ * Succeeds if the lock is free, expired, or already held by this instance.
+ * @returns true if this instance now holds the lock
+ */
+export async function acquireJobLock(
+  jobName: string,
+  instanceId: string,
+  leaseSeconds: number
+): Promise<boolean> {
+  if (!_pool) {
+    await getDb();
+  }
+  if (!_pool) return false;
+
+  await _pool.execute(
+    `INSERT IGNORE INTO job_locks (jobName, lockedBy, lockedUntil) VALUES (?, NULL, NOW())`,
+    [jobName]
+  );
+  const [result] = await _pool.execute(
+    `UPDATE job_locks
+     SET lockedBy = ?, lockedUntil = DATE_ADD(NOW(), INTERVAL ? SECOND)
+     WHERE jobName = ? AND (lockedBy IS NULL OR lockedBy = ? OR lockedUntil < NOW())`,
+    [instanceId, leaseSeconds, jobName, instanceId]
+  );
+  return (result as any).affectedRows === 1;
+}
+
+/**
+ * Release a job lease held by this instance
+ */
+export async function releaseJobLock(jobName: string, instanceId: string): Promise<void> {
+  if (!_pool) return;
+  await _pool.execute(
+    `UPDATE job_locks SET lockedBy = NULL, lockedUntil = NOW() WHERE jobName = ? AND lockedBy = ?`,
+    [jobName, instanceId]
+  );
+}
+
+export async function createJobRun(
+  jobName: string,
+  triggeredBy: "schedule" | "manual",
+  instanceId: string
+): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(jobRuns).values({ jobName, triggeredBy, instanceId, status: "running" });
+  return result[0].insertId;
+}
+
+export async function finishJobRun(
+  runId: number,
+  outcome: { status: "success" | "failed"; itemsProcessed: number; itemsFailed: number; error?: string | null }
+): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db
+    .update(jobRuns)
+    .set({
+      status: outcome.status,
+      finishedAt: new Date(),
+      itemsProcessed: outcome.itemsProcessed,
+      itemsFailed: outcome.itemsFailed,
+      error: outcome.error ?? null,
+    })
+    .where(eq(jobRuns.id, runId));
+}
+
+/**
+ * Mark runs left in "running" by a crashed instance as failed.
+ * Only called while holding the job's lock, so no live run can be affected.
+ */
+export async function failAbandonedJobRuns(jobName: string): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db
+    .update(jobRuns)
+    .set({ status: "failed", finishedAt: new Date(), error: "Abandoned: lease expired before the run finished" })
+    .where(and(eq(jobRuns.jobName, jobName), eq(jobRuns.status, "running")));
+}
+
+export async function getLastJobRun(jobName: string): Promise<JobRun | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(jobRuns)
+    .where(eq(jobRuns.jobName, jobName))
+    .orderBy(desc(jobRuns.startedAt), desc(jobRuns.id))
+    .limit(1);
+  return result[0];
+}
+
+/**
+ * Recent job runs, newest first (optionally for a single job)
+ */
+export async function getRecentJobRuns(limit: number = 50, jobName?: string): Promise<JobRun[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(jobRuns)
+    .where(jobName ? eq(jobRuns.jobName, jobName) : undefined)
+    .orderBy(desc(jobRuns.startedAt), desc(jobRuns.id))
+    .limit(limit);
+}
+
+// ==================== RATE LIMITS ====================
+
+/**
+ * Count a hit in a fixed-window rate limit bucket (created on first hit)
+ * @returns Hits in the bucket so far, including this one; null if the database isn't available
+ */
+export async function incrementRateLimitBucket(bucketKey: string, expiresAt: Date): Promise<number | null> {
+  if (!_pool) {
+    await getDb();
+  }
+  if (!_pool) return null;
+
+  await _pool.execute(
+    `INSERT INTO rate_limit_buckets (bucketKey, hits, expiresAt) VALUES (?, 1, ?)
+     ON DUPLICATE KEY UPDATE hits = hits + 1`,
+    [bucketKey, expiresAt]
+  );
+  const [rows] = await _pool.execute(`SELECT hits FROM rate_limit_buckets WHERE bucketKey = ?`, [bucketKey]);
+  return (rows as Array<{ hits: number }>)[0]?.hits ?? 1;
+}
+
+export async function deleteExpiredRateLimitBuckets(): Promise<void> {
+  if (!_pool) return;
+  await _pool.execute(`DELETE FROM rate_limit_buckets WHERE expiresAt < NOW() LIMIT 1000`);
+}
+
+// ==================== AUDIT LOG ====================
+
+export async function insertAuditLogEntry(entry: InsertAuditLogEntry): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.insert(auditLog).values(entry);
+}
@@ -20,15 +20,38 @@ export {
   getUserByOpenId,
   getUserById,
   getUserByEmail,
+  updateUserEmailPreferences,
+  getUserByCalendarToken,
+  setUserCalendarToken,
+
+  // API key functions (Social layer - to be moved)
+  createApiKey,
+  getApiKeysForUser,
+  getApiKeyByHash,
+  revokeApiKey,
+  markApiKeyUsed,
 
   // Spot functions (Environmental layer - to be moved)
   getAllSpots,
   getSpotById,
   createSpot,
+  updateSpot,
+
+  // Spot profile functions (Environmental layer - to be moved)
+  getAllSpotProfiles,
+  getSpotProfileBySpotId,
+  upsertSpotProfile,
 
   // Buoy functions (Environmental layer - to be moved)
   getLatestBuoyReading,
   insertBuoyReading,
+  upsertBuoyReadings,
+  getBuoyReadingHistory,
+
+  // Tide prediction cache (Environmental layer - to be moved)
+  upsertTidePredictions,
+  getTidePredictions,
+  deleteTidePredictionsBefore,
 
   // Forecast functions (Intelligence layer - to be moved)
   getLatestForecastForSpot,
@@ -45,11 +68,16 @@ export {
   insertForecastPoint,
   insertForecastPoints,
   getForecastTimeline,
+  getForecastRunHistory,
+  getForecastRuns,
   getLatestModelRunTime,
   isForecastDataStale,
   deleteForecastPointsBySpotAndModelRun,
   deleteForecastPointsBySpotOlderThan,
-  deleteAllForecastPointsForSpot,
+  getForecastPointsInRange,
+
+  // Conditions log functions (Intelligence layer - to be moved)
+  getConditionsLogInRange,
 
   // Swell alert functions (Retention layer - to be moved)
   getAllSwellAlertsForUser,
@@ -61,18 +89,70 @@ export {
   deleteSwellAlert,
   updateAlertLastScore,
   getActiveAlertUserCount,
+  SWELL_LOG_TOLERANCE_MS,
   checkIfAlertAlreadySent,
+  checkIfSwellInDigest,
+  getSwellAlertLogsForUser,
   logSwellAlertSent,
   updateSwellAlertLogEmailSent,
   updateSwellAlertLogSmsSent,
+  updateSwellAlertLogPushSent,
   getLastAlertNotificationTime,
 
+  // Push subscription functions (Retention layer - to be moved)
+  upsertPushSubscription,
+  getPushSubscriptionsForUser,
+  getPushSubscriptionById,
+  deletePushSubscription,
+  deletePushSubscriptionById,
+  markPushSubscriptionSuccess,
+
+  // Swell digest functions (Retention layer - to be moved)
+  getSwellDigest,
+  createSwellDigest,
+  markSwellDigestEmailSent,
+
+  // Notification outbox functions (Retention layer - to be moved)
+  enqueueNotifications,
+  claimDueNotifications,
+  markNotificationSent,
+  markNotificationAttemptFailed,
+  recordSmsDeliveryStatus,
+  releaseStuckNotifications,
+  getNotificationOutboxSummary,
+  retryNotification,
+
   // Stormglass verification functions (Environmental layer - to be moved)
   upsertStormglassVerification,
   insertStormglassVerificationBatch,
   getStormglassVerification,
   getLatestStormglassFetchTime,
 
+  // Forecast verification functions (Intelligence layer - to be moved)
+  getLatestForecastVerificationRunTime,
+  insertForecastVerifications,
+  getPendingForecastVerifications,
+  recordForecastVerification,
+  deleteStaleForecastVerifications,
+  getForecastVerificationStats,
+
+  // Breaking height calibration functions (Intelligence layer - to be moved)
+  getCalibrationSamples,
+  createBreakingHeightCalibration,
+  activateBreakingHeightCalibration,
+  getBreakingHeightCalibrationById,
+  getActiveBreakingHeightCorrections,
+  getBreakingHeightCalibrations,
+
+  // Swell event functions (Intelligence layer - to be moved)
+  getLatestSwellEventRunTime,
+  getOpenSwellEvents,
+  createSwellEvent,
+  updateSwellEvent,
+  insertSwellEventRevision,
+  getSwellEventsPendingObservation,
+  getSwellEventsWithRevisions,
+
   // Forecast view functions (Social layer - to be moved)
   trackForecastView,
   getPendingReportPrompts,
@@ -84,9 +164,24 @@ export {
   createSurfReportValidation,
   getReportsForSpot,
   getAverageCrowdFromSurfReports,
+  getSurfReportRatingsInRange,
   getReportsForUser,
   getUserReportCount,
   getRecentReports,
   getAdminAnalytics,
   getHistoricBigSwellDays,
+
+  // Rate limit and audit log functions (System layer)
+  incrementRateLimitBucket,
+  deleteExpiredRateLimitBuckets,
+  insertAuditLogEntry,
+
+  // Job scheduler functions (System layer)
+  acquireJobLock,
+  releaseJobLock,
+  createJobRun,
+  finishJobRun,
+  failAbandonedJobRuns,
+  getLastJobRun,
+  getRecentJobRuns,
 } from '../db';
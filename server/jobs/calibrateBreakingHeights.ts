@@ -0,0 +1,41 @@
+/**
+ * Breaking Height Calibration Job
+ *
+ * Refits the per-spot, per-period-band correction table from all surf report
+ * validations and stores it as a new active version. Older versions are kept so a
+ * previous table can be re-activated from the admin API.
+ */
+
+import { getCalibrationSamples, createBreakingHeightCalibration } from "../db";
+import { fitHeightCorrections, loadHeightCorrections, MIN_SAMPLES } from "../utils/heightCalibration";
+
+export async function calibrateBreakingHeights(): Promise<{ processed: number; failed: number }> {
+  const samples = await getCalibrationSamples();
+  const { corrections, used, rejected } = fitHeightCorrections(samples, MIN_SAMPLES);
+  console.log(`[Height Calibration] ${samples.length} validation samples → ${corrections.length} corrections (${used} used, ${rejected} rejected)`);
+
+  if (corrections.length === 0) {
+    console.log(`[Height Calibration] No spot/band has ${MIN_SAMPLES}+ usable reports yet, keeping current version`);
+    return { processed: 0, failed: 0 };
+  }
+
+  const version = await createBreakingHeightCalibration(
+    { samplesUsed: used, samplesRejected: rejected, minSamples: MIN_SAMPLES },
+    corrections.map((c) => ({
+      spotId: c.spotId,
+      periodBand: c.periodBand,
+      factor: c.factor.toFixed(3),
+      sampleCount: c.sampleCount,
+      rejectedCount: c.rejectedCount,
+      meanDeltaFt: c.meanDeltaFt.toFixed(1),
+    }))
+  );
+
+  for (const c of corrections) {
+    console.log(`[Height Calibration]   spot ${c.spotId} ${c.periodBand}: ×${c.factor} (n=${c.sampleCount}, rejected ${c.rejectedCount}, mean Δ ${c.meanDeltaFt}ft)`);
+  }
+
+  await loadHeightCorrections();
+  console.log(`[Height Calibration] ✓ Activated v${version}`);
+  return { processed: corrections.length, failed: 0 };
+}
@@ -2,12 +2,12 @@
  * Open-Meteo Marine API Ingestion Job
  * 
  * Fetches marine forecast data from Open-Meteo and ingests it into the database.
- * Uses upsert strategy: deletes existing forecasts for the same spot + modelRunTime,
- * then inserts new forecasts.
+ * Each import is appended to the forecast archive as a run; re-importing the same
+ * spot + modelRunTime overwrites that run's hours in place.
  */
 
 import { getAllSpots } from "../db";
-import { insertForecastPoints, deleteForecastPointsBySpotAndModelRun } from "../db";
+import { insertForecastPoints } from "../db";
 import type { InsertForecastPoint } from "../../drizzle/schema";
 import { fetchOpenMeteoMarineForSpot } from "../services/openmeteo/marineClient";
 import { getSpotKeyFromName } from "../services/openmeteo/spots";
@@ -126,13 +126,7 @@ export async function importOpenMeteoMarineForecasts(): Promise<{ success: numbe
         forecastPoints.push(forecastPoint);
       }
 
-      // Delete existing forecasts for this spot + modelRunTime (upsert strategy)
-      console.log(
-        `[Open-Meteo Marine] Deleting existing forecasts for spot ${spot.id}, modelRunTime ${modelRunTime.toISOString()}`
-      );
-      await deleteForecastPointsBySpotAndModelRun(spot.id, modelRunTime);
-
-      // Only insert if we got data — don't wipe existing data on empty response
+      // Only insert if we got data (same modelRunTime = upsert)
       if (forecastPoints.length > 0) {
         await insertForecastPoints(forecastPoints);
         console.log(`[Open-Meteo Marine] ✓ ${spot.name}: ${forecastPoints.length} points`);
@@ -0,0 +1,265 @@
+/**
+ * Swell Event Tracking Job
+ *
+ * Clusters the latest forecast_points run of each spot into swell events (see
+ * utils/swellEvents.ts) and matches them to the events already tracked, so each event
+ * keeps its id while every run's prediction is added to swell_event_revisions.
+ * Events a new run no longer shows are marked "dropped" (and revived if a later run
+ * brings them back); the rest move from upcoming to active to passed. Once an event
+ * has passed, its peak is looked up in the spot buoy's buoy_readings and recorded
+ * next to the prediction.
+ */
+
+import {
+  getAllSpots,
+  getForecastTimeline,
+  getBuoyReadingHistory,
+  getLatestSwellEventRunTime,
+  getOpenSwellEvents,
+  createSwellEvent,
+  updateSwellEvent,
+  insertSwellEventRevision,
+  getSwellEventsPendingObservation,
+} from "../db";
+import type { SurfSpot, SwellEvent } from "../../drizzle/schema";
+import { getSpotKey, getSpotProfile } from "../utils/spotProfiles";
+import {
+  angularDifferenceDeg,
+  clusterSwellHours,
+  getSwellEventLabel,
+  getSwellHours,
+  matchSwellEvents,
+  type SwellCluster,
+} from "../utils/swellEvents";
+
+/**
+ * Longest lead time clustered (7 days)
+ */
+const MAX_LEAD_HOURS = 168;
+
+/**
+ * Buoy window around the predicted event: the offshore buoy sees a swell before the beach
+ */
+const OBSERVATION_LEAD_HOURS = 12;
+const OBSERVATION_TRAIL_HOURS = 6;
+
+/**
+ * Buoy swell must come from within this many degrees of the event's direction
+ */
+const OBSERVATION_DIRECTION_DEG = 45;
+
+/**
+ * Passed events still unobserved after this many days are left without an observation (buoy was down)
+ */
+const OBSERVE_GIVE_UP_DAYS = 7;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function statusAt(event: { startTime: Date; endTime: Date }, now: Date): "upcoming" | "active" | "passed" {
+  if (now < event.startTime) return "upcoming";
+  if (now <= event.endTime) return "active";
+  return "passed";
+}
+
+function predictionColumns(cluster: SwellCluster) {
+  return {
+    label: getSwellEventLabel(cluster.directionDeg, cluster.periodS),
+    directionDeg: cluster.directionDeg,
+    periodS: cluster.periodS,
+    startTime: cluster.startTime,
+    peakTime: cluster.peakTime,
+    endTime: cluster.endTime,
+    peakHeightFt: cluster.peakHeightFt.toFixed(1),
+    peakPeriodS: cluster.peakPeriodS,
+    peakBreakingHeightFt: cluster.peakBreakingHeightFt.toFixed(1),
+  };
+}
+
+/**
+ * A run only covers hours from its run time on, so an event already underway keeps its
+ * earlier start, and an already-passed peak that was bigger than anything still ahead
+ */
+function mergeWithElapsed(cluster: SwellCluster, event: SwellEvent, runTime: Date): SwellCluster {
+  const merged = { ...cluster };
+  if (event.startTime < cluster.startTime && event.startTime <= runTime) {
+    merged.startTime = event.startTime;
+  }
+  if (event.peakTime <= runTime && parseFloat(event.peakHeightFt) > cluster.peakHeightFt) {
+    merged.peakTime = event.peakTime;
+    merged.peakHeightFt = parseFloat(event.peakHeightFt);
+    merged.peakPeriodS = event.peakPeriodS;
+    merged.peakBreakingHeightFt = event.peakBreakingHeightFt !== null ? parseFloat(event.peakBreakingHeightFt) : cluster.peakBreakingHeightFt;
+  }
+  return merged;
+}
+
+/**
+ * Cluster the spot's latest run and match it to tracked events
+ *
+ * @returns Number of events created or revised (0 if the run was already processed)
+ */
+async function trackSpot(spot: SurfSpot, now: Date): Promise<number> {
+  const spotKey = getSpotKey(spot.name);
+  const profile = spotKey ? getSpotProfile(spotKey) : undefined;
+  if (!profile) return 0;
+
+  const points = await getForecastTimeline(spot.id, MAX_LEAD_HOURS);
+  if (points.length === 0) return 0;
+
+  const runTimeMs = Math.max(...points.map((p) => p.modelRunTime.getTime()));
+  const runTime = new Date(runTimeMs);
+  const lastProcessed = await getLatestSwellEventRunTime(spot.id);
+  if (lastProcessed && lastProcessed >= runTime) return 0;
+
+  const runPoints = points.filter((p) => p.modelRunTime.getTime() === runTimeMs);
+  const clusters = clusterSwellHours(getSwellHours(runPoints, profile));
+  const openEvents = await getOpenSwellEvents(spot.id, new Date(runTimeMs - 24 * HOUR_MS));
+  const matches = matchSwellEvents(clusters, openEvents);
+
+  let tracked = 0;
+  for (let i = 0; i < clusters.length; i++) {
+    const eventId = matches.get(i);
+    const event = eventId !== undefined ? openEvents.find((e) => e.id === eventId) : undefined;
+    const cluster = event ? mergeWithElapsed(clusters[i], event, runTime) : clusters[i];
+    const columns = predictionColumns(cluster);
+
+    let id: number;
+    if (event) {
+      id = event.id;
+      await updateSwellEvent(id, {
+        ...columns,
+        status: statusAt(cluster, now),
+        latestRunTime: runTime,
+        revisionCount: event.revisionCount + 1,
+      });
+    } else {
+      id = await createSwellEvent({
+        ...columns,
+        spotId: spot.id,
+        status: statusAt(cluster, now),
+        firstRunTime: runTime,
+        latestRunTime: runTime,
+        buoyId: spot.buoyId,
+      });
+      console.log(`[Swell Events] ${spot.name}: new ${columns.label} (#${id}) peaking ${cluster.peakTime.toISOString()} at ${columns.peakHeightFt}ft`);
+    }
+
+    await insertSwellEventRevision({
+      eventId: id,
+      modelRunTime: runTime,
+      startTime: cluster.startTime,
+      peakTime: cluster.peakTime,
+      endTime: cluster.endTime,
+      peakHeightFt: columns.peakHeightFt,
+      peakPeriodS: cluster.peakPeriodS,
+      peakBreakingHeightFt: columns.peakBreakingHeightFt,
+      directionDeg: cluster.directionDeg,
+    });
+    tracked++;
+  }
+
+  // Events this run no longer shows are dropped if they haven't started yet
+  const matchedIds = new Set(Array.from(matches.values()));
+  for (const event of openEvents) {
+    if (matchedIds.has(event.id) || event.status === "dropped" || event.startTime <= runTime) continue;
+    await updateSwellEvent(event.id, { status: "dropped" });
+  }
+
+  return tracked;
+}
+
+/**
+ * Move upcoming / active events along as time passes, between model runs too
+ */
+async function advanceStatuses(spot: SurfSpot, now: Date): Promise<void> {
+  const events = await getOpenSwellEvents(spot.id, new Date(now.getTime() - OBSERVE_GIVE_UP_DAYS * 24 * HOUR_MS));
+  for (const event of events) {
+    if (event.status === "dropped") continue;
+    const status = statusAt(event, now);
+    if (status !== event.status) await updateSwellEvent(event.id, { status });
+  }
+}
+
+/**
+ * Record the buoy-observed peak for passed events
+ *
+ * @returns Number of events observed
+ */
+async function observeSpot(spot: SurfSpot, now: Date): Promise<number> {
+  const pending = await getSwellEventsPendingObservation(
+    spot.id,
+    new Date(now.getTime() - OBSERVE_GIVE_UP_DAYS * 24 * HOUR_MS),
+    new Date(now.getTime() - OBSERVATION_TRAIL_HOURS * HOUR_MS)
+  );
+
+  let observed = 0;
+  for (const event of pending) {
+    const readings = await getBuoyReadingHistory(
+      event.buoyId,
+      new Date(event.startTime.getTime() - OBSERVATION_LEAD_HOURS * HOUR_MS),
+      new Date(event.endTime.getTime() + OBSERVATION_TRAIL_HOURS * HOUR_MS)
+    );
+
+    // Prefer the spectral swell component; fall back to total WVHT when .spec wasn't available
+    let peak: { heightCm: number; periodDs: number | null; directionDeg: number | null; at: Date } | null = null;
+    for (const reading of readings) {
+      const heightCm = reading.swellHeightCm ?? reading.waveHeightCm;
+      const directionDeg = reading.swellHeightCm !== null ? reading.swellDirDeg : reading.swellDirectionDeg;
+      if (heightCm === null) continue;
+      if (directionDeg !== null && angularDifferenceDeg(directionDeg, event.directionDeg) > OBSERVATION_DIRECTION_DEG) continue;
+      if (!peak || heightCm > peak.heightCm) {
+        peak = {
+          heightCm,
+          periodDs: reading.swellHeightCm !== null ? reading.swellPeriodDs : reading.dominantPeriodDs,
+          directionDeg,
+          at: reading.timestamp,
+        };
+      }
+    }
+    if (!peak) continue;
+
+    await updateSwellEvent(event.id, {
+      observedPeakHeightFt: (peak.heightCm / 30.48).toFixed(1),
+      observedPeakPeriodS: peak.periodDs !== null ? (peak.periodDs / 10).toFixed(1) : null,
+      observedPeakDirectionDeg: peak.directionDeg,
+      observedPeakAt: peak.at,
+      observedAt: now,
+    });
+    observed++;
+  }
+  return observed;
+}
+
+/**
+ * Main job function - tracks the latest run and observes passed events for every spot
+ */
+export async function trackSwellEvents(): Promise<{ processed: number; failed: number }> {
+  console.log("[Swell Events] Starting...");
+  const spots = await getAllSpots();
+  const now = new Date();
+
+  let processed = 0;
+  let failed = 0;
+  let lastError: unknown = null;
+
+  for (const spot of spots) {
+    try {
+      const tracked = await trackSpot(spot, now);
+      await advanceStatuses(spot, now);
+      const observed = await observeSpot(spot, now);
+      processed++;
+      console.log(`[Swell Events] ${spot.name}: ${tracked} events tracked, ${observed} observed`);
+    } catch (error) {
+      failed++;
+      lastError = error;
+      console.error(`[Swell Events] ✗ ${spot.name}:`, error);
+    }
+  }
+
+  if (spots.length > 0 && failed === spots.length) {
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+  }
+
+  console.log(`[Swell Events] Complete: ${processed} spots, ${failed} failed`);
+  return { processed, failed };
+}
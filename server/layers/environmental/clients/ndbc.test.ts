@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { parseNDBCSpecHistory, parseNDBCTxtHistory } from "./ndbc";
+
+const TXT = `#YY  MM DD hh mm WDIR WSPD GST  WVHT   DPD   APD MWD   PRES  ATMP  WTMP  DEWP  VIS PTDY  TIDE
+#yr  mo dy hr mn degT m/s  m/s     m   sec   sec degT   hPa  degC  degC  degC  nmi  hPa    ft
+2026 06 20 12 50 200  6.0  8.0   1.2    10   5.6 165 1015.2  21.3  20.1  17.0   MM +0.3    MM
+2026 06 20 12 40 210  5.5  7.5    MM    MM    MM  MM 1015.3  21.2  20.1  17.0   MM +0.3    MM
+`;
+
+const SPEC = `#YY  MM DD hh mm WVHT  SwH  SwP  WWH  WWP SwD WWD  STEEPNESS  APD MWD
+#yr  mo dy hr mn    m    m  sec    m  sec  -  degT     -      sec degT
+2026 06 20 12 40  1.1  0.9 11.1  0.5  4.8 SSE   S    AVERAGE  5.5 160
+2026 06 20 11 40  1.0   MM   MM   MM   MM  MM  MM         MM  5.4 155
+`;
+
+describe("parseNDBCTxtHistory", () => {
+  it("skips header lines and treats MM as missing", () => {
+    const readings = parseNDBCTxtHistory(TXT, "44065");
+    expect(readings.size).toBe(2);
+
+    const latest = readings.get(Date.UTC(2026, 5, 20, 12, 50))!;
+    expect(latest).toMatchObject({
+      buoyId: "44065",
+      windDirectionDeg: 200,
+      windSpeedCmps: 600,
+      windGustCmps: 800,
+      waveHeightCm: 120,
+      dominantPeriodDs: 100,
+      averagePeriodDs: 56,
+      swellDirectionDeg: 165,
+    });
+
+    const missingWaves = readings.get(Date.UTC(2026, 5, 20, 12, 40))!;
+    expect(missingWaves.waveHeightCm).toBeNull();
+    expect(missingWaves.dominantPeriodDs).toBeNull();
+    expect(missingWaves.windSpeedCmps).toBe(550);
+  });
+});
+
+describe("parseNDBCSpecHistory", () => {
+  it("converts cardinal SwD / WWD and fills wave fields the .txt row is missing", () => {
+    const readings = parseNDBCSpecHistory(SPEC, "44065", parseNDBCTxtHistory(TXT, "44065"));
+    expect(readings.size).toBe(3);
+
+    expect(readings.get(Date.UTC(2026, 5, 20, 12, 40))).toMatchObject({
+      windSpeedCmps: 550, // From .txt
+      waveHeightCm: 110,
+      swellHeightCm: 90,
+      swellPeriodDs: 111,
+      windWaveHeightCm: 50,
+      windWavePeriodDs: 48,
+      swellDirDeg: 158, // SSE = 157.5°
+      windWaveDirDeg: 180,
+      steepness: "AVERAGE",
+      averagePeriodDs: 55,
+      swellDirectionDeg: 160,
+    });
+
+    // A .spec-only row: MM markers stay null, steepness included
+    expect(readings.get(Date.UTC(2026, 5, 20, 11, 40))).toMatchObject({
+      waveHeightCm: 100,
+      swellHeightCm: null,
+      swellDirDeg: null,
+      windWaveDirDeg: null,
+      steepness: null,
+      windSpeedCmps: null,
+    });
+  });
+});
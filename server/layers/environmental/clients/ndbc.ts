@@ -117,3 +117,198 @@ export async function fetchRecentBuoyReadings(buoyId: string, limit: number = 24
     return [];
   }
 }
+
+// ==================== HISTORY (full realtime2 files) ====================
+
+/**
+ * NDBC realtime2 files cover the last 45 days
+ */
+export const NDBC_REALTIME_HISTORY_DAYS = 45;
+
+/**
+ * A merged observation from the realtime2 .txt (met + bulk wave) and .spec (spectral) files.
+ * Spectral fields are null when the buoy has no .spec row for that timestamp.
+ */
+export interface NDBCHistoryReading extends NDBCReading {
+  windGustCmps: number | null; // GST in m/s -> converted to cm/s
+  averagePeriodDs: number | null; // APD in seconds -> converted to deciseconds
+  swellHeightCm: number | null; // SwH in meters -> converted to cm
+  swellPeriodDs: number | null; // SwP in seconds -> converted to deciseconds
+  swellDirDeg: number | null; // SwD cardinal -> degrees
+  windWaveHeightCm: number | null; // WWH in meters -> converted to cm
+  windWavePeriodDs: number | null; // WWP in seconds -> converted to deciseconds
+  windWaveDirDeg: number | null; // WWD cardinal -> degrees
+  steepness: string | null; // STEEPNESS classification
+}
+
+const NDBC_HEADERS = { "User-Agent": "NYCSurfCo/1.0 (surf forecast application)" };
+
+/**
+ * Parse a value from NDBC history files, handling "MM" (missing) markers and other missing indicators
+ */
+function parseHistoryValue(val: string | undefined): number | null {
+  if (val === undefined) return null;
+  if (val === "MM" || val === "-" || val === "--" || val === "999" || val === "99.0" || val === "9999.0" || val === "99.00" || val.trim() === "") {
+    return null;
+  }
+  const num = parseFloat(val);
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Converts a 16-point cardinal direction to degrees (null if missing/unrecognized)
+ */
+function cardinalToDegrees(cardinal: string | undefined): number | null {
+  if (!cardinal || cardinal === "MM" || cardinal === "-") return null;
+  const directionMap: Record<string, number> = {
+    'N': 0, 'NNE': 22.5, 'NE': 45, 'ENE': 67.5,
+    'E': 90, 'ESE': 112.5, 'SE': 135, 'SSE': 157.5,
+    'S': 180, 'SSW': 202.5, 'SW': 225, 'WSW': 247.5,
+    'W': 270, 'WNW': 292.5, 'NW': 315, 'NNW': 337.5
+  };
+  const deg = directionMap[cardinal.toUpperCase()];
+  return deg !== undefined ? Math.round(deg) : null;
+}
+
+function parseTimestamp(parts: string[]): Date | null {
+  const year = parseInt(parts[0], 10);
+  const month = parseInt(parts[1], 10) - 1; // JS months are 0-indexed
+  const day = parseInt(parts[2], 10);
+  const hour = parseInt(parts[3], 10);
+  const minute = parseInt(parts[4], 10);
+  if ([year, month, day, hour, minute].some((v) => isNaN(v))) return null;
+  return new Date(Date.UTC(year, month, day, hour, minute));
+}
+
+const toCm = (m: number | null) => (m !== null ? Math.round(m * 100) : null);
+const toDs = (s: number | null) => (s !== null ? Math.round(s * 10) : null);
+const toDeg = (d: number | null) => (d !== null ? Math.round(d) : null);
+
+function emptyHistoryReading(buoyId: string, timestamp: Date): NDBCHistoryReading {
+  return {
+    buoyId,
+    timestamp,
+    waveHeightCm: null,
+    dominantPeriodDs: null,
+    swellDirectionDeg: null,
+    windSpeedCmps: null,
+    windDirectionDeg: null,
+    windGustCmps: null,
+    averagePeriodDs: null,
+    swellHeightCm: null,
+    swellPeriodDs: null,
+    swellDirDeg: null,
+    windWaveHeightCm: null,
+    windWavePeriodDs: null,
+    windWaveDirDeg: null,
+    steepness: null,
+  };
+}
+
+/**
+ * Parses every data line of a realtime2 .txt file into the merged map.
+ * Format: #YY  MM DD hh mm WDIR WSPD GST  WVHT   DPD   APD MWD   PRES  ATMP  WTMP  DEWP  VIS PTDY  TIDE
+ */
+export function parseNDBCTxtHistory(
+  text: string,
+  buoyId: string,
+  into: Map<number, NDBCHistoryReading> = new Map()
+): Map<number, NDBCHistoryReading> {
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+
+    const parts = trimmed.split(/\s+/);
+    if (parts.length < 12) continue;
+
+    const timestamp = parseTimestamp(parts);
+    if (!timestamp) continue;
+
+    const key = timestamp.getTime();
+    const reading = into.get(key) ?? emptyHistoryReading(buoyId, timestamp);
+    reading.windDirectionDeg = toDeg(parseHistoryValue(parts[5]));
+    reading.windSpeedCmps = toCm(parseHistoryValue(parts[6]));
+    reading.windGustCmps = toCm(parseHistoryValue(parts[7]));
+    reading.waveHeightCm = toCm(parseHistoryValue(parts[8])) ?? reading.waveHeightCm;
+    reading.dominantPeriodDs = toDs(parseHistoryValue(parts[9]));
+    reading.averagePeriodDs = toDs(parseHistoryValue(parts[10])) ?? reading.averagePeriodDs;
+    reading.swellDirectionDeg = toDeg(parseHistoryValue(parts[11])) ?? reading.swellDirectionDeg;
+    into.set(key, reading);
+  }
+  return into;
+}
+
+/**
+ * Parses every data line of a realtime2 .spec file into the merged map.
+ * Format: #YY  MM DD hh mm WVHT  SwH  SwP  WWH  WWP SwD WWD  STEEPNESS  APD MWD
+ */
+export function parseNDBCSpecHistory(
+  text: string,
+  buoyId: string,
+  into: Map<number, NDBCHistoryReading> = new Map()
+): Map<number, NDBCHistoryReading> {
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+
+    const parts = trimmed.split(/\s+/);
+    if (parts.length < 15) continue;
+
+    const timestamp = parseTimestamp(parts);
+    if (!timestamp) continue;
+
+    const key = timestamp.getTime();
+    const reading = into.get(key) ?? emptyHistoryReading(buoyId, timestamp);
+    reading.waveHeightCm = reading.waveHeightCm ?? toCm(parseHistoryValue(parts[5]));
+    reading.swellHeightCm = toCm(parseHistoryValue(parts[6]));
+    reading.swellPeriodDs = toDs(parseHistoryValue(parts[7]));
+    reading.windWaveHeightCm = toCm(parseHistoryValue(parts[8]));
+    reading.windWavePeriodDs = toDs(parseHistoryValue(parts[9]));
+    reading.swellDirDeg = cardinalToDegrees(parts[10]);
+    reading.windWaveDirDeg = cardinalToDegrees(parts[11]);
+    reading.steepness = parts[12] === "MM" || parts[12] === "-" ? null : parts[12];
+    reading.averagePeriodDs = reading.averagePeriodDs ?? toDs(parseHistoryValue(parts[13]));
+    reading.swellDirectionDeg = reading.swellDirectionDeg ?? toDeg(parseHistoryValue(parts[14]));
+    into.set(key, reading);
+  }
+  return into;
+}
+
+/**
+ * Fetches the full realtime2 .txt and .spec files for a buoy and merges them by timestamp.
+ * Either file may be missing (not every station publishes spectral data); throws only if both fail.
+ *
+ * @param days - Only return readings from the last N days (max 45, the realtime2 window)
+ * @returns Deduplicated readings, oldest first
+ */
+export async function fetchBuoyHistory(
+  buoyId: string,
+  days: number = NDBC_REALTIME_HISTORY_DAYS
+): Promise<NDBCHistoryReading[]> {
+  const baseUrl = `https://www.ndbc.noaa.gov/data/realtime2/${buoyId}`;
+  const [txtResult, specResult] = await Promise.allSettled([
+    axios.get<string>(`${baseUrl}.txt`, { timeout: 20000, headers: NDBC_HEADERS, responseType: "text" }),
+    axios.get<string>(`${baseUrl}.spec`, { timeout: 20000, headers: NDBC_HEADERS, responseType: "text" }),
+  ]);
+
+  if (txtResult.status === "rejected" && specResult.status === "rejected") {
+    throw new Error(`NDBC buoy ${buoyId}: .txt and .spec both unavailable (${txtResult.reason?.message || txtResult.reason})`);
+  }
+
+  const merged = new Map<number, NDBCHistoryReading>();
+  if (txtResult.status === "fulfilled") {
+    parseNDBCTxtHistory(txtResult.value.data, buoyId, merged);
+  } else {
+    console.warn(`[NDBC] ${buoyId}.txt unavailable: ${txtResult.reason?.message || txtResult.reason}`);
+  }
+  if (specResult.status === "fulfilled") {
+    parseNDBCSpecHistory(specResult.value.data, buoyId, merged);
+  } else {
+    console.warn(`[NDBC] ${buoyId}.spec unavailable: ${specResult.reason?.message || specResult.reason}`);
+  }
+
+  const cutoff = Date.now() - Math.min(days, NDBC_REALTIME_HISTORY_DAYS) * 24 * 60 * 60 * 1000;
+  return Array.from(merged.values())
+    .filter((reading) => reading.timestamp.getTime() >= cutoff)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
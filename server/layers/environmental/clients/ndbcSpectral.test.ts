@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { parseNDBCSpectralFile, partitionSpectrum, type SpectralBin } from "./ndbcSpectral";
+
+const FREQS = Array.from({ length: 40 }, (_, i) => 0.03 + i * 0.01);
+
+/**
+ * Gaussian peaks in frequency, each with its own direction
+ */
+function spectrum(peaks: Array<{ freqHz: number; density: number; directionDeg: number }>): SpectralBin[] {
+  return FREQS.map((freqHz) => {
+    const parts = peaks.map((peak) => ({ ...peak, value: peak.density * Math.exp(-(((freqHz - peak.freqHz) / 0.012) ** 2)) }));
+    const top = parts.reduce((a, b) => (b.value > a.value ? b : a));
+    return {
+      freqHz,
+      density: parts.reduce((sum, part) => sum + part.value, 0),
+      directionDeg: top.directionDeg,
+      r1: 0.9,
+      r2: 0.7,
+    };
+  });
+}
+
+describe("parseNDBCSpectralFile", () => {
+  it("reads values by frequency, the separation frequency and missing markers", () => {
+    const text = [
+      "#YY  MM DD hh mm Sep_Freq  < spec_1 (freq_1) spec_2 (freq_2) spec_3 (freq_3) >",
+      "2026 06 20 12 40 0.180 0.000 (0.033) 1.250 (0.038) 999.0 (0.043)",
+      "2026 06 20 11 40 9.999 0.010 (0.033)",
+    ].join("\n");
+
+    const lines = parseNDBCSpectralFile(text, true);
+    const latest = lines.get(Date.UTC(2026, 5, 20, 12, 40))!;
+    expect(latest.separationFreqHz).toBe(0.18);
+    expect(Array.from(latest.values.entries())).toEqual([
+      [0.033, 0],
+      [0.038, 1.25],
+      [0.043, null],
+    ]);
+    expect(lines.get(Date.UTC(2026, 5, 20, 11, 40))!.separationFreqHz).toBeNull();
+  });
+});
+
+describe("partitionSpectrum", () => {
+  it("splits a mixed sea into long-period, mid-period and wind-sea trains", () => {
+    const trains = partitionSpectrum(
+      spectrum([
+        { freqHz: 0.06, density: 2, directionDeg: 160 }, // 16-17s groundswell
+        { freqHz: 0.12, density: 4, directionDeg: 120 }, // 8s swell
+        { freqHz: 0.25, density: 1, directionDeg: 220 }, // 4s wind sea
+      ]),
+      0.2
+    );
+
+    expect(trains.map((t) => [Math.round(t.periodDs / 10), t.directionDeg, t.windSea])).toEqual([
+      [8, 120, false],
+      [17, 160, false],
+      [4, 220, true],
+    ]);
+    expect(trains[0].heightCm).toBeGreaterThan(trains[1].heightCm);
+    expect(trains[0].spreadDeg).toBe(22);
+  });
+
+  it("keeps at most four trains and folds tiny peaks into a neighbour", () => {
+    const peaks = [0.05, 0.1, 0.15, 0.2, 0.25, 0.3].map((freqHz) => ({ freqHz, density: 1, directionDeg: 180 }));
+    expect(partitionSpectrum(spectrum(peaks))).toHaveLength(4);
+    expect(partitionSpectrum(spectrum([{ freqHz: 0.1, density: 0.001, directionDeg: 180 }]))).toHaveLength(1);
+    expect(partitionSpectrum([])).toEqual([]);
+  });
+});
@@ -0,0 +1,313 @@
+import axios from "axios";
+import { NDBC_REALTIME_HISTORY_DAYS } from "./ndbc";
+
+/**
+ * NDBC Spectral Wave Data
+ * Fetches the raw realtime2 spectral files and partitions each spectrum into swell trains.
+ *
+ * The summary .spec file (ndbc.ts) splits the sea state into one swell and one wind-wave
+ * component, which hides a secondary long-period pulse underneath a mid-period swell.
+ * These files carry the full spectrum, one value per frequency band:
+ * - .data_spec: energy density (m²/Hz) plus the swell / wind-sea separation frequency
+ * - .swdir: mean direction the energy comes from (alpha1, degrees)
+ * - .swr1 / .swr2: first / second normalized directional coefficients (0-1)
+ */
+
+export const MAX_SWELL_TRAINS = 4;
+
+const MIN_TRAIN_HEIGHT_M = 0.1; // Smaller partitions are folded into a neighbour
+const MERGE_TROUGH_RATIO = 0.75; // Peaks whose dip is shallower than this share one train
+
+/**
+ * One swell train partitioned out of a buoy spectrum (stored as JSON in buoy_readings.swellTrains)
+ */
+export interface BuoySwellTrain {
+  heightCm: number; // Significant height of the partition (4√m0) in cm
+  periodDs: number; // Peak period in deciseconds
+  directionDeg: number | null; // Energy-weighted mean direction (from), null without .swdir
+  spreadDeg: number | null; // Directional spread from r2, null without .swr2
+  windSea: boolean; // Peak above NDBC's swell / wind-sea separation frequency
+}
+
+export interface SpectralBin {
+  freqHz: number;
+  density: number; // m²/Hz
+  directionDeg: number | null; // alpha1
+  r1: number | null;
+  r2: number | null;
+}
+
+interface SpectralLine {
+  timestamp: Date;
+  separationFreqHz: number | null;
+  values: Map<number, number | null>; // frequency -> value
+}
+
+const NDBC_HEADERS = { "User-Agent": "NYCSurfCo/1.0 (surf forecast application)" };
+const SPECTRAL_PAIR = /(-?\d+(?:\.\d+)?)\s*\(\s*(\d+(?:\.\d+)?)\s*\)/g;
+
+/**
+ * Parse a spectral value, treating NDBC's 999 / MM markers as missing
+ */
+function parseSpectralValue(val: string | undefined): number | null {
+  if (val === undefined || val === "MM") return null;
+  const num = parseFloat(val);
+  return isNaN(num) || num >= 999 ? null : num;
+}
+
+/**
+ * Sep_Freq is 9.999 when NDBC could not separate swell from wind sea
+ */
+function parseSeparationFreq(val: string | undefined): number | null {
+  const num = parseSpectralValue(val);
+  return num !== null && num > 0 && num < 9 ? num : null;
+}
+
+function parseTimestamp(parts: string[]): Date | null {
+  const year = parseInt(parts[0], 10);
+  const month = parseInt(parts[1], 10) - 1; // JS months are 0-indexed
+  const day = parseInt(parts[2], 10);
+  const hour = parseInt(parts[3], 10);
+  const minute = parseInt(parts[4], 10);
+  if ([year, month, day, hour, minute].some((v) => isNaN(v))) return null;
+  return new Date(Date.UTC(year, month, day, hour, minute));
+}
+
+/**
+ * Parses every data line of a realtime2 spectral file.
+ * Format: #YY  MM DD hh mm [Sep_Freq]  value_1 (freq_1) value_2 (freq_2) ...
+ * Only .data_spec has the Sep_Freq column.
+ */
+export function parseNDBCSpectralFile(text: string, hasSeparationFreq: boolean): Map<number, SpectralLine> {
+  const lines = new Map<number, SpectralLine>();
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) continue;
+
+    const parts = trimmed.split(/\s+/);
+    const timestamp = parts.length > 5 ? parseTimestamp(parts) : null;
+    if (!timestamp) continue;
+
+    const values = new Map<number, number | null>();
+    for (const match of Array.from(parts.slice(hasSeparationFreq ? 6 : 5).join(" ").matchAll(SPECTRAL_PAIR))) {
+      values.set(parseFloat(match[2]), parseSpectralValue(match[1]));
+    }
+    if (values.size === 0) continue;
+
+    lines.set(timestamp.getTime(), {
+      timestamp,
+      separationFreqHz: hasSeparationFreq ? parseSeparationFreq(parts[5]) : null,
+      values,
+    });
+  }
+  return lines;
+}
+
+interface Partition {
+  start: number; // First bin index (inclusive)
+  end: number; // Last bin index (inclusive)
+  peak: number; // Bin index of the smoothed peak
+}
+
+/**
+ * Partitions one spectrum into at most `maxTrains` swell trains, largest first.
+ *
+ * Each bin climbs the (3-bin smoothed) spectrum to a local peak, giving one partition per peak.
+ * Neighbouring partitions are merged while the dip between their peaks is shallow (above
+ * MERGE_TROUGH_RATIO of the smaller peak), then partitions under MIN_TRAIN_HEIGHT_M and the
+ * weakest beyond `maxTrains` are folded into the neighbour they share the higher trough with.
+ */
+export function partitionSpectrum(
+  input: SpectralBin[],
+  separationFreqHz: number | null = null,
+  maxTrains: number = MAX_SWELL_TRAINS
+): BuoySwellTrain[] {
+  const bins = input.filter((bin) => bin.freqHz > 0 && bin.density >= 0).sort((a, b) => a.freqHz - b.freqHz);
+  if (bins.length === 0) return [];
+
+  const n = bins.length;
+  // Band widths from the neighbouring centre frequencies (NDBC bands widen above 0.1 Hz)
+  const widths = bins.map((_, i) => {
+    if (n === 1) return 0.01;
+    const lower = bins[Math.max(i - 1, 0)].freqHz;
+    const upper = bins[Math.min(i + 1, n - 1)].freqHz;
+    return (upper - lower) / (i === 0 || i === n - 1 ? 1 : 2);
+  });
+  const smoothed = bins.map((_, i) => {
+    const window = bins.slice(Math.max(0, i - 1), Math.min(n, i + 2));
+    return window.reduce((sum, bin) => sum + bin.density, 0) / window.length;
+  });
+  const energy = (p: Partition) => {
+    let m0 = 0;
+    for (let i = p.start; i <= p.end; i++) m0 += bins[i].density * widths[i];
+    return m0;
+  };
+  const trough = (a: Partition, b: Partition) => Math.min(...smoothed.slice(a.peak, b.peak + 1));
+
+  // Steepest ascent: consecutive bins that climb to the same peak form one partition
+  let partitions: Partition[] = [];
+  for (let i = 0; i < n; i++) {
+    let peak = i;
+    for (;;) {
+      const left = peak > 0 ? smoothed[peak - 1] : -Infinity;
+      const right = peak < n - 1 ? smoothed[peak + 1] : -Infinity;
+      if (right > smoothed[peak] && right >= left) peak++;
+      else if (left > smoothed[peak]) peak--;
+      else break;
+    }
+    const last = partitions[partitions.length - 1];
+    if (last && last.peak === peak) last.end = i;
+    else partitions.push({ start: i, end: i, peak });
+  }
+
+  const mergeAt = (k: number) => {
+    const [a, b] = [partitions[k], partitions[k + 1]];
+    const merged = { start: a.start, end: b.end, peak: smoothed[a.peak] >= smoothed[b.peak] ? a.peak : b.peak };
+    partitions = [...partitions.slice(0, k), merged, ...partitions.slice(k + 2)];
+  };
+  // Merge the smallest partition into whichever neighbour it shares the higher trough with
+  const foldSmallest = (candidates: number[]) => {
+    const k = candidates.reduce((min, i) => (energy(partitions[i]) < energy(partitions[min]) ? i : min));
+    const leftTrough = k > 0 ? trough(partitions[k - 1], partitions[k]) : -Infinity;
+    const rightTrough = k < partitions.length - 1 ? trough(partitions[k], partitions[k + 1]) : -Infinity;
+    mergeAt(leftTrough >= rightTrough ? k - 1 : k);
+  };
+
+  for (;;) {
+    let best = -1;
+    let bestRatio = MERGE_TROUGH_RATIO;
+    for (let k = 0; k < partitions.length - 1; k++) {
+      const [a, b] = [partitions[k], partitions[k + 1]];
+      const lowerPeak = Math.min(smoothed[a.peak], smoothed[b.peak]);
+      const ratio = lowerPeak > 0 ? trough(a, b) / lowerPeak : 1;
+      if (ratio >= bestRatio) {
+        best = k;
+        bestRatio = ratio;
+      }
+    }
+    if (best === -1) break;
+    mergeAt(best);
+  }
+
+  const minEnergy = (MIN_TRAIN_HEIGHT_M / 4) ** 2;
+  for (;;) {
+    const small = partitions.map((p, i) => (energy(p) < minEnergy ? i : -1)).filter((i) => i >= 0);
+    if (small.length === 0 || partitions.length === 1) break;
+    foldSmallest(small);
+  }
+  while (partitions.length > maxTrains) {
+    foldSmallest(partitions.map((_, i) => i));
+  }
+
+  const trains: BuoySwellTrain[] = [];
+  for (const p of partitions) {
+    const m0 = energy(p);
+    if (m0 <= 0) continue;
+
+    let peakBin = bins[p.start];
+    let x = 0;
+    let y = 0;
+    let r2Sum = 0;
+    let r2Weight = 0;
+    for (let i = p.start; i <= p.end; i++) {
+      const bin = bins[i];
+      const e = bin.density * widths[i];
+      if (bin.density > peakBin.density) peakBin = bin;
+      if (bin.directionDeg !== null) {
+        const rad = (bin.directionDeg * Math.PI) / 180;
+        x += e * (bin.r1 ?? 1) * Math.cos(rad);
+        y += e * (bin.r1 ?? 1) * Math.sin(rad);
+      }
+      if (bin.r2 !== null) {
+        r2Sum += e * bin.r2;
+        r2Weight += e;
+      }
+    }
+
+    const direction = x !== 0 || y !== 0 ? ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360 : null;
+    const r2 = r2Weight > 0 ? Math.min(Math.max(r2Sum / r2Weight, 0), 1) : null;
+    trains.push({
+      heightCm: Math.round(4 * Math.sqrt(m0) * 100),
+      periodDs: Math.round(10 / peakBin.freqHz),
+      directionDeg: direction !== null ? Math.round(direction) % 360 : null,
+      spreadDeg: r2 !== null ? Math.round((Math.sqrt((1 - r2) / 2) * 180) / Math.PI) : null,
+      windSea: separationFreqHz !== null && peakBin.freqHz > separationFreqHz,
+    });
+  }
+  return trains.sort((a, b) => b.heightCm - a.heightCm);
+}
+
+/**
+ * Parse the buoy_readings.swellTrains JSON column (empty when missing or invalid)
+ */
+export function parseBuoySwellTrains(json: string | null): BuoySwellTrain[] {
+  if (!json) return [];
+  try {
+    const trains = JSON.parse(json) as BuoySwellTrain[];
+    return Array.isArray(trains) ? trains : [];
+  } catch {
+    console.warn("[NDBC Spectral] Ignoring invalid swellTrains JSON:", json);
+    return [];
+  }
+}
+
+/**
+ * Joins one timestamp's density line with the directional files' lines into bins
+ */
+function toSpectralBins(
+  density: SpectralLine,
+  direction: SpectralLine | undefined,
+  r1: SpectralLine | undefined,
+  r2: SpectralLine | undefined
+): SpectralBin[] {
+  const bins: SpectralBin[] = [];
+  for (const [freqHz, value] of Array.from(density.values.entries())) {
+    if (value === null) continue;
+    bins.push({
+      freqHz,
+      density: value,
+      directionDeg: direction?.values.get(freqHz) ?? null,
+      r1: r1?.values.get(freqHz) ?? null,
+      r2: r2?.values.get(freqHz) ?? null,
+    });
+  }
+  return bins;
+}
+
+/**
+ * Fetches a buoy's realtime2 spectral files and partitions every spectrum into swell trains.
+ * The directional files are optional (trains then have no direction / spread); throws only
+ * if .data_spec is unavailable.
+ *
+ * @param days - Only return spectra from the last N days (max 45, the realtime2 window)
+ * @returns Swell trains keyed by reading timestamp (ms)
+ */
+export async function fetchBuoySwellTrains(
+  buoyId: string,
+  days: number = NDBC_REALTIME_HISTORY_DAYS
+): Promise<Map<number, BuoySwellTrain[]>> {
+  const baseUrl = `https://www.ndbc.noaa.gov/data/realtime2/${buoyId}`;
+  const [densityResult, ...directionalResults] = await Promise.allSettled(
+    ["data_spec", "swdir", "swr1", "swr2"].map((ext) =>
+      axios.get<string>(`${baseUrl}.${ext}`, { timeout: 20000, headers: NDBC_HEADERS, responseType: "text" })
+    )
+  );
+
+  if (densityResult.status === "rejected") {
+    throw new Error(`NDBC buoy ${buoyId}: .data_spec unavailable (${densityResult.reason?.message || densityResult.reason})`);
+  }
+  const [direction, r1, r2] = directionalResults.map((result, i) => {
+    if (result.status === "fulfilled") return parseNDBCSpectralFile(result.value.data, false);
+    console.warn(`[NDBC Spectral] ${buoyId}.${["swdir", "swr1", "swr2"][i]} unavailable: ${result.reason?.message || result.reason}`);
+    return new Map<number, SpectralLine>();
+  });
+
+  const cutoff = Date.now() - Math.min(days, NDBC_REALTIME_HISTORY_DAYS) * 24 * 60 * 60 * 1000;
+  const trains = new Map<number, BuoySwellTrain[]>();
+  for (const [key, line] of Array.from(parseNDBCSpectralFile(densityResult.value.data, true).entries())) {
+    if (key < cutoff) continue;
+    const partitioned = partitionSpectrum(toSpectralBins(line, direction.get(key), r1.get(key), r2.get(key)), line.separationFreqHz);
+    if (partitioned.length > 0) trains.set(key, partitioned);
+  }
+  return trains;
+}
@@ -1,29 +1,40 @@
 import { ENV } from "../../../_core/env";
 import type { SurfSpot } from "../../../drizzle/schema";
 
+/**
+ * Hourly parameters requested from Stormglass (ECMWF). Heights in meters, periods in seconds,
+ * directions in degrees, speeds in m/s, temperatures in Celsius.
+ */
+const STORMGLASS_PARAMS = [
+  "waveHeight",
+  "wavePeriod",
+  "waveDirection",
+  "swellHeight",
+  "swellPeriod",
+  "swellDirection",
+  "secondarySwellHeight",
+  "secondarySwellPeriod",
+  "secondarySwellDirection",
+  "windWaveHeight",
+  "windWavePeriod",
+  "windWaveDirection",
+  "windSpeed",
+  "windDirection",
+  "gust",
+  "waterTemperature",
+  "airTemperature",
+] as const;
+
+type StormglassParam = (typeof STORMGLASS_PARAMS)[number];
+
 /**
  * Stormglass API Response structure (ECMWF wave data)
  */
 interface StormglassResponse {
-  hours: Array<{
-    time: string; // ISO 8601 timestamp
-    waveHeight?: {
-      ecmwf?: number; // meters
-      [source: string]: number | undefined;
-    };
-    swellHeight?: {
-      ecmwf?: number; // meters
-      [source: string]: number | undefined;
-    };
-    swellPeriod?: {
-      ecmwf?: number; // seconds
-      [source: string]: number | undefined;
-    };
-    swellDirection?: {
-      ecmwf?: number; // degrees
-      [source: string]: number | undefined;
-    };
-  }>;
+  hours: Array<
+    { time: string } & // ISO 8601 timestamp
+    Partial<Record<StormglassParam, { ecmwf?: number; [source: string]: number | undefined }>>
+  >;
   meta?: {
     cost: number;
     dailyQuota: number;
@@ -37,9 +48,22 @@ interface StormglassResponse {
 export interface StormglassForecastPoint {
   forecastTimestamp: Date;
   waveHeightFt: number | null;
+  wavePeriodS: number | null;
+  waveDirectionDeg: number | null;
   swellHeightFt: number | null;
   swellPeriodS: number | null;
   swellDirectionDeg: number | null;
+  secondarySwellHeightFt: number | null;
+  secondarySwellPeriodS: number | null;
+  secondarySwellDirectionDeg: number | null;
+  windWaveHeightFt: number | null;
+  windWavePeriodS: number | null;
+  windWaveDirectionDeg: number | null;
+  windSpeedKts: number | null;
+  windDirectionDeg: number | null;
+  windGustsKts: number | null;
+  waterTempF: number | null;
+  airTempF: number | null;
   source: string;
 }
 
@@ -51,6 +75,16 @@ function metersToFeet(m: number | undefined): number | null {
   return m * 3.28084;
 }
 
+function msToKnots(ms: number | undefined): number | null {
+  if (ms === undefined || ms === null || isNaN(ms)) return null;
+  return ms * 1.94384;
+}
+
+function celsiusToFahrenheit(c: number | undefined): number | null {
+  if (c === undefined || c === null || isNaN(c)) return null;
+  return (c * 9) / 5 + 32;
+}
+
 /**
  * Fetches ECMWF wave data from Stormglass API for a specific spot.
  *
@@ -88,7 +122,7 @@ export async function fetchStormglassForSpot(
   const params = new URLSearchParams({
     lat: lat.toString(),
     lng: lon.toString(),
-    params: "waveHeight,swellHeight,swellPeriod,swellDirection",
+    params: STORMGLASS_PARAMS.join(","),
     source: "ecmwf",
     start: now.toISOString(),
     end: endTime.toISOString(),
@@ -128,9 +162,22 @@ export async function fetchStormglassForSpot(
     const forecastPoints: StormglassForecastPoint[] = data.hours.map((hour) => ({
       forecastTimestamp: new Date(hour.time),
       waveHeightFt: metersToFeet(hour.waveHeight?.ecmwf),
+      wavePeriodS: hour.wavePeriod?.ecmwf ?? null,
+      waveDirectionDeg: hour.waveDirection?.ecmwf ?? null,
       swellHeightFt: metersToFeet(hour.swellHeight?.ecmwf),
       swellPeriodS: hour.swellPeriod?.ecmwf ?? null,
       swellDirectionDeg: hour.swellDirection?.ecmwf ?? null,
+      secondarySwellHeightFt: metersToFeet(hour.secondarySwellHeight?.ecmwf),
+      secondarySwellPeriodS: hour.secondarySwellPeriod?.ecmwf ?? null,
+      secondarySwellDirectionDeg: hour.secondarySwellDirection?.ecmwf ?? null,
+      windWaveHeightFt: metersToFeet(hour.windWaveHeight?.ecmwf),
+      windWavePeriodS: hour.windWavePeriod?.ecmwf ?? null,
+      windWaveDirectionDeg: hour.windWaveDirection?.ecmwf ?? null,
+      windSpeedKts: msToKnots(hour.windSpeed?.ecmwf),
+      windDirectionDeg: hour.windDirection?.ecmwf ?? null,
+      windGustsKts: msToKnots(hour.gust?.ecmwf),
+      waterTempF: celsiusToFahrenheit(hour.waterTemperature?.ecmwf),
+      airTempF: celsiusToFahrenheit(hour.airTemperature?.ecmwf),
       source: "ecmwf",
     }));
 
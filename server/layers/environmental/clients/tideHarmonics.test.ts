@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { HARMONIC_STATIONS, predictHarmonicSeries, predictHarmonicTide } from "./tideHarmonics";
+
+const MARCH_START = new Date("2026-03-01T00:00:00Z");
+const MARCH_END = new Date("2026-03-31T00:00:00Z");
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+describe("predictHarmonicSeries", () => {
+  it("lists alternating highs and lows on the M2 (12.42h) cadence", () => {
+    for (const stationId of Object.keys(HARMONIC_STATIONS)) {
+      const { events } = predictHarmonicSeries(stationId, MARCH_START, MARCH_END)!;
+      expect(events.every((event, i) => i === 0 || event.type !== events[i - 1].type)).toBe(true);
+      // 30 days / 12.42h ≈ 58 highs
+      expect(events.filter((event) => event.type === "H")).toHaveLength(58);
+    }
+  });
+
+  it("puts the datum at mean lower low water and the curve mean at MSL", () => {
+    for (const [stationId, station] of Object.entries(HARMONIC_STATIONS)) {
+      const { curve, events } = predictHarmonicSeries(stationId, MARCH_START, MARCH_END)!;
+      const lowerLows = new Map<string, number>();
+      for (const event of events.filter((e) => e.type === "L")) {
+        const day = event.time.toISOString().slice(0, 10);
+        lowerLows.set(day, Math.min(event.heightFt, lowerLows.get(day) ?? Infinity));
+      }
+
+      expect(Math.abs(average(Array.from(lowerLows.values())))).toBeLessThan(0.3);
+      expect(average(curve.map((point) => point.heightFt))).toBeCloseTo(station.z0Ft, 1);
+    }
+  });
+
+  it("has spring tides after the full and new moon and neaps at the quarters", () => {
+    // March 2026: full moon the 3rd, last quarter the 11th, new moon the 19th, first quarter the 25th
+    const rangeOn = (day: string) => {
+      const { events } = predictHarmonicSeries("8518750", new Date(`${day}T00:00:00Z`), new Date(`${day}T23:59:00Z`))!;
+      const heights = events.map((event) => event.heightFt);
+      return Math.max(...heights) - Math.min(...heights);
+    };
+
+    const springs = [rangeOn("2026-03-04"), rangeOn("2026-03-20")];
+    const neaps = [rangeOn("2026-03-11"), rangeOn("2026-03-26")];
+    expect(Math.min(...springs)).toBeGreaterThan(Math.max(...neaps) + 0.5);
+  });
+
+  it("returns null for stations without constituents", () => {
+    expect(predictHarmonicTide("9999999", MARCH_START)).toBeNull();
+    expect(predictHarmonicSeries("9999999", MARCH_START, MARCH_END)).toBeNull();
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Offline Harmonic Tide Predictor
+ * Fallback for when NOAA CO-OPS is unreachable and the tide_predictions cache doesn't
+ * cover the requested range.
+ *
+ * h(t) = Z0 + Σ f·A·cos(V(t) + u − G)
+ *   A, G  - constituent amplitude (ft) and Greenwich phase lag (°, GMT) for the station
+ *   V     - equilibrium argument from the mean longitudes of moon/sun/perigee (Meeus)
+ *   f, u  - nodal factor and angle for the 18.6-year lunar node cycle (Schureman)
+ *   Z0    - mean sea level above MLLW, so heights match the NOAA predictions datum
+ *
+ * Station constants are approximate (rounded, major constituents only) and good to a few
+ * tenths of a foot / ~15 minutes — fine for scoring, not for navigation. Paste in the full
+ * set from the CO-OPS "harcon" product for a station to tighten it up.
+ */
+
+export type Constituent = "M2" | "S2" | "N2" | "K2" | "K1" | "O1" | "P1" | "Q1" | "M4" | "M6";
+
+export interface HarmonicStation {
+  name: string;
+  z0Ft: number; // MSL above MLLW
+  constituents: Partial<Record<Constituent, { amplitudeFt: number; phaseDeg: number }>>;
+}
+
+/**
+ * Seeded stations, keyed by NOAA station ID
+ */
+export const HARMONIC_STATIONS: Record<string, HarmonicStation> = {
+  "8531680": {
+    name: "Sandy Hook, NJ",
+    z0Ft: 2.48,
+    constituents: {
+      M2: { amplitudeFt: 2.26, phaseDeg: 218.5 },
+      S2: { amplitudeFt: 0.45, phaseDeg: 244.0 },
+      N2: { amplitudeFt: 0.52, phaseDeg: 200.5 },
+      K2: { amplitudeFt: 0.12, phaseDeg: 243.0 },
+      K1: { amplitudeFt: 0.33, phaseDeg: 180.0 },
+      O1: { amplitudeFt: 0.17, phaseDeg: 190.5 },
+      P1: { amplitudeFt: 0.11, phaseDeg: 181.0 },
+      Q1: { amplitudeFt: 0.04, phaseDeg: 184.0 },
+      M4: { amplitudeFt: 0.09, phaseDeg: 72.0 },
+      M6: { amplitudeFt: 0.04, phaseDeg: 158.0 },
+    },
+  },
+  // Western spots (Lido, Long Beach, Rockaway) use The Battery
+  "8518750": {
+    name: "The Battery, NY",
+    z0Ft: 2.56,
+    constituents: {
+      M2: { amplitudeFt: 2.17, phaseDeg: 228.5 },
+      S2: { amplitudeFt: 0.43, phaseDeg: 255.0 },
+      N2: { amplitudeFt: 0.50, phaseDeg: 210.5 },
+      K2: { amplitudeFt: 0.12, phaseDeg: 254.0 },
+      K1: { amplitudeFt: 0.32, phaseDeg: 185.0 },
+      O1: { amplitudeFt: 0.17, phaseDeg: 195.0 },
+      P1: { amplitudeFt: 0.10, phaseDeg: 186.0 },
+      Q1: { amplitudeFt: 0.04, phaseDeg: 189.0 },
+      M4: { amplitudeFt: 0.18, phaseDeg: 98.0 },
+      M6: { amplitudeFt: 0.07, phaseDeg: 195.0 },
+    },
+  },
+  "8516663": {
+    name: "Jones Inlet (Point Lookout), NY",
+    z0Ft: 2.05,
+    constituents: {
+      M2: { amplitudeFt: 1.78, phaseDeg: 225.0 },
+      S2: { amplitudeFt: 0.35, phaseDeg: 250.0 },
+      N2: { amplitudeFt: 0.41, phaseDeg: 207.0 },
+      K2: { amplitudeFt: 0.10, phaseDeg: 249.0 },
+      K1: { amplitudeFt: 0.29, phaseDeg: 183.0 },
+      O1: { amplitudeFt: 0.16, phaseDeg: 193.0 },
+      P1: { amplitudeFt: 0.09, phaseDeg: 184.0 },
+      Q1: { amplitudeFt: 0.03, phaseDeg: 187.0 },
+      M4: { amplitudeFt: 0.08, phaseDeg: 90.0 },
+    },
+  },
+  "8510560": {
+    name: "Montauk, NY",
+    z0Ft: 1.30,
+    constituents: {
+      M2: { amplitudeFt: 0.95, phaseDeg: 201.0 },
+      S2: { amplitudeFt: 0.19, phaseDeg: 222.0 },
+      N2: { amplitudeFt: 0.24, phaseDeg: 183.0 },
+      K2: { amplitudeFt: 0.05, phaseDeg: 221.0 },
+      K1: { amplitudeFt: 0.23, phaseDeg: 176.0 },
+      O1: { amplitudeFt: 0.16, phaseDeg: 197.0 },
+      P1: { amplitudeFt: 0.07, phaseDeg: 177.0 },
+      Q1: { amplitudeFt: 0.03, phaseDeg: 192.0 },
+      M4: { amplitudeFt: 0.04, phaseDeg: 40.0 },
+    },
+  },
+};
+
+const DEG = Math.PI / 180;
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+// Turning points closer than this to the previous event are a wobble in a slack stand, not a tide
+const MIN_EVENT_RANGE_FT = 0.1;
+
+export function hasHarmonicConstituents(stationId: string): boolean {
+  return stationId in HARMONIC_STATIONS;
+}
+
+/**
+ * Mean longitudes (degrees) at a time: moon s, sun h, lunar perigee p, lunar node N,
+ * plus T = Greenwich hour angle of the mean sun
+ */
+function astronomicalArguments(time: Date) {
+  const days = (time.getTime() - J2000_MS) / 86_400_000;
+  const centuries = days / 36525;
+  const utHours = (time.getTime() % 86_400_000) / 3_600_000;
+  return {
+    T: 180 + 15 * utHours,
+    s: 218.3164477 + 481267.88123421 * centuries,
+    h: 280.46646 + 36000.76983 * centuries,
+    p: 83.3532465 + 4069.0137287 * centuries,
+    N: 125.04452 - 1934.136261 * centuries,
+  };
+}
+
+/**
+ * Equilibrium argument V, nodal factor f and nodal angle u for each constituent
+ */
+function constituentArguments(time: Date): Record<Constituent, { V: number; f: number; u: number }> {
+  const { T, s, h, p, N } = astronomicalArguments(time);
+  const n = N * DEG;
+
+  const fM2 = 1.0004 - 0.0373 * Math.cos(n) + 0.0002 * Math.cos(2 * n);
+  const uM2 = -2.14 * Math.sin(n);
+  const fK1 = 1.006 + 0.115 * Math.cos(n) - 0.0088 * Math.cos(2 * n) + 0.0006 * Math.cos(3 * n);
+  const uK1 = -8.86 * Math.sin(n) + 0.68 * Math.sin(2 * n) - 0.07 * Math.sin(3 * n);
+  const fO1 = 1.0089 + 0.1871 * Math.cos(n) - 0.0147 * Math.cos(2 * n) + 0.0014 * Math.cos(3 * n);
+  const uO1 = 10.8 * Math.sin(n) - 1.34 * Math.sin(2 * n) + 0.19 * Math.sin(3 * n);
+  const fK2 = 1.0241 + 0.2863 * Math.cos(n) + 0.0083 * Math.cos(2 * n) - 0.0015 * Math.cos(3 * n);
+  const uK2 = -17.74 * Math.sin(n) + 0.68 * Math.sin(2 * n) - 0.04 * Math.sin(3 * n);
+
+  const vM2 = 2 * T - 2 * s + 2 * h;
+  return {
+    M2: { V: vM2, f: fM2, u: uM2 },
+    S2: { V: 2 * T, f: 1, u: 0 },
+    N2: { V: 2 * T - 3 * s + 2 * h + p, f: fM2, u: uM2 },
+    K2: { V: 2 * T + 2 * h, f: fK2, u: uK2 },
+    K1: { V: T + h + 90, f: fK1, u: uK1 },
+    O1: { V: T - 2 * s + h - 90, f: fO1, u: uO1 },
+    P1: { V: T - h - 90, f: 1, u: 0 },
+    Q1: { V: T - 3 * s + h + p - 90, f: fO1, u: uO1 },
+    M4: { V: 2 * vM2, f: fM2 * fM2, u: 2 * uM2 },
+    M6: { V: 3 * vM2, f: fM2 * fM2 * fM2, u: 3 * uM2 },
+  };
+}
+
+/**
+ * Predicted tide height (ft above MLLW), or null if the station isn't seeded
+ */
+export function predictHarmonicTide(stationId: string, time: Date): number | null {
+  const station = HARMONIC_STATIONS[stationId];
+  if (!station) return null;
+
+  const args = constituentArguments(time);
+  let height = station.z0Ft;
+  for (const [name, constants] of Object.entries(station.constituents)) {
+    if (!constants) continue;
+    const { V, f, u } = args[name as Constituent];
+    height += f * constants.amplitudeFt * Math.cos((V + u - constants.phaseDeg) * DEG);
+  }
+  return height;
+}
+
+/**
+ * Predicted curve and hi/lo events over [start, end].
+ * Extremes are local max/min of the curve, refined with a parabola through the neighbors.
+ * Like NOAA's hilo list, events strictly alternate: a wobble during a neap-tide stand
+ * is dropped and the more extreme of the two same-type turning points is kept.
+ *
+ * @returns null if the station isn't seeded
+ */
+export function predictHarmonicSeries(
+  stationId: string,
+  start: Date,
+  end: Date,
+  stepMinutes: number = 6
+): {
+  curve: Array<{ time: Date; heightFt: number }>;
+  events: Array<{ time: Date; heightFt: number; type: "H" | "L" }>;
+} | null {
+  if (!hasHarmonicConstituents(stationId)) return null;
+
+  const stepMs = stepMinutes * 60 * 1000;
+  const firstMs = Math.ceil(start.getTime() / stepMs) * stepMs;
+  const curve: Array<{ time: Date; heightFt: number }> = [];
+  for (let t = firstMs; t <= end.getTime(); t += stepMs) {
+    curve.push({ time: new Date(t), heightFt: predictHarmonicTide(stationId, new Date(t))! });
+  }
+
+  const events: Array<{ time: Date; heightFt: number; type: "H" | "L" }> = [];
+  for (let i = 1; i < curve.length - 1; i++) {
+    const [a, b, c] = [curve[i - 1].heightFt, curve[i].heightFt, curve[i + 1].heightFt];
+    const isHigh = b > a && b >= c;
+    const isLow = b < a && b <= c;
+    if (!isHigh && !isLow) continue;
+
+    const denominator = a - 2 * b + c;
+    const offset = denominator !== 0 ? (0.5 * (a - c)) / denominator : 0; // in steps, within ±0.5
+    const event = {
+      time: new Date(Math.round((curve[i].time.getTime() + offset * stepMs) / 60_000) * 60_000),
+      heightFt: Math.round((b - 0.25 * (a - c) * offset) * 100) / 100,
+      type: (isHigh ? "H" : "L") as "H" | "L",
+    };
+
+    const last = events[events.length - 1];
+    if (last && last.type !== event.type && Math.abs(event.heightFt - last.heightFt) < MIN_EVENT_RANGE_FT) continue;
+    if (last && last.type === event.type) {
+      const moreExtreme = event.type === "H" ? event.heightFt > last.heightFt : event.heightFt < last.heightFt;
+      if (moreExtreme) events[events.length - 1] = event;
+      continue;
+    }
+    events.push(event);
+  }
+
+  return {
+    curve: curve.map((point) => ({ time: point.time, heightFt: Math.round(point.heightFt * 100) / 100 })),
+    events,
+  };
+}
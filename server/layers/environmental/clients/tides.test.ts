@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { predictHarmonicSeries } from "./tideHarmonics";
+import { getTideFromSeries, type TidePrediction, type TideSeries } from "./tides";
+
+const at = (hhmm: string) => new Date(`2026-06-20T${hhmm}:00Z`);
+
+const EVENTS: TidePrediction[] = [
+  { time: at("02:00"), heightFt: 0.4, type: "L", source: "noaa" },
+  { time: at("08:00"), heightFt: 4.8, type: "H", source: "noaa" },
+  { time: at("14:00"), heightFt: 0.2, type: "L", source: "harmonic" },
+];
+
+describe("getTideFromSeries", () => {
+  it("reads curve points directly and interpolates linearly between them", () => {
+    const series: TideSeries = {
+      stationId: "8518750",
+      curve: [
+        { time: at("05:00"), heightFt: 2.0, source: "noaa" },
+        { time: at("05:06"), heightFt: 2.3, source: "noaa" },
+      ],
+      events: EVENTS,
+    };
+
+    expect(getTideFromSeries(series, at("05:00"))).toMatchObject({ heightFt: 2, phase: "rising", method: "curve" });
+    expect(getTideFromSeries(series, new Date(at("05:00").getTime() + 2 * 60_000))).toMatchObject({
+      heightFt: 2.1,
+      method: "curve",
+      source: "noaa",
+    });
+  });
+
+  it("falls back to a half cosine between hi/lo events away from the curve", () => {
+    const series: TideSeries = { stationId: "8518750", curve: [], events: EVENTS };
+
+    const midway = getTideFromSeries(series, at("05:00"))!;
+    expect(midway).toMatchObject({ heightFt: 2.6, phase: "rising", method: "cosine" });
+    expect(midway.nextTide?.time).toEqual(at("08:00"));
+
+    // A quarter of the way from the high to the low: 4.8 - 4.6 × (1 - cos 45°) / 2
+    expect(getTideFromSeries(series, at("09:30"))).toMatchObject({ heightFt: 4.13, phase: "falling", source: "harmonic" });
+  });
+
+  it("reports slack high/low within 30 minutes of an event", () => {
+    const series: TideSeries = { stationId: "8518750", curve: [], events: EVENTS };
+    expect(getTideFromSeries(series, at("07:45"))!.phase).toBe("high");
+    expect(getTideFromSeries(series, at("08:20"))!.phase).toBe("high");
+    expect(getTideFromSeries(series, at("08:40"))!.phase).toBe("falling");
+    expect(getTideFromSeries(series, at("13:35"))!.phase).toBe("low");
+  });
+
+  it("doesn't bridge a curve gap longer than an hour or go past the data", () => {
+    const series: TideSeries = {
+      stationId: "8518750",
+      curve: [
+        { time: at("03:00"), heightFt: 1.0, source: "noaa" },
+        { time: at("07:00"), heightFt: 4.5, source: "noaa" },
+      ],
+      events: EVENTS,
+    };
+
+    expect(getTideFromSeries(series, at("05:00"))!.method).toBe("cosine");
+    expect(getTideFromSeries({ stationId: "8518750", curve: [], events: EVENTS }, at("20:00"))).toBeNull();
+  });
+
+  it("agrees with the harmonic events it was built from", () => {
+    const predicted = predictHarmonicSeries("8518750", at("00:00"), new Date("2026-06-21T00:00:00Z"))!;
+    const series: TideSeries = {
+      stationId: "8518750",
+      curve: predicted.curve.map((point) => ({ ...point, source: "harmonic" })),
+      events: predicted.events.map((event) => ({ ...event, source: "harmonic" })),
+    };
+
+    for (const event of predicted.events) {
+      const tide = getTideFromSeries(series, event.time)!;
+      expect(Math.abs(tide.heightFt - event.heightFt)).toBeLessThan(0.05);
+      expect(tide.phase).toBe(event.type === "H" ? "high" : "low");
+      expect(tide.source).toBe("harmonic");
+    }
+  });
+});
@@ -1,44 +1,93 @@
 import axios from "axios";
+import { getTidePredictions, upsertTidePredictions } from "../../../db";
+import type { InsertTidePredictionRow, TidePredictionRow } from "../../../../drizzle/schema";
+import { hasHarmonicConstituents, predictHarmonicSeries } from "./tideHarmonics";
 
 /**
  * NOAA Tides & Currents Data Service
  * Fetches tide predictions from NOAA CO-OPS API.
  * API Docs: https://api.tidesandcurrents.noaa.gov/api/prod/
+ *
+ * The 6-minute prediction curve and hi/lo events for the next 8 days are cached per
+ * station in tide_predictions, refreshed daily by the tide-predictions job. Reads
+ * (loadTideSeries / getTideAt) only use that cache and never call NOAA. getTideAt() reads
+ * the curve directly and falls back to cosine interpolation between hi/lo events where no
+ * curve is available.
+ *
+ * Where the cache doesn't cover a request (NOAA was down, or the job hasn't run yet), the gap
+ * is filled by the offline harmonic predictor (tideHarmonics.ts) for seeded stations; those
+ * values are flagged `source: "harmonic"`.
  */
 
-const tideCache = new Map<string, { data: TidePrediction[]; ts: number }>();
-const TIDE_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
+export type TideSource = "noaa" | "harmonic";
 
 export interface TidePrediction {
   time: Date;
   heightFt: number;
   type: "H" | "L"; // High or Low
+  source: TideSource;
 }
 
 export interface CurrentTideInfo {
   currentHeightFt: number;
   nextTide: TidePrediction | null;
   tidePhase: "rising" | "falling" | "high" | "low";
+  source: TideSource;
+}
+
+export interface TideCurvePoint {
+  time: Date;
+  heightFt: number;
+  source: TideSource;
+}
+
+export interface TideAt {
+  heightFt: number;
+  phase: "rising" | "falling" | "high" | "low";
+  nextTide: TidePrediction | null;
+  method: "curve" | "cosine"; // 6-minute curve vs cosine between hi/lo events
+  source: TideSource;
 }
 
 /**
- * Fetches tide predictions for a station for the next 24 hours.
- * Results are cached for 30 minutes — tide schedules don't change mid-day.
+ * Predictions for one station over a time range, both sorted oldest first
  */
-export async function fetchTidePredictions(stationId: string): Promise<TidePrediction[]> {
-  const cached = tideCache.get(stationId);
-  if (cached && Date.now() - cached.ts < TIDE_CACHE_TTL) {
-    return cached.data;
-  }
+export interface TideSeries {
+  stationId: string;
+  curve: TideCurvePoint[];
+  events: TidePrediction[];
+}
 
-  const now = new Date();
-  const beginDate = formatDate(now);
-  const endDate = formatDate(new Date(now.getTime() + 24 * 60 * 60 * 1000));
+const NOAA_URL = "https://api.tidesandcurrents.noaa.gov/api/prod/datagetter";
+export const TIDE_HORIZON_DAYS = 8; // 7-day timeline + buffer
+const TIDE_LOOKBACK_HOURS = 24;
+const SERIES_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
+const MAX_CURVE_GAP_MS = 60 * 60 * 1000; // Curve points further apart than this aren't interpolated
+const SLACK_WINDOW_MS = 30 * 60 * 1000; // Within 30 minutes of a hi/lo event = "high"/"low"
+const HOUR_MS = 60 * 60 * 1000;
 
-  const url = `https://api.tidesandcurrents.noaa.gov/api/prod/datagetter`;
+const seriesCache = new Map<string, { series: TideSeries; start: number; end: number; ts: number }>();
+
+function formatDate(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${year}${month}${day}`;
+}
+
+/**
+ * Fetch predictions from CO-OPS. `interval` is "6" (6-minute), "h" (hourly) or "hilo".
+ * Throws on network/API errors.
+ */
+async function fetchNoaaPredictions(
+  stationId: string,
+  start: Date,
+  end: Date,
+  interval: "6" | "h" | "hilo"
+): Promise<InsertTidePredictionRow[]> {
   const params = {
-    begin_date: beginDate,
-    end_date: endDate,
+    begin_date: formatDate(start),
+    end_date: formatDate(end),
     station: stationId,
     product: "predictions",
     datum: "MLLW",
@@ -46,75 +95,271 @@ export async function fetchTidePredictions(stationId: string): Promise<TidePredi
     time_zone: "gmt",
     application: "LongIslandSurfForecast",
     format: "json",
-    interval: "hilo", // High/Low only
+    interval,
   };
 
-  try {
-    const response = await axios.get(url, { params, timeout: 10000 });
+  const response = await axios.get(NOAA_URL, { params, timeout: 15000 });
+  if (!response.data.predictions) {
+    throw new Error(response.data.error?.message || `No ${interval} predictions for station ${stationId}`);
+  }
+
+  return response.data.predictions.map((p: { t: string; v: string; type?: string }) => ({
+    stationId,
+    time: new Date(p.t.replace(" ", "T") + "Z"),
+    heightFt: parseFloat(p.v).toFixed(2),
+    resolution: interval,
+    type: interval === "hilo" ? (p.type as "H" | "L") : null,
+  }));
+}
 
-    if (!response.data.predictions) {
-      console.warn(`[Tides] No predictions for station ${stationId}`);
-      return cached?.data ?? [];
+function rowsToSeries(stationId: string, rows: Array<Pick<TidePredictionRow, "time" | "heightFt" | "resolution" | "type">>): TideSeries {
+  const curve: TideCurvePoint[] = [];
+  const events: TidePrediction[] = [];
+  for (const row of rows) {
+    const heightFt = parseFloat(row.heightFt);
+    if (row.resolution === "hilo") {
+      if (row.type === "H" || row.type === "L") events.push({ time: row.time, heightFt, type: row.type, source: "noaa" });
+    } else {
+      curve.push({ time: row.time, heightFt, source: "noaa" });
     }
+  }
+  curve.sort((a, b) => a.time.getTime() - b.time.getTime());
+  events.sort((a, b) => a.time.getTime() - b.time.getTime());
+  return { stationId, curve, events };
+}
+
+/**
+ * Fetch the 6-minute curve and hi/lo events from NOAA and store them in tide_predictions.
+ * Succeeds if either product was fetched.
+ *
+ * @returns The fetched series (also usable when the database is unavailable)
+ */
+export async function refreshTidePredictions(
+  stationId: string,
+  days: number = TIDE_HORIZON_DAYS
+): Promise<TideSeries> {
+  const start = new Date(Date.now() - TIDE_LOOKBACK_HOURS * HOUR_MS);
+  const end = new Date(Date.now() + days * 24 * HOUR_MS);
+
+  const [curveResult, hiloResult] = await Promise.allSettled([
+    fetchNoaaPredictions(stationId, start, end, "6"),
+    fetchNoaaPredictions(stationId, start, end, "hilo"),
+  ]);
+
+  if (curveResult.status === "rejected" && hiloResult.status === "rejected") {
+    throw new Error(`Tide predictions unavailable for station ${stationId}: ${curveResult.reason?.message || curveResult.reason}`);
+  }
+
+  const rows: InsertTidePredictionRow[] = [];
+  if (curveResult.status === "fulfilled") rows.push(...curveResult.value);
+  else console.warn(`[Tides] 6-minute curve unavailable for ${stationId}, using hi/lo only:`, curveResult.reason?.message);
+  if (hiloResult.status === "fulfilled") rows.push(...hiloResult.value);
+  else console.warn(`[Tides] Hi/lo unavailable for ${stationId}:`, hiloResult.reason?.message);
+
+  await upsertTidePredictions(rows);
+  console.log(`[Tides] Cached ${rows.length} predictions for station ${stationId} (${days} days)`);
+
+  const series = rowsToSeries(stationId, rows.map((row) => ({ ...row, type: row.type ?? null })));
+  seriesCache.set(stationId, { series, start: start.getTime(), end: end.getTime(), ts: Date.now() });
+  return series;
+}
+
+function coversRange(series: TideSeries, start: Date, end: Date): boolean {
+  const points = series.curve.length > 0 ? series.curve : series.events;
+  if (points.length === 0) return false;
+  // Hi/lo events are ~6h apart, so allow that much slack at the edges
+  const slack = series.curve.length > 0 ? HOUR_MS : 7 * HOUR_MS;
+  return points[0].time.getTime() <= start.getTime() + slack
+    && points[points.length - 1].time.getTime() >= end.getTime() - slack;
+}
+
+/**
+ * Fill the parts of [start, end] outside the NOAA predictions with harmonic predictions
+ */
+function fillWithHarmonics(series: TideSeries, start: Date, end: Date): TideSeries {
+  const harmonic = predictHarmonicSeries(series.stationId, start, end);
+  if (!harmonic) return series;
+
+  let noaaStart = Infinity;
+  let noaaEnd = -Infinity;
+  for (const point of [...series.curve, ...series.events]) {
+    noaaStart = Math.min(noaaStart, point.time.getTime());
+    noaaEnd = Math.max(noaaEnd, point.time.getTime());
+  }
+  // Keep harmonic hi/lo events clear of the NOAA ones so the same tide isn't counted twice
+  const outsideNoaa = (time: Date, marginMs: number) =>
+    time.getTime() < noaaStart - marginMs || time.getTime() > noaaEnd + marginMs;
+
+  const curve: TideCurvePoint[] = [
+    ...series.curve,
+    ...harmonic.curve
+      .filter((point) => outsideNoaa(point.time, 0))
+      .map((point) => ({ ...point, source: "harmonic" as const })),
+  ];
+  const events: TidePrediction[] = [
+    ...series.events,
+    ...harmonic.events
+      .filter((event) => outsideNoaa(event.time, 2 * HOUR_MS))
+      .map((event) => ({ ...event, source: "harmonic" as const })),
+  ];
+  curve.sort((a, b) => a.time.getTime() - b.time.getTime());
+  events.sort((a, b) => a.time.getTime() - b.time.getTime());
+  return { stationId: series.stationId, curve, events };
+}
+
+/**
+ * Load the tide series for a station covering [start, end] from the tide_predictions cache.
+ * If the cache doesn't cover the range, the uncovered part comes from the harmonic predictor
+ * for seeded stations; otherwise whatever is available is returned (possibly an empty series).
+ */
+export async function loadTideSeries(stationId: string, start: Date, end: Date): Promise<TideSeries> {
+  const cached = seriesCache.get(stationId);
+  if (
+    cached &&
+    Date.now() - cached.ts < SERIES_CACHE_TTL &&
+    cached.start <= start.getTime() &&
+    cached.end >= end.getTime()
+  ) {
+    return cached.series;
+  }
 
-    const data = response.data.predictions.map((p: { t: string; v: string; type: string }) => ({
-      time: new Date(p.t + "Z"),
-      heightFt: parseFloat(p.v),
-      type: p.type as "H" | "L",
-    }));
+  // Pad so the hi/lo events surrounding the range are included
+  const paddedStart = new Date(start.getTime() - 12 * HOUR_MS);
+  const paddedEnd = new Date(end.getTime() + 12 * HOUR_MS);
 
-    tideCache.set(stationId, { data, ts: Date.now() });
-    return data;
+  let series: TideSeries = { stationId, curve: [], events: [] };
+  try {
+    series = rowsToSeries(stationId, await getTidePredictions(stationId, paddedStart, paddedEnd));
   } catch (error) {
-    console.error(`[Tides] Failed to fetch station ${stationId}:`, error);
-    return cached?.data ?? [];
+    console.warn(`[Tides] Failed to read cached predictions for ${stationId}:`, error);
+  }
+
+  if (!coversRange(series, start, end) && hasHarmonicConstituents(stationId)) {
+    console.warn(`[Tides] Cached NOAA predictions don't cover ${start.toISOString()} → ${end.toISOString()} for ${stationId}, using harmonic constituents`);
+    series = fillWithHarmonics(series, paddedStart, paddedEnd);
   }
+
+  seriesCache.set(stationId, { series, start: start.getTime(), end: end.getTime(), ts: Date.now() });
+  return series;
 }
 
 /**
- * Gets current tide information for a station.
+ * Index of the last element with time <= t (-1 if none). `items` must be sorted.
  */
-export async function getCurrentTideInfo(stationId: string): Promise<CurrentTideInfo | null> {
-  const predictions = await fetchTidePredictions(stationId);
-  if (predictions.length < 2) return null;
+function findPrevIndex<T extends { time: Date }>(items: T[], t: number): number {
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (items[mid].time.getTime() <= t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo - 1;
+}
 
-  const now = new Date();
+/**
+ * Tide height and phase at a time from a loaded series.
+ * Uses the 6-minute curve when it brackets the time, otherwise cosine interpolation
+ * between the surrounding hi/lo events (the tide curve is close to a half cosine between them).
+ *
+ * @returns null if the series has no data around `time`
+ */
+export function getTideFromSeries(series: TideSeries, time: Date): TideAt | null {
+  const t = time.getTime();
 
-  // Find the next tide event
-  const nextTide = predictions.find((p) => p.time > now) || null;
+  // Surrounding hi/lo events (for phase, next tide, and the cosine fallback)
+  const eventIndex = findPrevIndex(series.events, t);
+  const prevEvent = eventIndex >= 0 ? series.events[eventIndex] : null;
+  const nextEvent = series.events[eventIndex + 1] ?? null;
 
-  // Determine tide phase
-  let tidePhase: CurrentTideInfo["tidePhase"] = "rising";
-  if (nextTide) {
-    if (nextTide.type === "H") {
-      tidePhase = "rising";
-    } else {
-      tidePhase = "falling";
+  let heightFt: number | null = null;
+  let method: TideAt["method"] = "curve";
+  let source: TideSource = "noaa";
+  let slope = 0;
+
+  const curveIndex = findPrevIndex(series.curve, t);
+  const before = curveIndex >= 0 ? series.curve[curveIndex] : null;
+  const after = series.curve[curveIndex + 1] ?? null;
+  if (before && before.time.getTime() === t) {
+    heightFt = before.heightFt;
+    source = before.source;
+    const neighbor = after ?? series.curve[curveIndex - 1];
+    if (neighbor) {
+      slope = after ? after.heightFt - before.heightFt : before.heightFt - neighbor.heightFt;
     }
+  } else if (before && after && after.time.getTime() - before.time.getTime() <= MAX_CURVE_GAP_MS) {
+    const progress = (t - before.time.getTime()) / (after.time.getTime() - before.time.getTime());
+    heightFt = before.heightFt + (after.heightFt - before.heightFt) * progress;
+    slope = after.heightFt - before.heightFt;
+    source = before.source === "harmonic" || after.source === "harmonic" ? "harmonic" : "noaa";
+  } else if (prevEvent && nextEvent) {
+    const progress = (t - prevEvent.time.getTime()) / (nextEvent.time.getTime() - prevEvent.time.getTime());
+    heightFt = prevEvent.heightFt + (nextEvent.heightFt - prevEvent.heightFt) * (1 - Math.cos(Math.PI * progress)) / 2;
+    method = "cosine";
+    source = prevEvent.source === "harmonic" || nextEvent.source === "harmonic" ? "harmonic" : "noaa";
+  }
+
+  if (heightFt === null) return null;
+
+  // Phase: heading to a high = rising, to a low = falling; near an event = slack high/low
+  let phase: TideAt["phase"];
+  if (nextEvent) {
+    phase = nextEvent.type === "H" ? "rising" : "falling";
+  } else if (prevEvent) {
+    phase = prevEvent.type === "H" ? "falling" : "rising";
+  } else {
+    phase = slope >= 0 ? "rising" : "falling";
   }
 
-  // Estimate current height (simple linear interpolation)
-  let currentHeightFt = 0;
-  const prevTide = predictions.find((p) => p.time <= now);
-  if (prevTide && nextTide) {
-    const totalTime = nextTide.time.getTime() - prevTide.time.getTime();
-    const elapsedTime = now.getTime() - prevTide.time.getTime();
-    const progress = elapsedTime / totalTime;
-    currentHeightFt = prevTide.heightFt + (nextTide.heightFt - prevTide.heightFt) * progress;
-  } else if (nextTide) {
-    currentHeightFt = nextTide.heightFt;
+  const timeFromPrev = prevEvent ? t - prevEvent.time.getTime() : Infinity;
+  const timeToNext = nextEvent ? nextEvent.time.getTime() - t : Infinity;
+  if (Math.min(timeFromPrev, timeToNext) < SLACK_WINDOW_MS) {
+    const nearest = timeFromPrev < timeToNext ? prevEvent! : nextEvent!;
+    phase = nearest.type === "H" ? "high" : "low";
   }
 
   return {
-    currentHeightFt: Math.round(currentHeightFt * 10) / 10,
-    nextTide,
-    tidePhase,
+    heightFt: Math.round(heightFt * 100) / 100,
+    phase,
+    nextTide: nextEvent,
+    method,
+    source,
   };
 }
 
-function formatDate(date: Date): string {
-  const year = date.getUTCFullYear();
-  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
-  const day = String(date.getUTCDate()).padStart(2, "0");
-  return `${year}${month}${day}`;
+/**
+ * Tide height and phase for a station at any time within the cached horizon
+ */
+export async function getTideAt(stationId: string, time: Date): Promise<TideAt | null> {
+  const series = await loadTideSeries(
+    stationId,
+    new Date(time.getTime() - HOUR_MS),
+    new Date(time.getTime() + HOUR_MS)
+  );
+  return getTideFromSeries(series, time);
+}
+
+/**
+ * Fetches hi/lo tide predictions for a station for the next 24 hours.
+ */
+export async function fetchTidePredictions(stationId: string): Promise<TidePrediction[]> {
+  const now = new Date();
+  const end = new Date(now.getTime() + 24 * HOUR_MS);
+  const series = await loadTideSeries(stationId, now, end);
+  return series.events.filter((e) => e.time >= now && e.time <= end);
+}
+
+/**
+ * Gets current tide information for a station.
+ */
+export async function getCurrentTideInfo(stationId: string): Promise<CurrentTideInfo | null> {
+  const tide = await getTideAt(stationId, new Date());
+  if (!tide) return null;
+
+  return {
+    currentHeightFt: Math.round(tide.heightFt * 10) / 10,
+    nextTide: tide.nextTide,
+    tidePhase: tide.phase,
+    source: tide.source,
+  };
 }
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import type { ForecastRunSummary } from "../../../db";
+import { selectRunsToCompact, type ForecastArchivePolicy } from "./compactForecastArchive";
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date("2026-06-20T12:00:00Z");
+
+const policy: ForecastArchivePolicy = {
+  compactions: [
+    { olderThanDays: 1, keepOnePerHours: 6 },
+    { olderThanDays: 7, keepOnePerHours: 24 },
+  ],
+  retentionDays: 30,
+};
+
+function run(iso: string, source: ForecastRunSummary["source"] = "ww3"): ForecastRunSummary {
+  return { spotId: 1, source, modelRunTime: new Date(iso), points: 168 };
+}
+
+describe("selectRunsToCompact", () => {
+  it("keeps recent runs and the latest run per 6-hour cycle, then per day", () => {
+    const runs = [
+      // Last day: all kept
+      run("2026-06-20T08:00:00Z"),
+      run("2026-06-20T08:30:00Z"),
+      // 3 days old: one per 6-hour cycle
+      run("2026-06-17T00:00:00Z"),
+      run("2026-06-17T05:30:00Z"),
+      run("2026-06-17T06:00:00Z"),
+      // 10 days old: one per UTC day
+      run("2026-06-10T00:00:00Z"),
+      run("2026-06-10T06:00:00Z"),
+      run("2026-06-10T18:00:00Z"),
+      // Other sources are compacted separately
+      run("2026-06-10T03:00:00Z", "openmeteo"),
+    ];
+
+    const removed = selectRunsToCompact(runs, now, policy).map((r) => `${r.source} ${r.modelRunTime.toISOString()}`);
+    expect(removed.sort()).toEqual([
+      "ww3 2026-06-10T00:00:00.000Z",
+      "ww3 2026-06-10T06:00:00.000Z",
+      "ww3 2026-06-17T00:00:00.000Z",
+    ]);
+  });
+
+  it("leaves runs past retention to the retention delete", () => {
+    const expired = new Date(now.getTime() - 31 * 24 * HOUR_MS).toISOString();
+    expect(selectRunsToCompact([run(expired), run(expired.replace("T12", "T13"))], now, policy)).toEqual([]);
+  });
+});
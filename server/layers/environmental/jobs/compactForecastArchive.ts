@@ -0,0 +1,123 @@
+/**
+ * Forecast Archive Compaction Job
+ *
+ * forecast_points keeps every model run so we can see how a forecast evolved ("what did we
+ * forecast for Saturday three days ago"). Refreshes add a run as often as every 30 minutes,
+ * so older runs are thinned out:
+ *
+ * - Runs from the last day are all kept
+ * - Older than a day: the latest run per spot / source in each 6-hour model cycle (00z, 06z, 12z, 18z)
+ * - Older than a week: the latest run per spot / source per UTC day
+ * - Older than FORECAST_ARCHIVE_RETENTION_DAYS (default 90): deleted
+ */
+
+import {
+  getAllSpots,
+  getForecastRuns,
+  deleteForecastPointsBySpotAndModelRun,
+  deleteForecastPointsBySpotOlderThan,
+  type ForecastRunSummary,
+} from "../../../db";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface ForecastArchivePolicy {
+  // Coarsest matching tier wins: runs older than olderThanDays keep one run per keepOnePerHours
+  compactions: Array<{ olderThanDays: number; keepOnePerHours: number }>;
+  retentionDays: number;
+}
+
+export const FORECAST_ARCHIVE_POLICY: ForecastArchivePolicy = {
+  compactions: [
+    { olderThanDays: 1, keepOnePerHours: 6 },
+    { olderThanDays: 7, keepOnePerHours: 24 },
+  ],
+  retentionDays: Number(process.env.FORECAST_ARCHIVE_RETENTION_DAYS) || 90,
+};
+
+export interface ForecastArchiveCompactionResult {
+  expiredPoints: number;
+  compactedRuns: number;
+  compactedPoints: number;
+}
+
+/**
+ * Runs that compaction removes: all but the latest run in each spot / source / tier bucket.
+ * Runs past retention are left to deleteForecastPointsBySpotOlderThan.
+ */
+export function selectRunsToCompact(
+  runs: ForecastRunSummary[],
+  now: Date,
+  policy: ForecastArchivePolicy = FORECAST_ARCHIVE_POLICY
+): ForecastRunSummary[] {
+  const tiers = [...policy.compactions].sort((a, b) => b.olderThanDays - a.olderThanDays);
+  const latestByBucket = new Map<string, ForecastRunSummary>();
+  const bucketed: Array<{ run: ForecastRunSummary; bucket: string }> = [];
+
+  for (const run of runs) {
+    const ageMs = now.getTime() - run.modelRunTime.getTime();
+    if (ageMs >= policy.retentionDays * DAY_MS) continue;
+
+    const tier = tiers.find((t) => ageMs >= t.olderThanDays * DAY_MS);
+    if (!tier) continue;
+
+    const slot = Math.floor(run.modelRunTime.getTime() / (tier.keepOnePerHours * HOUR_MS));
+    const bucket = `${run.spotId}:${run.source}:${tier.keepOnePerHours}:${slot}`;
+    bucketed.push({ run, bucket });
+
+    const latest = latestByBucket.get(bucket);
+    if (!latest || run.modelRunTime > latest.modelRunTime) latestByBucket.set(bucket, run);
+  }
+
+  return bucketed.filter(({ run, bucket }) => latestByBucket.get(bucket) !== run).map(({ run }) => run);
+}
+
+/**
+ * Expire and compact one spot's archived runs
+ */
+export async function compactSpotForecastArchive(
+  spotId: number,
+  now: Date = new Date(),
+  policy: ForecastArchivePolicy = FORECAST_ARCHIVE_POLICY
+): Promise<ForecastArchiveCompactionResult> {
+  const expiredPoints = await deleteForecastPointsBySpotOlderThan(spotId, new Date(now.getTime() - policy.retentionDays * DAY_MS));
+
+  const youngestTierDays = Math.min(...policy.compactions.map((t) => t.olderThanDays));
+  const runs = await getForecastRuns(spotId, new Date(now.getTime() - youngestTierDays * DAY_MS));
+
+  let compactedPoints = 0;
+  const toCompact = selectRunsToCompact(runs, now, policy);
+  for (const run of toCompact) {
+    compactedPoints += await deleteForecastPointsBySpotAndModelRun(spotId, run.modelRunTime, run.source);
+  }
+
+  return { expiredPoints, compactedRuns: toCompact.length, compactedPoints };
+}
+
+/**
+ * Main job function - compacts every spot's archive.
+ * A failing spot is counted and skipped.
+ */
+export async function compactForecastArchive(): Promise<{ processed: number; failed: number }> {
+  const spots = await getAllSpots();
+  const now = new Date();
+
+  let processed = 0;
+  let failed = 0;
+  for (const spot of spots) {
+    try {
+      const result = await compactSpotForecastArchive(spot.id, now);
+      processed++;
+      console.log(
+        `[Forecast Archive] ✓ ${spot.name}: ${result.compactedRuns} run(s) compacted (${result.compactedPoints} points), ${result.expiredPoints} expired points deleted`
+      );
+    } catch (error) {
+      failed++;
+      console.error(`[Forecast Archive] ✗ ${spot.name}:`, error);
+    }
+  }
+
+  console.log(`[Forecast Archive] Complete: ${processed} spot(s) compacted, ${failed} failed`);
+  return { processed, failed };
+}
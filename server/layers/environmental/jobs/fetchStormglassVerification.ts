@@ -5,11 +5,16 @@
  * Runs twice daily (7 AM + 7 PM ET) to stay within free tier quota (10 requests/day).
  *
  * With 4 spots × 2 syncs = 8 requests per day, leaving 2 spare for manual fetches.
+ *
+ * The same response is also stored as a full "stormglass" run in forecast_points (the
+ * Stormglass forecast source), so it costs no extra requests.
  */
 
 import { getAllSpots, insertStormglassVerificationBatch, getLatestStormglassFetchTime } from "../../../db";
 import { fetchStormglassForSpot, type StormglassForecastPoint } from "../clients/stormglass";
-import type { InsertStormglassVerification } from "../../../../drizzle/schema";
+import { stormglassPointToForecastPoint } from "../../../services/forecastSources";
+import { storeForecastRun } from "../../../services/timelineCache";
+import type { InsertStormglassVerification, SurfSpot } from "../../../../drizzle/schema";
 
 /**
  * Minimum hours between fetches for a single spot.
@@ -30,10 +35,38 @@ const HOURS_AHEAD = 168;
  */
 const EXCLUDED_SPOT_NAMES = ["Belmar", "Gilgo Beach"];
 
+/**
+ * Store one Stormglass response as verification rows and as a "stormglass" forecast run
+ * @returns Verification rows stored
+ */
+export async function storeStormglassForecast(
+  spot: SurfSpot,
+  forecastPoints: StormglassForecastPoint[],
+  fetchedAt: Date = new Date()
+): Promise<number> {
+  const dbRecords: InsertStormglassVerification[] = forecastPoints.map((point) => ({
+    spotId: spot.id,
+    forecastTimestamp: point.forecastTimestamp,
+    waveHeightFt: point.waveHeightFt !== null ? point.waveHeightFt.toFixed(1) : null,
+    swellHeightFt: point.swellHeightFt !== null ? point.swellHeightFt.toFixed(1) : null,
+    swellPeriodS: point.swellPeriodS !== null ? Math.round(point.swellPeriodS) : null,
+    swellDirectionDeg: point.swellDirectionDeg !== null ? Math.round(point.swellDirectionDeg) : null,
+    source: point.source,
+  }));
+
+  await insertStormglassVerificationBatch(dbRecords);
+  await storeForecastRun(
+    spot,
+    "stormglass",
+    forecastPoints.map((point) => stormglassPointToForecastPoint(point, fetchedAt))
+  );
+  return dbRecords.length;
+}
+
 /**
  * Main job function - fetches Stormglass ECMWF data for active spots only.
  */
-export async function fetchStormglassVerification(): Promise<void> {
+export async function fetchStormglassVerification(): Promise<{ processed: number; failed: number }> {
   console.log("[Stormglass Verification] Starting daily fetch job...");
 
   const allSpots = await getAllSpots();
@@ -68,21 +101,10 @@ export async function fetchStormglassVerification(): Promise<void> {
         continue;
       }
 
-      // Convert to database format
-      const dbRecords: InsertStormglassVerification[] = forecastPoints.map((point) => ({
-        spotId: spot.id,
-        forecastTimestamp: point.forecastTimestamp,
-        waveHeightFt: point.waveHeightFt !== null ? point.waveHeightFt.toFixed(1) : null,
-        swellHeightFt: point.swellHeightFt !== null ? point.swellHeightFt.toFixed(1) : null,
-        swellPeriodS: point.swellPeriodS !== null ? Math.round(point.swellPeriodS) : null,
-        swellDirectionDeg: point.swellDirectionDeg !== null ? Math.round(point.swellDirectionDeg) : null,
-        source: point.source,
-      }));
-
-      // Insert into database
-      await insertStormglassVerificationBatch(dbRecords);
-
-      console.log(`[Stormglass Verification] Stored ${dbRecords.length} points for ${spot.name}`);
+      // Verification rows + full forecast run
+      const stored = await storeStormglassForecast(spot, forecastPoints, now);
+
+      console.log(`[Stormglass Verification] Stored ${stored} points for ${spot.name}`);
       fetchedCount++;
 
       // Small delay between spots to be nice to the API
@@ -101,4 +123,5 @@ export async function fetchStormglassVerification(): Promise<void> {
   }
 
   console.log(`[Stormglass Verification] Job completed: ${fetchedCount} fetched, ${skippedCount} skipped, ${errorCount} errors`);
+  return { processed: fetchedCount, failed: errorCount };
 }
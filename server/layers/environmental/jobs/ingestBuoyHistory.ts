@@ -0,0 +1,77 @@
+/**
+ * Buoy History Ingestion Job
+ *
+ * Pulls the full NDBC realtime2 .txt and .spec files (last 45 days) for every buoy
+ * referenced by surf_spots.buoyId and upserts them into buoy_readings.
+ * The first run backfills the whole window; after that only readings newer than the latest
+ * stored one are written, less LATE_ROW_OVERLAP_MS so rows whose .spec / spectral line posted
+ * after the .txt line get their wave fields filled in.
+ *
+ * Each reading also gets the swell trains partitioned from its raw spectrum
+ * (.data_spec / .swdir / .swr1 / .swr2). Spectral files are best-effort: a buoy without them
+ * still ingests, and previously stored trains are kept.
+ */
+
+import { getAllSpots, getLatestBuoyReading, upsertBuoyReadings } from "../../../db";
+import { fetchBuoyHistory, NDBC_REALTIME_HISTORY_DAYS } from "../clients/ndbc";
+import { fetchBuoySwellTrains, type BuoySwellTrain } from "../clients/ndbcSpectral";
+
+const LATE_ROW_OVERLAP_MS = 2 * 60 * 60 * 1000; // NDBC posts .spec and spectral rows up to ~an hour after .txt
+
+/**
+ * Main job function - ingests history for each distinct buoy.
+ * A failing buoy is counted and skipped; the job only throws if every buoy fails.
+ */
+export async function ingestBuoyHistory(): Promise<{ processed: number; failed: number }> {
+  const spots = await getAllSpots();
+  const buoyIds = Array.from(new Set(spots.map((spot) => spot.buoyId).filter(Boolean)));
+  console.log(`[Buoy History] Ingesting ${NDBC_REALTIME_HISTORY_DAYS} days for ${buoyIds.length} buoy(s): ${buoyIds.join(", ")}`);
+
+  let processed = 0;
+  let failed = 0;
+  let lastError: unknown = null;
+
+  for (const buoyId of buoyIds) {
+    try {
+      const fetched = await fetchBuoyHistory(buoyId, NDBC_REALTIME_HISTORY_DAYS);
+      if (fetched.length === 0) {
+        console.warn(`[Buoy History] No readings parsed for buoy ${buoyId}`);
+        continue;
+      }
+
+      const latest = await getLatestBuoyReading(buoyId);
+      const since = latest ? latest.timestamp.getTime() - LATE_ROW_OVERLAP_MS : -Infinity;
+      const readings = fetched.filter((reading) => reading.timestamp.getTime() > since);
+      if (readings.length === 0) {
+        processed++;
+        console.log(`[Buoy History] ✓ ${buoyId}: up to date (latest ${latest!.timestamp.toISOString()})`);
+        continue;
+      }
+
+      const swellTrains = await fetchBuoySwellTrains(buoyId, NDBC_REALTIME_HISTORY_DAYS).catch((error) => {
+        console.warn(`[Buoy History] ${buoyId}: no swell trains (${error instanceof Error ? error.message : error})`);
+        return new Map<number, BuoySwellTrain[]>();
+      });
+
+      const written = await upsertBuoyReadings(
+        readings.map((reading) => {
+          const trains = swellTrains.get(reading.timestamp.getTime());
+          return { ...reading, swellTrains: trains ? JSON.stringify(trains) : null };
+        })
+      );
+      processed++;
+      console.log(`[Buoy History] ✓ ${buoyId}: ${written} readings, ${swellTrains.size} spectra (${readings[0].timestamp.toISOString()} → ${readings[readings.length - 1].timestamp.toISOString()})`);
+    } catch (error) {
+      failed++;
+      lastError = error;
+      console.error(`[Buoy History] ✗ ${buoyId}:`, error);
+    }
+  }
+
+  if (buoyIds.length > 0 && failed === buoyIds.length) {
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+  }
+
+  console.log(`[Buoy History] Complete: ${processed} buoy(s) ingested, ${failed} failed`);
+  return { processed, failed };
+}
@@ -0,0 +1,47 @@
+/**
+ * Comparison Forecast Sources Job
+ *
+ * Fetches runs for the forecast sources owned by the forecast-sources job (Open-Meteo's
+ * ECMWF WAM and GFS-Wave models, see services/forecastSources.ts) so their timelines can be
+ * scored alongside the primary one. A spot / source is skipped while its latest stored run is
+ * younger than the adapter's minHoursBetweenRuns.
+ */
+
+import { getAllSpots, isForecastDataStale } from "../../../db";
+import { listForecastSourceAdapters } from "../../../services/forecastSources";
+import { refreshForecastPoints } from "../../../services/timelineCache";
+
+/**
+ * Main job function - one run per due spot / source.
+ * A failing spot / source is counted and skipped.
+ */
+export async function refreshForecastSources(): Promise<{ processed: number; failed: number }> {
+  const adapters = listForecastSourceAdapters().filter(
+    (adapter) => adapter.refreshJob === "forecast-sources" && adapter.isConfigured()
+  );
+  const spots = await getAllSpots();
+
+  let processed = 0;
+  let skipped = 0;
+  let failed = 0;
+  for (const spot of spots) {
+    for (const adapter of adapters) {
+      if (!(await isForecastDataStale(spot.id, adapter.minHoursBetweenRuns, adapter.source))) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const points = await refreshForecastPoints(spot, adapter.source);
+        processed++;
+        console.log(`[Forecast Sources] ✓ ${spot.name} / ${adapter.label}: ${points} points`);
+      } catch (error) {
+        failed++;
+        console.error(`[Forecast Sources] ✗ ${spot.name} / ${adapter.label}:`, error);
+      }
+    }
+  }
+
+  console.log(`[Forecast Sources] Complete: ${processed} run(s) stored, ${skipped} skipped, ${failed} failed`);
+  return { processed, failed };
+}
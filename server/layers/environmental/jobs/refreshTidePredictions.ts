@@ -0,0 +1,48 @@
+/**
+ * Tide Prediction Refresh Job
+ *
+ * Fetches the NOAA 6-minute prediction curve and hi/lo events for the next 8 days for
+ * every station referenced by surf_spots.tideStationId and caches them in tide_predictions.
+ * Rows are keyed by (stationId, resolution, time), so each run overwrites the overlapping
+ * window; predictions more than CACHE_RETENTION_DAYS old are deleted.
+ */
+
+import { getAllSpots, deleteTidePredictionsBefore } from "../../../db";
+import { refreshTidePredictions as fetchAndCacheStation, TIDE_HORIZON_DAYS } from "../clients/tides";
+
+const CACHE_RETENTION_DAYS = 2;
+
+/**
+ * Main job function - refreshes each distinct tide station.
+ * A failing station is counted and skipped; the job only throws if every station fails.
+ */
+export async function refreshTidePredictions(): Promise<{ processed: number; failed: number }> {
+  const spots = await getAllSpots();
+  const stationIds = Array.from(new Set(spots.map((spot) => spot.tideStationId).filter(Boolean)));
+  console.log(`[Tide Predictions] Refreshing ${TIDE_HORIZON_DAYS} days for ${stationIds.length} station(s): ${stationIds.join(", ")}`);
+
+  let processed = 0;
+  let failed = 0;
+  let lastError: unknown = null;
+
+  for (const stationId of stationIds) {
+    try {
+      const series = await fetchAndCacheStation(stationId, TIDE_HORIZON_DAYS);
+      processed++;
+      console.log(`[Tide Predictions] ✓ ${stationId}: ${series.curve.length} curve points, ${series.events.length} hi/lo events`);
+    } catch (error) {
+      failed++;
+      lastError = error;
+      console.error(`[Tide Predictions] ✗ ${stationId}:`, error);
+    }
+  }
+
+  if (stationIds.length > 0 && failed === stationIds.length) {
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+  }
+
+  await deleteTidePredictionsBefore(new Date(Date.now() - CACHE_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+
+  console.log(`[Tide Predictions] Complete: ${processed} station(s) refreshed, ${failed} failed`);
+  return { processed, failed };
+}
@@ -0,0 +1,205 @@
+/**
+ * Forecast Verification Job
+ *
+ * Scores each forecast source's swell height against what the spot's buoy later measured.
+ *
+ * Both sides are the swell partition, not total sea state: forecast_points.waveHeightFt is the
+ * primary swell height (Open-Meteo swell_wave_height, Stormglass swellHeight), so it is compared
+ * with the buoy's spectral swell height (buoy_readings.swellHeightCm, NDBC SwH) rather than WVHT,
+ * which also includes wind sea and would bias every model low.
+ *
+ * Old runs are compacted out of forecast_points, so each source's latest run is snapshotted into
+ * forecast_verifications (at most one run per spot + source every 6 hours) while it still exists.
+ * Once a snapshot's valid hour has passed, it is matched to the nearest buoy reading with SwH and
+ * its error recorded. getForecastVerificationStats() rolls the errors up into bias / MAE / RMSE per
+ * lead-time bucket, which also weight the multi-model ensemble (services/ensemble.ts).
+ */
+
+import {
+  getAllSpots,
+  getForecastTimeline,
+  getBuoyReadingHistory,
+  getLatestForecastVerificationRunTime,
+  insertForecastVerifications,
+  getPendingForecastVerifications,
+  recordForecastVerification,
+  deleteStaleForecastVerifications,
+} from "../../../db";
+import { TIMELINE_FORECAST_SOURCES } from "../../../services/forecastSources";
+import type { BuoyReading, InsertForecastVerification, SurfSpot } from "../../../../drizzle/schema";
+
+/**
+ * Minimum hours between snapshotted runs for one spot + model.
+ * Open-Meteo points are refreshed on demand every 30 minutes; 6h keeps ~4 runs/day.
+ */
+const SNAPSHOT_INTERVAL_HOURS = 6;
+
+/**
+ * Longest lead time we score (7 days)
+ */
+const MAX_LEAD_HOURS = 168;
+
+/**
+ * Buoy reading must be within this many minutes of the forecast hour to count
+ */
+const MATCH_WINDOW_MINUTES = 60;
+
+/**
+ * Snapshots still unverified after this many days are dropped (buoy was down)
+ */
+const VERIFY_GIVE_UP_DAYS = 7;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function shouldSnapshot(lastSnapshot: Date | null, runTime: Date): boolean {
+  if (!lastSnapshot) return true;
+  return runTime.getTime() - lastSnapshot.getTime() >= SNAPSHOT_INTERVAL_HOURS * HOUR_MS;
+}
+
+/**
+ * Snapshot the latest forecast_points run of each source (Stormglass included, as "stormglass")
+ *
+ * @returns Number of forecast hours snapshotted
+ */
+async function snapshotSpot(spot: SurfSpot): Promise<number> {
+  const rows: InsertForecastVerification[] = [];
+
+  // forecast_points: the latest run of each source
+  const points = (
+    await Promise.all(TIMELINE_FORECAST_SOURCES.map((source) => getForecastTimeline(spot.id, MAX_LEAD_HOURS, source)))
+  ).flat();
+  const latestRunBySource = new Map<string, number>();
+  for (const point of points) {
+    const runTime = point.modelRunTime.getTime();
+    if (runTime > (latestRunBySource.get(point.source) ?? 0)) {
+      latestRunBySource.set(point.source, runTime);
+    }
+  }
+
+  for (const [source, runTimeMs] of Array.from(latestRunBySource.entries())) {
+    const runTime = new Date(runTimeMs);
+    if (!shouldSnapshot(await getLatestForecastVerificationRunTime(spot.id, source), runTime)) continue;
+
+    for (const point of points) {
+      if (point.source !== source || point.modelRunTime.getTime() !== runTimeMs) continue;
+      if (point.waveHeightFt === null || point.hoursOut < 0 || point.hoursOut > MAX_LEAD_HOURS) continue;
+      rows.push({
+        spotId: spot.id,
+        model: source,
+        modelRunTime: runTime,
+        forecastTimestamp: point.forecastTimestamp,
+        leadHours: point.hoursOut,
+        forecastWaveHeightFt: (point.waveHeightFt / 10).toFixed(1), // stored as tenths
+        buoyId: spot.buoyId,
+      });
+    }
+  }
+
+  await insertForecastVerifications(rows);
+  return rows.length;
+}
+
+/**
+ * Nearest buoy reading with a swell height (SwH), within MATCH_WINDOW_MINUTES of `time`.
+ * `readings` must be sorted oldest first.
+ */
+function findNearestReading(readings: BuoyReading[], time: Date): BuoyReading | null {
+  const target = time.getTime();
+  let lo = 0;
+  let hi = readings.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (readings[mid].timestamp.getTime() < target) lo = mid + 1;
+    else hi = mid;
+  }
+
+  let best: BuoyReading | null = null;
+  let bestDiff = MATCH_WINDOW_MINUTES * 60 * 1000;
+  // Walk outwards from the insertion point, skipping rows without a .spec swell height
+  for (let i = lo - 1; i >= 0; i--) {
+    const diff = target - readings[i].timestamp.getTime();
+    if (diff > bestDiff) break;
+    if (readings[i].swellHeightCm !== null) {
+      best = readings[i];
+      bestDiff = diff;
+      break;
+    }
+  }
+  for (let i = lo; i < readings.length; i++) {
+    const diff = readings[i].timestamp.getTime() - target;
+    if (diff >= bestDiff) break;
+    if (readings[i].swellHeightCm !== null) {
+      best = readings[i];
+      break;
+    }
+  }
+  return best;
+}
+
+/**
+ * Match pending snapshots whose hour has passed against buoy_readings
+ *
+ * @returns Number of forecast hours verified
+ */
+async function verifySpot(spot: SurfSpot, now: Date): Promise<number> {
+  const since = new Date(now.getTime() - VERIFY_GIVE_UP_DAYS * 24 * HOUR_MS);
+  const pending = await getPendingForecastVerifications(spot.id, since, now);
+  if (pending.length === 0) return 0;
+
+  const readings = await getBuoyReadingHistory(
+    spot.buoyId,
+    new Date(pending[0].forecastTimestamp.getTime() - MATCH_WINDOW_MINUTES * 60 * 1000),
+    now
+  );
+
+  let verified = 0;
+  for (const snapshot of pending) {
+    const reading = findNearestReading(readings, snapshot.forecastTimestamp);
+    if (!reading || reading.swellHeightCm === null) continue;
+
+    const observedFt = reading.swellHeightCm / 30.48;
+    const forecastFt = parseFloat(snapshot.forecastWaveHeightFt);
+    await recordForecastVerification(snapshot.id, {
+      observedWaveHeightFt: observedFt,
+      observedAt: reading.timestamp,
+      errorFt: forecastFt - observedFt,
+    });
+    verified++;
+  }
+  return verified;
+}
+
+/**
+ * Main job function - snapshots new runs and verifies elapsed hours for every spot
+ */
+export async function verifyForecasts(): Promise<{ processed: number; failed: number }> {
+  console.log("[Forecast Verification] Starting...");
+  const spots = await getAllSpots();
+  const now = new Date();
+
+  let processed = 0;
+  let failed = 0;
+  let lastError: unknown = null;
+
+  for (const spot of spots) {
+    try {
+      const snapshotted = await snapshotSpot(spot);
+      const verified = await verifySpot(spot, now);
+      processed++;
+      console.log(`[Forecast Verification] ${spot.name}: ${snapshotted} hours snapshotted, ${verified} verified`);
+    } catch (error) {
+      failed++;
+      lastError = error;
+      console.error(`[Forecast Verification] ✗ ${spot.name}:`, error);
+    }
+  }
+
+  if (spots.length > 0 && failed === spots.length) {
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+  }
+
+  await deleteStaleForecastVerifications(new Date(now.getTime() - VERIFY_GIVE_UP_DAYS * 24 * HOUR_MS));
+
+  console.log(`[Forecast Verification] Complete: ${processed} spots, ${failed} failed`);
+  return { processed, failed };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { ForecastTimelineResult } from "../../services/forecast";
+import {
+  alertColumnsToRule,
+  alertRuleSchema,
+  evaluateAlertRule,
+  explainAlertRule,
+  getAlertRule,
+  getAlertRuleContext,
+  type AlertRule,
+} from "./alertRules";
+
+function point(overrides: Partial<ForecastTimelineResult> = {}): ForecastTimelineResult {
+  return {
+    forecastTimestamp: new Date("2026-06-03T11:00:00Z"), // Wed 7am in New York
+    probabilityScore: 0,
+    quality_score: 70,
+    breakingWaveHeightFt: 4,
+    dominantSwellHeightFt: 5,
+    dominantSwellPeriodS: 12,
+    dominantSwellDirectionDeg: 140,
+    waveHeightFt: 4,
+    wavePeriodSec: 12,
+    waveDirectionDeg: 140,
+    windSpeedMph: 6,
+    windGustsMph: 10,
+    windDirectionDeg: 320,
+    windType: "cross",
+    tideHeightFt: 25, // Tenths
+    tidePhase: "rising",
+    ...overrides,
+  } as ForecastTimelineResult;
+}
+
+// Montauk, SE swell 120-160°, period >= 11s, wind offshore or < 8 mph, rising tide, weekday before 9am
+const montaukRule: AlertRule = {
+  all: [
+    { field: "swellDirectionDeg", from: 120, to: 160 },
+    { field: "periodSec", min: 11 },
+    { any: [{ field: "windType", in: ["offshore"] }, { field: "windSpeedMph", max: 7.9 }] },
+    { field: "tidePhase", in: ["rising"] },
+    { field: "dayOfWeek", in: [1, 2, 3, 4, 5] },
+    { field: "localHour", max: 8 },
+  ],
+};
+
+describe("evaluateAlertRule", () => {
+  it("matches a compound rule clause by clause", () => {
+    expect(evaluateAlertRule(montaukRule, getAlertRuleContext(point()))).toBe(true);
+    expect(evaluateAlertRule(montaukRule, getAlertRuleContext(point({ windSpeedMph: 15 })))).toBe(false);
+    expect(evaluateAlertRule(montaukRule, getAlertRuleContext(point({ windSpeedMph: 15, windType: "offshore" })))).toBe(true);
+    // Saturday, and 10am local
+    expect(evaluateAlertRule(montaukRule, getAlertRuleContext(point({ forecastTimestamp: new Date("2026-06-06T11:00:00Z") })))).toBe(false);
+    expect(evaluateAlertRule(montaukRule, getAlertRuleContext(point({ forecastTimestamp: new Date("2026-06-03T14:00:00Z") })))).toBe(false);
+  });
+
+  it("wraps direction ranges through north", () => {
+    const rule: AlertRule = { field: "windDirectionDeg", from: 300, to: 30 };
+    expect(evaluateAlertRule(rule, getAlertRuleContext(point({ windDirectionDeg: 350 })))).toBe(true);
+    expect(evaluateAlertRule(rule, getAlertRuleContext(point({ windDirectionDeg: 10 })))).toBe(true);
+    expect(evaluateAlertRule(rule, getAlertRuleContext(point({ windDirectionDeg: 90 })))).toBe(false);
+    expect(evaluateAlertRule(rule, getAlertRuleContext(point({ windDirectionDeg: null })))).toBe(false);
+  });
+
+  it("reads tide height in feet", () => {
+    expect(evaluateAlertRule({ field: "tideHeightFt", min: 2, max: 3 }, getAlertRuleContext(point()))).toBe(true);
+  });
+});
+
+describe("explainAlertRule", () => {
+  it("reports each top-level clause", () => {
+    const clauses = explainAlertRule(montaukRule, getAlertRuleContext(point({ windSpeedMph: 15, tidePhase: "falling" })));
+    expect(clauses.map((c) => [c.clause, c.matched])).toEqual([
+      ["Swell direction 120-160°", true],
+      ["Period ≥ 11s", true],
+      ["(Wind type offshore or Wind ≤ 7.9 mph)", false],
+      ["Tide rising", false],
+      ["Mon, Tue, Wed, Thu, Fri", true],
+      ["Hour ≤ 8:00", true],
+    ]);
+  });
+});
+
+describe("alert columns", () => {
+  const columns = { minWaveHeightFt: "3.0", minQualityScore: 60, minPeriodSec: 8, allowedDays: "0,6", idealWindOnly: 1 };
+
+  it("map onto a simple rule", () => {
+    expect(alertColumnsToRule(columns)).toEqual({
+      all: [
+        { field: "dayOfWeek", in: [0, 6] },
+        { field: "waveHeightFt", min: 3 },
+        { field: "qualityScore", min: 60 },
+        { field: "periodSec", min: 8 },
+        { field: "windType", in: ["offshore", "side-offshore"] },
+      ],
+    });
+    expect(alertColumnsToRule({ ...columns, minQualityScore: null, allowedDays: "0,1,2,3,4,5,6", idealWindOnly: 0 })).toEqual({
+      all: [
+        { field: "waveHeightFt", min: 3 },
+        { field: "periodSec", min: 8 },
+      ],
+    });
+  });
+
+  it("are used when the stored rule is missing or invalid", () => {
+    const stored = { field: "periodSec", min: 14 };
+    expect(getAlertRule({ id: 1, rule: JSON.stringify(stored), ...columns })).toEqual(stored);
+    expect(getAlertRule({ id: 1, rule: null, ...columns })).toEqual(alertColumnsToRule(columns));
+    expect(getAlertRule({ id: 1, rule: '{"field":"nope"}', ...columns })).toEqual(alertColumnsToRule(columns));
+  });
+});
+
+describe("alertRuleSchema", () => {
+  it("accepts valid rules and rejects malformed ones", () => {
+    expect(alertRuleSchema.safeParse(montaukRule).success).toBe(true);
+    expect(alertRuleSchema.safeParse({ field: "periodSec" }).success).toBe(false);
+    expect(alertRuleSchema.safeParse({ field: "dayOfWeek", in: [7] }).success).toBe(false);
+    expect(alertRuleSchema.safeParse({ all: [] }).success).toBe(false);
+    expect(alertRuleSchema.safeParse({ not: { not: { not: { not: { not: { field: "periodSec", min: 1 } } } } } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Alert Rules
+ *
+ * A swell alert's criteria as a JSON expression (swell_alerts.rule): conditions on one forecast
+ * hour, combined with all / any / not. For example "SE swell 120-160°, period >= 11s, wind
+ * offshore or under 8 mph, rising tide, weekday before 9am":
+ *
+ *   { "all": [
+ *     { "field": "swellDirectionDeg", "from": 120, "to": 160 },
+ *     { "field": "periodSec", "min": 11 },
+ *     { "any": [{ "field": "windType", "in": ["offshore"] }, { "field": "windSpeedMph", "max": 7.9 }] },
+ *     { "field": "tidePhase", "in": ["rising"] },
+ *     { "field": "dayOfWeek", "in": [1, 2, 3, 4, 5] },
+ *     { "field": "localHour", "max": 8 }
+ *   ] }
+ *
+ * Alerts without a rule use one built from their columns (minWaveHeightFt, minQualityScore,
+ * minPeriodSec, allowedDays, idealWindOnly), so existing alerts match exactly as before.
+ * Daylight is checked separately; a rule can't make a night hour match.
+ */
+
+import { z } from "zod";
+import type { SwellAlert } from "../../../drizzle/schema";
+import type { ForecastTimelineResult } from "../../services/forecast";
+import { getLocalTime } from "./digest";
+
+/** Day of week and hour are evaluated in the spots' local time */
+export const ALERT_RULE_TIMEZONE = "America/New_York";
+
+const MAX_RULE_DEPTH = 4;
+const MAX_RULE_CONDITIONS = 20;
+
+export const RANGE_FIELDS = [
+  "waveHeightFt", // Breaking wave height
+  "swellHeightFt", // Dominant swell height offshore
+  "periodSec",
+  "qualityScore",
+  "windSpeedMph",
+  "windGustsMph",
+  "tideHeightFt",
+  "localHour", // 0-23
+] as const;
+
+export const DIRECTION_FIELDS = ["swellDirectionDeg", "windDirectionDeg"] as const;
+
+const WIND_TYPES = ["offshore", "side-offshore", "cross", "onshore"] as const;
+const TIDE_PHASES = ["rising", "falling", "high", "low"] as const;
+
+export type RangeField = (typeof RANGE_FIELDS)[number];
+export type DirectionField = (typeof DIRECTION_FIELDS)[number];
+
+export type AlertCondition =
+  | { field: RangeField; min?: number; max?: number } // Inclusive
+  | { field: DirectionField; from: number; to: number } // Clockwise from `from` to `to`, so 340 -> 20 wraps through north
+  | { field: "windType"; in: Array<(typeof WIND_TYPES)[number]> }
+  | { field: "tidePhase"; in: Array<(typeof TIDE_PHASES)[number]> }
+  | { field: "dayOfWeek"; in: number[] }; // 0=Sun
+
+export type AlertRule = AlertCondition | { all: AlertRule[] } | { any: AlertRule[] } | { not: AlertRule };
+
+const degrees = z.number().min(0).max(360);
+
+const conditionSchema = z.union([
+  z
+    .object({ field: z.enum(RANGE_FIELDS), min: z.number().optional(), max: z.number().optional() })
+    .strict()
+    .refine((c) => c.min !== undefined || c.max !== undefined, "A range condition needs min or max"),
+  z.object({ field: z.enum(DIRECTION_FIELDS), from: degrees, to: degrees }).strict(),
+  z.object({ field: z.literal("windType"), in: z.array(z.enum(WIND_TYPES)).min(1) }).strict(),
+  z.object({ field: z.literal("tidePhase"), in: z.array(z.enum(TIDE_PHASES)).min(1) }).strict(),
+  z.object({ field: z.literal("dayOfWeek"), in: z.array(z.number().int().min(0).max(6)).min(1) }).strict(),
+]);
+
+const ruleSchema: z.ZodType<AlertRule> = z.lazy(() =>
+  z.union([
+    conditionSchema,
+    z.object({ all: z.array(ruleSchema).min(1) }).strict(),
+    z.object({ any: z.array(ruleSchema).min(1) }).strict(),
+    z.object({ not: ruleSchema }).strict(),
+  ])
+);
+
+function ruleDepth(rule: AlertRule): number {
+  if ("all" in rule) return 1 + Math.max(...rule.all.map(ruleDepth));
+  if ("any" in rule) return 1 + Math.max(...rule.any.map(ruleDepth));
+  if ("not" in rule) return 1 + ruleDepth(rule.not);
+  return 0;
+}
+
+function countConditions(rule: AlertRule): number {
+  if ("all" in rule) return rule.all.reduce((sum, r) => sum + countConditions(r), 0);
+  if ("any" in rule) return rule.any.reduce((sum, r) => sum + countConditions(r), 0);
+  if ("not" in rule) return countConditions(rule.not);
+  return 1;
+}
+
+/**
+ * Validates a rule from the API, including size limits
+ */
+export const alertRuleSchema = ruleSchema
+  .refine((rule) => ruleDepth(rule) <= MAX_RULE_DEPTH, `Rules can nest at most ${MAX_RULE_DEPTH} levels`)
+  .refine((rule) => countConditions(rule) <= MAX_RULE_CONDITIONS, `Rules can have at most ${MAX_RULE_CONDITIONS} conditions`);
+
+/**
+ * One forecast hour, in the units rules are written in
+ */
+export interface AlertRuleContext {
+  waveHeightFt: number;
+  swellHeightFt: number | null;
+  periodSec: number;
+  qualityScore: number;
+  windSpeedMph: number | null;
+  windGustsMph: number | null;
+  tideHeightFt: number | null;
+  localHour: number;
+  swellDirectionDeg: number | null;
+  windDirectionDeg: number | null;
+  windType: ForecastTimelineResult["windType"];
+  tidePhase: ForecastTimelineResult["tidePhase"];
+  dayOfWeek: number;
+}
+
+export function getAlertRuleContext(point: ForecastTimelineResult): AlertRuleContext {
+  const { hour, dayOfWeek } = getLocalTime(new Date(point.forecastTimestamp), ALERT_RULE_TIMEZONE);
+  return {
+    // Same fallbacks the column criteria always used
+    waveHeightFt: point.breakingWaveHeightFt ?? point.dominantSwellHeightFt ?? point.waveHeightFt ?? 0,
+    swellHeightFt: point.dominantSwellHeightFt,
+    periodSec: point.dominantSwellPeriodS ?? point.wavePeriodSec ?? 0,
+    qualityScore: point.quality_score ?? point.probabilityScore ?? 0,
+    windSpeedMph: point.windSpeedMph,
+    windGustsMph: point.windGustsMph,
+    tideHeightFt: point.tideHeightFt !== null ? point.tideHeightFt / 10 : null, // Timeline stores tenths
+    localHour: hour,
+    swellDirectionDeg: point.dominantSwellDirectionDeg ?? point.waveDirectionDeg,
+    windDirectionDeg: point.windDirectionDeg,
+    windType: point.windType,
+    tidePhase: point.tidePhase,
+    dayOfWeek,
+  };
+}
+
+function isDirectionInRange(deg: number, from: number, to: number): boolean {
+  const span = (to - from + 360) % 360;
+  return (deg - from + 360) % 360 <= span;
+}
+
+function matchesCondition(condition: AlertCondition, ctx: AlertRuleContext): boolean {
+  switch (condition.field) {
+    case "swellDirectionDeg":
+    case "windDirectionDeg": {
+      const deg = ctx[condition.field];
+      return deg !== null && isDirectionInRange(deg, condition.from, condition.to);
+    }
+    case "windType":
+      return ctx.windType !== null && condition.in.includes(ctx.windType);
+    case "tidePhase":
+      return ctx.tidePhase !== null && condition.in.includes(ctx.tidePhase);
+    case "dayOfWeek":
+      return condition.in.includes(ctx.dayOfWeek);
+    default: {
+      // Missing data never matches
+      const value = ctx[condition.field];
+      if (value === null) return false;
+      if (condition.min !== undefined && value < condition.min) return false;
+      if (condition.max !== undefined && value > condition.max) return false;
+      return true;
+    }
+  }
+}
+
+export function evaluateAlertRule(rule: AlertRule, ctx: AlertRuleContext): boolean {
+  if ("all" in rule) return rule.all.every((r) => evaluateAlertRule(r, ctx));
+  if ("any" in rule) return rule.any.some((r) => evaluateAlertRule(r, ctx));
+  if ("not" in rule) return !evaluateAlertRule(rule.not, ctx);
+  return matchesCondition(rule, ctx);
+}
+
+const FIELD_LABELS: Record<RangeField | DirectionField, [label: string, unit: string]> = {
+  waveHeightFt: ["Wave height", "ft"],
+  swellHeightFt: ["Swell height", "ft"],
+  periodSec: ["Period", "s"],
+  qualityScore: ["Quality", ""],
+  windSpeedMph: ["Wind", " mph"],
+  windGustsMph: ["Gusts", " mph"],
+  tideHeightFt: ["Tide", "ft"],
+  localHour: ["Hour", ":00"],
+  swellDirectionDeg: ["Swell direction", "°"],
+  windDirectionDeg: ["Wind direction", "°"],
+};
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Short human-readable form, e.g. "Period ≥ 11s" or "(Wind type offshore or Wind ≤ 7.9 mph)"
+ */
+export function describeAlertRule(rule: AlertRule): string {
+  if ("all" in rule) return rule.all.length === 1 ? describeAlertRule(rule.all[0]) : `(${rule.all.map(describeAlertRule).join(" and ")})`;
+  if ("any" in rule) return rule.any.length === 1 ? describeAlertRule(rule.any[0]) : `(${rule.any.map(describeAlertRule).join(" or ")})`;
+  if ("not" in rule) return `not ${describeAlertRule(rule.not)}`;
+
+  switch (rule.field) {
+    case "windType":
+      return `Wind type ${rule.in.join(" / ")}`;
+    case "tidePhase":
+      return `Tide ${rule.in.join(" / ")}`;
+    case "dayOfWeek":
+      return rule.in.map((d) => DAY_LABELS[d]).join(", ");
+    case "swellDirectionDeg":
+    case "windDirectionDeg": {
+      const [label, unit] = FIELD_LABELS[rule.field];
+      return `${label} ${rule.from}-${rule.to}${unit}`;
+    }
+    default: {
+      const [label, unit] = FIELD_LABELS[rule.field];
+      if (rule.min !== undefined && rule.max !== undefined) return `${label} ${rule.min}-${rule.max}${unit}`;
+      if (rule.min !== undefined) return `${label} ≥ ${rule.min}${unit}`;
+      return `${label} ≤ ${rule.max}${unit}`;
+    }
+  }
+}
+
+export interface AlertRuleClauseResult {
+  clause: string;
+  matched: boolean;
+}
+
+/**
+ * Evaluates each top-level clause of a rule separately, for alerts.preview
+ */
+export function explainAlertRule(rule: AlertRule, ctx: AlertRuleContext): AlertRuleClauseResult[] {
+  const clauses = "all" in rule ? rule.all : [rule];
+  return clauses.map((clause) => ({ clause: describeAlertRule(clause), matched: evaluateAlertRule(clause, ctx) }));
+}
+
+/**
+ * The rule equivalent to an alert's criteria columns
+ */
+export function alertColumnsToRule(
+  alert: Pick<SwellAlert, "minWaveHeightFt" | "minQualityScore" | "minPeriodSec" | "allowedDays" | "idealWindOnly">
+): AlertRule {
+  const all: AlertRule[] = [];
+  if (alert.allowedDays) {
+    const days = alert.allowedDays.split(",").map(Number).filter((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+    if (days.length < 7) all.push({ field: "dayOfWeek", in: days });
+  }
+  if (alert.minWaveHeightFt !== null && alert.minWaveHeightFt !== undefined) {
+    all.push({ field: "waveHeightFt", min: Number(alert.minWaveHeightFt) });
+  }
+  if (alert.minQualityScore !== null && alert.minQualityScore !== undefined) {
+    all.push({ field: "qualityScore", min: alert.minQualityScore });
+  }
+  if (alert.minPeriodSec !== null && alert.minPeriodSec !== undefined) {
+    all.push({ field: "periodSec", min: alert.minPeriodSec });
+  }
+  if (alert.idealWindOnly === 1) {
+    all.push({ field: "windType", in: ["offshore", "side-offshore"] });
+  }
+  return { all };
+}
+
+/**
+ * The rule an alert is checked against: its stored rule, or one built from its columns.
+ * A stored rule that no longer parses falls back to the columns rather than matching nothing.
+ */
+export function getAlertRule(
+  alert: Pick<SwellAlert, "id" | "rule" | "minWaveHeightFt" | "minQualityScore" | "minPeriodSec" | "allowedDays" | "idealWindOnly">
+): AlertRule {
+  if (alert.rule) {
+    try {
+      const parsed = alertRuleSchema.safeParse(JSON.parse(alert.rule));
+      if (parsed.success) return parsed.data;
+      console.warn(`[Alert Rules] Alert ${alert.id} has an invalid rule, using its columns:`, parsed.error.issues[0]?.message);
+    } catch {
+      console.warn(`[Alert Rules] Alert ${alert.id} has a rule that isn't JSON, using its columns`);
+    }
+  }
+  return alertColumnsToRule(alert);
+}
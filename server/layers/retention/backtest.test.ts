@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { ConditionsLog, SurfSpot, SwellAlert } from "../../../drizzle/schema";
+import { conditionsLogToTimelinePoint, mergeHourlyTimeline, selectDailyNotifications } from "./backtest";
+import { alertColumnsToRule } from "./alertRules";
+import { detectSpotSwells } from "./swellDetection";
+
+const HOUR = 60 * 60 * 1000;
+
+function logRow(timestamp: string, qualityScore: number, overrides: Partial<ConditionsLog> = {}): ConditionsLog {
+  return {
+    id: 1,
+    timestamp: new Date(timestamp),
+    bestSpotName: "Lido Beach",
+    qualityScore,
+    waveHeightFt: "3.5",
+    wavePeriodSec: 10,
+    waveDirectionDeg: 140,
+    windSpeedMph: 6,
+    windDirectionDeg: 340,
+    windType: "offshore",
+    buoyWaveHeightFt: "4.2",
+    buoyPeriodSec: 10,
+    buoyDirectionDeg: 140,
+    isSurfable: 1,
+    unsurfableReason: null,
+    dayOfWeek: 3,
+    hourOfDay: 8,
+    month: 6,
+    tideHeightFt: "2.4",
+    tidePhase: "rising",
+    createdAt: new Date(timestamp),
+    ...overrides,
+  };
+}
+
+const spot = { id: 1, name: "Lido Beach", latitude: "40.588", longitude: "-73.658" } as SurfSpot;
+const alert = { id: 0, userId: 7, spotId: 1 } as SwellAlert;
+
+describe("conditionsLogToTimelinePoint", () => {
+  it("maps a logged snapshot onto its hour", () => {
+    const point = conditionsLogToTimelinePoint(logRow("2026-06-03T12:40:00Z", 65, { windType: "sideways" }));
+    expect(point.forecastTimestamp).toEqual(new Date("2026-06-03T12:00:00Z"));
+    expect(point.breakingWaveHeightFt).toBe(3.5);
+    expect(point.quality_score).toBe(65);
+    expect(point.tideHeightFt).toBe(24);
+    expect(point.windType).toBeNull();
+  });
+});
+
+describe("mergeHourlyTimeline", () => {
+  it("keeps one point per hour and prefers logged conditions", () => {
+    const forecast = [
+      { ...conditionsLogToTimelinePoint(logRow("2026-06-03T12:00:00Z", 40)), forecastTimestamp: new Date("2026-06-03T12:00:00Z") },
+      { ...conditionsLogToTimelinePoint(logRow("2026-06-03T12:00:00Z", 30)), forecastTimestamp: new Date("2026-06-03T12:00:00Z") },
+      { ...conditionsLogToTimelinePoint(logRow("2026-06-03T13:00:00Z", 40)), forecastTimestamp: new Date("2026-06-03T13:00:00Z") },
+    ];
+    const logged = [conditionsLogToTimelinePoint(logRow("2026-06-03T13:20:00Z", 70))];
+
+    expect(mergeHourlyTimeline(forecast, logged).map((p) => p.quality_score)).toEqual([40, 70]);
+  });
+});
+
+describe("backtest replay", () => {
+  it("finds windows in logged history and keeps one notification a day", () => {
+    // Wed 8am-1pm New York, good for five hours; Thursday only three
+    const rows = [
+      ...[12, 13, 14, 15, 16].map((h) => logRow(`2026-06-03T${h}:10:00Z`, 70)),
+      logRow("2026-06-03T17:10:00Z", 30),
+      ...[12, 13, 14].map((h) => logRow(`2026-06-04T${h}:10:00Z`, 70)),
+    ];
+    const timeline = mergeHourlyTimeline([], rows.map(conditionsLogToTimelinePoint));
+    const rule = alertColumnsToRule({ minWaveHeightFt: "3", minQualityScore: 60, minPeriodSec: null, allowedDays: null, idealWindOnly: 0 });
+
+    const swells = detectSpotSwells(alert, rule, spot, timeline, new Date("2026-06-01T00:00:00Z"), new Date("2026-06-05T00:00:00Z"));
+    expect(swells).toHaveLength(1);
+    expect(swells[0].swellStartTime).toEqual(new Date("2026-06-03T12:00:00Z"));
+
+    const later = { ...swells[0], swellStartTime: new Date(swells[0].swellStartTime.getTime() + 3 * HOUR), avgQualityScore: 90 };
+    expect(selectDailyNotifications([swells[0], later])).toEqual([later]);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Alert Backtests
+ *
+ * Replays an alert's criteria over past conditions so members can see how often it would have
+ * fired before saving it. Hours come from conditions_log (logged best-spot conditions, going
+ * back months) and from the forecast_points archive (the newest run for each hour, as far back as
+ * FORECAST_ARCHIVE_RETENTION_DAYS, 90 by default); where both cover an hour, the logged
+ * conditions win. conditions_log only records the spot that was best at the time, so alerts for
+ * one spot see fewer hours than best-spot alerts.
+ *
+ * Hours run through the same window detection as live alerts (daylight only, 4+ consecutive
+ * matching hours) and each local day keeps its best window, like a once-a-day alert. Fired days
+ * are compared with the surf_reports ratings for the same spot and day.
+ */
+
+import type { ConditionsLog, SurfSpot, SwellAlert } from "../../../drizzle/schema";
+import { generateForecastTimeline, type ForecastTimelineResult } from "../../services/forecast";
+import {
+  getAverageCrowdLevel,
+  getConditionsLogInRange,
+  getForecastPointsInRange,
+  getSurfReportRatingsInRange,
+} from "../../db";
+import { ALERT_RULE_TIMEZONE, getAlertRule } from "./alertRules";
+import { getLocalTime } from "./digest";
+import { detectSpotSwells, getSpotsToCheck, selectBestSpotOnly, type DetectedSwell } from "./swellDetection";
+
+export const BACKTEST_MAX_MONTHS = 12;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const WIND_TYPES = ["offshore", "onshore", "cross", "side-offshore"];
+const TIDE_PHASES = ["rising", "falling", "high", "low"];
+
+export interface BacktestNotification {
+  localDate: string; // YYYY-MM-DD, New York
+  spotId: number;
+  spotName: string;
+  swellStartTime: Date;
+  swellEndTime: Date;
+  peakWaveHeightFt: number;
+  peakQualityScore: number;
+  avgPeriodSec: number;
+  reportCount: number; // surf_reports for this spot and day
+  avgStarRating: number | null;
+}
+
+export interface BacktestRatingSummary {
+  days: number; // Spot-days with at least one report
+  reportCount: number;
+  avgStarRating: number | null;
+}
+
+export interface AlertBacktestResult {
+  from: Date;
+  to: Date;
+  hoursReplayed: number;
+  notificationCount: number;
+  notifications: BacktestNotification[];
+  ratings: {
+    alertDays: BacktestRatingSummary; // Spot-days the alert would have fired
+    otherDays: BacktestRatingSummary; // Every other reported spot-day
+  };
+}
+
+/**
+ * A conditions_log snapshot as a timeline hour, so it can go through the same detection as a forecast
+ */
+export function conditionsLogToTimelinePoint(row: ConditionsLog): ForecastTimelineResult {
+  const waveHeightFt = row.waveHeightFt !== null ? Number(row.waveHeightFt) : null;
+  const tideHeightFt = row.tideHeightFt !== null ? Number(row.tideHeightFt) : null;
+  return {
+    forecastTimestamp: new Date(Math.floor(row.timestamp.getTime() / HOUR_MS) * HOUR_MS),
+    hoursOut: 0,
+    probabilityScore: row.qualityScore ?? 0,
+    waveHeightTenthsFt: waveHeightFt !== null ? Math.round(waveHeightFt * 10) : 0,
+    confidenceBand: "High",
+    usabilityIntermediate: 0,
+    usabilityAdvanced: 0,
+    breakingWaveHeightFt: waveHeightFt,
+    rawBreakingWaveHeightFt: waveHeightFt,
+    correctedBreakingWaveHeightFt: null,
+    heightCorrectionFactor: null,
+    heightCalibrationVersion: null,
+    quality_rating: null,
+    quality_score: row.qualityScore,
+    dominantSwellHeightFt: row.buoyWaveHeightFt !== null ? Number(row.buoyWaveHeightFt) : null,
+    dominantSwellPeriodS: row.wavePeriodSec ?? row.buoyPeriodSec,
+    dominantSwellDirectionDeg: row.waveDirectionDeg ?? row.buoyDirectionDeg,
+    dominantSwellType: null,
+    dominantSwellLabel: null,
+    waveHeightFt,
+    wavePeriodSec: row.wavePeriodSec,
+    waveDirectionDeg: row.waveDirectionDeg,
+    secondarySwellHeightFt: null,
+    secondarySwellPeriodS: null,
+    secondarySwellDirectionDeg: null,
+    windWaveHeightFt: null,
+    windWavePeriodS: null,
+    windWaveDirectionDeg: null,
+    windSpeedMph: row.windSpeedMph,
+    windGustsMph: null,
+    windDirectionDeg: row.windDirectionDeg,
+    windType: WIND_TYPES.includes(row.windType ?? "") ? (row.windType as ForecastTimelineResult["windType"]) : null,
+    tideHeightFt: tideHeightFt !== null ? Math.round(tideHeightFt * 10) : null, // Timeline stores tenths
+    tidePhase: TIDE_PHASES.includes(row.tidePhase ?? "") ? (row.tidePhase as ForecastTimelineResult["tidePhase"]) : null,
+    tideSource: null,
+    waterTempF: null,
+    airTempF: null,
+    ensembleBreakingWaveHeightFt: null,
+    ensembleQualityScore: null,
+    breakingHeightP10Ft: null,
+    breakingHeightP90Ft: null,
+    ensembleSources: [],
+  };
+}
+
+/**
+ * One point per hour, oldest first; a logged hour replaces a forecast one, and the latest log in an hour wins
+ */
+export function mergeHourlyTimeline(
+  forecast: ForecastTimelineResult[],
+  logged: ForecastTimelineResult[]
+): ForecastTimelineResult[] {
+  const hours = new Map<number, ForecastTimelineResult>();
+  for (const point of forecast) {
+    const hour = Math.floor(new Date(point.forecastTimestamp).getTime() / HOUR_MS) * HOUR_MS;
+    // Points come newest model run first; keep that one
+    if (!hours.has(hour)) hours.set(hour, { ...point, forecastTimestamp: new Date(hour) });
+  }
+  for (const point of logged) {
+    hours.set(new Date(point.forecastTimestamp).getTime(), point);
+  }
+  return Array.from(hours.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, point]) => point);
+}
+
+/**
+ * At most one notification per local day: the day's best window
+ */
+export function selectDailyNotifications(swells: DetectedSwell[]): DetectedSwell[] {
+  const days = new Map<string, DetectedSwell[]>();
+  for (const swell of swells) {
+    const { localDate } = getLocalTime(swell.swellStartTime, ALERT_RULE_TIMEZONE);
+    days.set(localDate, [...(days.get(localDate) ?? []), swell]);
+  }
+  return Array.from(days.values())
+    .flatMap((daySwells) => selectBestSpotOnly(daySwells))
+    .sort((a, b) => a.swellStartTime.getTime() - b.swellStartTime.getTime());
+}
+
+function summarizeRatings(ratings: number[][]): BacktestRatingSummary {
+  const all = ratings.flat();
+  return {
+    days: ratings.length,
+    reportCount: all.length,
+    avgStarRating: all.length > 0 ? Math.round((all.reduce((sum, r) => sum + r, 0) / all.length) * 10) / 10 : null,
+  };
+}
+
+export async function backtestAlert(
+  alert: SwellAlert,
+  spots: SurfSpot[],
+  options: { months: number; now?: Date }
+): Promise<AlertBacktestResult> {
+  const to = options.now ?? new Date();
+  const from = new Date(to);
+  from.setMonth(from.getMonth() - Math.min(options.months, BACKTEST_MAX_MONTHS));
+
+  const rule = getAlertRule(alert);
+  const spotsToCheck = getSpotsToCheck(alert, spots);
+  const logs = await getConditionsLogInRange(from, to);
+
+  const swells: DetectedSwell[] = [];
+  let hoursReplayed = 0;
+  for (const spot of spotsToCheck) {
+    const forecastPoints = await getForecastPointsInRange(spot.id, from, to);
+    const forecast = forecastPoints.length > 0
+      ? await generateForecastTimeline({
+          forecastPoints,
+          spot,
+          tideStationId: spot.tideStationId,
+          avgCrowdLevel: await getAverageCrowdLevel(spot.id),
+        })
+      : [];
+    const logged = logs.filter((row) => row.bestSpotName === spot.name).map(conditionsLogToTimelinePoint);
+
+    const timeline = mergeHourlyTimeline(forecast, logged);
+    hoursReplayed += timeline.length;
+    swells.push(...detectSpotSwells(alert, rule, spot, timeline, from, to));
+  }
+
+  // Star ratings by spot and local day
+  const reports = await getSurfReportRatingsInRange(spotsToCheck.map((spot) => spot.id), from, to);
+  const ratingsByDay = new Map<string, number[]>();
+  for (const report of reports) {
+    const key = `${report.spotId}:${getLocalTime(report.sessionDate, ALERT_RULE_TIMEZONE).localDate}`;
+    ratingsByDay.set(key, [...(ratingsByDay.get(key) ?? []), report.starRating]);
+  }
+
+  const notifications = selectDailyNotifications(swells).map((swell): BacktestNotification => {
+    const localDate = getLocalTime(swell.swellStartTime, ALERT_RULE_TIMEZONE).localDate;
+    const ratings = summarizeRatings([ratingsByDay.get(`${swell.spotId}:${localDate}`) ?? []]);
+    return {
+      localDate,
+      spotId: swell.spotId,
+      spotName: spotsToCheck.find((spot) => spot.id === swell.spotId)?.name ?? "",
+      swellStartTime: swell.swellStartTime,
+      swellEndTime: swell.swellEndTime,
+      peakWaveHeightFt: swell.peakWaveHeightFt,
+      peakQualityScore: swell.peakQualityScore,
+      avgPeriodSec: swell.avgPeriodSec,
+      reportCount: ratings.reportCount,
+      avgStarRating: ratings.avgStarRating,
+    };
+  });
+
+  const alertDayKeys = new Set(notifications.map((n) => `${n.spotId}:${n.localDate}`));
+  const alertDayRatings: number[][] = [];
+  const otherDayRatings: number[][] = [];
+  ratingsByDay.forEach((ratings, key) => (alertDayKeys.has(key) ? alertDayRatings : otherDayRatings).push(ratings));
+
+  return {
+    from,
+    to,
+    hoursReplayed,
+    notificationCount: notifications.length,
+    notifications,
+    ratings: {
+      alertDays: summarizeRatings(alertDayRatings),
+      otherDays: summarizeRatings(otherDayRatings),
+    },
+  };
+}
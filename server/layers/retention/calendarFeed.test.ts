@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { SurfSpot } from "../../../drizzle/schema";
+import { buildCalendarFeed, escapeCalendarText, foldCalendarLine, selectCalendarWindows } from "./calendarFeed";
+import type { DetectedSwell } from "./swellDetection";
+
+const spot = { id: 1, name: "Lido Beach", latitude: "40.588", longitude: "-73.658" } as SurfSpot;
+
+function swell(start: string, hours: number, peakQualityScore: number): DetectedSwell {
+  const swellStartTime = new Date(start);
+  return {
+    alertId: 3,
+    userId: 7,
+    spotId: 1,
+    swellStartTime,
+    swellEndTime: new Date(swellStartTime.getTime() + (hours - 1) * 60 * 60 * 1000),
+    peakWaveHeightFt: 3.5,
+    peakSwellHeightFt: 4.2,
+    peakQualityScore,
+    avgQualityScore: peakQualityScore,
+    avgPeriodSec: 11,
+    swellDirectionDeg: 140,
+    swellDirectionCompass: "SE",
+    windDirectionDeg: 340,
+    windDirectionCompass: "NNW",
+    windSpeedMph: 8,
+    windGustsMph: 12,
+    conditions: [{ timestamp: swellStartTime, waveHeight: 3.5, period: 11, windType: "offshore", qualityScore: peakQualityScore }],
+  };
+}
+
+describe("calendar text", () => {
+  it("escapes RFC 5545 special characters", () => {
+    expect(escapeCalendarText("Lido, Long Beach; 3-4ft\nback\\slash")).toBe("Lido\\, Long Beach\\; 3-4ft\\nback\\\\slash");
+  });
+
+  it("folds at 75 octets without splitting a character", () => {
+    const folded = foldCalendarLine(`DESCRIPTION:${"°".repeat(40)}`).split("\r\n");
+    expect(folded.length).toBeGreaterThan(1);
+    expect(folded.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(folded.slice(1).every((line) => line.startsWith(" "))).toBe(true);
+    expect(folded.map((line, i) => (i === 0 ? line : line.slice(1))).join("")).toBe(`DESCRIPTION:${"°".repeat(40)}`);
+  });
+});
+
+describe("buildCalendarFeed", () => {
+  it("keeps each spot's best window per day under a UID that survives forecast shifts", () => {
+    // Wed 8am and 1pm New York; a later run moves the morning window an hour
+    const morning = swell("2026-06-03T12:00:00Z", 4, 70);
+    const afternoon = swell("2026-06-03T17:00:00Z", 4, 60);
+    expect(selectCalendarWindows([morning, afternoon])).toEqual([morning]);
+
+    const feed = buildCalendarFeed([morning, afternoon], [spot], new Date("2026-06-01T00:00:00Z"));
+    const shifted = buildCalendarFeed([swell("2026-06-03T13:00:00Z", 4, 72)], [spot], new Date("2026-06-01T06:00:00Z"));
+    const uid = (ics: string) => ics.split("\r\n").filter((line) => line.startsWith("UID:"));
+    expect(uid(feed)).toEqual(["UID:swell-7-1-2026-06-03@nycsurfco.com"]);
+    expect(uid(shifted)).toEqual(uid(feed));
+
+    const lines = feed.split("\r\n");
+    expect(lines).toContain("DTSTART:20260603T120000Z");
+    expect(lines).toContain("DTEND:20260603T160000Z");
+    expect(lines).toContain("GEO:40.588;-73.658");
+    expect(lines.find((line) => line.startsWith("SUMMARY:"))).toBe("SUMMARY:Lido Beach - GOOD 3-4ft");
+    expect(lines.find((line) => line.startsWith("URL:"))).toMatch(/\/spot\/1\?at=2026-06-03T12%3A00%3A00.000Z$/);
+  });
+});
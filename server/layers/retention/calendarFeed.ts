@@ -0,0 +1,175 @@
+/**
+ * Calendar Feed
+ *
+ * Members can subscribe to an iCalendar feed of upcoming surf windows at
+ * /calendar/:token.ics (route in server/_core/index.ts). The token is a random secret stored on
+ * the user (users.calendarToken); resetting it revokes the old URL.
+ *
+ * The feed runs the user's active, unpaused alerts through the same detection as digests and
+ * publishes each spot's best window per local day as an event. The UID is built from user,
+ * spot and day rather than the window's hours, so when the forecast shifts a window calendar
+ * apps update the existing event instead of adding another. Windows that drop out of the
+ * forecast drop out of the feed, and the app removes them on its next refresh.
+ *
+ * The URL is public, so a built feed is cached per user for the refresh interval; every
+ * request still looks the token up, so a reset token stops working immediately.
+ */
+
+import { randomBytes } from "crypto";
+import type { SurfSpot } from "../../../drizzle/schema";
+import { getAllSpots, getAllSwellAlertsForUser, getUserByCalendarToken } from "../../db";
+import { getLastLightForDate } from "../../utils/sunTimes";
+import { ALERT_RULE_TIMEZONE } from "./alertRules";
+import { collectDigestSwells, getLocalTime } from "./digest";
+import { formatSwellCalendarEvent } from "./notificationFormatter";
+import type { DetectedSwell } from "./swellDetection";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Suggested refresh; Google Calendar ignores it and polls on its own schedule
+const REFRESH_INTERVAL = "PT1H";
+const FEED_CACHE_TTL = HOUR_MS; // Matches REFRESH_INTERVAL
+
+const feedCache = new Map<number, { token: string; feed: string; ts: number }>();
+
+function getBaseUrl(): string {
+  return (process.env.APP_URL || "https://nycsurfco.com").replace(/\/$/, "");
+}
+
+export function generateCalendarToken(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function getCalendarFeedUrl(token: string): string {
+  return `${getBaseUrl()}/calendar/${token}.ics`;
+}
+
+/**
+ * Stable across forecast runs: one event per user, spot and local day
+ */
+export function getCalendarEventUid(swell: DetectedSwell): string {
+  const { localDate } = getLocalTime(swell.swellStartTime, ALERT_RULE_TIMEZONE);
+  return `swell-${swell.userId}-${swell.spotId}-${localDate}@nycsurfco.com`;
+}
+
+/**
+ * Each spot's best window per local day (highest peak score), oldest first
+ */
+export function selectCalendarWindows(swells: DetectedSwell[]): DetectedSwell[] {
+  const best = new Map<string, DetectedSwell>();
+  for (const swell of swells) {
+    const uid = getCalendarEventUid(swell);
+    const existing = best.get(uid);
+    if (!existing || swell.peakQualityScore > existing.peakQualityScore) best.set(uid, swell);
+  }
+  return Array.from(best.values()).sort((a, b) => a.swellStartTime.getTime() - b.swellStartTime.getTime());
+}
+
+/**
+ * RFC 5545 TEXT escaping
+ */
+export function escapeCalendarText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space.
+ * Never splits a multi-byte character (° in swell directions).
+ */
+export function foldCalendarLine(line: string): string {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > 75) {
+      lines.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n");
+}
+
+/**
+ * UTC date-time, e.g. 20260603T120000Z
+ */
+function formatCalendarDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * The window runs to the end of its last matching hour, but not past last light
+ */
+function getWindowEnd(swell: DetectedSwell, spot: SurfSpot): Date {
+  const end = new Date(swell.swellEndTime.getTime() + HOUR_MS);
+  const lastLight = getLastLightForDate(swell.swellEndTime, parseFloat(spot.latitude), parseFloat(spot.longitude));
+  return lastLight.getTime() > swell.swellStartTime.getTime() && lastLight.getTime() < end.getTime() ? lastLight : end;
+}
+
+/**
+ * The .ics document for a set of detected swells
+ */
+export function buildCalendarFeed(swells: DetectedSwell[], spots: SurfSpot[], now: Date = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//NYC Surf Co//Surf Windows//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:NYC Surf Co. Surf Windows",
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+
+  for (const swell of selectCalendarWindows(swells)) {
+    const spot = spots.find((s) => s.id === swell.spotId);
+    if (!spot) continue;
+
+    const event = formatSwellCalendarEvent(swell, spot);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${getCalendarEventUid(swell)}`,
+      `DTSTAMP:${formatCalendarDate(now)}`,
+      `DTSTART:${formatCalendarDate(swell.swellStartTime)}`,
+      `DTEND:${formatCalendarDate(getWindowEnd(swell, spot))}`,
+      `SUMMARY:${escapeCalendarText(event.summary)}`,
+      `DESCRIPTION:${escapeCalendarText(event.description)}`,
+      `LOCATION:${escapeCalendarText(spot.name)}`,
+      `GEO:${parseFloat(spot.latitude)};${parseFloat(spot.longitude)}`,
+      `URL:${event.url}`,
+      "TRANSP:TRANSPARENT", // A forecast, not a commitment; don't block free/busy
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldCalendarLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * The feed for a calendar token, or null if no user has that token
+ */
+export async function getCalendarFeedForToken(token: string, now: Date = new Date()): Promise<string | null> {
+  const user = await getUserByCalendarToken(token);
+  if (!user) return null;
+
+  const cached = feedCache.get(user.id);
+  if (cached && cached.token === token && now.getTime() - cached.ts < FEED_CACHE_TTL) {
+    return cached.feed;
+  }
+
+  const alerts = (await getAllSwellAlertsForUser(user.id)).filter((alert) => !alert.pausedAt);
+  const spots = await getAllSpots();
+  const swells = await collectDigestSwells(alerts, spots, [], now);
+  const feed = buildCalendarFeed(swells, spots, now);
+
+  for (const [userId, entry] of Array.from(feedCache.entries())) {
+    if (now.getTime() - entry.ts >= FEED_CACHE_TTL) feedCache.delete(userId);
+  }
+  feedCache.set(user.id, { token, feed, ts: now.getTime() });
+  return feed;
+}
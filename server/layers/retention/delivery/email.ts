@@ -1,10 +1,12 @@
 import { ENV } from "../../../_core/env";
+import { isRetryableStatus, type DeliveryResult } from "./types";
 
 export interface EmailOptions {
   to: string;
   subject: string;
   html: string;
   text?: string;
+  headers?: Record<string, string>; // e.g. List-Unsubscribe
 }
 
 export interface BatchEmailOptions {
@@ -20,13 +22,20 @@ export interface BatchEmailOptions {
  * Can be swapped for SendGrid, AWS SES, etc.
  */
 export async function sendEmail(options: EmailOptions): Promise<boolean> {
-  const { to, subject, html, text } = options;
+  return (await deliverEmail(options)).ok;
+}
+
+/**
+ * Sends an email and reports the Resend message id, or why it failed and whether a retry could help
+ */
+export async function deliverEmail(options: EmailOptions): Promise<DeliveryResult> {
+  const { to, subject, html, text, headers } = options;
 
   const apiKey = process.env.RESEND_API_KEY || ENV.resendApiKey;
 
   if (!apiKey) {
     console.warn("[Email] Resend API key not configured. Email sending disabled.");
-    return false;
+    return { ok: false, providerMessageId: null, error: "Resend API key not configured" };
   }
 
   // Resend API endpoint
@@ -43,6 +52,7 @@ export async function sendEmail(options: EmailOptions): Promise<boolean> {
         subject,
         html,
         text: text || html.replace(/<[^>]*>/g, ""), // Strip HTML if no text provided
+        ...(headers ? { headers } : {}),
       }),
     });
 
@@ -51,12 +61,17 @@ export async function sendEmail(options: EmailOptions): Promise<boolean> {
       console.warn(
         `[Email] Failed to send email (${response.status}): ${JSON.stringify(errorData)}`
       );
-      return false;
+      return {
+        ok: false,
+        providerMessageId: null,
+        error: `Resend ${response.status}: ${errorData?.message || JSON.stringify(errorData)}`,
+        retryable: isRetryableStatus(response.status),
+      };
     }
 
     const data = await response.json().catch(() => ({}));
     console.log(`[Email] Successfully sent email to ${to} (ID: ${data.id || "unknown"})`);
-    return true;
+    return { ok: true, provider: "resend", providerMessageId: data.id ?? null };
   } catch (error: any) {
     console.error("[Email] Failed to send email:", {
       to,
@@ -64,7 +79,7 @@ export async function sendEmail(options: EmailOptions): Promise<boolean> {
       error: error?.message || "Unknown error",
       response: error?.response?.body || "No response body",
     });
-    return false;
+    return { ok: false, providerMessageId: null, error: error?.message || "Unknown error" };
   }
 }
 
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { encryptPushPayload, generateVapidKeys } from "./push";
+
+describe("encryptPushPayload", () => {
+  it("matches the RFC 8291 example", () => {
+    const body = encryptPushPayload(
+      {
+        p256dh: "BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4",
+        auth: "BTBZMqHH6r4Tts7J_aSIgg",
+      },
+      Buffer.from("When I grow up, I want to be a watermelon"),
+      { privateKey: Buffer.from("yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw", "base64url") },
+      Buffer.from("DGv6ra1nlYgDCS1FRnbzlw", "base64url")
+    );
+
+    expect(body.toString("base64url")).toBe(
+      "DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN"
+    );
+  });
+});
+
+describe("generateVapidKeys", () => {
+  it("returns an uncompressed P-256 public key and a 32-byte private key", () => {
+    const { publicKey, privateKey } = generateVapidKeys();
+    const publicBytes = Buffer.from(publicKey, "base64url");
+    expect(publicBytes).toHaveLength(65);
+    expect(publicBytes[0]).toBe(4);
+    expect(Buffer.from(privateKey, "base64url")).toHaveLength(32);
+  });
+});
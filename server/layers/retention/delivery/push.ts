@@ -0,0 +1,180 @@
+/**
+ * Web Push
+ *
+ * Sends notifications to browser push services (FCM, Mozilla, Apple) directly, without a
+ * web-push dependency: the payload is encrypted for the subscription (RFC 8291, aes128gcm)
+ * and the request is signed with our VAPID key (RFC 8292, ES256 JWT).
+ *
+ * VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY are the P-256 key pair as base64url (uncompressed
+ * public point, raw private scalar), VAPID_SUBJECT a mailto: or https: contact for push
+ * services. Generate a pair with `pnpm tsx scripts/generate-vapid-keys.ts`.
+ */
+
+import { createCipheriv, createECDH, createHmac, createPrivateKey, randomBytes } from "crypto";
+import { SignJWT } from "jose";
+import { isRetryableStatus, type DeliveryResult } from "./types";
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string; // base64url, the browser's P-256 public key
+  auth: string; // base64url, 16-byte auth secret
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string; // Opened on click, relative to the site
+  tag?: string; // Replaces an earlier notification with the same tag
+}
+
+interface VapidConfig {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+const RECORD_SIZE = 4096;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60; // A swell alert is stale after a day offline
+const JWT_TTL_SECONDS = 12 * 60 * 60;
+
+function getVapidConfig(): VapidConfig | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return { publicKey, privateKey, subject: process.env.VAPID_SUBJECT || "mailto:hello@nycsurfco.com" };
+}
+
+/**
+ * Application server key for PushManager.subscribe(), or null if push isn't configured
+ */
+export function getVapidPublicKey(): string | null {
+  return getVapidConfig()?.publicKey ?? null;
+}
+
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString("base64url"),
+    privateKey: ecdh.getPrivateKey().toString("base64url"),
+  };
+}
+
+function hmac(key: Buffer, data: Buffer): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Encrypt a payload for one subscription (RFC 8291). `serverKeys` and `salt` are only
+ * passed in tests; normally both are fresh for every message.
+ */
+export function encryptPushPayload(
+  subscription: Pick<PushSubscriptionKeys, "p256dh" | "auth">,
+  payload: Buffer,
+  serverKeys: { privateKey: Buffer } | null = null,
+  salt: Buffer = randomBytes(16)
+): Buffer {
+  const clientPublicKey = Buffer.from(subscription.p256dh, "base64url");
+  const authSecret = Buffer.from(subscription.auth, "base64url");
+
+  const ecdh = createECDH("prime256v1");
+  if (serverKeys) ecdh.setPrivateKey(serverKeys.privateKey);
+  else ecdh.generateKeys();
+  const serverPublicKey = ecdh.getPublicKey();
+  const sharedSecret = ecdh.computeSecret(clientPublicKey);
+
+  // IKM = HKDF(auth, ecdh_secret, "WebPush: info" || 0x00 || ua_public || as_public, 32)
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), clientPublicKey, serverPublicKey, Buffer.from([1])]);
+  const ikm = hmac(hmac(authSecret, sharedSecret), keyInfo);
+
+  const prk = hmac(salt, ikm);
+  const contentKey = hmac(prk, Buffer.from("Content-Encoding: aes128gcm\0\x01")).subarray(0, 16);
+  const nonce = hmac(prk, Buffer.from("Content-Encoding: nonce\0\x01")).subarray(0, 12);
+
+  // Single record: payload, then the 0x02 last-record delimiter, no padding
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * VAPID Authorization header for a push service origin
+ */
+async function getVapidAuthorization(endpoint: string, vapid: VapidConfig): Promise<string> {
+  const publicKey = Buffer.from(vapid.publicKey, "base64url");
+  const key = createPrivateKey({
+    format: "jwk",
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: vapid.privateKey,
+      x: publicKey.subarray(1, 33).toString("base64url"),
+      y: publicKey.subarray(33, 65).toString("base64url"),
+    },
+  });
+
+  const jwt = await new SignJWT({ sub: vapid.subject })
+    .setProtectedHeader({ alg: "ES256", typ: "JWT" })
+    .setAudience(new URL(endpoint).origin)
+    .setExpirationTime(Math.floor(Date.now() / 1000) + JWT_TTL_SECONDS)
+    .sign(key);
+
+  return `vapid t=${jwt}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Send one push message. A 404 / 410 means the subscription is gone for good; the result
+ * says so with `expired` so the caller can delete it.
+ */
+export async function deliverPush(
+  subscription: PushSubscriptionKeys,
+  payload: PushPayload,
+  options: { ttlSeconds?: number } = {}
+): Promise<DeliveryResult & { expired?: boolean }> {
+  const vapid = getVapidConfig();
+  if (!vapid) {
+    console.warn("[Push] VAPID keys not configured. Push sending disabled.");
+    return { ok: false, providerMessageId: null, error: "VAPID keys not configured" };
+  }
+
+  try {
+    const body = encryptPushPayload(subscription, Buffer.from(JSON.stringify(payload)));
+    const response = await fetch(subscription.endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: await getVapidAuthorization(subscription.endpoint, vapid),
+        "Content-Encoding": "aes128gcm",
+        "Content-Type": "application/octet-stream",
+        TTL: String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+        Urgency: "normal",
+      },
+      body: new Uint8Array(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      const expired = response.status === 404 || response.status === 410;
+      console.warn(`[Push] Failed to send push (${response.status}): ${text.slice(0, 200)}`);
+      return {
+        ok: false,
+        provider: "webpush",
+        providerMessageId: null,
+        error: `Push service ${response.status}${expired ? " (subscription expired)" : ""}: ${text.slice(0, 200)}`,
+        retryable: !expired && isRetryableStatus(response.status),
+        expired,
+      };
+    }
+
+    // Push services return the message URL in Location (FCM and Mozilla do); keep its id
+    const location = response.headers.get("location");
+    return { ok: true, provider: "webpush", providerMessageId: location ? location.split("/").pop()!.slice(0, 128) : null };
+  } catch (error: any) {
+    console.error("[Push] Error sending push:", error);
+    return { ok: false, provider: "webpush", providerMessageId: null, error: error?.message || "Unknown error" };
+  }
+}
@@ -1,4 +1,6 @@
-import { ENV } from "../../../_core/env";
+import { countSmsSegments, toE164, truncateToSegments } from "./smsEncoding";
+import { getSmsProvider } from "./smsProviders";
+import type { DeliveryResult } from "./types";
 
 export interface SMSOptions {
   phone: string; // E.164 format or plain number
@@ -6,54 +8,46 @@ export interface SMSOptions {
 }
 
 /**
- * Sends an SMS notification via Quo (OpenPhone).
- * Placeholder implementation - configure with Quo API when ready.
+ * Longest message sent, in segments (each one is billed); longer messages are cut with "..."
+ */
+const MAX_SEGMENTS = parseInt(process.env.SMS_MAX_SEGMENTS || "3", 10);
+
+/**
+ * Sends an SMS notification through the configured provider (see smsProviders/).
  */
 export async function sendSMS(options: SMSOptions): Promise<boolean> {
+  return (await deliverSMS(options)).ok;
+}
+
+/**
+ * Sends an SMS and reports the provider message id, or why it failed and whether a retry could help
+ */
+export async function deliverSMS(options: SMSOptions): Promise<DeliveryResult> {
   const { phone, message } = options;
 
-  // TODO: Configure Twilio/Quo/OpenPhone API credentials
-  const apiKey = process.env.QUO_API_KEY || process.env.TWILIO_API_KEY || ENV.quoApiKey;
-  const apiUrl = process.env.QUO_API_URL || "https://api.quo.com";
+  const to = toE164(phone);
+  if (!to) {
+    console.warn(`[SMS] Invalid phone number: ${phone}`);
+    return { ok: false, providerMessageId: null, error: `Invalid phone number: ${phone}`, retryable: false };
+  }
 
-  // Clean phone number for logging
-  const cleanPhone = phone.replace(/\D/g, "");
-  const formattedPhone = cleanPhone.startsWith("1") ? `+${cleanPhone}` : `+1${cleanPhone}`;
+  const provider = getSmsProvider();
+  if (!provider) {
+    console.warn("[SMS] No SMS provider configured. SMS sending disabled.");
+    return { ok: false, providerMessageId: null, error: "No SMS provider configured", retryable: false };
+  }
 
-  if (!apiKey) {
-    // PLACEHOLDER: Log what would be sent until Twilio/Quo is configured
-    console.log(`[SMS Placeholder] Would send to ${formattedPhone}: "${message.substring(0, 50)}..."`);
-    console.warn("[SMS] No SMS API key configured. SMS sending disabled (placeholder mode).");
-    return true; // Return true for testing - pretend SMS was sent
+  const body = truncateToSegments(message, MAX_SEGMENTS);
+  const { encoding, segments } = countSmsSegments(body);
+  if (body !== message) {
+    console.warn(`[SMS] Message to ${to} truncated to ${MAX_SEGMENTS} ${encoding} segment(s)`);
   }
 
-  try {
-    // Phone number already cleaned above
-
-    // TODO: Replace with actual Quo/OpenPhone API endpoint
-    // Example structure - adjust based on Quo API documentation
-    const response = await fetch(`${apiUrl}/v1/messages`, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        to: formattedPhone,
-        body: message.substring(0, 160), // SMS max length (adjust if Quo supports longer)
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => "");
-      console.warn(`[SMS] Failed to send SMS (${response.status}): ${errorText}`);
-      return false;
-    }
-
-    console.log(`[SMS] Successfully sent SMS to ${formattedPhone}`);
-    return true;
-  } catch (error) {
-    console.error("[SMS] Error sending SMS:", error);
-    return false;
+  const result = await provider.send(to, body);
+  if (result.ok) {
+    console.log(`[SMS] Successfully sent SMS to ${to} via ${provider.name} (${segments} ${encoding} segment(s), ID: ${result.providerMessageId || "unknown"})`);
+  } else {
+    console.warn(`[SMS] Failed to send SMS to ${to} via ${provider.name}: ${result.error}`);
   }
+  return result;
 }
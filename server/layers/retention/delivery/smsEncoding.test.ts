@@ -0,0 +1,113 @@
+import { createHmac } from "crypto";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { countSmsSegments, splitSmsSegments, toE164, truncateToSegments } from "./smsEncoding";
+import { createFakeSmsProvider, readFakeSmsMessages } from "./smsProviders/fake";
+import { createOpenPhoneProvider } from "./smsProviders/openphone";
+import { createTwilioProvider, getTwilioSignature } from "./smsProviders/twilio";
+
+describe("toE164", () => {
+  it.each([
+    ["5165551234", "+15165551234"],
+    ["(516) 555-1234", "+15165551234"],
+    ["1-516-555-1234", "+15165551234"],
+    ["+1 516 555 1234", "+15165551234"],
+    ["+44 20 7946 0958", "+442079460958"],
+    ["011 44 20 7946 0958", "+442079460958"],
+  ])("normalizes %s", (input, expected) => {
+    expect(toE164(input)).toBe(expected);
+  });
+
+  it.each(["555-1234", "0165551234", "+1 116 555 1234", "+1 516 155 1234", "+1234567890123456", ""])(
+    "rejects %s",
+    (input) => {
+      expect(toE164(input)).toBeNull();
+    }
+  );
+});
+
+describe("SMS segments", () => {
+  it("fits 160 GSM-7 characters in one segment", () => {
+    expect(countSmsSegments("a".repeat(160))).toEqual({ encoding: "GSM-7", units: 160, segments: 1 });
+    expect(countSmsSegments("a".repeat(161))).toEqual({ encoding: "GSM-7", units: 161, segments: 2 });
+    expect(countSmsSegments("a".repeat(306)).segments).toBe(2);
+    expect(countSmsSegments("a".repeat(307)).segments).toBe(3);
+  });
+
+  it("counts extension characters as two septets", () => {
+    expect(countSmsSegments("€".repeat(80))).toEqual({ encoding: "GSM-7", units: 160, segments: 1 });
+    expect(countSmsSegments(`${"a".repeat(159)}[`).segments).toBe(2);
+  });
+
+  it("never splits an escaped character across segments", () => {
+    const segments = splitSmsSegments(`${"a".repeat(152)}€${"a".repeat(10)}`);
+    expect(segments[0]).toBe("a".repeat(152));
+    expect(segments[1].startsWith("€")).toBe(true);
+  });
+
+  it("switches to UCS-2 for characters outside the GSM alphabet", () => {
+    expect(countSmsSegments(`SE 140° ${"a".repeat(62)}`)).toEqual({ encoding: "UCS-2", units: 70, segments: 1 });
+    expect(countSmsSegments(`SE 140° ${"a".repeat(63)}`).segments).toBe(2);
+    expect(countSmsSegments("🌊").units).toBe(2);
+  });
+
+  it("truncates to a segment limit with an ellipsis", () => {
+    const truncated = truncateToSegments("word ".repeat(100), 2);
+    expect(truncated.endsWith("...")).toBe(true);
+    expect(countSmsSegments(truncated).segments).toBe(2);
+    expect(truncateToSegments("short", 1)).toBe("short");
+  });
+});
+
+describe("SMS providers", () => {
+  const dir = mkdtempSync(join(tmpdir(), "fake-sms-"));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("fake provider writes messages to its file", async () => {
+    const file = join(dir, "sms.jsonl");
+    const provider = createFakeSmsProvider(file);
+    const result = await provider.send("+15165551234", "LONG BEACH WILL BE GOOD");
+
+    expect(result.ok).toBe(true);
+    expect(readFakeSmsMessages(file)).toMatchObject([
+      { id: result.providerMessageId, to: "+15165551234", encoding: "GSM-7", segments: 1 },
+    ]);
+    expect(
+      provider.parseStatusWebhook({
+        url: "",
+        headers: {},
+        rawBody: JSON.stringify({ messageId: result.providerMessageId, status: "delivered" }),
+      })
+    ).toEqual([{ providerMessageId: result.providerMessageId, status: "delivered", error: undefined }]);
+  });
+
+  it("verifies Twilio status callbacks", () => {
+    const provider = createTwilioProvider({ accountSid: "AC123", authToken: "secret" });
+    const url = "https://www.nycsurfco.com/api/webhooks/sms/twilio";
+    const rawBody = "MessageSid=SM123&MessageStatus=undelivered&ErrorCode=30003";
+    const signature = getTwilioSignature("secret", url, new URLSearchParams(rawBody));
+
+    expect(provider.parseStatusWebhook({ url, headers: { "x-twilio-signature": signature }, rawBody })).toEqual([
+      { providerMessageId: "SM123", status: "undelivered", error: "Twilio error 30003" },
+    ]);
+    expect(
+      provider.parseStatusWebhook({ url, headers: { "x-twilio-signature": signature }, rawBody: rawBody.replace("undelivered", "delivered") })
+    ).toBeNull();
+  });
+
+  it("verifies OpenPhone webhooks", () => {
+    const secret = Buffer.from("webhook-secret").toString("base64");
+    const provider = createOpenPhoneProvider({ apiKey: "key", apiUrl: "", from: "+15165550000", webhookSecret: secret });
+    const rawBody = JSON.stringify({ type: "message.delivered", data: { object: { id: "AC456", status: "delivered" } } });
+    const digest = createHmac("sha256", Buffer.from(secret, "base64")).update(`1700000000.${rawBody}`).digest("base64");
+
+    expect(
+      provider.parseStatusWebhook({ url: "", headers: { "openphone-signature": `hmac;1;1700000000;${digest}` }, rawBody })
+    ).toEqual([{ providerMessageId: "AC456", status: "delivered" }]);
+    expect(
+      provider.parseStatusWebhook({ url: "", headers: { "openphone-signature": `hmac;1;1700000001;${digest}` }, rawBody })
+    ).toBeNull();
+  });
+});
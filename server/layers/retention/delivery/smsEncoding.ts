@@ -0,0 +1,123 @@
+/**
+ * SMS Encoding
+ *
+ * Phone number normalization and segment counting. A message that only uses the GSM 03.38
+ * alphabet is sent as GSM-7 (160 characters, or 153 per segment once it's split, with
+ * extension characters like € and [ taking two); one character outside it (an emoji, a
+ * curly quote, "…") switches the whole message to UCS-2 (70, or 67 per segment, counted
+ * in UTF-16 code units). Providers bill per segment.
+ */
+
+const GSM7_BASIC =
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?" +
+  "¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+const GSM7_EXTENSION = "\f^{}\\[~]|€";
+
+const GSM7_BASIC_SET = new Set(Array.from(GSM7_BASIC));
+const GSM7_EXTENSION_SET = new Set(Array.from(GSM7_EXTENSION));
+
+export type SmsEncoding = "GSM-7" | "UCS-2";
+
+const LIMITS: Record<SmsEncoding, { single: number; multipart: number }> = {
+  "GSM-7": { single: 160, multipart: 153 }, // Septets; the rest of a multipart segment is the UDH header
+  "UCS-2": { single: 70, multipart: 67 }, // UTF-16 code units
+};
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  units: number; // Septets (GSM-7) or UTF-16 code units (UCS-2)
+  segments: number;
+}
+
+/**
+ * Normalize a phone number to E.164 (+15165551234); bare 10-digit numbers are taken as US.
+ *
+ * @returns null if the number can't be a valid E.164 number
+ */
+export function toE164(phone: string): string | null {
+  const trimmed = phone.trim();
+  let digits = trimmed.replace(/\D/g, "");
+
+  if (!trimmed.startsWith("+")) {
+    if (digits.startsWith("011")) digits = digits.slice(3); // US international dialing prefix
+    else if (digits.length === 10) digits = `1${digits}`;
+    else if (!(digits.length === 11 && digits.startsWith("1"))) return null;
+  }
+
+  if (digits.length < 8 || digits.length > 15 || digits.startsWith("0")) return null;
+
+  // North American numbers: area code and exchange can't start with 0 or 1
+  if (digits.startsWith("1") && (digits.length !== 11 || /^1[01]|^1\d{3}[01]/.test(digits))) return null;
+
+  return `+${digits}`;
+}
+
+export function getSmsEncoding(text: string): SmsEncoding {
+  for (const char of Array.from(text)) {
+    if (!GSM7_BASIC_SET.has(char) && !GSM7_EXTENSION_SET.has(char)) return "UCS-2";
+  }
+  return "GSM-7";
+}
+
+/**
+ * Size of one character in the message's encoding
+ */
+function charUnits(char: string, encoding: SmsEncoding): number {
+  if (encoding === "UCS-2") return char.length; // Astral characters (emoji) are surrogate pairs
+  return GSM7_EXTENSION_SET.has(char) ? 2 : 1;
+}
+
+/**
+ * Split a message the way the carrier will. An escaped GSM-7 character or a surrogate pair
+ * is never split across segments, so this can give one more segment than units / 153.
+ */
+export function splitSmsSegments(text: string): string[] {
+  const encoding = getSmsEncoding(text);
+  const chars = Array.from(text);
+  const total = chars.reduce((sum, char) => sum + charUnits(char, encoding), 0);
+  if (total <= LIMITS[encoding].single) return text.length > 0 ? [text] : [];
+
+  const segments: string[] = [];
+  let current = "";
+  let units = 0;
+  for (const char of chars) {
+    const size = charUnits(char, encoding);
+    if (units + size > LIMITS[encoding].multipart) {
+      segments.push(current);
+      current = "";
+      units = 0;
+    }
+    current += char;
+    units += size;
+  }
+  if (current) segments.push(current);
+  return segments;
+}
+
+export function countSmsSegments(text: string): SmsSegmentInfo {
+  const encoding = getSmsEncoding(text);
+  return {
+    encoding,
+    units: Array.from(text).reduce((sum, char) => sum + charUnits(char, encoding), 0),
+    segments: splitSmsSegments(text).length,
+  };
+}
+
+/**
+ * Shorten a message to at most `maxSegments` segments, ending it with "..." if cut
+ */
+export function truncateToSegments(text: string, maxSegments: number): string {
+  if (splitSmsSegments(text).length <= maxSegments) return text;
+
+  // Longest prefix that still fits with "..." appended (segment count only grows with length)
+  const chars = Array.from(text);
+  const withEllipsis = (end: number) => `${chars.slice(0, end).join("").trimEnd()}...`;
+  let low = 0;
+  let high = chars.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (splitSmsSegments(withEllipsis(mid)).length <= maxSegments) low = mid;
+    else high = mid - 1;
+  }
+  return withEllipsis(low);
+}
@@ -0,0 +1,75 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { randomUUID } from "crypto";
+import { countSmsSegments } from "../smsEncoding";
+import type { SmsDeliveryStatus, SmsProvider } from "./types";
+
+const STATUSES: SmsDeliveryStatus[] = ["queued", "sent", "delivered", "undelivered", "failed"];
+
+/**
+ * One line of the fake provider's file
+ */
+export interface FakeSmsMessage {
+  id: string;
+  to: string;
+  body: string;
+  encoding: string;
+  segments: number;
+  sentAt: string;
+}
+
+/**
+ * Writes messages to a JSON-lines file instead of sending them, for dev and tests.
+ * Its status webhook takes unsigned JSON ({ "messageId": "...", "status": "delivered" }),
+ * so delivery updates can be simulated with curl.
+ */
+export function createFakeSmsProvider(filePath: string): SmsProvider {
+  return {
+    name: "fake",
+
+    async send(to, body) {
+      const { encoding, segments } = countSmsSegments(body);
+      const message: FakeSmsMessage = {
+        id: `fake_${randomUUID()}`,
+        to,
+        body,
+        encoding,
+        segments,
+        sentAt: new Date().toISOString(),
+      };
+
+      try {
+        mkdirSync(dirname(filePath), { recursive: true });
+        appendFileSync(filePath, `${JSON.stringify(message)}\n`);
+      } catch (error: any) {
+        return { ok: false, provider: "fake", providerMessageId: null, error: error?.message || "Unknown error" };
+      }
+
+      console.log(`[SMS Fake] ${to} (${segments} ${encoding} segment(s)): "${body.substring(0, 50)}..."`);
+      return { ok: true, provider: "fake", providerMessageId: message.id };
+    },
+
+    parseStatusWebhook(request) {
+      let update: { messageId?: string; status?: SmsDeliveryStatus; error?: string };
+      try {
+        update = JSON.parse(request.rawBody);
+      } catch {
+        return [];
+      }
+      if (!update.messageId || !update.status || !STATUSES.includes(update.status)) return [];
+      return [{ providerMessageId: update.messageId, status: update.status, error: update.error }];
+    },
+  };
+}
+
+export function readFakeSmsMessages(filePath: string): FakeSmsMessage[] {
+  if (!existsSync(filePath)) return [];
+  return readFileSync(filePath, "utf8")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as FakeSmsMessage);
+}
+
+export function clearFakeSmsMessages(filePath: string): void {
+  if (existsSync(filePath)) writeFileSync(filePath, "");
+}
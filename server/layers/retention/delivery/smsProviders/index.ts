@@ -0,0 +1,82 @@
+/**
+ * SMS Providers
+ *
+ * SMS_PROVIDER picks the provider ("twilio", "openphone" or "fake"). Without it, the first
+ * configured one is used: Twilio (TWILIO_ACCOUNT_SID + TWILIO_AUTH_TOKEN), then OpenPhone
+ * (OPENPHONE_API_KEY or QUO_API_KEY), then the fake provider outside production. In
+ * production with nothing configured there is no provider and SMS sends fail, rather than
+ * being counted as sent.
+ */
+
+import { resolve } from "path";
+import { ENV } from "../../../../_core/env";
+import { createFakeSmsProvider } from "./fake";
+import { createOpenPhoneProvider } from "./openphone";
+import { createTwilioProvider } from "./twilio";
+import type { SmsProvider, SmsProviderName } from "./types";
+
+export type { SmsDeliveryStatus, SmsProvider, SmsProviderName, SmsStatusUpdate, SmsWebhookRequest } from "./types";
+
+export const SMS_PROVIDER_NAMES: SmsProviderName[] = ["twilio", "openphone", "fake"];
+
+export function getFakeSmsFilePath(): string {
+  return process.env.SMS_FAKE_FILE || resolve(process.cwd(), ".data/fake-sms.jsonl");
+}
+
+/**
+ * URL the provider posts delivery status updates to
+ */
+export function getSmsStatusWebhookUrl(name: SmsProviderName): string {
+  const baseUrl = (process.env.BASE_URL || process.env.PUBLIC_URL || "https://www.nycsurfco.com").replace(/\/$/, "");
+  return `${baseUrl}/api/webhooks/sms/${name}`;
+}
+
+/**
+ * A provider by name, or null if it isn't configured (the fake provider is never available in production)
+ */
+export function getSmsProviderByName(name: SmsProviderName): SmsProvider | null {
+  switch (name) {
+    case "twilio": {
+      const accountSid = process.env.TWILIO_ACCOUNT_SID;
+      const authToken = process.env.TWILIO_AUTH_TOKEN;
+      if (!accountSid || !authToken) return null;
+      return createTwilioProvider({
+        accountSid,
+        authToken,
+        from: process.env.TWILIO_FROM_NUMBER,
+        messagingServiceSid: process.env.TWILIO_MESSAGING_SERVICE_SID,
+        statusCallbackUrl: getSmsStatusWebhookUrl("twilio"),
+      });
+    }
+    case "openphone": {
+      const apiKey = process.env.OPENPHONE_API_KEY || ENV.quoApiKey;
+      const from = process.env.OPENPHONE_FROM_NUMBER;
+      if (!apiKey || !from) return null;
+      return createOpenPhoneProvider({
+        apiKey,
+        apiUrl: process.env.OPENPHONE_API_URL || process.env.QUO_API_URL || "https://api.openphone.com",
+        from,
+        webhookSecret: process.env.OPENPHONE_WEBHOOK_SECRET,
+      });
+    }
+    case "fake":
+      return ENV.isProduction ? null : createFakeSmsProvider(getFakeSmsFilePath());
+  }
+}
+
+export function getSmsProvider(): SmsProvider | null {
+  const configured = process.env.SMS_PROVIDER as SmsProviderName | undefined;
+  if (configured) {
+    if (!SMS_PROVIDER_NAMES.includes(configured)) {
+      console.warn(`[SMS] Unknown SMS_PROVIDER "${configured}"`);
+      return null;
+    }
+    return getSmsProviderByName(configured);
+  }
+
+  for (const name of SMS_PROVIDER_NAMES) {
+    const provider = getSmsProviderByName(name);
+    if (provider) return provider;
+  }
+  return null;
+}
@@ -0,0 +1,85 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { isRetryableStatus } from "../types";
+import { getHeader, type SmsDeliveryStatus, type SmsProvider } from "./types";
+
+export interface OpenPhoneConfig {
+  apiKey: string;
+  apiUrl: string;
+  from: string; // OpenPhone number (E.164) or phone number id (PN…)
+  webhookSecret?: string; // Base64 signing secret of the message.delivered webhook
+}
+
+const STATUS_MAP: Record<string, SmsDeliveryStatus> = {
+  queued: "queued",
+  sent: "sent",
+  delivered: "delivered",
+  undelivered: "undelivered",
+  failed: "failed",
+};
+
+/**
+ * openphone-signature: "hmac;1;<timestamp>;<base64 HMAC-SHA256 of `${timestamp}.${rawBody}`>",
+ * keyed with the base64-decoded webhook secret
+ */
+export function verifyOpenPhoneSignature(header: string, rawBody: string, secret: string): boolean {
+  const [scheme, version, timestamp, signature] = header.split(";");
+  if (scheme !== "hmac" || version !== "1" || !timestamp || !signature) return false;
+
+  const expected = createHmac("sha256", Buffer.from(secret, "base64"))
+    .update(`${timestamp}.${rawBody}`)
+    .digest();
+  const actual = Buffer.from(signature, "base64");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function createOpenPhoneProvider(config: OpenPhoneConfig): SmsProvider {
+  return {
+    name: "openphone",
+
+    async send(to, body) {
+      try {
+        const response = await fetch(`${config.apiUrl}/v1/messages`, {
+          method: "POST",
+          headers: {
+            "Authorization": config.apiKey,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ content: body, from: config.from, to: [to] }),
+        });
+        const data = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          return {
+            ok: false,
+            provider: "openphone",
+            providerMessageId: null,
+            error: `OpenPhone ${response.status}: ${data?.message || "Unknown error"}`,
+            retryable: isRetryableStatus(response.status),
+          };
+        }
+        return { ok: true, provider: "openphone", providerMessageId: data?.data?.id ?? null };
+      } catch (error: any) {
+        return { ok: false, provider: "openphone", providerMessageId: null, error: error?.message || "Unknown error" };
+      }
+    },
+
+    parseStatusWebhook(request) {
+      const signature = getHeader(request, "openphone-signature");
+      if (!config.webhookSecret || !signature || !verifyOpenPhoneSignature(signature, request.rawBody, config.webhookSecret)) {
+        return null;
+      }
+
+      let event: any;
+      try {
+        event = JSON.parse(request.rawBody);
+      } catch {
+        return [];
+      }
+
+      const message = event?.data?.object;
+      const status = STATUS_MAP[message?.status ?? ""] ?? (event?.type === "message.delivered" ? "delivered" : undefined);
+      if (!message?.id || !status) return [];
+      return [{ providerMessageId: message.id, status }];
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { isRetryableStatus } from "../types";
+import { getHeader, type SmsDeliveryStatus, type SmsProvider } from "./types";
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  from?: string; // Sending number (E.164), or…
+  messagingServiceSid?: string; // …a messaging service
+  statusCallbackUrl?: string; // Where Twilio posts delivery status updates
+}
+
+const TWILIO_API_URL = "https://api.twilio.com/2010-04-01";
+
+const STATUS_MAP: Record<string, SmsDeliveryStatus> = {
+  accepted: "queued",
+  scheduled: "queued",
+  queued: "queued",
+  sending: "queued",
+  sent: "sent",
+  delivered: "delivered",
+  read: "delivered",
+  undelivered: "undelivered",
+  failed: "failed",
+  canceled: "failed",
+};
+
+/**
+ * X-Twilio-Signature: base64 HMAC-SHA1 of the URL followed by each POST parameter
+ * (sorted by name) as name + value, keyed with the auth token
+ */
+export function getTwilioSignature(authToken: string, url: string, params: URLSearchParams): string {
+  const keys = Array.from(new Set(Array.from(params.keys()))).sort();
+  const data = keys.reduce((acc, key) => acc + params.getAll(key).map((value) => key + value).join(""), url);
+  return createHmac("sha1", authToken).update(data).digest("base64");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+export function createTwilioProvider(config: TwilioConfig): SmsProvider {
+  return {
+    name: "twilio",
+
+    async send(to, body) {
+      const form = new URLSearchParams({ To: to, Body: body });
+      if (config.messagingServiceSid) form.set("MessagingServiceSid", config.messagingServiceSid);
+      else if (config.from) form.set("From", config.from);
+      if (config.statusCallbackUrl) form.set("StatusCallback", config.statusCallbackUrl);
+
+      try {
+        const response = await fetch(`${TWILIO_API_URL}/Accounts/${config.accountSid}/Messages.json`, {
+          method: "POST",
+          headers: {
+            "Authorization": `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString("base64")}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: form.toString(),
+        });
+        const data = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          return {
+            ok: false,
+            provider: "twilio",
+            providerMessageId: null,
+            error: `Twilio ${response.status}${data?.code ? ` (${data.code})` : ""}: ${data?.message || "Unknown error"}`,
+            retryable: isRetryableStatus(response.status),
+          };
+        }
+        return { ok: true, provider: "twilio", providerMessageId: data.sid ?? null };
+      } catch (error: any) {
+        return { ok: false, provider: "twilio", providerMessageId: null, error: error?.message || "Unknown error" };
+      }
+    },
+
+    parseStatusWebhook(request) {
+      const params = new URLSearchParams(request.rawBody);
+      const signature = getHeader(request, "x-twilio-signature");
+      if (!signature || !safeEqual(signature, getTwilioSignature(config.authToken, request.url, params))) {
+        return null;
+      }
+
+      const sid = params.get("MessageSid");
+      const status = STATUS_MAP[params.get("MessageStatus") ?? ""];
+      if (!sid || !status) return [];
+
+      const errorCode = params.get("ErrorCode");
+      return [{ providerMessageId: sid, status, error: errorCode ? `Twilio error ${errorCode}` : undefined }];
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { DeliveryResult } from "../types";
+
+export type SmsProviderName = "twilio" | "openphone" | "fake";
+
+/**
+ * Delivery status reported by a provider's status webhook, mapped to a common set
+ */
+export type SmsDeliveryStatus = "queued" | "sent" | "delivered" | "undelivered" | "failed";
+
+export interface SmsStatusUpdate {
+  providerMessageId: string;
+  status: SmsDeliveryStatus;
+  error?: string;
+}
+
+export interface SmsWebhookRequest {
+  url: string; // Public URL the provider posted to (signatures cover it)
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: string;
+}
+
+export interface SmsProvider {
+  name: SmsProviderName;
+  /**
+   * Send one message; `to` is already E.164 and the body already fits the segment limit
+   */
+  send(to: string, body: string): Promise<DeliveryResult>;
+  /**
+   * Status updates in a webhook request, or null if its signature doesn't verify
+   */
+  parseStatusWebhook(request: SmsWebhookRequest): SmsStatusUpdate[] | null;
+}
+
+export function getHeader(request: SmsWebhookRequest, name: string): string | undefined {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,43 @@
+import express, { type Express, type Request, type Response } from "express";
+import { recordSmsDeliveryStatus } from "../../../db";
+import { getSmsProviderByName, getSmsStatusWebhookUrl, SMS_PROVIDER_NAMES, type SmsProviderName } from "./smsProviders";
+
+/**
+ * Delivery status webhooks: POST /api/webhooks/sms/:provider
+ *
+ * Signatures are computed over the raw body, so these routes parse it themselves and must
+ * be registered before the global JSON / urlencoded body parsers.
+ */
+export function registerSmsWebhookRoutes(app: Express) {
+  app.post("/api/webhooks/sms/:provider", express.raw({ type: "*/*", limit: "1mb" }), async (req: Request, res: Response) => {
+    const name = req.params.provider as SmsProviderName;
+    const provider = SMS_PROVIDER_NAMES.includes(name) ? getSmsProviderByName(name) : null;
+    if (!provider) {
+      res.status(404).json({ error: "Unknown SMS provider" });
+      return;
+    }
+
+    const updates = provider.parseStatusWebhook({
+      url: getSmsStatusWebhookUrl(name),
+      headers: req.headers,
+      rawBody: Buffer.isBuffer(req.body) ? req.body.toString("utf8") : "",
+    });
+    if (!updates) {
+      console.warn(`[SMS Webhook] ${name}: invalid signature`);
+      res.status(403).json({ error: "Invalid signature" });
+      return;
+    }
+
+    try {
+      for (const update of updates) {
+        const found = await recordSmsDeliveryStatus(update);
+        // A status can arrive before the outbox has stored the message id; later updates still land
+        console.log(`[SMS Webhook] ${name}: ${update.providerMessageId} ${update.status}${found ? "" : " (no matching message)"}`);
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error(`[SMS Webhook] ${name}: failed to record status:`, error);
+      res.status(500).json({ error: "Failed to record status" }); // Providers retry on 5xx
+    }
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Outcome of one delivery attempt (used by the notification outbox)
+ */
+export interface DeliveryResult {
+  ok: boolean;
+  provider?: string; // "resend", "twilio", "openphone", "fake", "webpush"
+  providerMessageId: string | null; // e.g. Resend email id, Twilio message SID, push message id
+  error?: string;
+  retryable?: boolean; // false = retrying won't help (e.g. invalid address); defaults to true
+}
+
+/**
+ * 4xx responses other than 408/429 are the request's fault and won't succeed on retry
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import type { SurfSpot, SwellAlertLog } from "../../../drizzle/schema";
+import { getLocalTime, groupDigestSwells, isDigestDue, mergeDigestSwells } from "./digest";
+import type { DetectedSwell } from "./swellDetection";
+
+const HOUR = 60 * 60 * 1000;
+
+function swell(spotId: number, start: string, peakQualityScore: number, alertId = 1): DetectedSwell {
+  const swellStartTime = new Date(start);
+  return {
+    alertId,
+    userId: 7,
+    spotId,
+    swellStartTime,
+    swellEndTime: new Date(swellStartTime.getTime() + 6 * HOUR),
+    peakWaveHeightFt: 3,
+    peakSwellHeightFt: 2.5,
+    peakQualityScore,
+    avgQualityScore: peakQualityScore - 5,
+    avgPeriodSec: 9,
+    swellDirectionDeg: 135,
+    swellDirectionCompass: "SE",
+    windDirectionDeg: 315,
+    windDirectionCompass: "NW",
+    windSpeedMph: 8,
+    windGustsMph: null,
+    conditions: [],
+  };
+}
+
+const spots = [
+  { id: 1, name: "Lido Beach" },
+  { id: 2, name: "Long Beach" },
+] as SurfSpot[];
+
+describe("digest timing", () => {
+  it("uses the user's wall clock", () => {
+    // 02:30 UTC Saturday is still Friday evening in New York
+    expect(getLocalTime(new Date("2026-01-03T02:30:00Z"), "America/New_York")).toEqual({
+      localDate: "2026-01-02",
+      hour: 21,
+      dayOfWeek: 5,
+    });
+    expect(getLocalTime(new Date("2026-01-03T02:30:00Z"), "Not/A_Zone").localDate).toBe("2026-01-02");
+    expect(getLocalTime(new Date("2026-01-03T00:00:00Z"), "UTC").hour).toBe(0);
+  });
+
+  it("is due from the digest hour on, weekly only on its day", () => {
+    const schedule = { digestHour: 7, digestDayOfWeek: 4 };
+    expect(isDigestDue("daily_digest", schedule, { localDate: "2026-01-01", hour: 6, dayOfWeek: 4 })).toBe(false);
+    expect(isDigestDue("daily_digest", schedule, { localDate: "2026-01-02", hour: 7, dayOfWeek: 5 })).toBe(true);
+    expect(isDigestDue("weekly_digest", schedule, { localDate: "2026-01-02", hour: 9, dayOfWeek: 5 })).toBe(false);
+    expect(isDigestDue("weekly_digest", schedule, { localDate: "2026-01-01", hour: 9, dayOfWeek: 4 })).toBe(true);
+  });
+});
+
+describe("digest contents", () => {
+  it("drops swells the user was already told about and keeps the better of duplicates", () => {
+    const notified = [
+      { spotId: 2, swellStartTime: new Date("2026-01-03T14:00:00Z") },
+    ] as SwellAlertLog[];
+    const merged = mergeDigestSwells(
+      [
+        swell(1, "2026-01-04T12:00:00Z", 62, 1),
+        swell(1, "2026-01-04T15:00:00Z", 70, 2), // Same swell at Lido from another alert
+        swell(2, "2026-01-03T18:00:00Z", 75), // Already sent (within 12h)
+        swell(1, "2026-01-03T12:00:00Z", 66),
+      ],
+      notified
+    );
+
+    expect(merged.map((s) => [s.spotId, s.peakQualityScore])).toEqual([
+      [1, 66],
+      [1, 70],
+    ]);
+  });
+
+  it("groups by local day, best spot first", () => {
+    const days = groupDigestSwells(
+      [
+        swell(1, "2026-01-03T14:00:00Z", 60),
+        swell(2, "2026-01-03T16:00:00Z", 72),
+        swell(1, "2026-01-04T03:00:00Z", 65), // 10 PM Saturday in New York
+        swell(2, "2026-01-04T14:00:00Z", 68),
+      ],
+      spots,
+      "America/New_York"
+    );
+
+    expect(days.map((day) => [day.localDate, day.spots.map((g) => [g.spot.id, g.swells.length])])).toEqual([
+      ["2026-01-03", [[2, 1], [1, 2]]],
+      ["2026-01-04", [[2, 1]]],
+    ]);
+  });
+});
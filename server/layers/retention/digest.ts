@@ -0,0 +1,163 @@
+/**
+ * Swell Digests
+ *
+ * Alerts with notificationFrequency "daily_digest" or "weekly_digest" don't go out per swell.
+ * The swell-digests job (jobs/sendSwellDigests.ts) runs hourly; once it's past a user's
+ * digestHour in their timezone (and on their digestDayOfWeek, for weekly), it collects every
+ * swell their digest alerts detect that they haven't already been told about, groups them by
+ * day and spot, and sends one email. Included swells are logged with the digest's id, so
+ * checkSwellAlerts won't send them again as immediate alerts and the next digest skips them.
+ */
+
+import type { SurfSpot, SwellAlert, SwellAlertLog } from "../../../drizzle/schema";
+import { SWELL_LOG_TOLERANCE_MS } from "../../db";
+import { detectUpcomingSwells, selectBestSpotOnly, type DetectedSwell } from "./swellDetection";
+
+export type DigestFrequency = "daily_digest" | "weekly_digest";
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ["daily_digest", "weekly_digest"];
+
+export const DEFAULT_DIGEST_TIMEZONE = "America/New_York";
+
+export interface DigestSchedule {
+  digestHour: number; // 0-23, local
+  digestDayOfWeek: number; // 0=Sun, weekly only
+}
+
+export interface LocalTime {
+  localDate: string; // YYYY-MM-DD
+  hour: number; // 0-23
+  dayOfWeek: number; // 0=Sun
+}
+
+export interface DigestSpotGroup {
+  spot: SurfSpot;
+  swells: DetectedSwell[];
+}
+
+export interface DigestDay {
+  localDate: string;
+  spots: DigestSpotGroup[]; // Best peak score first
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function isDigestFrequency(frequency: string | null | undefined): frequency is DigestFrequency {
+  return DIGEST_FREQUENCIES.includes(frequency as DigestFrequency);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date, hour and weekday in `timeZone` (Eastern if it isn't a valid IANA zone)
+ */
+export function getLocalTime(date: Date, timeZone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_DIGEST_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "numeric",
+    hourCycle: "h23",
+    weekday: "short",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    localDate: `${part("year")}-${part("month")}-${part("day")}`,
+    hour: parseInt(part("hour"), 10),
+    dayOfWeek: WEEKDAYS.indexOf(part("weekday")),
+  };
+}
+
+/**
+ * Whether today's digest should go out by now. Callers check that it hasn't already
+ * (swell_digests has one row per user, frequency and local date).
+ */
+export function isDigestDue(frequency: DigestFrequency, schedule: DigestSchedule, local: LocalTime): boolean {
+  if (local.hour < schedule.digestHour) return false;
+  return frequency === "daily_digest" || local.dayOfWeek === schedule.digestDayOfWeek;
+}
+
+function isSameSwell(a: { spotId: number; swellStartTime: Date }, b: { spotId: number; swellStartTime: Date }): boolean {
+  return (
+    a.spotId === b.spotId &&
+    Math.abs(a.swellStartTime.getTime() - b.swellStartTime.getTime()) <= SWELL_LOG_TOLERANCE_MS
+  );
+}
+
+/**
+ * Merge swells detected by several alerts: the user hasn't been notified about any of them
+ * yet (`notified`), and when two alerts catch the same swell the better-scoring one is kept.
+ */
+export function mergeDigestSwells(detected: DetectedSwell[], notified: SwellAlertLog[]): DetectedSwell[] {
+  const merged: DetectedSwell[] = [];
+
+  for (const swell of detected) {
+    if (notified.some((log) => isSameSwell(log, swell))) continue;
+
+    const existing = merged.findIndex((other) => isSameSwell(other, swell));
+    if (existing === -1) merged.push(swell);
+    else if (swell.peakQualityScore > merged[existing].peakQualityScore) merged[existing] = swell;
+  }
+
+  return merged.sort((a, b) => a.swellStartTime.getTime() - b.swellStartTime.getTime());
+}
+
+/**
+ * Every swell a user's digest alerts detect that they haven't been notified about.
+ * The calendar feed uses it too, with every active alert and nothing notified.
+ */
+export async function collectDigestSwells(
+  alerts: SwellAlert[],
+  spots: SurfSpot[],
+  notified: SwellAlertLog[],
+  now: Date = new Date()
+): Promise<DetectedSwell[]> {
+  const detected: DetectedSwell[] = [];
+
+  for (const alert of alerts) {
+    let swells = await detectUpcomingSwells(alert, spots, now);
+    swells = swells.filter((swell) => swell.peakQualityScore >= (alert.minQualityScore || 0));
+    if (alert.spotId === null && swells.length > 1) swells = selectBestSpotOnly(swells);
+    detected.push(...swells);
+  }
+
+  return mergeDigestSwells(detected, notified);
+}
+
+/**
+ * Group swells by the local day they start, then by spot
+ */
+export function groupDigestSwells(swells: DetectedSwell[], spots: SurfSpot[], timeZone: string): DigestDay[] {
+  const days = new Map<string, Map<number, DigestSpotGroup>>();
+
+  for (const swell of swells) {
+    const spot = spots.find((s) => s.id === swell.spotId);
+    if (!spot) continue;
+
+    const { localDate } = getLocalTime(swell.swellStartTime, timeZone);
+    const daySpots = days.get(localDate) ?? new Map<number, DigestSpotGroup>();
+    days.set(localDate, daySpots);
+
+    const group = daySpots.get(spot.id) ?? { spot, swells: [] };
+    group.swells.push(swell);
+    daySpots.set(spot.id, group);
+  }
+
+  const bestScore = (group: DigestSpotGroup) => Math.max(...group.swells.map((s) => s.peakQualityScore));
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([localDate, daySpots]) => ({
+      localDate,
+      spots: Array.from(daySpots.values()).sort((a, b) => bestScore(b) - bestScore(a)),
+    }));
+}
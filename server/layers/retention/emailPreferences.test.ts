@@ -0,0 +1,53 @@
+import { SignJWT } from "jose";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.stubEnv("JWT_SECRET", "test-secret");
+
+let prefs: typeof import("./emailPreferences");
+
+beforeAll(async () => {
+  prefs = await import("./emailPreferences");
+});
+
+describe("email preference tokens", () => {
+  it("round-trips a pause-alert token", async () => {
+    const token = await prefs.signEmailPreferenceToken({ userId: 7, action: "pause_alert", alertId: 42 });
+    expect(await prefs.verifyEmailPreferenceToken(token)).toEqual({ userId: 7, action: "pause_alert", alertId: 42 });
+  });
+
+  it("rejects tampered, foreign and expired tokens", async () => {
+    const token = await prefs.signEmailPreferenceToken({ userId: 7, action: "snooze_alerts" });
+    const [header, , signature] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ uid: 8, act: "snooze_alerts", aud: "email-preferences" })).toString("base64url");
+    expect(await prefs.verifyEmailPreferenceToken(`${header}.${forged}.${signature}`)).toBeNull();
+
+    const secret = new TextEncoder().encode("test-secret");
+    const session = await new SignJWT({ uid: 7, act: "snooze_alerts" }).setProtectedHeader({ alg: "HS256" }).sign(secret);
+    expect(await prefs.verifyEmailPreferenceToken(session)).toBeNull(); // No email-preferences audience
+
+    const expired = await new SignJWT({ uid: 7, act: "snooze_alerts" })
+      .setProtectedHeader({ alg: "HS256" })
+      .setAudience("email-preferences")
+      .setExpirationTime(Math.floor(Date.now() / 1000) - 60)
+      .sign(secret);
+    expect(await prefs.verifyEmailPreferenceToken(expired)).toBeNull();
+  });
+
+  it("requires an alert id to pause an alert", async () => {
+    const token = await prefs.signEmailPreferenceToken({ userId: 7, action: "pause_alert" });
+    expect(await prefs.verifyEmailPreferenceToken(token)).toBeNull();
+  });
+
+  it("requires a digest frequency to pause a digest", async () => {
+    const token = await prefs.signEmailPreferenceToken({ userId: 7, action: "pause_digest", digest: "weekly_digest" });
+    expect(await prefs.verifyEmailPreferenceToken(token)).toEqual({ userId: 7, action: "pause_digest", digest: "weekly_digest" });
+    const missing = await prefs.signEmailPreferenceToken({ userId: 7, action: "pause_digest" });
+    expect(await prefs.verifyEmailPreferenceToken(missing)).toBeNull();
+  });
+
+  it("builds one-click List-Unsubscribe headers", async () => {
+    const headers = await prefs.getListUnsubscribeHeaders({ userId: 7, action: "stop_report_prompts" });
+    expect(headers["List-Unsubscribe"]).toMatch(/^<https:\/\/.+\/api\/email\/unsubscribe\?token=[\w-]+\.[\w-]+\.[\w-]+>$/);
+    expect(headers["List-Unsubscribe-Post"]).toBe("List-Unsubscribe=One-Click");
+  });
+});
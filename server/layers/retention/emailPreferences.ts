@@ -0,0 +1,211 @@
+/**
+ * Email Preference Links
+ *
+ * Every outbound alert / report-prompt email carries signed, expiring links that work
+ * without signing in: pause the alert (or digest) that sent it, snooze all alerts for N days,
+ * or stop report prompts. Links open /email-preferences, which confirms before applying, so mail
+ * scanners that prefetch links can't unsubscribe anyone. The List-Unsubscribe header points
+ * at POST /api/email/unsubscribe instead (RFC 8058 one-click), which applies immediately.
+ */
+
+import type { Express, Request, Response } from "express";
+import { SignJWT, jwtVerify } from "jose";
+import { ENV } from "../../_core/env";
+import {
+  getAllSwellAlertsForUser,
+  getSwellAlertById,
+  getSpotById,
+  updateSwellAlert,
+  updateUserEmailPreferences,
+} from "../../db";
+import { isDigestFrequency, type DigestFrequency } from "./digest";
+
+export type EmailPreferenceAction = "pause_alert" | "pause_digest" | "snooze_alerts" | "stop_report_prompts";
+
+export interface EmailPreferenceToken {
+  userId: number;
+  action: EmailPreferenceAction;
+  alertId?: number; // pause_alert only
+  digest?: DigestFrequency; // pause_digest only
+}
+
+export interface EmailPreferenceLinks {
+  pauseAlertUrl: string | null;
+  pauseDigestUrl: string | null;
+  snoozeAlertsUrl: string;
+  stopReportPromptsUrl: string;
+}
+
+const TOKEN_AUDIENCE = "email-preferences";
+const TOKEN_TTL_MS = 60 * 24 * 60 * 60 * 1000; // 60 days: old emails still work for a while
+
+export const SNOOZE_DAY_OPTIONS = [1, 3, 7, 14, 30];
+const DEFAULT_SNOOZE_DAYS = 7;
+
+const ACTIONS: EmailPreferenceAction[] = ["pause_alert", "pause_digest", "snooze_alerts", "stop_report_prompts"];
+
+function getBaseUrl(): string {
+  return (process.env.APP_URL || "https://nycsurfco.com").replace(/\/$/, "");
+}
+
+function getTokenSecret(): Uint8Array {
+  if (!ENV.cookieSecret) throw new Error("JWT_SECRET environment variable is not set");
+  return new TextEncoder().encode(ENV.cookieSecret);
+}
+
+export async function signEmailPreferenceToken(token: EmailPreferenceToken): Promise<string> {
+  return new SignJWT({
+    uid: token.userId,
+    act: token.action,
+    ...(token.alertId ? { aid: token.alertId } : {}),
+    ...(token.digest ? { dig: token.digest } : {}),
+  })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setAudience(TOKEN_AUDIENCE)
+    .setExpirationTime(Math.floor((Date.now() + TOKEN_TTL_MS) / 1000))
+    .sign(getTokenSecret());
+}
+
+/**
+ * @returns null if the token is malformed, tampered with, or expired
+ */
+export async function verifyEmailPreferenceToken(token: string): Promise<EmailPreferenceToken | null> {
+  try {
+    const { payload } = await jwtVerify(token, getTokenSecret(), { audience: TOKEN_AUDIENCE, algorithms: ["HS256"] });
+    const { uid, act, aid, dig } = payload as { uid?: unknown; act?: unknown; aid?: unknown; dig?: unknown };
+    if (typeof uid !== "number" || !ACTIONS.includes(act as EmailPreferenceAction)) return null;
+    if (act === "pause_alert" && typeof aid !== "number") return null;
+    if (act === "pause_digest" && !isDigestFrequency(dig as string)) return null;
+    return {
+      userId: uid,
+      action: act as EmailPreferenceAction,
+      alertId: typeof aid === "number" ? aid : undefined,
+      ...(act === "pause_digest" ? { digest: dig as DigestFrequency } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function preferencePageUrl(token: EmailPreferenceToken): Promise<string> {
+  return `${getBaseUrl()}/email-preferences?token=${await signEmailPreferenceToken(token)}`;
+}
+
+/**
+ * Links for an email footer; `alertId` adds the pause-this-alert link, `digest` the pause-this-digest link
+ */
+export async function getEmailPreferenceLinks(
+  userId: number,
+  alertId?: number,
+  digest?: DigestFrequency
+): Promise<EmailPreferenceLinks> {
+  return {
+    pauseAlertUrl: alertId ? await preferencePageUrl({ userId, action: "pause_alert", alertId }) : null,
+    pauseDigestUrl: digest ? await preferencePageUrl({ userId, action: "pause_digest", digest }) : null,
+    snoozeAlertsUrl: await preferencePageUrl({ userId, action: "snooze_alerts" }),
+    stopReportPromptsUrl: await preferencePageUrl({ userId, action: "stop_report_prompts" }),
+  };
+}
+
+/**
+ * List-Unsubscribe headers: alert emails pause their alert, digests pause the digest, report prompts stop prompts
+ */
+export async function getListUnsubscribeHeaders(token: EmailPreferenceToken): Promise<Record<string, string>> {
+  const url = `${getBaseUrl()}/api/email/unsubscribe?token=${await signEmailPreferenceToken(token)}`;
+  return {
+    "List-Unsubscribe": `<${url}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
+
+/**
+ * The user's alerts that feed a digest
+ */
+async function getDigestAlerts(userId: number, digest: DigestFrequency) {
+  const alerts = await getAllSwellAlertsForUser(userId);
+  return alerts.filter((alert) => alert.notificationFrequency === digest);
+}
+
+/**
+ * What a token will do, for the confirmation page
+ */
+export async function describeEmailPreferenceToken(token: EmailPreferenceToken): Promise<{
+  action: EmailPreferenceAction;
+  alertLabel: string | null;
+  alertPaused: boolean;
+}> {
+  if (token.action === "pause_digest") {
+    const alerts = await getDigestAlerts(token.userId, token.digest!);
+    return {
+      action: token.action,
+      alertLabel: token.digest === "weekly_digest" ? "Your weekly swell digest" : "Your daily swell digest",
+      alertPaused: alerts.every((alert) => !!alert.pausedAt),
+    };
+  }
+  if (token.action !== "pause_alert" || !token.alertId) {
+    return { action: token.action, alertLabel: null, alertPaused: false };
+  }
+  const alert = await getSwellAlertById(token.alertId, token.userId);
+  const spot = alert?.spotId ? await getSpotById(alert.spotId) : null;
+  return {
+    action: token.action,
+    alertLabel: alert ? `${spot?.name ?? "Best spot"} · ${alert.minQualityScore ?? "Any"}+ quality` : null,
+    alertPaused: !!alert?.pausedAt,
+  };
+}
+
+/**
+ * Apply a token's action
+ *
+ * @returns When alerts are snoozed until (snooze_alerts only)
+ */
+export async function applyEmailPreferenceAction(
+  token: EmailPreferenceToken,
+  options: { snoozeDays?: number } = {}
+): Promise<{ snoozedUntil: Date | null }> {
+  switch (token.action) {
+    case "pause_alert": {
+      const alert = await getSwellAlertById(token.alertId!, token.userId);
+      if (alert && !alert.pausedAt) await updateSwellAlert(alert.id, token.userId, { pausedAt: new Date() });
+      return { snoozedUntil: null };
+    }
+    case "pause_digest": {
+      for (const alert of await getDigestAlerts(token.userId, token.digest!)) {
+        if (!alert.pausedAt) await updateSwellAlert(alert.id, token.userId, { pausedAt: new Date() });
+      }
+      return { snoozedUntil: null };
+    }
+    case "snooze_alerts": {
+      const days = options.snoozeDays ?? DEFAULT_SNOOZE_DAYS;
+      const snoozedUntil = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+      await updateUserEmailPreferences(token.userId, { alertsSnoozedUntil: snoozedUntil });
+      return { snoozedUntil };
+    }
+    case "stop_report_prompts":
+      await updateUserEmailPreferences(token.userId, { reportPromptsOptOut: true });
+      return { snoozedUntil: null };
+  }
+}
+
+/**
+ * POST /api/email/unsubscribe?token=… - one-click unsubscribe from the List-Unsubscribe header
+ */
+export function registerEmailPreferenceRoutes(app: Express) {
+  app.post("/api/email/unsubscribe", async (req: Request, res: Response) => {
+    const raw = typeof req.query.token === "string" ? req.query.token : undefined;
+    const token = raw ? await verifyEmailPreferenceToken(raw) : null;
+    if (!token) {
+      res.status(400).json({ error: "Invalid or expired token" });
+      return;
+    }
+
+    try {
+      await applyEmailPreferenceAction(token);
+      console.log(`[Email Preferences] One-click ${token.action} for user ${token.userId}${token.alertId ? ` (alert ${token.alertId})` : ""}`);
+      res.status(200).json({ success: true });
+    } catch (error) {
+      console.error("[Email Preferences] One-click unsubscribe failed:", error);
+      res.status(500).json({ error: "Failed to update preferences" });
+    }
+  });
+}
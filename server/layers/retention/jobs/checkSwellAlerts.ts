@@ -1,13 +1,19 @@
-import { getAllActiveSwellAlerts, getAllSpots, checkIfAlertAlreadySent, logSwellAlertSent, updateSwellAlertLogEmailSent, updateSwellAlertLogSmsSent, getUserById, updateAlertLastScore, getLastAlertNotificationTime } from "../../../db";
-import { detectUpcomingSwells, type DetectedSwell } from "../swellDetection";
-import { sendEmail } from "../delivery/email";
-import { sendSMS } from "../delivery/sms";
+import { getAllActiveSwellAlerts, getAllSpots, checkIfAlertAlreadySent, checkIfSwellInDigest, logSwellAlertSent, getUserById, updateAlertLastScore, getLastAlertNotificationTime, getPushSubscriptionsForUser } from "../../../db";
+import { detectUpcomingSwells, selectBestSpotOnly, type DetectedSwell } from "../swellDetection";
+import { queueEmails, queueSMS, queuePush, processOutbox } from "../outbox";
 import { formatSwellAlertNotification } from "../notificationFormatter";
+import { getEmailPreferenceLinks, getListUnsubscribeHeaders } from "../emailPreferences";
+import { isDigestFrequency } from "../digest";
+import { describeAlertRule, getAlertRule } from "../alertRules";
 import type { SwellAlert, SurfSpot } from "../../../../drizzle/schema";
 
 /**
  * Checks all active swell alerts and sends notifications for matching swells.
- * This function is called periodically by the background job scheduler.
+ * This function is called periodically by the background job scheduler (job "swell-alerts").
+ * Paused alerts and users who snoozed alerts are skipped (see getAllActiveSwellAlerts).
+ * Notifications are queued in the notification outbox, which is flushed once all alerts are checked;
+ * the log's emailSent / smsSent / pushSent are set when the outbox actually delivers.
+ * Push goes to every browser / device the user subscribed (push_subscriptions).
  *
  * Supports multiple notification frequencies:
  * - "threshold": Only notify when score CROSSES from below to above threshold (once per crossing)
@@ -15,19 +21,21 @@ import type { SwellAlert, SurfSpot } from "../../../../drizzle/schema";
  * - "twice": AM + PM updates
  * - "realtime": As forecast updates
  * - "immediate": Send immediately when conditions match
+ * "daily_digest" / "weekly_digest" alerts are skipped here; the swell-digests job sends those
+ * (jobs/sendSwellDigests.ts), and swells that already went out in a digest aren't sent again.
  *
  * Also supports "Best Spot Only" mode when spotId is null - ranks all spots and notifies for the best one.
  */
-export async function checkSwellAlerts(): Promise<void> {
+export async function checkSwellAlerts(): Promise<{ processed: number; failed: number }> {
   try {
     console.log("[Swell Alerts] Starting swell alert check...");
 
-    const alerts = await getAllActiveSwellAlerts();
+    const alerts = (await getAllActiveSwellAlerts()).filter((alert) => !isDigestFrequency(alert.notificationFrequency));
     const spots = await getAllSpots();
 
     if (alerts.length === 0) {
       console.log("[Swell Alerts] No active alerts to check");
-      return;
+      return { processed: 0, failed: 0 };
     }
 
     console.log(`[Swell Alerts] Checking ${alerts.length} active alert(s)`);
@@ -47,6 +55,7 @@ export async function checkSwellAlerts(): Promise<void> {
             minQualityScore: alert.minQualityScore,
             minSwellPeriod: alert.minPeriodSec,
             idealWindOnly: alert.idealWindOnly,
+            rule: alert.rule ? describeAlertRule(getAlertRule(alert)) : undefined,
           },
         });
 
@@ -98,16 +107,23 @@ export async function checkSwellAlerts(): Promise<void> {
             });
             continue; // Skip if already notified for this exact swell window
           }
+
+          // The user already got this swell in a daily / weekly digest (from another alert)
+          if (await checkIfSwellInDigest(alert.userId, detectedSwell.spotId, detectedSwell.swellStartTime)) {
+            console.log(`[Swell Alerts] Alert #${alert.id}: Already sent in a digest`, {
+              spotId: detectedSwell.spotId,
+              swellStart: detectedSwell.swellStartTime,
+            });
+            continue;
+          }
           console.log(`[Swell Alerts] Alert #${alert.id}: Sending notification`, {
             spotId: detectedSwell.spotId,
             method:
-              alert.emailEnabled === 1 && alert.smsEnabled === 1
-                ? "email+sms"
-                : alert.emailEnabled === 1
-                  ? "email"
-                  : alert.smsEnabled === 1
-                    ? "sms"
-                    : "none",
+              [
+                alert.emailEnabled === 1 && "email",
+                alert.smsEnabled === 1 && "sms",
+                alert.pushEnabled === 1 && "push",
+              ].filter(Boolean).join("+") || "none",
             swellStart: detectedSwell.swellStartTime,
             peakScore: detectedSwell.peakQualityScore,
           });
@@ -123,8 +139,9 @@ export async function checkSwellAlerts(): Promise<void> {
             continue;
           }
 
-          // Format notification based on user preferences
-          const notification = formatSwellAlertNotification(detectedSwell, alert, spot);
+          // Format notification based on user preferences, with signed pause / snooze links
+          const links = await getEmailPreferenceLinks(alert.userId, alert.id);
+          const notification = formatSwellAlertNotification(detectedSwell, alert, spot, links);
 
           // Log the alert (create alert log entry)
           const alertLogId = await logSwellAlertSent({
@@ -138,40 +155,44 @@ export async function checkSwellAlerts(): Promise<void> {
             avgPeriodSec: detectedSwell.avgPeriodSec,
           });
 
-          // Send email if enabled
+          // Queue email if enabled
           if (alert.emailEnabled === 1 && user.email) {
-            const emailSent = await sendEmail({
+            await queueEmails([{
+              kind: "swell_alert",
+              refId: alertLogId,
+              userId: alert.userId,
               to: user.email,
               subject: notification.subject,
               html: notification.emailHtml,
               text: notification.emailText,
-            });
-
-            if (!emailSent) {
-              console.error(`[Swell Alerts] Alert #${alert.id}: Email FAILED`, {
-                userId: alert.userId,
-                email: user.email,
-                spotId: detectedSwell.spotId,
-              });
-              errors++;
-            } else {
-              console.log(`[Swell Alerts] Alert #${alert.id}: Email sent successfully`);
-              if (alertLogId) {
-                await updateSwellAlertLogEmailSent(alertLogId);
-              }
-            }
+              headers: await getListUnsubscribeHeaders({ userId: alert.userId, action: "pause_alert", alertId: alert.id }),
+              dedupeKey: `swell_alert:${alertLogId}:email`,
+            }]);
           }
 
-          // Send SMS if enabled (placeholder until Twilio is configured)
+          // Queue SMS if enabled (placeholder until Twilio is configured)
           if (alert.smsEnabled === 1 && user.phone) {
-            const smsSent = await sendSMS({
+            await queueSMS([{
+              kind: "swell_alert",
+              refId: alertLogId,
+              userId: alert.userId,
               phone: user.phone,
               message: notification.smsText,
-            });
+              dedupeKey: `swell_alert:${alertLogId}:sms`,
+            }]);
+          }
 
-            if (smsSent && alertLogId) {
-              await updateSwellAlertLogSmsSent(alertLogId);
-            }
+          // Queue a push to each of the user's devices if enabled
+          if (alert.pushEnabled === 1) {
+            const subscriptions = await getPushSubscriptionsForUser(alert.userId);
+            await queuePush(subscriptions.map((subscription) => ({
+              kind: "swell_alert" as const,
+              refId: alertLogId,
+              userId: alert.userId,
+              subscriptionId: subscription.id,
+              payload: notification.push,
+              dedupeKey: `swell_alert:${alertLogId}:push:${subscription.id}`,
+            })));
           }
 
           // Update lastNotifiedScore for threshold tracking
@@ -179,7 +200,7 @@ export async function checkSwellAlerts(): Promise<void> {
 
           notificationsSent++;
           console.log(
-            `[Swell Alerts] ✓ Sent notification for alert ${alert.id} (${spot.name}) - Score: ${detectedSwell.peakQualityScore}`
+            `[Swell Alerts] ✓ Queued notification for alert ${alert.id} (${spot.name}) - Score: ${detectedSwell.peakQualityScore}`
           );
         }
       } catch (error) {
@@ -188,33 +209,26 @@ export async function checkSwellAlerts(): Promise<void> {
       }
     }
 
+    // Send what was just queued now rather than waiting for the next notification-outbox run
+    if (notificationsSent > 0) {
+      try {
+        const outbox = await processOutbox();
+        console.log(`[Swell Alerts] Outbox: ${outbox.sent} sent, ${outbox.retrying} retrying, ${outbox.failed} failed`);
+      } catch (error) {
+        console.error("[Swell Alerts] Outbox flush failed (notification-outbox job will retry):", error);
+      }
+    }
+
     console.log(
-      `[Swell Alerts] Completed: ${notificationsSent} notification(s) sent, ${errors} error(s)`
+      `[Swell Alerts] Completed: ${notificationsSent} notification(s) queued, ${errors} error(s)`
     );
+    return { processed: notificationsSent, failed: errors };
   } catch (error) {
     console.error("[Swell Alerts] Fatal error during alert check:", error);
+    throw error;
   }
 }
 
-/**
- * Selects only the best scoring spot from detected swells.
- * Used when user selects "Best Spot Only" (spotId is null).
- * Uses average quality score to select the best overall window,
- * not just the window with the highest single-hour peak.
- */
-function selectBestSpotOnly(detectedSwells: DetectedSwell[]): DetectedSwell[] {
-  if (detectedSwells.length === 0) return [];
-
-  // Find the swell with the highest average quality score
-  // This ensures we select the window with the best overall conditions,
-  // not one with a single high spike but otherwise poor conditions
-  const bestSwell = detectedSwells.reduce((best, current) => {
-    return current.avgQualityScore > best.avgQualityScore ? current : best;
-  }, detectedSwells[0]);
-
-  return [bestSwell];
-}
-
 /**
  * Determines if a notification should be sent based on the alert's notification frequency.
  *
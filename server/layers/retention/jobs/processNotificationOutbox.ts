@@ -0,0 +1,20 @@
+import { processOutbox } from "../outbox";
+
+/**
+ * Sends queued email/SMS from notification_outbox and retries earlier failures.
+ * Runs every 5 minutes (job "notification-outbox"); swell-alerts, swell-digests and
+ * report-prompts also flush the outbox right after queueing.
+ */
+export async function processNotificationOutbox(): Promise<{ processed: number; failed: number }> {
+  console.log("[Outbox] Processing notification outbox...");
+
+  const { sent, retrying, failed } = await processOutbox();
+
+  // Every send failing usually means the provider is down or misconfigured
+  if (sent === 0 && retrying + failed > 0) {
+    throw new Error(`All ${retrying + failed} due notification(s) failed (${retrying} will be retried)`);
+  }
+
+  console.log(`[Outbox] Completed: ${sent} sent, ${retrying} retrying, ${failed} failed`);
+  return { processed: sent, failed: retrying + failed };
+}
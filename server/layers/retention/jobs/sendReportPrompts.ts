@@ -1,11 +1,12 @@
 import { getPendingReportPrompts, markPromptSent, getUserById, getSpotById } from "../../../db";
-import { sendEmail } from "../delivery/email";
+import { queueEmails, processOutbox } from "../outbox";
+import { getEmailPreferenceLinks, getListUnsubscribeHeaders } from "../emailPreferences";
 
 /**
  * Checks for forecast views from 24 hours ago and sends report prompts.
- * Runs every hour (cron: 0 * * * *).
+ * Runs every hour (cron: 0 * * * *). Prompts go out through the notification outbox.
  */
-export async function sendReportPrompts(): Promise<void> {
+export async function sendReportPrompts(): Promise<{ processed: number; failed: number }> {
   try {
     console.log("[Report Prompts] Starting report prompt check...");
 
@@ -13,7 +14,7 @@ export async function sendReportPrompts(): Promise<void> {
 
     if (pendingViews.length === 0) {
       console.log("[Report Prompts] No pending prompts");
-      return;
+      return { processed: 0, failed: 0 };
     }
 
     console.log(`[Report Prompts] Found ${pendingViews.length} pending prompt(s)`);
@@ -32,9 +33,16 @@ export async function sendReportPrompts(): Promise<void> {
           continue;
         }
 
+        // Opted out from an email link or /members: mark the view so it isn't picked up again
+        if (user.reportPromptsOptOut === 1) {
+          await markPromptSent(view.id);
+          continue;
+        }
+
         // Format email
         const baseUrl = process.env.BASE_URL || process.env.VITE_BASE_URL || "https://www.nycsurfco.com";
         const reportUrl = `${baseUrl}/report/submit?spotId=${spot.id}&sessionDate=${view.forecastTime.toISOString()}&viewId=${view.id}`;
+        const { stopReportPromptsUrl } = await getEmailPreferenceLinks(user.id);
 
         // Customize subject line for users who said yes to surfing
         const userSaidYes = view.surfPlanResponse === 'yes';
@@ -97,6 +105,9 @@ export async function sendReportPrompts(): Promise<void> {
               <p style="margin: 0; color: #999999; font-size: 12px; text-align: center;">
                 NYC Surf Co · Long Island Surf Forecasts
               </p>
+              <p style="margin: 8px 0 0 0; color: #999999; font-size: 12px; text-align: center;">
+                <a href="${stopReportPromptsUrl}" style="color: #666666;">Stop these emails</a>
+              </p>
             </td>
           </tr>
 
@@ -119,25 +130,24 @@ Your reports help improve forecasts and guide fellow surfers.
 
 ---
 NYC Surf Co - Long Island Surf Forecasts
+Stop these emails: ${stopReportPromptsUrl}
         `.trim();
 
-        // Send email
-        const emailSent = await sendEmail({
+        // Queue email; the view is marked as prompted once queued so the next run doesn't pick it up again
+        await queueEmails([{
+          kind: "report_prompt",
+          refId: view.id,
+          userId: user.id,
           to: user.email,
           subject,
           html,
           text,
-        });
-
-        if (emailSent) {
-          // Mark this single view as sent (unique constraint ensures no duplicates)
-          await markPromptSent(view.id);
-          sent++;
-          console.log(`[Report Prompts] ✓ Sent prompt to ${user.email} for ${spot.name}`);
-        } else {
-          failed++;
-          console.warn(`[Report Prompts] Failed to send prompt to ${user.email}`);
-        }
+          headers: await getListUnsubscribeHeaders({ userId: user.id, action: "stop_report_prompts" }),
+          dedupeKey: `report_prompt:${view.id}`,
+        }]);
+        await markPromptSent(view.id);
+        sent++;
+        console.log(`[Report Prompts] ✓ Queued prompt to ${user.email} for ${spot.name}`);
 
       } catch (error) {
         failed++;
@@ -145,9 +155,20 @@ NYC Surf Co - Long Island Surf Forecasts
       }
     }
 
-    console.log(`[Report Prompts] Completed: ${sent} sent, ${failed} failed`);
+    if (sent > 0) {
+      try {
+        const outbox = await processOutbox();
+        console.log(`[Report Prompts] Outbox: ${outbox.sent} sent, ${outbox.retrying} retrying, ${outbox.failed} failed`);
+      } catch (error) {
+        console.error("[Report Prompts] Outbox flush failed (notification-outbox job will retry):", error);
+      }
+    }
+
+    console.log(`[Report Prompts] Completed: ${sent} queued, ${failed} failed`);
+    return { processed: sent, failed };
 
   } catch (error) {
     console.error("[Report Prompts] Fatal error:", error);
+    throw error;
   }
 }
@@ -0,0 +1,142 @@
+import {
+  getAllActiveSwellAlerts,
+  getAllSpots,
+  getUserById,
+  getSwellDigest,
+  createSwellDigest,
+  deleteSwellDigest,
+  getSwellAlertLogsForUser,
+  logSwellAlertSent,
+} from "../../../db";
+import type { SwellAlert } from "../../../../drizzle/schema";
+import { queueEmails, processOutbox } from "../outbox";
+import { formatSwellDigestNotification } from "../notificationFormatter";
+import { getEmailPreferenceLinks, getListUnsubscribeHeaders } from "../emailPreferences";
+import {
+  collectDigestSwells,
+  getLocalTime,
+  groupDigestSwells,
+  isDigestDue,
+  isDigestFrequency,
+  type DigestFrequency,
+} from "../digest";
+
+/**
+ * Sends daily / weekly swell digests that are due (see digest.ts).
+ * Runs hourly (job "swell-digests"); each user's digest goes out on the first run at or after
+ * their digestHour, in their timezone. Paused alerts and snoozed users are skipped like in
+ * checkSwellAlerts. A digest with no new swells is recorded but not sent.
+ * If logging or queueing fails after the digest row is created, the row is deleted so the
+ * next run retries instead of treating that day's digest as done.
+ */
+export async function sendSwellDigests(now: Date = new Date()): Promise<{ processed: number; failed: number }> {
+  try {
+    console.log("[Swell Digests] Starting digest check...");
+
+    const alerts = (await getAllActiveSwellAlerts(now)).filter((alert) => isDigestFrequency(alert.notificationFrequency));
+    if (alerts.length === 0) {
+      console.log("[Swell Digests] No active digest alerts");
+      return { processed: 0, failed: 0 };
+    }
+
+    // One digest per user and frequency, covering all of that user's alerts with it
+    const groups = new Map<string, { userId: number; frequency: DigestFrequency; alerts: SwellAlert[] }>();
+    for (const alert of alerts) {
+      const frequency = alert.notificationFrequency as DigestFrequency;
+      const key = `${alert.userId}:${frequency}`;
+      const group = groups.get(key) ?? { userId: alert.userId, frequency, alerts: [] };
+      group.alerts.push(alert);
+      groups.set(key, group);
+    }
+
+    const spots = await getAllSpots();
+    let digestsSent = 0;
+    let errors = 0;
+
+    for (const { userId, frequency, alerts: userAlerts } of Array.from(groups.values())) {
+      try {
+        const user = await getUserById(userId);
+        if (!user?.email) continue;
+
+        const local = getLocalTime(now, user.timezone);
+        if (!isDigestDue(frequency, user, local)) continue;
+        if (await getSwellDigest(userId, frequency, local.localDate)) continue;
+
+        const notified = await getSwellAlertLogsForUser(userId, now);
+        const swells = await collectDigestSwells(userAlerts, spots, notified, now);
+
+        const digestId = await createSwellDigest({
+          userId,
+          frequency,
+          localDate: local.localDate,
+          swellCount: swells.length,
+        });
+        if (digestId === null) continue; // Another run got there first
+
+        if (swells.length === 0) {
+          console.log(`[Swell Digests] User ${userId} ${frequency}: no new swells, nothing to send`);
+          continue;
+        }
+
+        try {
+          // Record what's in the digest so immediate alerts and the next digest don't repeat it
+          for (const swell of swells) {
+            await logSwellAlertSent({
+              alertId: swell.alertId,
+              userId,
+              spotId: swell.spotId,
+              swellStartTime: swell.swellStartTime,
+              swellEndTime: swell.swellEndTime,
+              peakWaveHeightFt: String(swell.peakWaveHeightFt),
+              peakQualityScore: swell.peakQualityScore,
+              avgPeriodSec: swell.avgPeriodSec,
+              digestId,
+            });
+          }
+
+          const links = await getEmailPreferenceLinks(userId, undefined, frequency);
+          const notification = formatSwellDigestNotification(groupDigestSwells(swells, spots, user.timezone), frequency, links);
+
+          await queueEmails([{
+            kind: "swell_digest",
+            refId: digestId,
+            userId,
+            to: user.email,
+            subject: notification.subject,
+            html: notification.emailHtml,
+            text: notification.emailText,
+            headers: await getListUnsubscribeHeaders({ userId, action: "pause_digest", digest: frequency }),
+            dedupeKey: `swell_digest:${digestId}`,
+          }]);
+        } catch (error) {
+          await deleteSwellDigest(digestId).catch((cleanupError) =>
+            console.error(`[Swell Digests] Failed to remove digest ${digestId} after error:`, cleanupError)
+          );
+          throw error;
+        }
+
+        digestsSent++;
+        console.log(`[Swell Digests] ✓ Queued ${frequency} for user ${userId} - ${swells.length} swell(s)`);
+      } catch (error) {
+        errors++;
+        console.error(`[Swell Digests] ✗ Error building ${frequency} for user ${userId}:`, error);
+      }
+    }
+
+    // Send what was just queued now rather than waiting for the next notification-outbox run
+    if (digestsSent > 0) {
+      try {
+        const outbox = await processOutbox();
+        console.log(`[Swell Digests] Outbox: ${outbox.sent} sent, ${outbox.retrying} retrying, ${outbox.failed} failed`);
+      } catch (error) {
+        console.error("[Swell Digests] Outbox flush failed (notification-outbox job will retry):", error);
+      }
+    }
+
+    console.log(`[Swell Digests] Completed: ${digestsSent} digest(s) queued, ${errors} error(s)`);
+    return { processed: digestsSent, failed: errors };
+  } catch (error) {
+    console.error("[Swell Digests] Fatal error during digest check:", error);
+    throw error;
+  }
+}
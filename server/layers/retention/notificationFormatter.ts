@@ -2,6 +2,11 @@ import type { SwellAlert, SurfSpot } from "../../../drizzle/schema";
 import type { DetectedSwell } from "./swellDetection";
 import { formatDaylightTimeWindow, getLastLightForDate } from "../../utils/sunTimes";
 import { formatWaveHeight } from "../../utils/waveHeight";
+import { getSpotProfile } from "../../utils/spotProfiles";
+import { getWindType, type WindType } from "../../utils/windSectors";
+import type { EmailPreferenceLinks } from "./emailPreferences";
+import type { DigestDay, DigestFrequency } from "./digest";
+import type { PushPayload } from "./delivery/push";
 
 // Day names for formatting
 const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
@@ -11,17 +16,56 @@ export interface FormattedNotification {
   emailHtml: string;
   emailText: string;
   smsText: string;
+  push: PushPayload;
+}
+
+/**
+ * Quality label - FIRING requires both high score AND minimum 4ft waves.
+ * Thresholds raised to ensure "GOOD" means genuinely good conditions (not just barely surfable)
+ */
+function getQualityLabel(score: number, minWaveHeight: number): string {
+  if (score >= 80 && minWaveHeight >= 4) return "FIRING";
+  if (score >= 75) return "GREAT";  // was 70
+  if (score >= 65) return "GOOD";   // was 60
+  if (score >= 50) return "FAIR";
+  return "POOR";
+}
+
+/**
+ * Quality color for badge
+ */
+function getQualityColor(score: number): string {
+  if (score >= 80) return "#059669"; // emerald
+  if (score >= 70) return "#16a34a"; // green
+  if (score >= 60) return "#84cc16"; // lime
+  if (score >= 50) return "#eab308"; // yellow
+  return "#ef4444"; // red
+}
+
+/**
+ * Wind label (e.g., "NW Offshore")
+ */
+function getWindLabel(type: WindType | null): string {
+  switch (type) {
+    case "offshore": return "Offshore";
+    case "side-offshore": return "Side-offshore";
+    case "cross": return "Cross-shore";
+    case "onshore": return "Onshore";
+    default: return "Variable";
+  }
 }
 
 /**
  * Formats swell alert notifications - ruthlessly minimal.
  * The alert's job: Make someone decide "do I go?" 
  * Save the detailed breakdown for the full forecast page.
+ * `links` adds pause / snooze links to the email footer.
  */
 export function formatSwellAlertNotification(
   detectedSwell: DetectedSwell,
   alert: SwellAlert,
-  spot: SurfSpot
+  spot: SurfSpot,
+  links?: EmailPreferenceLinks
 ): FormattedNotification {
   const {
     peakWaveHeightFt,
@@ -39,8 +83,8 @@ export function formatSwellAlertNotification(
     conditions
   } = detectedSwell;
 
-  // Get wind type from first condition (most relevant)
-  const windType = conditions[0]?.windType || "variable";
+  // Wind type from the spot's shoreline orientation, for the swell's headline wind direction
+  const windType = getWindType(windDirectionDeg, getSpotProfile(spot.name));
   
   // Calculate hours until swell
   const hoursUntil = Math.round((swellStartTime.getTime() - Date.now()) / (1000 * 60 * 60));
@@ -91,29 +135,9 @@ export function formatSwellAlertNotification(
   // Format wave height using the same formula as the rest of the site
   const waveHeightRange = formatWaveHeight(peakWaveHeightFt);
 
-  // Quality label - FIRING requires both high score AND minimum 4ft waves
-  // Thresholds raised to ensure "GOOD" means genuinely good conditions (not just barely surfable)
-  const getQualityLabel = (score: number, minWaveHeight: number): string => {
-    if (score >= 80 && minWaveHeight >= 4) return "FIRING";
-    if (score >= 75) return "GREAT";  // was 70
-    if (score >= 65) return "GOOD";   // was 60
-    if (score >= 50) return "FAIR";
-    return "POOR";
-  };
   const minWaveHeight = Math.min(...conditions.map(c => c.waveHeight));
   const qualityLabel = getQualityLabel(peakQualityScore, minWaveHeight);
 
-  // Wind label (e.g., "NW Offshore")
-  const getWindLabel = (type: string | null): string => {
-    if (!type) return "Variable";
-    switch (type) {
-      case "offshore": return "Offshore";
-      case "side-offshore": return "Side-offshore";
-      case "side-onshore": return "Side-onshore";
-      case "onshore": return "Onshore";
-      default: return "Variable";
-    }
-  };
   const windLabel = getWindLabel(windType);
 
   // Confidence based on hours out (decreases with time)
@@ -158,22 +182,23 @@ export function formatSwellAlertNotification(
     windDisplay += ` ${windSpeedMph}mph`;
   }
 
-  // Quality color for badge
-  const getQualityColor = (score: number): string => {
-    if (score >= 80) return "#059669"; // emerald
-    if (score >= 70) return "#16a34a"; // green
-    if (score >= 60) return "#84cc16"; // lime
-    if (score >= 50) return "#eab308"; // yellow
-    return "#ef4444"; // red
-  };
   const qualityColor = getQualityColor(peakQualityScore);
 
-  // SMS text (160 chars max)
+  // SMS text - GSM-7 characters only: a single ° would switch the message to UCS-2 (70 chars per segment)
   const smsText = `${spot.name.toUpperCase()} WILL BE ${qualityLabel}
 ${dayOfWeek} ${dateFormatted} - ${waveHeightRange} Waves
-${swellDisplay} | ${windDisplay}
+${swellDisplay.replace(/ \d+°/g, "")} | ${windDisplay.replace(/ \d+°/g, "")}
 ${confidence.percent}% confidence`;
 
+  // Push - title and one line; opens the spot page at the hour the swell starts
+  const swellStartHour = new Date(Math.floor(swellStartTime.getTime() / (60 * 60 * 1000)) * 60 * 60 * 1000);
+  const push: PushPayload = {
+    title: `${spot.name} - ${qualityLabel}`,
+    body: `${dayOfWeek} ${dateFormatted} ${timeWindow}: ${waveHeightRange} waves, ${windLabel}`,
+    url: `/spot/${spot.id}?at=${encodeURIComponent(swellStartHour.toISOString())}`,
+    tag: `swell-alert-${alert.id}-${spot.id}`,
+  };
+
   // Email HTML - ruthlessly minimal
   const emailHtml = `
 <!DOCTYPE html>
@@ -220,7 +245,7 @@ ${confidence.percent}% confidence`;
         </div>
         <a href="${process.env.APP_URL || "https://nycsurfco.com"}/spot/${spot.id}" class="cta">View Forecast →</a>
         <div class="footer">
-            <a href="${process.env.APP_URL || "https://nycsurfco.com"}/members">Manage Alerts</a> · NYC Surf Co.
+            <a href="${process.env.APP_URL || "https://nycsurfco.com"}/members">Manage Alerts</a>${links?.pauseAlertUrl ? ` · <a href="${links.pauseAlertUrl}">Pause This Alert</a>` : ""}${links ? ` · <a href="${links.snoozeAlertsUrl}">Snooze All Alerts</a>` : ""} · NYC Surf Co.
         </div>
     </div>
 </body>
@@ -241,7 +266,9 @@ ${confidence.percent}% confidence - ${confidence.message}
 View Forecast: ${process.env.APP_URL || "https://nycsurfco.com"}/spot/${spot.id}
 
 ---
-Manage Alerts: ${process.env.APP_URL || "https://nycsurfco.com"}/members
+Manage Alerts: ${process.env.APP_URL || "https://nycsurfco.com"}/members${links?.pauseAlertUrl ? `
+Pause This Alert: ${links.pauseAlertUrl}` : ""}${links ? `
+Snooze All Alerts: ${links.snoozeAlertsUrl}` : ""}
   `.trim();
 
   return {
@@ -249,5 +276,187 @@ Manage Alerts: ${process.env.APP_URL || "https://nycsurfco.com"}/members
     emailHtml,
     emailText,
     smsText,
+    push,
+  };
+}
+
+export interface CalendarEventText {
+  summary: string;
+  description: string;
+  url: string;
+}
+
+/**
+ * Calendar event text for a surf window in the iCalendar feed (calendarFeed.ts).
+ * The title carries spot, rating and size so it reads at a glance in a week view.
+ */
+export function formatSwellCalendarEvent(detectedSwell: DetectedSwell, spot: SurfSpot): CalendarEventText {
+  const { peakWaveHeightFt, peakSwellHeightFt, peakQualityScore, avgPeriodSec, swellStartTime } = detectedSwell;
+  const baseUrl = process.env.APP_URL || "https://nycsurfco.com";
+
+  const waveHeightRange = formatWaveHeight(peakWaveHeightFt);
+  const qualityLabel = getQualityLabel(peakQualityScore, Math.min(...detectedSwell.conditions.map((c) => c.waveHeight)));
+  const windType = getWindType(detectedSwell.windDirectionDeg, getSpotProfile(spot.name));
+  const swellHeight = peakSwellHeightFt ?? peakWaveHeightFt;
+
+  // Opens the spot page at the hour the window starts, like push alerts
+  const swellStartHour = new Date(Math.floor(swellStartTime.getTime() / (60 * 60 * 1000)) * 60 * 60 * 1000);
+  const url = `${baseUrl}/spot/${spot.id}?at=${encodeURIComponent(swellStartHour.toISOString())}`;
+
+  return {
+    summary: `${spot.name} - ${qualityLabel} ${waveHeightRange}`,
+    description: [
+      `${waveHeightRange} waves, ${qualityLabel} (${peakQualityScore}/100)`,
+      `Swell: ${swellHeight.toFixed(1)}ft @ ${avgPeriodSec}s${detectedSwell.swellDirectionCompass ? ` ${detectedSwell.swellDirectionCompass}` : ""}`,
+      `Wind: ${getWindLabel(windType)}${detectedSwell.windSpeedMph !== null ? ` ${detectedSwell.windSpeedMph}mph` : ""}`,
+      "",
+      `View Forecast: ${url}`,
+    ].join("\n"),
+    url,
+  };
+}
+
+/**
+ * Formats a daily / weekly digest: every swell since the last one, by day then spot.
+ * Email only; a digest is too long for SMS or push.
+ * `links` adds pause-digest / snooze links to the footer.
+ */
+export function formatSwellDigestNotification(
+  days: DigestDay[],
+  frequency: DigestFrequency,
+  links?: EmailPreferenceLinks
+): Omit<FormattedNotification, "smsText" | "push"> {
+  const baseUrl = process.env.APP_URL || "https://nycsurfco.com";
+  const title = frequency === "weekly_digest" ? "Weekly Swell Digest" : "Daily Swell Digest";
+
+  // "2026-02-01" -> "Sunday 2/1" (the date is already local to the user)
+  const formatDay = (localDate: string): string => {
+    const [year, month, day] = localDate.split("-").map(Number);
+    return `${DAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()]} ${month}/${day}`;
+  };
+
+  const rows = days.map((day) => ({
+    label: formatDay(day.localDate),
+    spots: day.spots.map(({ spot, swells }) => ({
+      spot,
+      swells: swells.map((swell) => {
+        const lat = parseFloat(spot.latitude);
+        const lng = parseFloat(spot.longitude);
+        // Daylight labels without the day prefix (e.g., "Sat Morning-Afternoon" -> "Morning-Afternoon")
+        const timeWindow = formatDaylightTimeWindow(swell.swellStartTime, swell.swellEndTime, lat, lng)
+          .split(" ")
+          .slice(1)
+          .join(" ");
+        const swellHeight = swell.peakSwellHeightFt ?? swell.peakWaveHeightFt;
+        const windType = getWindType(swell.windDirectionDeg, getSpotProfile(spot.name));
+        return {
+          score: swell.peakQualityScore,
+          qualityLabel: getQualityLabel(swell.peakQualityScore, Math.min(...swell.conditions.map((c) => c.waveHeight))),
+          waves: formatWaveHeight(swell.peakWaveHeightFt),
+          timeWindow,
+          swellDisplay: `${swellHeight.toFixed(1)}ft @ ${swell.avgPeriodSec}s${swell.swellDirectionCompass ? ` ${swell.swellDirectionCompass}` : ""}`,
+          windDisplay: `${getWindLabel(windType)}${swell.windSpeedMph !== null ? ` ${swell.windSpeedMph}mph` : ""}`,
+        };
+      }),
+    })),
+  }));
+
+  // Subject: best window first, e.g. "DAILY SWELL DIGEST - 3 WINDOWS, BEST: LIDO BEACH GOOD SUNDAY 2/1"
+  const all = rows.flatMap((day) => day.spots.flatMap((s) => s.swells.map((swell) => ({ day: day.label, spot: s.spot, swell }))));
+  const best = all.reduce<(typeof all)[number] | null>((top, entry) => (!top || entry.swell.score > top.swell.score ? entry : top), null);
+  const subject = best
+    ? `${title.toUpperCase()} - ${all.length} WINDOW${all.length === 1 ? "" : "S"}, BEST: ${best.spot.name.toUpperCase()} ${best.swell.qualityLabel} ${best.day.toUpperCase()}`
+    : title.toUpperCase();
+
+  const dayHtml = rows
+    .map(
+      (day) => `
+            <div class="day">${day.label}</div>${day.spots
+              .map((group) =>
+                group.swells
+                  .map(
+                    (swell) => `
+            <div class="row">
+                <a href="${baseUrl}/spot/${group.spot.id}" class="spot">${group.spot.name}</a>
+                <span class="badge" style="background: ${getQualityColor(swell.score)}; color: ${swell.score >= 60 && swell.score < 70 ? "#000" : "#fff"};">${swell.qualityLabel}</span>
+                <div class="detail">${swell.waves} waves · ${swell.timeWindow}</div>
+                <div class="detail"><span class="label">Swell:</span> ${swell.swellDisplay} · <span class="label">Wind:</span> ${swell.windDisplay}</div>
+            </div>`
+                  )
+                  .join("")
+              )
+              .join("")}`
+    )
+    .join("");
+
+  const emailHtml = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        body { margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background-color: #f5f5f5; }
+        .container { max-width: 400px; margin: 0 auto; background: #fff; }
+        .header { background: #000; color: #fff; padding: 16px 20px; }
+        .title { font-size: 24px; font-weight: 900; text-transform: uppercase; letter-spacing: 1px; margin: 0; }
+        .content { padding: 4px 20px 20px 20px; }
+        .day { font-size: 13px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; color: #666; border-bottom: 2px solid #000; padding: 16px 0 4px 0; }
+        .row { padding: 10px 0; border-bottom: 1px solid #eee; }
+        .spot { font-size: 16px; font-weight: 700; color: #000; text-decoration: none; }
+        .badge { display: inline-block; padding: 2px 8px; font-size: 12px; font-weight: 700; text-transform: uppercase; margin-left: 8px; }
+        .detail { font-size: 13px; color: #333; line-height: 1.6; }
+        .label { color: #666; }
+        .cta { display: block; background: #000; color: #fff; text-align: center; padding: 14px 20px; text-decoration: none; font-size: 14px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px; }
+        .footer { padding: 16px 20px; text-align: center; font-size: 11px; color: #999; }
+        .footer a { color: #666; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1 class="title">${title}</h1>
+        </div>
+        <div class="content">${dayHtml}
+        </div>
+        <a href="${baseUrl}/dashboard" class="cta">View All Forecasts →</a>
+        <div class="footer">
+            <a href="${baseUrl}/members">Manage Alerts</a>${links?.pauseDigestUrl ? ` · <a href="${links.pauseDigestUrl}">Pause This Digest</a>` : ""}${links ? ` · <a href="${links.snoozeAlertsUrl}">Snooze All Alerts</a>` : ""} · NYC Surf Co.
+        </div>
+    </div>
+</body>
+</html>
+  `.trim();
+
+  const dayText = rows
+    .map(
+      (day) =>
+        `${day.label.toUpperCase()}\n` +
+        day.spots
+          .flatMap((group) =>
+            group.swells.map(
+              (swell) =>
+                `- ${group.spot.name}: ${swell.qualityLabel}, ${swell.waves} waves, ${swell.timeWindow}\n  Swell: ${swell.swellDisplay} | Wind: ${swell.windDisplay}\n  ${baseUrl}/spot/${group.spot.id}`
+            )
+          )
+          .join("\n")
+    )
+    .join("\n\n");
+
+  const emailText = `
+${title.toUpperCase()}
+
+${dayText}
+
+---
+Manage Alerts: ${baseUrl}/members${links?.pauseDigestUrl ? `
+Pause This Digest: ${links.pauseDigestUrl}` : ""}${links ? `
+Snooze All Alerts: ${links.snoozeAlertsUrl}` : ""}
+  `.trim();
+
+  return {
+    subject,
+    emailHtml,
+    emailText,
   };
 }
@@ -0,0 +1,234 @@
+/**
+ * Notification Outbox
+ *
+ * Email, SMS and Web Push are queued in notification_outbox instead of being sent inline, so a
+ * Resend outage or a provider rate limit doesn't lose a swell alert. The
+ * notification-outbox job (jobs/processNotificationOutbox.ts) sends what's due, retries
+ * failures with exponential backoff, and marks a message failed once it runs out of
+ * attempts or the provider rejects it outright.
+ */
+
+import {
+  enqueueNotifications,
+  claimDueNotifications,
+  markNotificationSent,
+  markNotificationAttemptFailed,
+  releaseStuckNotifications,
+  updateSwellAlertLogEmailSent,
+  updateSwellAlertLogSmsSent,
+  updateSwellAlertLogPushSent,
+  markSwellDigestEmailSent,
+  getPushSubscriptionById,
+  deletePushSubscriptionById,
+  markPushSubscriptionSuccess,
+} from "../../db";
+import type { NotificationOutboxMessage } from "../../../drizzle/schema";
+import { deliverEmail } from "./delivery/email";
+import { deliverSMS } from "./delivery/sms";
+import { deliverPush, type PushPayload } from "./delivery/push";
+import type { DeliveryResult } from "./delivery/types";
+
+export type OutboxKind = "swell_alert" | "swell_digest" | "report_prompt" | "bulk_alert";
+
+interface OutboxSource {
+  kind: OutboxKind;
+  refId?: number | null; // swell_alert_logs.id for swell_alert, swell_digests.id for swell_digest, forecast_views.id for report_prompt
+  userId?: number | null;
+  dedupeKey: string; // Queueing the same key again is a no-op
+}
+
+export interface OutboxEmail extends OutboxSource {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface OutboxSMS extends OutboxSource {
+  phone: string;
+  message: string;
+}
+
+export interface OutboxPush extends OutboxSource {
+  subscriptionId: number; // push_subscriptions.id; one message per device
+  payload: PushPayload;
+}
+
+const BACKOFF_BASE_MS = 60 * 1000; // 1 min, 2, 4, 8, ...
+const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * A message still "sending" after this long belongs to a worker that died mid-send
+ */
+const STUCK_SENDING_MS = 15 * 60 * 1000;
+
+const BATCH_SIZE = 100;
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+/**
+ * @returns Number of emails newly queued
+ */
+export async function queueEmails(emails: OutboxEmail[]): Promise<number> {
+  return enqueueNotifications(
+    emails.map((email) => ({
+      channel: "email",
+      kind: email.kind,
+      refId: email.refId ?? null,
+      userId: email.userId ?? null,
+      recipient: email.to,
+      subject: email.subject,
+      body: email.text,
+      html: email.html,
+      headers: email.headers ? JSON.stringify(email.headers) : null,
+      dedupeKey: email.dedupeKey,
+    }))
+  );
+}
+
+/**
+ * @returns Number of SMS newly queued
+ */
+export async function queueSMS(messages: OutboxSMS[]): Promise<number> {
+  return enqueueNotifications(
+    messages.map((sms) => ({
+      channel: "sms",
+      kind: sms.kind,
+      refId: sms.refId ?? null,
+      userId: sms.userId ?? null,
+      recipient: sms.phone,
+      body: sms.message,
+      dedupeKey: sms.dedupeKey,
+    }))
+  );
+}
+
+/**
+ * @returns Number of push messages newly queued
+ */
+export async function queuePush(messages: OutboxPush[]): Promise<number> {
+  return enqueueNotifications(
+    messages.map((push) => ({
+      channel: "push",
+      kind: push.kind,
+      refId: push.refId ?? null,
+      userId: push.userId ?? null,
+      recipient: String(push.subscriptionId),
+      body: JSON.stringify(push.payload),
+      dedupeKey: push.dedupeKey,
+    }))
+  );
+}
+
+/**
+ * Push to the subscription the message was queued for, dropping it if the push service says it's gone
+ */
+async function deliverPushMessage(message: NotificationOutboxMessage): Promise<DeliveryResult> {
+  const subscription = await getPushSubscriptionById(Number(message.recipient));
+  if (!subscription) {
+    return { ok: false, providerMessageId: null, error: "Push subscription was removed", retryable: false };
+  }
+
+  const result = await deliverPush(subscription, JSON.parse(message.body));
+  if (result.expired) {
+    await deletePushSubscriptionById(subscription.id);
+    console.log(`[Outbox] Removed expired push subscription #${subscription.id} (user ${subscription.userId})`);
+  } else if (result.ok) {
+    await markPushSubscriptionSuccess(subscription.id);
+  }
+  return result;
+}
+
+function deliver(message: NotificationOutboxMessage): Promise<DeliveryResult> {
+  if (message.channel === "push") {
+    return deliverPushMessage(message);
+  }
+  if (message.channel === "sms") {
+    return deliverSMS({ phone: message.recipient, message: message.body });
+  }
+  return deliverEmail({
+    to: message.recipient,
+    subject: message.subject ?? "",
+    html: message.html ?? message.body,
+    text: message.body,
+    headers: message.headers ? JSON.parse(message.headers) : undefined,
+  });
+}
+
+/**
+ * Record the delivery on the row the message was sent for
+ */
+async function recordDelivery(message: NotificationOutboxMessage): Promise<void> {
+  if (message.kind === "swell_alert" && message.refId !== null) {
+    if (message.channel === "email") await updateSwellAlertLogEmailSent(message.refId);
+    else if (message.channel === "push") await updateSwellAlertLogPushSent(message.refId);
+    else await updateSwellAlertLogSmsSent(message.refId);
+  } else if (message.kind === "swell_digest" && message.refId !== null) {
+    await markSwellDigestEmailSent(message.refId);
+  }
+}
+
+/**
+ * Send every message that's due
+ */
+export async function processOutbox(now: Date = new Date()): Promise<{ sent: number; retrying: number; failed: number }> {
+  const released = await releaseStuckNotifications(new Date(now.getTime() - STUCK_SENDING_MS));
+  if (released > 0) console.warn(`[Outbox] Released ${released} message(s) stuck in "sending"`);
+
+  let sent = 0;
+  let retrying = 0;
+  let failed = 0;
+
+  // Claim in batches until nothing is due; a message that fails goes back with a future nextAttemptAt
+  for (;;) {
+    const batch = await claimDueNotifications(BATCH_SIZE, now);
+    if (batch.length === 0) break;
+
+    for (const message of batch) {
+      const attempts = message.attempts + 1;
+      let result: DeliveryResult;
+      try {
+        result = await deliver(message);
+      } catch (error: any) {
+        result = { ok: false, providerMessageId: null, error: error?.message || "Unknown error" };
+      }
+
+      if (result.ok) {
+        await markNotificationSent(message.id, {
+          attempts,
+          provider: result.provider,
+          providerMessageId: result.providerMessageId,
+        });
+        await recordDelivery(message).catch((error) =>
+          console.error(`[Outbox] Sent #${message.id} but failed to record delivery:`, error)
+        );
+        sent++;
+        continue;
+      }
+
+      const error = result.error || "Unknown error";
+      const giveUp = result.retryable === false || attempts >= message.maxAttempts;
+      await markNotificationAttemptFailed(message.id, {
+        attempts,
+        error,
+        nextAttemptAt: giveUp ? null : new Date(Date.now() + getRetryDelayMs(attempts)),
+      });
+
+      if (giveUp) {
+        failed++;
+        console.error(`[Outbox] ✗ ${message.kind} ${message.channel} #${message.id} failed after ${attempts} attempt(s): ${error}`);
+      } else {
+        retrying++;
+        console.warn(`[Outbox] ${message.kind} ${message.channel} #${message.id} attempt ${attempts} failed, retrying: ${error}`);
+      }
+    }
+  }
+
+  return { sent, retrying, failed };
+}
@@ -5,6 +5,14 @@ import { getCurrentTideInfo } from "../environmental/clients/tides";
 import { getAverageCrowdLevel } from "../../db";
 import { getForecastTimeline } from "../../db";
 import { isDaylightHours, getLastLightForDate } from "../../utils/sunTimes";
+import {
+  evaluateAlertRule,
+  explainAlertRule,
+  getAlertRule,
+  getAlertRuleContext,
+  type AlertRule,
+  type AlertRuleClauseResult,
+} from "./alertRules";
 
 /**
  * Converts degrees to compass direction (N, NE, E, SE, etc.)
@@ -81,105 +89,186 @@ export async function detectUpcomingSwells(
   spots: SurfSpot[],
   now: Date = new Date()
 ): Promise<DetectedSwell[]> {
-  // Filter out "Coming Soon" spots that don't have active forecasts
-  const activeSpots = spots.filter(s => !EXCLUDED_SPOT_NAMES.includes(s.name));
-  
-  // If alert is for a specific spot, only check that spot
-  // Otherwise, check all active spots (excludes Coming Soon spots)
-  const spotsToCheck = alert.spotId === null 
-    ? activeSpots 
-    : spots.filter(s => s.id === alert.spotId);
+  const rule = getAlertRule(alert);
+  const { earliestTime, latestTime } = getAlertForecastWindow(alert, now);
+  const detectedSwells: DetectedSwell[] = [];
 
-  if (spotsToCheck.length === 0) {
-    return [];
+  // Check each spot
+  for (const spot of getSpotsToCheck(alert, spots)) {
+    const timeline = await getSpotForecastTimeline(spot);
+    if (!timeline) continue;
+    detectedSwells.push(...detectSpotSwells(alert, rule, spot, timeline, earliestTime, latestTime));
   }
 
-  const detectedSwells: DetectedSwell[] = [];
+  return detectedSwells;
+}
 
-  // Check each spot
-  for (const spot of spotsToCheck) {
-    // Get forecast timeline (168 hours = 7 days)
-    const hoursAhead = 168;
-    const forecastPoints = await getForecastTimeline(spot.id, hoursAhead);
-
-    if (!forecastPoints || forecastPoints.length === 0) {
-      console.log(`[Swell Detection] Spot ${spot.id} (${spot.name}): No forecast data`, {
-        hoursAhead,
-        reason: "getForecastTimeline returned empty",
+export interface AlertPreviewHour {
+  spotId: number;
+  timestamp: Date;
+  matched: boolean;
+  clauses: AlertRuleClauseResult[]; // Each top-level clause of the rule, matched or not
+}
+
+/**
+ * What an alert would catch right now: the swells, plus every daylight hour in its window
+ * with the clauses that hour matched
+ */
+export async function previewAlert(
+  alert: SwellAlert,
+  spots: SurfSpot[],
+  now: Date = new Date()
+): Promise<{ rule: AlertRule; swells: DetectedSwell[]; hours: AlertPreviewHour[] }> {
+  const rule = getAlertRule(alert);
+  const { earliestTime, latestTime } = getAlertForecastWindow(alert, now);
+  const swells: DetectedSwell[] = [];
+  const hours: AlertPreviewHour[] = [];
+
+  for (const spot of getSpotsToCheck(alert, spots)) {
+    const timeline = await getSpotForecastTimeline(spot);
+    if (!timeline) continue;
+    swells.push(...detectSpotSwells(alert, rule, spot, timeline, earliestTime, latestTime));
+
+    for (const point of timeline) {
+      const timestamp = new Date(point.forecastTimestamp);
+      if (timestamp < earliestTime || timestamp > latestTime || !isSpotDaylight(point, spot)) continue;
+      const ctx = getAlertRuleContext(point);
+      hours.push({
+        spotId: spot.id,
+        timestamp,
+        matched: evaluateAlertRule(rule, ctx),
+        clauses: explainAlertRule(rule, ctx),
       });
-      continue;
     }
-    console.log(`[Swell Detection] Spot ${spot.id} (${spot.name}): Checking forecast`, {
-      forecastPoints: forecastPoints.length,
-      hoursAhead,
-    });
+  }
 
-    // Generate forecast timeline with quality scores
-    const tideInfo = await getCurrentTideInfo(spot.tideStationId);
-    const avgCrowdLevel = await getAverageCrowdLevel(spot.id);
-    
-    const timeline = await generateForecastTimeline({
-      forecastPoints,
-      spot,
-      tideStationId: spot.tideStationId,
-      avgCrowdLevel,
-    });
+  hours.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.spotId - b.spotId);
+  return { rule, swells, hours };
+}
 
-    // Calculate forecast window
-    // The forecast window defines how far into the future to look for matching swells
-    // e.g., a 7-day window means "look for swells within the next 7 days"
-    // earliestTime = now (start looking immediately)
-    // latestTime = now + forecast window (how far ahead to look)
-    let forecastWindowMs: number;
-    if (alert.daysAdvanceNotice !== null && alert.daysAdvanceNotice !== undefined) {
-      forecastWindowMs = alert.daysAdvanceNotice * 24 * 60 * 60 * 1000;
-    } else {
-      forecastWindowMs = (alert.hoursAdvanceNotice || 24) * 60 * 60 * 1000;
-    }
-    
+export function getSpotsToCheck(alert: SwellAlert, spots: SurfSpot[]): SurfSpot[] {
+  // If alert is for a specific spot, only check that spot
+  // Otherwise, check all active spots (excludes "Coming Soon" spots without active forecasts)
+  return alert.spotId === null
+    ? spots.filter(s => !EXCLUDED_SPOT_NAMES.includes(s.name))
+    : spots.filter(s => s.id === alert.spotId);
+}
+
+/**
+ * The forecast window defines how far into the future to look for matching swells
+ * e.g., a 7-day window means "look for swells within the next 7 days"
+ */
+function getAlertForecastWindow(alert: SwellAlert, now: Date): { earliestTime: Date; latestTime: Date } {
+  let forecastWindowMs: number;
+  if (alert.daysAdvanceNotice !== null && alert.daysAdvanceNotice !== undefined) {
+    forecastWindowMs = alert.daysAdvanceNotice * 24 * 60 * 60 * 1000;
+  } else {
+    forecastWindowMs = (alert.hoursAdvanceNotice || 24) * 60 * 60 * 1000;
+  }
+
+  return {
     // Start looking from now (or a small buffer to avoid very near-term noise)
-    const earliestTime = new Date(now.getTime() + (1 * 60 * 60 * 1000)); // 1 hour buffer
+    earliestTime: new Date(now.getTime() + (1 * 60 * 60 * 1000)), // 1 hour buffer
     // Look up to the forecast window limit
-    const latestTime = new Date(now.getTime() + forecastWindowMs);
-
-    // Find swell windows that match criteria
-    const matchingWindows = findMatchingSwellWindows(
-      timeline,
-      alert,
-      earliestTime,
-      latestTime,
-      spot
-    );
-    console.log(`[Swell Detection] Spot ${spot.id} (${spot.name}): Found ${matchingWindows.length} matching window(s)`, {
-      totalForecastPoints: forecastPoints.length,
-      matchedPoints: matchingWindows.length,
-    });
+    latestTime: new Date(now.getTime() + forecastWindowMs),
+  };
+}
 
-    // Convert to DetectedSwell format
-    for (const window of matchingWindows) {
-      detectedSwells.push({
-        alertId: alert.id,
-        userId: alert.userId,
-        spotId: spot.id,
-        swellStartTime: window.startTime,
-        swellEndTime: window.endTime,
-        peakWaveHeightFt: window.peakHeight,
-        peakSwellHeightFt: window.peakSwellHeight,
-        peakQualityScore: window.peakScore,
-        avgQualityScore: window.avgScore,
-        avgPeriodSec: window.avgPeriod,
-        swellDirectionDeg: window.swellDirectionDeg,
-        swellDirectionCompass: window.swellDirectionCompass,
-        windDirectionDeg: window.windDirectionDeg,
-        windDirectionCompass: window.windDirectionCompass,
-        windSpeedMph: window.windSpeedMph,
-        windGustsMph: window.windGustsMph,
-        conditions: window.conditions,
-      });
-    }
+/**
+ * Scored forecast timeline for the next 7 days, or null if the spot has no forecast data
+ */
+async function getSpotForecastTimeline(spot: SurfSpot): Promise<ForecastTimelineResult[] | null> {
+  // Get forecast timeline (168 hours = 7 days)
+  const hoursAhead = 168;
+  const forecastPoints = await getForecastTimeline(spot.id, hoursAhead);
+
+  if (!forecastPoints || forecastPoints.length === 0) {
+    console.log(`[Swell Detection] Spot ${spot.id} (${spot.name}): No forecast data`, {
+      hoursAhead,
+      reason: "getForecastTimeline returned empty",
+    });
+    return null;
   }
+  console.log(`[Swell Detection] Spot ${spot.id} (${spot.name}): Checking forecast`, {
+    forecastPoints: forecastPoints.length,
+    hoursAhead,
+  });
 
-  return detectedSwells;
+  // Generate forecast timeline with quality scores
+  const tideInfo = await getCurrentTideInfo(spot.tideStationId);
+  const avgCrowdLevel = await getAverageCrowdLevel(spot.id);
+
+  return generateForecastTimeline({
+    forecastPoints,
+    spot,
+    tideStationId: spot.tideStationId,
+    avgCrowdLevel,
+  });
+}
+
+/**
+ * Swell windows in one spot's timeline between two times. Also replays history in alert backtests.
+ */
+export function detectSpotSwells(
+  alert: SwellAlert,
+  rule: AlertRule,
+  spot: SurfSpot,
+  timeline: ForecastTimelineResult[],
+  earliestTime: Date,
+  latestTime: Date
+): DetectedSwell[] {
+  // Find swell windows that match criteria
+  const matchingWindows = findMatchingSwellWindows(
+    timeline,
+    rule,
+    earliestTime,
+    latestTime,
+    spot
+  );
+  console.log(`[Swell Detection] Spot ${spot.id} (${spot.name}): Found ${matchingWindows.length} matching window(s)`, {
+    totalForecastPoints: timeline.length,
+    matchedPoints: matchingWindows.length,
+  });
+
+  // Convert to DetectedSwell format
+  return matchingWindows.map(window => ({
+    alertId: alert.id,
+    userId: alert.userId,
+    spotId: spot.id,
+    swellStartTime: window.startTime,
+    swellEndTime: window.endTime,
+    peakWaveHeightFt: window.peakHeight,
+    peakSwellHeightFt: window.peakSwellHeight,
+    peakQualityScore: window.peakScore,
+    avgQualityScore: window.avgScore,
+    avgPeriodSec: window.avgPeriod,
+    swellDirectionDeg: window.swellDirectionDeg,
+    swellDirectionCompass: window.swellDirectionCompass,
+    windDirectionDeg: window.windDirectionDeg,
+    windDirectionCompass: window.windDirectionCompass,
+    windSpeedMph: window.windSpeedMph,
+    windGustsMph: window.windGustsMph,
+    conditions: window.conditions,
+  }));
+}
+
+/**
+ * Selects only the best scoring spot from detected swells.
+ * Used when user selects "Best Spot Only" (spotId is null).
+ * Uses average quality score to select the best overall window,
+ * not just the window with the highest single-hour peak.
+ */
+export function selectBestSpotOnly(detectedSwells: DetectedSwell[]): DetectedSwell[] {
+  if (detectedSwells.length === 0) return [];
+
+  // Find the swell with the highest average quality score
+  // This ensures we select the window with the best overall conditions,
+  // not one with a single high spike but otherwise poor conditions
+  const bestSwell = detectedSwells.reduce((best, current) => {
+    return current.avgQualityScore > best.avgQualityScore ? current : best;
+  }, detectedSwells[0]);
+
+  return [bestSwell];
 }
 
 interface SwellWindow {
@@ -210,7 +299,7 @@ interface SwellWindow {
  */
 function findMatchingSwellWindows(
   timeline: ForecastTimelineResult[],
-  alert: SwellAlert,
+  rule: AlertRule,
   earliestTime: Date,
   latestTime: Date,
   spot: SurfSpot
@@ -238,7 +327,7 @@ function findMatchingSwellWindows(
     const pointTime = new Date(point.forecastTimestamp);
 
     // Check if point matches criteria (including daylight check)
-    if (pointMatchesCriteria(point, alert, spot)) {
+    if (pointMatchesCriteria(point, rule, spot)) {
       // Check if this point is consecutive with the last point in current window
       if (currentWindow.length > 0) {
         const lastPoint = currentWindow[currentWindow.length - 1];
@@ -279,59 +368,21 @@ function findMatchingSwellWindows(
 }
 
 /**
- * Checks if a forecast point matches the alert criteria.
+ * Checks if a forecast point matches the alert's rule.
  * Also filters out nighttime hours - only daylight surfing hours count.
  */
 function pointMatchesCriteria(
   point: ForecastTimelineResult,
-  alert: SwellAlert,
+  rule: AlertRule,
   spot?: SurfSpot
 ): boolean {
-  // DAYLIGHT CHECK: Only include points during daylight surfing hours
-  const pointTime = new Date(point.forecastTimestamp);
+  return isSpotDaylight(point, spot) && evaluateAlertRule(rule, getAlertRuleContext(point));
+}
+
+function isSpotDaylight(point: ForecastTimelineResult, spot?: SurfSpot): boolean {
   const lat = spot ? parseFloat(spot.latitude) : 40.588; // Default to Long Beach area
   const lng = spot ? parseFloat(spot.longitude) : -73.658;
-  
-  if (!isDaylightHours(pointTime, lat, lng)) {
-    return false; // Skip nighttime hours
-  }
-
-  // Check day of week filter
-  if (alert.allowedDays) {
-    const allowedDaysArray = alert.allowedDays.split(',').map(Number);
-    const dayOfWeek = pointTime.getDay(); // 0=Sunday, 6=Saturday
-    if (!allowedDaysArray.includes(dayOfWeek)) {
-      return false; // Skip days not in allowed list
-    }
-  }
-
-  // Check wave height
-  const breakingHeight = point.breakingWaveHeightFt ?? point.dominantSwellHeightFt ?? point.waveHeightFt ?? 0;
-  if (alert.minWaveHeightFt !== null && breakingHeight < Number(alert.minWaveHeightFt)) {
-    return false;
-  }
-
-  // Check quality score
-  const qualityScore = point.quality_score ?? point.probabilityScore ?? 0;
-  if (alert.minQualityScore !== null && qualityScore < alert.minQualityScore) {
-    return false;
-  }
-
-  // Check period
-  const period = point.dominantSwellPeriodS ?? point.wavePeriodSec ?? 0;
-  if (alert.minPeriodSec !== null && period < alert.minPeriodSec) {
-    return false;
-  }
-
-  // Check wind (if ideal wind only)
-  if (alert.idealWindOnly === 1) {
-    const windType = point.windType;
-    if (windType !== "offshore" && windType !== "side-offshore") {
-      return false;
-    }
-  }
-
-  return true;
+  return isDaylightHours(new Date(point.forecastTimestamp), lat, lng);
 }
 
 /**
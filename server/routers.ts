@@ -2,7 +2,7 @@ import { COOKIE_NAME } from "@shared/const";
 import { z } from "zod";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { publicProcedure, protectedProcedure, router, rateLimit, auditLog } from "./_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { storagePut } from "./storage";
 
@@ -18,6 +18,10 @@ import {
   getAllSpots,
   getSpotById,
   createSpot,
+  updateSpot,
+  getAllSpotProfiles,
+  getSpotProfileBySpotId,
+  upsertSpotProfile,
   getLatestForecastForSpot,
   getAllLatestForecasts,
   insertForecast,
@@ -25,6 +29,7 @@ import {
   getAverageCrowdLevel,
   insertCrowdReport,
   getForecastTimeline,
+  getForecastRunHistory,
   getAllSwellAlertsForUser,
   getSwellAlertById,
   createSwellAlert,
@@ -52,38 +57,243 @@ import {
   recordSurfPlanResponse,
   getAdminAnalytics,
   getHistoricBigSwellDays,
+  getLastJobRun,
+  getRecentJobRuns,
+  getBuoyReadingHistory,
+  getForecastVerificationStats,
+  getBreakingHeightCalibrations,
+  getBreakingHeightCalibrationById,
+  activateBreakingHeightCalibration,
+  getSwellEventsWithRevisions,
+  getNotificationOutboxSummary,
+  retryNotification,
+  updateUserEmailPreferences,
+  setUserCalendarToken,
+  createApiKey,
+  getApiKeysForUser,
+  revokeApiKey,
+  upsertPushSubscription,
+  deletePushSubscription,
 } from "./db";
 import { getCurrentTideInfo } from "./layers/environmental/clients/tides";
 import { getCurrentConditionsFromOpenMeteo } from "./layers/environmental/clients/openmeteo";
 import { generateForecast, generateForecastTimeline } from "./services/forecast";
+import { PRIMARY_FORECAST_SOURCE, TIMELINE_FORECAST_SOURCES } from "./services/forecastSources";
 import { makeRequest, type DistanceMatrixResult, type TravelMode } from "./_core/map";
-import { getSpotProfile, getSpotKey, SPOT_PROFILES } from "./utils/spotProfiles";
+import { getSpotProfile, getSpotKey, loadSpotProfiles } from "./utils/spotProfiles";
+import { loadHeightCorrections } from "./utils/heightCalibration";
+import { WIND_TIERS } from "./utils/windSectors";
 import { getDominantSwell, calculateBreakingWaveHeight, calculateBuoyBreakingWaveHeight, formatWaveHeight, calculateSwellEnergy } from "./utils/waveHeight";
 import { generateForecastOutput } from "./utils/forecastOutput";
-import { forecastPoints, conditionsLog, users, verificationTokens, type User } from "../drizzle/schema";
+import { forecastPoints, conditionsLog, users, verificationTokens, type User, type SwellAlert } from "../drizzle/schema";
 import { eq, desc, and, gt, lte, sql } from "drizzle-orm";
 import { randomBytes } from "crypto";
 import { getDb } from "./db";
 import { fetchBuoy44065Cached, clearBuoyCache } from "./layers/environmental/clients/buoy44065";
 import { fetchMontaukBuoyCached, clearMontaukBuoyCache } from "./services/buoyMontauk";
-import { addConfidenceToTimeline, getConfidenceSummary, getConfidenceBadgeText, getWaveHeightDiscrepancy, getWaveHeightDiscrepancyByDay, selectRecommendedModel, type ConfidenceLevel } from "./utils/forecastConfidence";
+import { getConfidenceSummary, getConfidenceBadgeText, getWaveHeightDiscrepancy, getWaveHeightDiscrepancyByDay, type ConfidenceLevel } from "./utils/forecastConfidence";
 import { adminProcedure } from "./_core/trpc";
-import { sendBatchEmails, sendEmail } from "./services/email";
-import { sendSMS } from "./services/sms";
+import { getRegisteredJobs, runJobNow } from "./_core/scheduler";
+import { sendEmail } from "./services/email";
+import { toE164 } from "./layers/retention/delivery/smsEncoding";
+import { isValidTimeZone } from "./layers/retention/digest";
+import { alertRuleSchema } from "./layers/retention/alertRules";
 import { formatSwellAlertNotification } from "./layers/retention/notificationFormatter";
 import { importOpenMeteoMarineForecasts } from "./jobs/importOpenMeteoMarine";
 
-// In-memory cache for distance results (keyed by rounded origin + mode)
+type SpotDistances = Record<string, {
+  distanceMiles: number;
+  durationMinutes: number;
+  durationText: string;
+  distanceText: string;
+} | null>;
+
+const MAX_DISTANCE_MATRIX_DESTINATIONS = 25;
+
+// In-memory cache for distance results (keyed by rounded origin + mode + spot set)
 const distanceCache = new Map<string, {
   timestamp: number;
-  data: Record<string, {
-    distanceMiles: number;
-    durationMinutes: number;
-    durationText: string;
-    distanceText: string;
-  } | null>;
+  data: SpotDistances;
 }>();
 
+/**
+ * Distance and drive/transit time from an origin ("lat,lng") to every spot, keyed by spot name.
+ * Destinations come from the surf_spots coordinates, so spots added from the admin page are included.
+ * All null when Google Maps isn't configured or the request fails.
+ */
+async function fetchDistancesToSpots(origin: string, mode: "driving" | "transit"): Promise<SpotDistances> {
+  const spots = await getAllSpots();
+  const allNull = () => Object.fromEntries(spots.map((spot) => [spot.name, null])) as SpotDistances;
+
+  // Round origin to 3 decimal places to improve cache hit rate
+  const roundCoord = (coord: string) => {
+    const [lat, lng] = coord.split(",").map(Number);
+    return `${lat.toFixed(3)},${lng.toFixed(3)}`;
+  };
+
+  const roundedOrigin = roundCoord(origin);
+  const cacheKey = `distance:${roundedOrigin}:${mode}:${spots.map((spot) => spot.id).join(",")}`;
+
+  // Check in-memory cache (12 hour TTL)
+  const cached = distanceCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < 12 * 60 * 60 * 1000) {
+    return cached.data;
+  }
+
+  // Get API key - try direct key first, then fall back to proxy
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+
+  if (!apiKey) {
+    console.warn("GOOGLE_MAPS_API_KEY not set - distance feature disabled");
+    return allNull();
+  }
+
+  try {
+    const distances: SpotDistances = {};
+
+    // Distance Matrix allows 25 destinations per origin, so batch in chunks of that size
+    for (let i = 0; i < spots.length; i += MAX_DISTANCE_MATRIX_DESTINATIONS) {
+      const batch = spots.slice(i, i + MAX_DISTANCE_MATRIX_DESTINATIONS);
+      const destinations = batch.map((spot) => `${spot.latitude},${spot.longitude}`).join("|");
+
+      // Call Google Maps Distance Matrix API directly
+      const url = new URL("https://maps.googleapis.com/maps/api/distancematrix/json");
+      url.searchParams.set("origins", origin);
+      url.searchParams.set("destinations", destinations);
+      url.searchParams.set("mode", mode);
+      url.searchParams.set("units", "imperial");
+      url.searchParams.set("key", apiKey);
+
+      const response = await fetch(url.toString());
+      if (!response.ok) {
+        throw new Error(`Google Maps API error: ${response.status}`);
+      }
+
+      const result = await response.json() as DistanceMatrixResult;
+
+      if (result.status !== "OK") {
+        throw new Error(`Distance Matrix API error: ${result.status}`);
+      }
+
+      // Map results back to spot names
+      const elements = result.rows[0]?.elements || [];
+
+      batch.forEach((spot, index) => {
+        const element = elements[index];
+        if (element && element.status === "OK") {
+          // Convert meters to miles (1 mile = 1609.34 meters)
+          const distanceMiles = Math.round(element.distance.value / 1609.34 * 10) / 10;
+          const durationMinutes = Math.round(element.duration.value / 60);
+
+          distances[spot.name] = {
+            distanceMiles,
+            durationMinutes,
+            durationText: element.duration.text,
+            distanceText: element.distance.text,
+          };
+        } else {
+          distances[spot.name] = null;
+        }
+      });
+    }
+
+    // Cache the result
+    distanceCache.set(cacheKey, {
+      timestamp: Date.now(),
+      data: distances,
+    });
+
+    return distances;
+  } catch (error) {
+    console.error("Batch distance calculation error:", error);
+    // Return null for all spots on error (fail gracefully)
+    return allNull();
+  }
+}
+
+// Spot profile fields editable from the admin spots page (see drizzle/schema spot_profiles)
+const spotProfileInput = z.object({
+  profileKey: z.string().min(1).max(64).regex(/^[a-z0-9-]+$/, "Use lowercase letters, numbers and dashes"),
+  swellTargetDeg: z.number().int().min(0).max(360),
+  swellToleranceDeg: z.number().int().min(0).max(180),
+  minPeriodS: z.number().int().min(0).max(30),
+  multiplier: z.number().min(0).max(5),
+  baseMultiplier: z.number().min(0).max(5).default(1.0),
+  groundswellBonus: z.number().min(0).max(1).default(0.1),
+  groundswellMinPeriodS: z.number().int().min(0).max(30).default(10),
+  smallSwellMultiplier: z.number().min(0).max(5).default(0.8),
+  risingTideBoost: z.boolean().default(false),
+  highTideMultiplier: z.number().min(0).max(2).default(1.0),
+  buoyTideAdjustment: z.boolean().default(false),
+  shorelineNormalDeg: z.number().int().min(0).max(359).default(180),
+  // Sector starts relative to dead offshore; null = default table
+  windSectors: z
+    .array(z.object({ tier: z.enum(WIND_TIERS), startDeg: z.number().int().min(0).max(359) }))
+    .min(1)
+    .refine((sectors) => new Set(sectors.map((s) => s.startDeg)).size === sectors.length, "Sector starts must be unique")
+    .nullable()
+    .default(null),
+});
+
+function toSpotProfileRow(spotId: number, profile: z.infer<typeof spotProfileInput>) {
+  return {
+    spotId,
+    profileKey: profile.profileKey,
+    swellTargetDeg: profile.swellTargetDeg,
+    swellToleranceDeg: profile.swellToleranceDeg,
+    minPeriodS: profile.minPeriodS,
+    multiplier: profile.multiplier.toFixed(2),
+    baseMultiplier: profile.baseMultiplier.toFixed(2),
+    groundswellBonus: profile.groundswellBonus.toFixed(2),
+    groundswellMinPeriodS: profile.groundswellMinPeriodS,
+    smallSwellMultiplier: profile.smallSwellMultiplier.toFixed(2),
+    risingTideBoost: profile.risingTideBoost ? 1 : 0,
+    highTideMultiplier: profile.highTideMultiplier.toFixed(2),
+    buoyTideAdjustment: profile.buoyTideAdjustment ? 1 : 0,
+    shorelineNormalDeg: profile.shorelineNormalDeg,
+    windSectors: profile.windSectors ? JSON.stringify(profile.windSectors) : null,
+  };
+}
+
+// Criteria of an alert being created or edited, for alerts.preview and alerts.backtest
+const alertCriteriaInput = z.object({
+  spotId: z.number().nullable(),
+  minWaveHeightFt: z.number().optional(),
+  minQualityScore: z.number().min(0).max(100).optional(),
+  minPeriodSec: z.number().optional(),
+  idealWindOnly: z.boolean().optional(),
+  allowedDays: z.array(z.number().min(0).max(6)).optional(),
+  rule: alertRuleSchema.optional(),
+  hoursAdvanceNotice: z.number().min(1).max(168).default(24),
+});
+
+function toDraftSwellAlert(userId: number, criteria: z.infer<typeof alertCriteriaInput>): SwellAlert {
+  return {
+    id: 0,
+    userId,
+    spotId: criteria.spotId,
+    minWaveHeightFt: criteria.minWaveHeightFt ? String(criteria.minWaveHeightFt) : null,
+    minQualityScore: criteria.minQualityScore ?? null,
+    minPeriodSec: criteria.minPeriodSec ?? null,
+    idealWindOnly: criteria.idealWindOnly ? 1 : 0,
+    allowedDays: criteria.allowedDays ? criteria.allowedDays.join(',') : null,
+    rule: criteria.rule ? JSON.stringify(criteria.rule) : null,
+    emailEnabled: 1,
+    smsEnabled: 0,
+    pushEnabled: 0,
+    hoursAdvanceNotice: criteria.hoursAdvanceNotice,
+    daysAdvanceNotice: null,
+    notificationFrequency: "immediate",
+    includeConfidenceIntervals: 1,
+    includeExplanation: 1,
+    isActive: 1,
+    pausedAt: null,
+    lastNotifiedScore: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
 export const appRouter = router({
   system: systemRouter,
 
@@ -133,6 +343,35 @@ export const appRouter = router({
 
         return { success: true };
       }),
+    // Alert snooze, report-prompt opt-out (also settable from email links, see emailPreferences) and digest timing
+    updateEmailPreferences: protectedProcedure
+      .input(
+        z.object({
+          snoozeAlertsDays: z.number().int().min(1).max(30).nullable().optional(), // null = resume alerts
+          reportPrompts: z.boolean().optional(),
+          digestHour: z.number().int().min(0).max(23).optional(), // Local hour digests go out
+          digestDayOfWeek: z.number().int().min(0).max(6).optional(), // Weekly digest day, 0=Sun
+          timezone: z.string().max(64).optional(), // IANA zone, e.g. "America/New_York"
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (input.timezone !== undefined && !isValidTimeZone(input.timezone)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid timezone" });
+        }
+        await updateUserEmailPreferences(ctx.user.id, {
+          digestHour: input.digestHour,
+          digestDayOfWeek: input.digestDayOfWeek,
+          timezone: input.timezone,
+          alertsSnoozedUntil:
+            input.snoozeAlertsDays === undefined
+              ? undefined
+              : input.snoozeAlertsDays === null
+                ? null
+                : new Date(Date.now() + input.snoozeAlertsDays * 24 * 60 * 60 * 1000),
+          reportPromptsOptOut: input.reportPrompts === undefined ? undefined : !input.reportPrompts,
+        });
+        return { success: true };
+      }),
     logout: publicProcedure.mutation(({ ctx }) => {
       const cookieOptions = getSessionCookieOptions(ctx.req);
       ctx.res.clearCookie(COOKIE_NAME, { ...cookieOptions, maxAge: -1 });
@@ -260,6 +499,7 @@ export const appRouter = router({
 
     // ==================== MAGIC LINK AUTHENTICATION ====================
     sendMagicLink: publicProcedure
+      .use(rateLimit)
       .input(
         z.object({
           email: z.string().email(),
@@ -461,7 +701,7 @@ export const appRouter = router({
       }),
 
     // Seed initial spots (one-time setup endpoint)
-    seed: publicProcedure.mutation(async () => {
+    seed: adminProcedure.use(auditLog).mutation(async () => {
       const existingSpots = await getAllSpots();
       const existingNames = new Set(existingSpots.map((s) => s.name));
 
@@ -509,7 +749,7 @@ export const appRouter = router({
     // Uses NOAA buoy wind for current quality score, Open-Meteo for forecast
     getCurrentConditionsForAll: publicProcedure.query(async () => {
       const spots = await getAllSpots();
-      const { getForecastTimeline, isForecastDataStale, getAverageCrowdLevel } = await import("./db");
+      const { getForecastTimeline, getAverageCrowdLevel } = await import("./db");
       const { generateForecastTimeline } = await import("./services/forecast");
       const { fetchBuoy44065Cached } = await import("./services/buoy44065");
       const { calculateQualityScoreWithProfile } = await import("./utils/qualityRating");
@@ -556,34 +796,8 @@ export const appRouter = router({
       const results = await Promise.all(
         spots.map(async (spot) => {
           try {
-            // Check if data is stale or missing
-            const isStale = await isForecastDataStale(spot.id, 0.5); // 30 minutes stale threshold
-            let forecastPoints = await getForecastTimeline(spot.id, 3); // Only need 3 hours for current conditions
-
-            // If data is stale or missing, fetch fresh data from Open-Meteo
-            if (isStale || forecastPoints.length === 0) {
-              const { fetchOpenMeteoForecastForSpot, convertToDbFormat } = await import("./services/openMeteo");
-              const { insertForecastPoints } = await import("./db");
-
-              try {
-                // IMPORTANT: Fetch 168 hours (7 days) to match getTimeline behavior
-                // Previously was fetching 3 hours, which would delete full forecast data
-                const fetchedPoints = await fetchOpenMeteoForecastForSpot(spot, { maxHoursOut: 168 });
-
-                // Guard: only write to DB if we actually got data — insertForecastPoints
-                // deletes all existing data first, so an empty response would wipe the spot
-                if (fetchedPoints.length > 0) {
-                  const dbPoints = fetchedPoints.map((point) => convertToDbFormat(point, spot.id));
-                  await insertForecastPoints(dbPoints);
-                }
-
-                // Re-fetch from database after insert
-                forecastPoints = await getForecastTimeline(spot.id, 3);
-              } catch (error) {
-                // If fetch fails, continue with existing data or empty
-                console.warn(`Failed to fetch fresh data for spot ${spot.id}:`, error);
-              }
-            }
+            // Stored points are kept fresh by the forecast-refresh job
+            const forecastPoints = await getForecastTimeline(spot.id, 3); // Only need 3 hours for current conditions
 
             // Get average crowd level
             const avgCrowdLevel = await getAverageCrowdLevel(spot.id);
@@ -729,7 +943,7 @@ export const appRouter = router({
     }),
 
     // Refresh forecast for a spot (fetches fresh data and generates new forecast)
-    refresh: publicProcedure.input(z.object({ spotId: z.number() })).mutation(async ({ input }) => {
+    refresh: publicProcedure.use(rateLimit).use(auditLog).input(z.object({ spotId: z.number() })).mutation(async ({ input }) => {
       const spot = await getSpotById(input.spotId);
       if (!spot) {
         throw new Error("Spot not found");
@@ -777,7 +991,7 @@ export const appRouter = router({
     }),
 
     // Refresh all spots
-    refreshAll: publicProcedure.mutation(async () => {
+    refreshAll: publicProcedure.use(rateLimit).use(auditLog).mutation(async () => {
       const spots = await getAllSpots();
 
       const results = await Promise.all(
@@ -834,6 +1048,8 @@ export const appRouter = router({
         z.object({
           spotId: z.number(),
           hours: z.number().min(1).max(180).default(168),
+          applyHeightCorrection: z.boolean().optional(), // Surf-report calibrated breaking heights (A/B)
+          source: z.enum(TIMELINE_FORECAST_SOURCES).default(PRIMARY_FORECAST_SOURCE), // Forecast source to score
         })
       )
       .query(async ({ input }) => {
@@ -842,126 +1058,29 @@ export const appRouter = router({
           throw new Error("Spot not found");
         }
 
-        // Check if data is stale or missing
-        const { isForecastDataStale } = await import("./db");
-        const isStale = await isForecastDataStale(input.spotId, 0.5); // 30 minutes stale threshold
-        let forecastPoints = await getForecastTimeline(input.spotId, input.hours);
-
-        console.log(`[Forecasts Router] Spot ${input.spotId} (${spot.name}): isStale=${isStale}, pointCount=${forecastPoints.length}, hoursRequested=${input.hours}`);
-
-        // If data is stale or missing, fetch fresh data from Open-Meteo
-        if (isStale || forecastPoints.length === 0) {
-          console.log(`[Forecasts Router] ⚠️ Data for spot ${input.spotId} (${spot.name}) is stale or missing. Fetching fresh data...`);
-          const { fetchOpenMeteoForecastForSpot, convertToDbFormat } = await import("./services/openMeteo");
-          const { insertForecastPoints } = await import("./db");
-
-          try {
-            // Fetch fresh data from Open-Meteo
-            console.log(`[Forecasts Router] 🌊 Fetching ${input.hours} hours from Open-Meteo for ${spot.name}...`);
-            const fetchedPoints = await fetchOpenMeteoForecastForSpot(spot, { maxHoursOut: input.hours });
-            console.log(`[Forecasts Router] ✅ Fetched ${fetchedPoints.length} points from Open-Meteo`);
-
-            // Convert to database format
-            const dbPoints = fetchedPoints.map((point) => convertToDbFormat(point, spot.id));
-            if (dbPoints.length > 0) {
-              console.log('[Forecasts Router] Sample point data:', {
-                secondarySwellHeightFt: dbPoints[0].secondarySwellHeightFt,
-                windWaveHeightFt: dbPoints[0].windWaveHeightFt,
-              });
-            }
-
-            // Store in database (auto-cleanup happens inside insertForecastPoints)
-            console.log(`[Forecasts Router] 💾 Inserting ${dbPoints.length} new points (auto-cleanup enabled)...`);
-            await insertForecastPoints(dbPoints);
-
-            // Re-fetch from database after insert
-            forecastPoints = await getForecastTimeline(input.spotId, input.hours);
-            console.log(`[Forecasts Router] ✅ Re-fetched ${forecastPoints.length} points from database`);
-          } catch (error: any) {
-            console.error(`[Forecasts Router] ❌ Error refreshing data for spot ${input.spotId}:`, error);
-            const status = error.response?.status;
-            const statusMessage = status ? ` (${status})` : '';
-            throw new TRPCError({
-              code: status === 400 ? "BAD_REQUEST" : status === 404 ? "NOT_FOUND" : status >= 500 ? "INTERNAL_SERVER_ERROR" : "INTERNAL_SERVER_ERROR",
-              message: `Open-Meteo API request failed${statusMessage}`,
-            });
-          }
-        } else {
-          console.log(`[Forecasts Router] ✅ Using cached data for spot ${input.spotId} (${spot.name}): ${forecastPoints.length} points`);
-        }
-
-        // Get average crowd level
-        const avgCrowdLevel = await getAverageCrowdLevel(spot.id);
-
-        // Generate timeline with quality scores
-        const { generateForecastTimeline, applyBuoyOverrideToCurrentPoint } = await import("./services/forecast");
-        const timeline = await generateForecastTimeline({
-          forecastPoints,
-          spot,
-          tideStationId: spot.tideStationId,
-          avgCrowdLevel,
+        // Scored from the source's stored run and shared across visitors; never waits on a forecast API
+        const { getCachedTimeline } = await import("./services/timelineCache");
+        const cached = await getCachedTimeline(spot, {
+          applyHeightCorrection: input.applyHeightCorrection,
+          source: input.source,
         });
-
-        // Apply buoy override for current point only
-        console.log(`[Forecasts Router] About to call applyBuoyOverrideToCurrentPoint for ${spot.name}...`);
-        const timelineWithBuoyOverride = await applyBuoyOverrideToCurrentPoint(timeline, spot);
-        console.log(`[Forecasts Router] applyBuoyOverrideToCurrentPoint completed for ${spot.name}`);
-
-        // 📡 STEP 5: API Sending to Frontend
-        if (timelineWithBuoyOverride.length > 0) {
-          const firstTimeline = timelineWithBuoyOverride[0];
-          console.log('📡 STEP 5: API Sending to Frontend');
-          console.log('Timeline length:', timelineWithBuoyOverride.length);
-          console.log('Timeline sample:', {
-            secondarySwellHeightFt: firstTimeline.secondarySwellHeightFt,
-            secondarySwellPeriodS: firstTimeline.secondarySwellPeriodS,
-            secondarySwellDirectionDeg: firstTimeline.secondarySwellDirectionDeg,
-            windWaveHeightFt: firstTimeline.windWaveHeightFt,
-            windWavePeriodS: firstTimeline.windWavePeriodS,
-            windWaveDirectionDeg: firstTimeline.windWaveDirectionDeg,
-          });
+        let timeline = cached.timeline;
+        if (input.source === PRIMARY_FORECAST_SOURCE) {
+          // Euro fields (the model toggle) and the weighted multi-model ensemble from the other sources
+          const { applyForecastSources } = await import("./services/ensemble");
+          timeline = await applyForecastSources(spot, timeline, { applyHeightCorrection: input.applyHeightCorrection });
         }
+        const timelineWithConfidence = timeline.filter((point) => point.hoursOut <= input.hours);
+        const recommendedModel = cached.recommendedModel;
 
-        // Add ECMWF confidence data to timeline (compares Open-Meteo vs Stormglass)
-        // Stormglass verification is fetched ONCE inside addConfidenceToTimeline;
-        // the three derived computations reuse the already-enriched timeline.
-        const timelineWithConfidence = await addConfidenceToTimeline(spot.id, timelineWithBuoyOverride, spot.name);
         const confidenceSummary = getConfidenceSummary(timelineWithConfidence);
         const waveHeightDiscrepancy = getWaveHeightDiscrepancy(timelineWithConfidence);
         const waveHeightDiscrepancyByDay = getWaveHeightDiscrepancyByDay(timelineWithConfidence);
 
-        // Auto-select best forecast model by comparing buoy observation vs both models
-        let recommendedModel: { model: 'euro' | 'om'; reason: string; buoyHeightFt: number; omDiffFt: number; euroDiffFt: number | null } | null = null;
-        try {
-          const buoyData = spot.name === "Montauk"
-            ? await fetchMontaukBuoyCached()
-            : await fetchBuoy44065Cached();
-
-          // Find the current (first) timeline point for OM wave height
-          const now = Date.now();
-          const currentPoint = timelineWithConfidence.find(p => {
-            const ts = new Date(p.forecastTimestamp).getTime();
-            return ts >= now - 60 * 60 * 1000; // within last hour
-          });
-
-          if (currentPoint) {
-            const omHeightFt = currentPoint.breakingWaveHeightFt ?? currentPoint.dominantSwellHeightFt ?? null;
-            const ecmwfHeightFt = currentPoint.ecmwfWaveHeightFt ?? null;
-            const buoyHeightFt = buoyData?.dominantWaveHeight ?? null;
-            const buoyIsStale = buoyData?.isStale ?? true;
-
-            recommendedModel = selectRecommendedModel(buoyHeightFt, buoyIsStale, omHeightFt, ecmwfHeightFt);
-            if (recommendedModel) {
-              console.log(`[Model Selection] ${spot.name}: recommended=${recommendedModel.model} — ${recommendedModel.reason}`);
-            }
-          }
-        } catch (err) {
-          console.error('[Model Selection] Error selecting recommended model:', err);
-        }
-
         return {
           timeline: timelineWithConfidence,
           spot,
+          source: input.source,
           recommendedModel,
           confidence: {
             overall: confidenceSummary.overallConfidence,
@@ -981,36 +1100,158 @@ export const appRouter = router({
         };
       }),
 
-    // Force cleanup of old forecast data for a spot
-    cleanupSpotData: publicProcedure
+    // How one hour's forecast changed across archived model runs, oldest run first
+    // (e.g. Saturday 8am as forecast on each day of the week before)
+    getRunHistory: publicProcedure
+      .input(
+        z.object({
+          spotId: z.number(),
+          forecastTimestamp: z.date(), // Rounded down to the hour
+        })
+      )
+      .query(async ({ input }) => {
+        const spot = await getSpotById(input.spotId);
+        if (!spot) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Spot not found" });
+        }
+
+        const hourMs = 60 * 60 * 1000;
+        const forecastTimestamp = new Date(Math.floor(input.forecastTimestamp.getTime() / hourMs) * hourMs);
+        const points = await getForecastRunHistory(spot.id, forecastTimestamp);
+
+        // Score each run's version of the hour the same way getTimeline does
+        const scored = await generateForecastTimeline({
+          forecastPoints: points,
+          spot,
+          tideStationId: spot.tideStationId,
+          avgCrowdLevel: await getAverageCrowdLevel(spot.id),
+        });
+
+        return {
+          spot,
+          forecastTimestamp,
+          runs: points.map((point, i) => ({
+            modelRunTime: point.modelRunTime,
+            source: point.source,
+            hoursOut: point.hoursOut,
+            breakingWaveHeightFt: scored[i].breakingWaveHeightFt,
+            quality_score: scored[i].quality_score,
+            quality_rating: scored[i].quality_rating,
+            dominantSwellHeightFt: scored[i].dominantSwellHeightFt,
+            dominantSwellPeriodS: scored[i].dominantSwellPeriodS,
+            dominantSwellDirectionDeg: scored[i].dominantSwellDirectionDeg,
+            windSpeedMph: scored[i].windSpeedMph,
+            windDirectionDeg: scored[i].windDirectionDeg,
+            windType: scored[i].windType,
+          })),
+        };
+      }),
+
+    // Ranked daylight surf windows across all spots (e.g. "Lido, Sat 7–11am, 72")
+    getBestWindows: publicProcedure
+      .input(
+        z.object({
+          days: z.number().int().min(1).max(7).default(3),
+          minQualityScore: z.number().min(0).max(100).default(60), // "Go Surf" and up
+          daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(), // 0=Sunday, Eastern
+          earliestStartHour: z.number().int().min(0).max(23).optional(), // Eastern
+          origin: z.string().optional(), // "lat,lng", required for maxDriveMinutes
+          maxDriveMinutes: z.number().int().min(1).optional(),
+          limit: z.number().int().min(1).max(50).default(10),
+        })
+      )
+      .query(async ({ input }) => {
+        if (input.maxDriveMinutes !== undefined && !input.origin) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "origin is required with maxDriveMinutes" });
+        }
+
+        const { findBestWindows, rankBestWindows } = await import("./utils/bestWindows");
+        const now = new Date();
+        const until = new Date(now.getTime() + input.days * 24 * 60 * 60 * 1000);
+
+        // Unknown drive times (Maps not configured or no route) don't exclude a spot
+        const driveTimes = input.origin ? await fetchDistancesToSpots(input.origin, "driving") : {};
+        const spots = (await getAllSpots()).filter((spot) => {
+          const driveMinutes = driveTimes[spot.name]?.durationMinutes;
+          return input.maxDriveMinutes === undefined || driveMinutes === undefined || driveMinutes <= input.maxDriveMinutes;
+        });
+
+        const windowsBySpot = await Promise.all(
+          spots.map(async (spot) => {
+            try {
+              // Stored points are kept fresh by the forecast-refresh job
+              const forecastPoints = await getForecastTimeline(spot.id, input.days * 24);
+              if (forecastPoints.length === 0) return [];
+
+              const timeline = await generateForecastTimeline({
+                forecastPoints,
+                spot,
+                tideStationId: spot.tideStationId,
+                avgCrowdLevel: await getAverageCrowdLevel(spot.id),
+              });
+              return findBestWindows(timeline, spot, {
+                minQualityScore: input.minQualityScore,
+                daysOfWeek: input.daysOfWeek,
+                earliestStartHour: input.earliestStartHour,
+                from: new Date(now.getTime() - 60 * 60 * 1000), // Include the hour in progress
+                until,
+              });
+            } catch (error) {
+              console.error(`[Best Windows] Failed to scan ${spot.name}:`, error);
+              return [];
+            }
+          })
+        );
+
+        const windows = rankBestWindows(windowsBySpot.flat()).slice(0, input.limit);
+        return windows.map((window) => ({
+          ...window,
+          driveMinutes: driveTimes[window.spotName]?.durationMinutes ?? null,
+        }));
+      }),
+
+    // Tracked swell events (upcoming, active and recently passed) with their run-by-run forecast revisions
+    getSwellEvents: publicProcedure
+      .input(
+        z.object({
+          spotId: z.number().optional(),
+          pastDays: z.number().min(0).max(30).default(3), // Include events that ended within this many days
+          includeDropped: z.boolean().default(false),
+        })
+      )
+      .query(async ({ input }) => {
+        const since = new Date(Date.now() - input.pastDays * 24 * 60 * 60 * 1000);
+        return getSwellEventsWithRevisions(since, { spotId: input.spotId, includeDropped: input.includeDropped });
+      }),
+
+    getSwellEvent: publicProcedure.input(z.object({ id: z.number() })).query(async ({ input }) => {
+      const [event] = await getSwellEventsWithRevisions(new Date(0), { eventId: input.id, includeDropped: true });
+      if (!event) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Swell event not found" });
+      }
+      return event;
+    }),
+
+    // Force compaction / expiry of a spot's archived forecast runs (normally the daily forecast-archive job)
+    cleanupSpotData: adminProcedure
+      .use(auditLog)
       .input(z.object({ spotId: z.number() }))
       .mutation(async ({ input }) => {
-        const { deleteAllForecastPointsForSpot, getForecastTimeline } = await import("./db");
-        
-        console.log(`[Force Cleanup] Starting cleanup for spot ${input.spotId}...`);
-        
-        // Get count before cleanup
-        const beforeCount = (await getForecastTimeline(input.spotId, 1000)).length;
-        console.log(`[Force Cleanup] Found ${beforeCount} points before cleanup`);
-        
-        // Delete ALL forecast points for this spot
-        const deletedCount = await deleteAllForecastPointsForSpot(input.spotId);
-        console.log(`[Force Cleanup] Deleted ${deletedCount} forecast points for spot ${input.spotId}`);
-        
-        // Verify cleanup
-        const afterCount = (await getForecastTimeline(input.spotId, 1000)).length;
-        console.log(`[Force Cleanup] Found ${afterCount} points after cleanup`);
-        
+        const { compactSpotForecastArchive } = await import("./layers/environmental/jobs/compactForecastArchive");
+        const result = await compactSpotForecastArchive(input.spotId);
+        console.log(`[Force Cleanup] Spot ${input.spotId}: ${result.compactedRuns} run(s) compacted, ${result.expiredPoints} expired points deleted`);
+
         return {
           success: true,
-          deletedCount,
-          beforeCount,
-          afterCount,
+          deletedCount: result.compactedPoints + result.expiredPoints,
+          ...result,
         };
       }),
 
     // Refresh forecast timeline (fetch from Open-Meteo and store)
     refreshTimeline: publicProcedure
+      .use(rateLimit)
+      .use(auditLog)
       .input(z.object({ spotId: z.number() }))
       .mutation(async ({ input }) => {
         const spot = await getSpotById(input.spotId);
@@ -1018,47 +1259,16 @@ export const appRouter = router({
           throw new Error("Spot not found");
         }
 
-        // Import Open-Meteo functions
-        const { fetchOpenMeteoForecastForSpot, convertToDbFormat } = await import("./services/openMeteo");
-        const { insertForecastPoints, deleteAllForecastPointsForSpot } = await import("./db");
-
         console.log(`[Refresh Timeline] Starting refresh for ${spot.name} (ID: ${input.spotId})...`);
 
-        // Explicitly delete old points BEFORE fetching new data to ensure clean state
-        console.log(`[Refresh Timeline] Cleaning up old forecast points for spot ${input.spotId}...`);
-        const deletedCount = await deleteAllForecastPointsForSpot(input.spotId);
-        console.log(`[Refresh Timeline] Deleted ${deletedCount} old forecast points`);
-
-        // Fetch forecast from Open-Meteo (168 hours = 7 days)
-        const forecastPoints = await fetchOpenMeteoForecastForSpot(spot, { maxHoursOut: 168 });
-        console.log(`[Refresh Timeline] Fetched ${forecastPoints.length} points from Open-Meteo (expected: 168)`);
-
-        if (forecastPoints.length === 0) {
-          console.error(`[Refresh Timeline] ERROR: Fetched 0 forecast points from Open-Meteo!`);
-          throw new Error("Failed to fetch forecast points from Open-Meteo");
-        }
-
-        if (forecastPoints.length < 168) {
-          console.warn(`[Refresh Timeline] WARNING: Expected 168 points but got ${forecastPoints.length}`);
-        }
-
-        // Convert to database format
-        const dbPoints = forecastPoints.map((point) => convertToDbFormat(point, spot.id));
-        if (dbPoints.length > 0) {
-          console.log('[Refresh Timeline] Sample point:', {
-            secondarySwellHeightFt: dbPoints[0].secondarySwellHeightFt,
-            windWaveHeightFt: dbPoints[0].windWaveHeightFt,
-          });
-        }
-
-        // Store in database (insertForecastPoints also does cleanup, but we already did it above)
-        console.log(`[Refresh Timeline] Inserting ${dbPoints.length} points into database...`);
-        await insertForecastPoints(dbPoints);
-        console.log(`[Refresh Timeline] ✅ Successfully stored ${dbPoints.length} forecast points`);
+        // Fetches and stores a new run (168 hours = 7 days), then recomputes the cached timeline
+        const { refreshForecastPoints } = await import("./services/timelineCache");
+        const pointsStored = await refreshForecastPoints(spot);
+        console.log(`[Refresh Timeline] ✅ Successfully stored ${pointsStored} forecast points`);
 
         return {
           success: true,
-          pointsStored: dbPoints.length,
+          pointsStored,
         };
       }),
   }),
@@ -1157,109 +1367,7 @@ export const appRouter = router({
         })
       )
       .query(async ({ input }) => {
-        // Spot coordinates (name -> lat,lng)
-        const SPOT_COORDS: Record<string, string> = {
-          "Lido Beach": "40.5892,-73.6265",
-          "Long Beach": "40.5883,-73.6579",
-          "Rockaway Beach": "40.5833,-73.8167",
-          "Montauk": "41.0359,-71.9545",
-        };
-
-        // Round origin to 3 decimal places to improve cache hit rate
-        const roundCoord = (coord: string) => {
-          const [lat, lng] = coord.split(",").map(Number);
-          return `${lat.toFixed(3)},${lng.toFixed(3)}`;
-        };
-
-        const roundedOrigin = roundCoord(input.origin);
-        const cacheKey = `distance:${roundedOrigin}:${input.mode}`;
-
-        // Check in-memory cache (12 hour TTL)
-        const cached = distanceCache.get(cacheKey);
-        if (cached && Date.now() - cached.timestamp < 12 * 60 * 60 * 1000) {
-          return cached.data;
-        }
-
-        // Get API key - try direct key first, then fall back to proxy
-        const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-
-        if (!apiKey) {
-          console.warn("GOOGLE_MAPS_API_KEY not set - distance feature disabled");
-          const distances: Record<string, null> = {};
-          Object.keys(SPOT_COORDS).forEach((name) => {
-            distances[name] = null;
-          });
-          return distances;
-        }
-
-        try {
-          // Join all destinations with | separator for batch request
-          const destinations = Object.values(SPOT_COORDS).join("|");
-
-          // Call Google Maps Distance Matrix API directly
-          const url = new URL("https://maps.googleapis.com/maps/api/distancematrix/json");
-          url.searchParams.set("origins", input.origin);
-          url.searchParams.set("destinations", destinations);
-          url.searchParams.set("mode", input.mode);
-          url.searchParams.set("units", "imperial");
-          url.searchParams.set("key", apiKey);
-
-          const response = await fetch(url.toString());
-          if (!response.ok) {
-            throw new Error(`Google Maps API error: ${response.status}`);
-          }
-
-          const result = await response.json() as DistanceMatrixResult;
-
-          if (result.status !== "OK") {
-            throw new Error(`Distance Matrix API error: ${result.status}`);
-          }
-
-          // Map results back to spot names
-          const spotNames = Object.keys(SPOT_COORDS);
-          const elements = result.rows[0]?.elements || [];
-
-          const distances: Record<string, {
-            distanceMiles: number;
-            durationMinutes: number;
-            durationText: string;
-            distanceText: string;
-          } | null> = {};
-
-          spotNames.forEach((spotName, index) => {
-            const element = elements[index];
-            if (element && element.status === "OK") {
-              // Convert meters to miles (1 mile = 1609.34 meters)
-              const distanceMiles = Math.round(element.distance.value / 1609.34 * 10) / 10;
-              const durationMinutes = Math.round(element.duration.value / 60);
-
-              distances[spotName] = {
-                distanceMiles,
-                durationMinutes,
-                durationText: element.duration.text,
-                distanceText: element.distance.text,
-              };
-            } else {
-              distances[spotName] = null;
-            }
-          });
-
-          // Cache the result
-          distanceCache.set(cacheKey, {
-            timestamp: Date.now(),
-            data: distances,
-          });
-
-          return distances;
-        } catch (error) {
-          console.error("Batch distance calculation error:", error);
-          // Return null for all spots on error (fail gracefully)
-          const distances: Record<string, null> = {};
-          Object.keys(SPOT_COORDS).forEach((name) => {
-            distances[name] = null;
-          });
-          return distances;
-        }
+        return fetchDistancesToSpots(input.origin, input.mode);
       }),
   }),
 
@@ -1277,8 +1385,58 @@ export const appRouter = router({
       return reading;
     }),
 
+    // Stored NDBC history (ingested by the buoy-history job), by buoy or by spot's buoy
+    getHistory: publicProcedure
+      .input(
+        z.object({
+          buoyId: z.string().min(1).max(16).optional(),
+          spotId: z.number().optional(),
+          days: z.number().min(1).max(45).default(7),
+        }).refine((input) => input.buoyId || input.spotId !== undefined, {
+          message: "buoyId or spotId is required",
+        })
+      )
+      .query(async ({ input }) => {
+        let buoyId = input.buoyId;
+        if (!buoyId) {
+          const spot = await getSpotById(input.spotId!);
+          if (!spot) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Spot not found" });
+          }
+          buoyId = spot.buoyId;
+        }
+
+        const since = new Date(Date.now() - input.days * 24 * 60 * 60 * 1000);
+        const rows = await getBuoyReadingHistory(buoyId, since);
+
+        const cmToFt = (cm: number | null) => (cm !== null ? Math.round((cm / 30.48) * 10) / 10 : null);
+        const dsToS = (ds: number | null) => (ds !== null ? ds / 10 : null);
+        const cmpsToKts = (cmps: number | null) => (cmps !== null ? Math.round((cmps / 100) * 1.94384 * 10) / 10 : null);
+
+        return {
+          buoyId,
+          readings: rows.map((row) => ({
+            timestamp: row.timestamp,
+            waveHeightFt: cmToFt(row.waveHeightCm),
+            dominantPeriodS: dsToS(row.dominantPeriodDs),
+            averagePeriodS: dsToS(row.averagePeriodDs),
+            meanWaveDirectionDeg: row.swellDirectionDeg,
+            swellHeightFt: cmToFt(row.swellHeightCm),
+            swellPeriodS: dsToS(row.swellPeriodDs),
+            swellDirectionDeg: row.swellDirDeg,
+            windWaveHeightFt: cmToFt(row.windWaveHeightCm),
+            windWavePeriodS: dsToS(row.windWavePeriodDs),
+            windWaveDirectionDeg: row.windWaveDirDeg,
+            steepness: row.steepness,
+            windSpeedKts: cmpsToKts(row.windSpeedCmps),
+            windGustKts: cmpsToKts(row.windGustCmps),
+            windDirectionDeg: row.windDirectionDeg,
+          })),
+        };
+      }),
+
     // Clear buoy cache (for debugging/forcing refresh)
-    clearCache: publicProcedure.mutation(async () => {
+    clearCache: adminProcedure.use(auditLog).mutation(async () => {
       clearBuoyCache();
       clearMontaukBuoyCache();
       const freshReading = await fetchBuoy44065Cached();
@@ -1608,6 +1766,7 @@ export const appRouter = router({
   conditions: router({
     // Log current conditions snapshot for pattern matching
     logSnapshot: publicProcedure
+      .use(rateLimit)
       .input(z.object({
         bestSpotName: z.string().nullable(),
         qualityScore: z.number().nullable(),
@@ -1788,12 +1947,16 @@ export const appRouter = router({
           minPeriodSec: z.number().optional(),
           idealWindOnly: z.boolean().optional(),
           allowedDays: z.array(z.number().min(0).max(6)).optional(), // 0=Sun, 6=Sat
+          rule: alertRuleSchema.optional(), // Compound criteria; replaces the fields above when set
           hoursAdvanceNotice: z.number().min(1).max(168).default(24),
           emailEnabled: z.boolean().default(true),
           smsEnabled: z.boolean().default(false),
+          pushEnabled: z.boolean().default(false), // Sent to the devices in notifications.subscribe
           phone: z.string().optional(),
-          // Alert frequency: "once" | "twice" | "threshold" | "realtime"
-          notificationFrequency: z.enum(["once", "twice", "threshold", "realtime", "immediate"]).default("once"),
+          // Alert frequency: "once" | "twice" | "threshold" | "realtime", or a daily / weekly digest
+          notificationFrequency: z
+            .enum(["once", "twice", "threshold", "realtime", "immediate", "daily_digest", "weekly_digest"])
+            .default("once"),
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -1807,7 +1970,11 @@ export const appRouter = router({
           const db = await getDb();
           const updateFields: any = { smsOptIn: 1 };
           if (input.phone) {
-            updateFields.phone = input.phone.replace(/\D/g, "");
+            const phone = toE164(input.phone);
+            if (!phone) {
+              throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid phone number" });
+            }
+            updateFields.phone = phone;
           }
           await db.update(users).set(updateFields).where(eq(users.id, ctx.user.id));
         }
@@ -1828,10 +1995,11 @@ export const appRouter = router({
           minPeriodSec: minPeriodSecValue,
           idealWindOnly: input.idealWindOnly ? 1 : 0,
           allowedDays: input.allowedDays ? input.allowedDays.join(',') : "0,1,2,3,4,5,6",
+          rule: input.rule ? JSON.stringify(input.rule) : null,
           hoursAdvanceNotice: input.hoursAdvanceNotice,
           emailEnabled: input.emailEnabled ? 1 : 0,
           smsEnabled: input.smsEnabled ? 1 : 0,
-          pushEnabled: 0,
+          pushEnabled: input.pushEnabled ? 1 : 0,
           isActive: 1,
           notificationFrequency: input.notificationFrequency,
           daysAdvanceNotice: null,
@@ -1848,11 +2016,14 @@ export const appRouter = router({
             threshold: "Threshold Only",
             realtime: "Real-Time",
             immediate: "Immediate",
+            daily_digest: "Daily Digest",
+            weekly_digest: "Weekly Digest",
           }[input.notificationFrequency] || input.notificationFrequency;
           
           const notificationMethods = [];
           if (input.emailEnabled) notificationMethods.push("Email");
           if (input.smsEnabled) notificationMethods.push("SMS");
+          if (input.pushEnabled) notificationMethods.push("Push");
           
           await sendEmail({
             to: ctx.user.email,
@@ -1889,8 +2060,14 @@ export const appRouter = router({
           minPeriodSec: z.number().optional(),
           idealWindOnly: z.boolean().optional(),
           allowedDays: z.array(z.number().min(0).max(6)).optional(),
+          rule: alertRuleSchema.nullable().optional(), // null goes back to the fields above
           hoursAdvanceNotice: z.number().min(1).max(168).optional(),
           emailEnabled: z.boolean().optional(),
+          pushEnabled: z.boolean().optional(),
+          notificationFrequency: z
+            .enum(["once", "twice", "threshold", "realtime", "immediate", "daily_digest", "weekly_digest"])
+            .optional(),
+          paused: z.boolean().optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -1911,8 +2088,12 @@ export const appRouter = router({
         if (updates.minPeriodSec !== undefined) updateData.minPeriodSec = updates.minPeriodSec;
         if (updates.idealWindOnly !== undefined) updateData.idealWindOnly = updates.idealWindOnly ? 1 : 0;
         if (updates.allowedDays !== undefined) updateData.allowedDays = updates.allowedDays.join(',');
+        if (updates.rule !== undefined) updateData.rule = updates.rule ? JSON.stringify(updates.rule) : null;
         if (updates.hoursAdvanceNotice !== undefined) updateData.hoursAdvanceNotice = updates.hoursAdvanceNotice;
         if (updates.emailEnabled !== undefined) updateData.emailEnabled = updates.emailEnabled ? 1 : 0;
+        if (updates.pushEnabled !== undefined) updateData.pushEnabled = updates.pushEnabled ? 1 : 0;
+        if (updates.notificationFrequency !== undefined) updateData.notificationFrequency = updates.notificationFrequency;
+        if (updates.paused !== undefined) updateData.pausedAt = updates.paused ? existingAlert.pausedAt ?? new Date() : null;
         await updateSwellAlert(alertId, ctx.user.id, updateData);
         return { success: true };
       }),
@@ -1928,39 +2109,232 @@ export const appRouter = router({
       }),
 
     preview: protectedProcedure
+      .input(alertCriteriaInput)
+      .query(async ({ ctx, input }) => {
+        if (!ctx.user) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "User must be authenticated" });
+        }
+        const { previewAlert } = await import("./layers/retention/swellDetection");
+        const { describeAlertRule } = await import("./layers/retention/alertRules");
+        const spots = await getAllSpots();
+        const preview = await previewAlert(toDraftSwellAlert(ctx.user.id, input), spots);
+        return { ...preview, ruleDescription: describeAlertRule(preview.rule) };
+      }),
+
+    // How often these criteria would have fired over the last few months, and how those days were rated
+    backtest: protectedProcedure
+      .input(alertCriteriaInput.extend({ months: z.number().int().min(1).max(12).default(3) }))
+      .query(async ({ ctx, input }) => {
+        if (!ctx.user) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "User must be authenticated" });
+        }
+        const { backtestAlert } = await import("./layers/retention/backtest");
+        const { months, ...criteria } = input;
+        const spots = await getAllSpots();
+        return backtestAlert(toDraftSwellAlert(ctx.user.id, criteria), spots, { months });
+      }),
+
+    // Secret .ics feed of upcoming windows from the user's alerts; null until one is created
+    calendarFeed: protectedProcedure.query(async ({ ctx }) => {
+      const { getCalendarFeedUrl } = await import("./layers/retention/calendarFeed");
+      return { url: ctx.user.calendarToken ? getCalendarFeedUrl(ctx.user.calendarToken) : null };
+    }),
+
+    // Create the feed URL, or replace it so the old one stops working
+    resetCalendarFeed: protectedProcedure.mutation(async ({ ctx }) => {
+      const { generateCalendarToken, getCalendarFeedUrl } = await import("./layers/retention/calendarFeed");
+      const token = generateCalendarToken();
+      await setUserCalendarToken(ctx.user.id, token);
+      return { url: getCalendarFeedUrl(token) };
+    }),
+  }),
+
+  // Signed links from alert / report-prompt emails; work without signing in
+  emailPreferences: router({
+    describe: publicProcedure
+      .input(z.object({ token: z.string().min(1) }))
+      .query(async ({ input }) => {
+        const { verifyEmailPreferenceToken, describeEmailPreferenceToken, SNOOZE_DAY_OPTIONS } = await import("./layers/retention/emailPreferences");
+        const token = await verifyEmailPreferenceToken(input.token);
+        if (!token) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "This link is invalid or has expired" });
+        }
+        return { ...(await describeEmailPreferenceToken(token)), snoozeDayOptions: SNOOZE_DAY_OPTIONS };
+      }),
+
+    confirm: publicProcedure
       .input(
         z.object({
-          spotId: z.number().nullable(),
-          minWaveHeightFt: z.number().optional(),
-          minQualityScore: z.number().min(0).max(100).optional(),
-          minPeriodSec: z.number().optional(),
-          hoursAdvanceNotice: z.number().min(1).max(168).default(24),
+          token: z.string().min(1),
+          snoozeDays: z.number().int().min(1).max(30).optional(),
         })
       )
-      .query(async ({ ctx, input }) => {
-        if (!ctx.user) {
-          throw new TRPCError({ code: "UNAUTHORIZED", message: "User must be authenticated" });
+      .mutation(async ({ input }) => {
+        const { verifyEmailPreferenceToken, applyEmailPreferenceAction } = await import("./layers/retention/emailPreferences");
+        const token = await verifyEmailPreferenceToken(input.token);
+        if (!token) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "This link is invalid or has expired" });
+        }
+        const result = await applyEmailPreferenceAction(token, { snoozeDays: input.snoozeDays });
+        return { action: token.action, ...result };
+      }),
+  }),
+
+  // Web Push subscriptions for this browser / device (alerts with pushEnabled go to all of them)
+  notifications: router({
+    vapidPublicKey: publicProcedure.query(async () => {
+      const { getVapidPublicKey } = await import("./layers/retention/delivery/push");
+      return { publicKey: getVapidPublicKey() };
+    }),
+
+    subscribe: protectedProcedure
+      .input(
+        z.object({
+          endpoint: z.string().url().max(512),
+          keys: z.object({
+            p256dh: z.string().min(1).max(128),
+            auth: z.string().min(1).max(64),
+          }),
+          userAgent: z.string().max(255).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (!input.endpoint.startsWith("https://")) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Push endpoint must be https" });
         }
-        const { detectUpcomingSwells } = await import("./services/swellDetection");
-        const tempAlert: any = {
-          id: 0,
+        await upsertPushSubscription({
           userId: ctx.user.id,
-          spotId: input.spotId,
-          minWaveHeightFt: input.minWaveHeightFt ? String(input.minWaveHeightFt) : null,
-          minQualityScore: input.minQualityScore ?? null,
-          minPeriodSec: input.minPeriodSec ?? null,
-          idealWindOnly: 0,
-          hoursAdvanceNotice: input.hoursAdvanceNotice,
-          emailEnabled: 1,
-          pushEnabled: 0,
-          isActive: 1,
-        };
-        const spots = await getAllSpots();
-        return await detectUpcomingSwells(tempAlert, spots);
+          endpoint: input.endpoint,
+          p256dh: input.keys.p256dh,
+          auth: input.keys.auth,
+          userAgent: input.userAgent ?? null,
+        });
+        return { success: true };
+      }),
+
+    unsubscribe: protectedProcedure
+      .input(z.object({ endpoint: z.string().max(512) }))
+      .mutation(async ({ ctx, input }) => {
+        const removed = await deletePushSubscription(ctx.user.id, input.endpoint);
+        return { success: true, removed };
+      }),
+  }),
+
+  // Keys for the public REST API (/api/v1); the key itself is only returned by create
+  apiKeys: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const keys = await getApiKeysForUser(ctx.user.id);
+      return keys.map(({ keyHash: _, ...key }) => key);
+    }),
+
+    create: protectedProcedure
+      .input(z.object({ name: z.string().trim().min(1).max(64) }))
+      .mutation(async ({ ctx, input }) => {
+        const { generateApiKey, MAX_API_KEYS_PER_USER } = await import("./api/apiKeys");
+        const activeKeys = (await getApiKeysForUser(ctx.user.id)).filter((key) => !key.revokedAt);
+        if (activeKeys.length >= MAX_API_KEYS_PER_USER) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `You can have up to ${MAX_API_KEYS_PER_USER} API keys. Revoke one first.`,
+          });
+        }
+
+        const { key, keyPrefix, keyHash } = generateApiKey();
+        const id = await createApiKey({ userId: ctx.user.id, name: input.name, keyPrefix, keyHash });
+        return { id, name: input.name, keyPrefix, key };
+      }),
+
+    revoke: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const revoked = await revokeApiKey(input.id, ctx.user.id);
+        if (!revoked) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "API key not found" });
+        }
+        return { success: true };
       }),
   }),
 
   admin: router({
+    spots: router({
+      // List spots with their profile (null if the spot has no profile yet)
+      listProfiles: adminProcedure.query(async () => {
+        const [spots, profiles] = await Promise.all([getAllSpots(), getAllSpotProfiles()]);
+        const profileBySpotId = new Map(profiles.map((p) => [p.spotId, p]));
+        return spots.map((spot) => ({
+          spot,
+          profile: profileBySpotId.get(spot.id) ?? null,
+        }));
+      }),
+
+      // Create a new spot and its profile in one step
+      create: adminProcedure
+        .input(
+          z.object({
+            name: z.string().min(1).max(128),
+            latitude: z.string(),
+            longitude: z.string(),
+            buoyId: z.string().min(1).max(16),
+            tideStationId: z.string().min(1).max(16),
+            bathymetryFactor: z.number().min(1).max(10).default(5),
+            idealSwellDirMin: z.number().min(0).max(360).default(90),
+            idealSwellDirMax: z.number().min(0).max(360).default(180),
+            profile: spotProfileInput,
+          })
+        )
+        .mutation(async ({ input }) => {
+          const { profile, ...spot } = input;
+          const existing = await getAllSpots();
+          if (existing.some((s) => s.name === spot.name)) {
+            throw new TRPCError({ code: "CONFLICT", message: `Spot "${spot.name}" already exists` });
+          }
+
+          const spotId = await createSpot(spot);
+          if (!spotId) {
+            throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+          }
+
+          await upsertSpotProfile(toSpotProfileRow(spotId, profile));
+          await loadSpotProfiles();
+
+          console.log(`[Admin] Created spot ${spot.name} (${spotId}) with profile "${profile.profileKey}"`);
+          return { success: true, spotId };
+        }),
+
+      // Edit a spot's stations/location and create or replace its profile
+      update: adminProcedure
+        .input(
+          z.object({
+            spotId: z.number(),
+            latitude: z.string().optional(),
+            longitude: z.string().optional(),
+            buoyId: z.string().min(1).max(16).optional(),
+            tideStationId: z.string().min(1).max(16).optional(),
+            profile: spotProfileInput,
+          })
+        )
+        .mutation(async ({ input }) => {
+          const { spotId, profile, ...spotUpdates } = input;
+          const spot = await getSpotById(spotId);
+          if (!spot) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Spot not found" });
+          }
+
+          const changed = Object.fromEntries(
+            Object.entries(spotUpdates).filter(([, value]) => value !== undefined)
+          );
+          if (Object.keys(changed).length > 0) {
+            await updateSpot(spotId, changed);
+          }
+
+          await upsertSpotProfile(toSpotProfileRow(spotId, profile));
+          const loaded = await loadSpotProfiles();
+
+          console.log(`[Admin] Updated profile "${profile.profileKey}" for ${spot.name}`);
+          return { success: true, profilesLoaded: loaded, profile: await getSpotProfileBySpotId(spotId) };
+        }),
+    }),
+
     forecasts: router({
       // Manually trigger Open-Meteo Marine ingestion for all spots
       triggerOpenMeteoFetch: adminProcedure
@@ -1991,9 +2365,8 @@ export const appRouter = router({
             throw new TRPCError({ code: "NOT_FOUND", message: "Spot not found" });
           }
 
-          const { fetchStormglassForSpot } = await import("./services/stormglass");
-          const { insertStormglassVerificationBatch } = await import("./db");
-          const { InsertStormglassVerification } = await import("../drizzle/schema");
+          const { fetchStormglassForSpot } = await import("./layers/environmental/clients/stormglass");
+          const { storeStormglassForecast } = await import("./layers/environmental/jobs/fetchStormglassVerification");
 
           const hoursAhead = input.hoursAhead ?? 168;
           console.log(`[Admin] Manually triggering Stormglass fetch for ${spot.name} (${hoursAhead}h)...`);
@@ -2006,26 +2379,15 @@ export const appRouter = router({
               return { success: false, message: "No data received from Stormglass API", pointsStored: 0 };
             }
 
-            // Convert to database format
-            const dbRecords = forecastPoints.map((point) => ({
-              spotId: spot.id,
-              forecastTimestamp: point.forecastTimestamp,
-              waveHeightFt: point.waveHeightFt !== null ? point.waveHeightFt.toFixed(1) : null,
-              swellHeightFt: point.swellHeightFt !== null ? point.swellHeightFt.toFixed(1) : null,
-              swellPeriodS: point.swellPeriodS !== null ? Math.round(point.swellPeriodS) : null,
-              swellDirectionDeg: point.swellDirectionDeg !== null ? Math.round(point.swellDirectionDeg) : null,
-              source: point.source,
-            }));
-
-            // Insert into database
-            await insertStormglassVerificationBatch(dbRecords);
+            // Verification rows + full "stormglass" forecast run
+            const pointsStored = await storeStormglassForecast(spot, forecastPoints);
 
-            console.log(`[Admin] Stored ${dbRecords.length} Stormglass points for ${spot.name}`);
+            console.log(`[Admin] Stored ${pointsStored} Stormglass points for ${spot.name}`);
 
             return {
               success: true,
-              message: `Fetched ${dbRecords.length} hours of data (${hoursAhead}h window)`,
-              pointsStored: dbRecords.length
+              message: `Fetched ${pointsStored} hours of data (${hoursAhead}h window)`,
+              pointsStored
             };
           } catch (error: any) {
             console.error(`[Admin] Stormglass fetch error:`, error.message);
@@ -2152,6 +2514,87 @@ export const appRouter = router({
             openMeteoPointCount: timeline.length,
           };
         }),
+
+      // Model vs buoy scoreboard: bias / MAE / RMSE per spot, model and 24h lead-time bucket
+      getVerificationStats: adminProcedure
+        .input(z.object({
+          days: z.number().min(1).max(365).default(30),
+          spotId: z.number().optional(),
+        }).optional())
+        .query(async ({ input }) => {
+          const days = input?.days ?? 30;
+          const stats = await getForecastVerificationStats(days, input?.spotId);
+          return { days, stats };
+        }),
+    }),
+
+    calibration: router({
+      // Breaking height correction versions (newest first) with their per-spot/band factors
+      list: adminProcedure
+        .input(z.object({ limit: z.number().min(1).max(50).default(10) }).optional())
+        .query(async ({ input }) => {
+          return getBreakingHeightCalibrations(input?.limit ?? 10);
+        }),
+
+      // Switch generateForecastTimeline to a different correction version (e.g. roll back)
+      activate: adminProcedure
+        .input(z.object({ calibrationId: z.number() }))
+        .mutation(async ({ input }) => {
+          const calibration = await getBreakingHeightCalibrationById(input.calibrationId);
+          if (!calibration) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Calibration not found" });
+          }
+
+          await activateBreakingHeightCalibration(input.calibrationId);
+          const version = await loadHeightCorrections();
+
+          console.log(`[Admin] Activated breaking height calibration v${input.calibrationId}`);
+          return { success: true, activeVersion: version };
+        }),
+    }),
+
+    jobs: router({
+      // Registered background jobs with their schedule, next run and last run
+      list: adminProcedure.query(async () => {
+        const jobs = getRegisteredJobs();
+        return Promise.all(
+          jobs.map(async (job) => ({
+            ...job,
+            lastRun: (await getLastJobRun(job.name)) ?? null,
+          }))
+        );
+      }),
+
+      // Recent run history (optionally for one job)
+      getRuns: adminProcedure
+        .input(z.object({
+          jobName: z.string().optional(),
+          limit: z.number().min(1).max(200).default(50),
+        }).optional())
+        .query(async ({ input }) => {
+          return getRecentJobRuns(input?.limit ?? 50, input?.jobName);
+        }),
+
+      // Start a job immediately; it keeps running in the background
+      runNow: adminProcedure
+        .input(z.object({ jobName: z.string() }))
+        .mutation(async ({ input }) => {
+          const known = getRegisteredJobs().some((job) => job.name === input.jobName);
+          if (!known) {
+            throw new TRPCError({ code: "NOT_FOUND", message: `Unknown job "${input.jobName}"` });
+          }
+
+          const runId = await runJobNow(input.jobName);
+          if (runId === null) {
+            throw new TRPCError({
+              code: "CONFLICT",
+              message: `${input.jobName} is already running`,
+            });
+          }
+
+          console.log(`[Admin] Manually started ${input.jobName} (run #${runId})`);
+          return { success: true, runId };
+        }),
     }),
 
     analytics: router({
@@ -2200,48 +2643,62 @@ export const appRouter = router({
           const emailUsers = uniqueUsers.filter((u) => u.email);
           const smsUsers = uniqueUsers.filter((u) => u.phone && u.smsOptIn === 1);
 
-          let emailSuccessCount = 0;
-          let emailErrorCount = 0;
-          let smsSuccessCount = 0;
-          let smsErrorCount = 0;
-
-          // Send emails using batch API
-          if (input.sendEmail && emailUsers.length > 0) {
-            const emailOptions = emailUsers.map((user) => ({
-              to: user.email!,
-              subject: input.subject,
-              html: `<p>${input.message.replace(/\n/g, "<br>")}</p>`,
-              text: input.message,
-            }));
-
-            const emailResult = await sendBatchEmails(emailOptions);
-            emailSuccessCount = emailResult.successCount;
-            emailErrorCount = emailResult.errorCount;
-          }
-
-          // Send SMS (loop through users - Quo doesn't have batch API)
-          if (input.sendSMS && smsUsers.length > 0) {
-            for (const user of smsUsers) {
-              if (user.phone) {
-                const success = await sendSMS({
-                  phone: user.phone,
+          // Queue through the notification outbox (retries, delivery tracking) and start sending
+          // without making the admin wait on hundreds of provider calls
+          const { queueEmails, queueSMS, processOutbox } = await import("./layers/retention/outbox");
+          const batchId = Date.now();
+
+          const emailQueued = input.sendEmail
+            ? await queueEmails(
+                emailUsers.map((user) => ({
+                  kind: "bulk_alert" as const,
+                  userId: user.id,
+                  to: user.email!,
+                  subject: input.subject,
+                  html: `<p>${input.message.replace(/\n/g, "<br>")}</p>`,
+                  text: input.message,
+                  dedupeKey: `bulk_alert:${batchId}:email:${user.id}`,
+                }))
+              )
+            : 0;
+
+          const smsQueued = input.sendSMS
+            ? await queueSMS(
+                smsUsers.map((user) => ({
+                  kind: "bulk_alert" as const,
+                  userId: user.id,
+                  phone: user.phone!,
                   message: input.message,
-                });
-                if (success) {
-                  smsSuccessCount++;
-                } else {
-                  smsErrorCount++;
-                }
-              }
-            }
-          }
+                  dedupeKey: `bulk_alert:${batchId}:sms:${user.id}`,
+                }))
+              )
+            : 0;
 
-          return {
-            emailSent: emailSuccessCount,
-            emailErrors: emailErrorCount,
-            smsSent: smsSuccessCount,
-            smsErrors: smsErrorCount,
-          };
+          processOutbox().catch((error) =>
+            console.error("[Bulk Alert] Outbox flush failed (notification-outbox job will retry):", error)
+          );
+
+          return { emailQueued, smsQueued };
+        }),
+
+      // Notification outbox: counts by status and recent messages (e.g. status "failed")
+      getOutbox: adminProcedure
+        .input(
+          z.object({
+            status: z.enum(["pending", "sending", "sent", "failed"]).optional(),
+            limit: z.number().min(1).max(200).default(50),
+          }).optional()
+        )
+        .query(async ({ input }) => {
+          return getNotificationOutboxSummary({ status: input?.status, limit: input?.limit });
+        }),
+
+      // Put a permanently failed outbox message back in the queue
+      retryOutboxMessage: adminProcedure
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ input }) => {
+          await retryNotification(input.id);
+          return { success: true };
         }),
 
       // Send a test alert email to the admin with fake swell data
@@ -54,7 +54,7 @@ const NE_E_DIR_MIN = 45;
 const NE_E_DIR_MAX = 90;
 const NE_E_REDUCTION = 0.75;
 
-function degreesToDirection(degrees: number): string {
+export function degreesToDirection(degrees: number): string {
   const directions = [
     "N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE",
     "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW",
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { ForecastVerificationStat } from "../db";
+import type { ForecastWithConfidence } from "../utils/forecastConfidence";
+import { applyEnsemble, computeEnsembleWeights, weightedPercentile, type EnsembleMember } from "./ensemble";
+
+const hour = new Date("2026-06-20T12:00:00Z");
+
+function stat(model: string, maeFt: number, samples = 48, leadBucketStartH = 0): ForecastVerificationStat {
+  return { spotId: 1, spotName: "Lido Beach", model, leadBucketStartH, samples, biasFt: 0, maeFt, rmseFt: maeFt };
+}
+
+function point(breakingWaveHeightFt: number, quality_score: number): ForecastWithConfidence {
+  return {
+    forecastTimestamp: hour,
+    hoursOut: 6,
+    breakingWaveHeightFt,
+    dominantSwellHeightFt: breakingWaveHeightFt,
+    quality_score,
+    modelConfidence: null,
+    ensembleBreakingWaveHeightFt: null,
+    ensembleQualityScore: null,
+    breakingHeightP10Ft: null,
+    breakingHeightP90Ft: null,
+    ensembleSources: [],
+  } as unknown as ForecastWithConfidence;
+}
+
+describe("computeEnsembleWeights", () => {
+  it("weights sources by inverse squared error and gives unverified ones the average", () => {
+    const weights = computeEnsembleWeights(
+      [stat("ww3", 1), stat("ecmwf_wam", 0.5), stat("gfs_wave", 0.1, 5)],
+      ["ww3", "ecmwf_wam", "gfs_wave"]
+    );
+
+    expect(weights.get("ww3:0")).toBe(1);
+    expect(weights.get("ecmwf_wam:0")).toBe(4);
+    expect(weights.get("gfs_wave:0")).toBe(2.5); // Too few verified hours
+    expect(weights.get("ww3:24")).toBe(1); // No stats for the bucket: equal weights
+  });
+});
+
+describe("weightedPercentile", () => {
+  it("interpolates between cumulative-weight midpoints", () => {
+    const samples = [
+      { value: 2, weight: 1 },
+      { value: 4, weight: 1 },
+    ];
+    expect(weightedPercentile(samples, 0.1)).toBe(2);
+    expect(weightedPercentile(samples, 0.5)).toBe(3);
+    expect(weightedPercentile(samples, 0.9)).toBe(4);
+    expect(weightedPercentile([], 0.5)).toBeNull();
+  });
+});
+
+describe("applyEnsemble", () => {
+  it("blends every source's hour and sets confidence from the spread", () => {
+    const members: EnsembleMember[] = [
+      { source: "ww3", timeline: [point(2, 40)] },
+      { source: "ecmwf_wam", timeline: [point(4, 70)] },
+      { source: "gfs_wave", timeline: [] },
+    ];
+    const weights = new Map([
+      ["ww3:0", 1],
+      ["ecmwf_wam:0", 3],
+    ]);
+
+    const [blended] = applyEnsemble([point(2, 40)], members, weights);
+    expect(blended.ensembleBreakingWaveHeightFt).toBe(3.5);
+    expect(blended.ensembleQualityScore).toBe(63);
+    expect(blended.breakingHeightP10Ft).toBe(2);
+    expect(blended.breakingHeightP90Ft).toBe(4);
+    expect(blended.ensembleSources).toEqual(["ww3", "ecmwf_wam"]);
+    expect(blended.modelConfidence).toBe("LOW");
+  });
+});
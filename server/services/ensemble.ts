@@ -0,0 +1,192 @@
+/**
+ * Multi-Model Ensemble
+ *
+ * Blends every stored forecast source (services/forecastSources.ts) hour by hour. A source's
+ * weight for an hour comes from its recent buoy verification error at that lead time
+ * (forecast_verifications, 24h lead buckets): weight = 1 / MAE², so a model that has been twice
+ * as far off counts a quarter as much. Sources or buckets without enough verified hours get the
+ * average weight of those that have them (equal weights when none do).
+ *
+ * What the weights measure: verification scores each model's offshore swell height against the
+ * buoy's SwH, not breaking height (surf heights aren't observed hourly). The blend is of breaking
+ * heights, which every source gets from the same spot transform of its dominant swell (roughly
+ * height × period / 10 × spot multiplier). A shared scale factor cancels once weights are
+ * normalized, so swell-height MAE ranks the models the same way breaking-height MAE would as
+ * long as their period and direction errors are similar; those aren't in the weights. MIN_MAE_FT
+ * is in offshore swell feet for the same reason.
+ *
+ * Per hour the ensemble exposes the weighted mean breaking height and quality score and the
+ * weighted 10th-90th percentile band of breaking height. With two or more sources the band's
+ * width, rather than the primary / ECMWF difference, sets the hour's modelConfidence.
+ */
+
+import type { SurfSpot } from "../../drizzle/schema";
+import { getForecastVerificationStats, type ForecastVerificationStat } from "../db";
+import { applyEuroTimeline, calculateConfidence, type ForecastWithConfidence } from "../utils/forecastConfidence";
+import type { ForecastTimelineResult } from "./forecast";
+import { EURO_FORECAST_SOURCE, PRIMARY_FORECAST_SOURCE, TIMELINE_FORECAST_SOURCES, type TimelineForecastSource } from "./forecastSources";
+import { getCachedTimeline } from "./timelineCache";
+
+const HOUR_MS = 60 * 60 * 1000;
+const LEAD_BUCKET_HOURS = 24;
+const MAX_LEAD_BUCKET_START_H = 144; // Matches getForecastVerificationStats (6+ days share a bucket)
+const VERIFICATION_WINDOW_DAYS = 30;
+const MIN_VERIFIED_HOURS = 24; // Per source and lead bucket before its error sets the weight
+const MIN_MAE_FT = 0.2; // Offshore swell ft; floor so one lucky stretch can't take over the blend
+const WEIGHTS_TTL_MS = 60 * 60 * 1000; // Verification only moves as hours are verified
+
+export interface EnsembleMember {
+  source: TimelineForecastSource;
+  timeline: ForecastTimelineResult[];
+}
+
+// `${source}:${leadBucketStartH}` -> weight
+export type EnsembleWeights = Map<string, number>;
+
+const weightsCache = new Map<number, { weights: EnsembleWeights; expiresAt: number }>();
+
+function leadBucketStartH(hoursOut: number): number {
+  return Math.min(Math.floor(Math.max(hoursOut, 0) / LEAD_BUCKET_HOURS) * LEAD_BUCKET_HOURS, MAX_LEAD_BUCKET_START_H);
+}
+
+function weightKey(source: string, bucketStartH: number): string {
+  return `${source}:${bucketStartH}`;
+}
+
+/**
+ * Per-source, per-lead-bucket weights from verification stats (see top of file)
+ */
+export function computeEnsembleWeights(
+  stats: ForecastVerificationStat[],
+  sources: readonly TimelineForecastSource[] = TIMELINE_FORECAST_SOURCES
+): EnsembleWeights {
+  const weights: EnsembleWeights = new Map();
+
+  for (let bucket = 0; bucket <= MAX_LEAD_BUCKET_START_H; bucket += LEAD_BUCKET_HOURS) {
+    const verified = new Map<string, number>();
+    for (const stat of stats) {
+      if (stat.leadBucketStartH !== bucket || stat.samples < MIN_VERIFIED_HOURS) continue;
+      if (!sources.includes(stat.model as TimelineForecastSource)) continue;
+      verified.set(stat.model, 1 / Math.max(stat.maeFt, MIN_MAE_FT) ** 2);
+    }
+
+    const known = Array.from(verified.values());
+    const fallback = known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : 1;
+    for (const source of sources) {
+      weights.set(weightKey(source, bucket), verified.get(source) ?? fallback);
+    }
+  }
+  return weights;
+}
+
+/**
+ * Weighted percentile (p in 0-1), interpolating between each sample's cumulative-weight midpoint
+ */
+export function weightedPercentile(samples: Array<{ value: number; weight: number }>, p: number): number | null {
+  const sorted = samples.filter((s) => s.weight > 0).sort((a, b) => a.value - b.value);
+  if (sorted.length === 0) return null;
+
+  const total = sorted.reduce((sum, s) => sum + s.weight, 0);
+  let cumulative = 0;
+  const positions = sorted.map((s) => {
+    const position = (cumulative + s.weight / 2) / total;
+    cumulative += s.weight;
+    return position;
+  });
+
+  if (p <= positions[0]) return sorted[0].value;
+  for (let i = 1; i < sorted.length; i++) {
+    if (p <= positions[i]) {
+      const t = (p - positions[i - 1]) / (positions[i] - positions[i - 1]);
+      return sorted[i - 1].value + t * (sorted[i].value - sorted[i - 1].value);
+    }
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+function roundTenth(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Fill in each hour's ensemble fields from the members' scored timelines.
+ * Hours no member covers are left as they are.
+ */
+export function applyEnsemble(
+  timeline: ForecastWithConfidence[],
+  members: EnsembleMember[],
+  weights: EnsembleWeights
+): ForecastWithConfidence[] {
+  const memberHours = members.map((member) => ({
+    source: member.source,
+    byHour: new Map(member.timeline.map((point) => [Math.floor(new Date(point.forecastTimestamp).getTime() / HOUR_MS), point])),
+  }));
+
+  return timeline.map((point) => {
+    const hour = Math.floor(new Date(point.forecastTimestamp).getTime() / HOUR_MS);
+    const samples: Array<{ source: string; height: number; score: number | null; weight: number }> = [];
+    for (const member of memberHours) {
+      const memberPoint = member.byHour.get(hour);
+      const height = memberPoint ? (memberPoint.breakingWaveHeightFt ?? memberPoint.dominantSwellHeightFt) : null;
+      if (!memberPoint || height === null) continue;
+      samples.push({
+        source: member.source,
+        height,
+        score: memberPoint.quality_score,
+        weight: weights.get(weightKey(member.source, leadBucketStartH(memberPoint.hoursOut))) ?? 1,
+      });
+    }
+    if (samples.length === 0) return point;
+
+    const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+    const scored = samples.filter((s) => s.score !== null);
+    const scoredWeight = scored.reduce((sum, s) => sum + s.weight, 0);
+    const band = samples.map((s) => ({ value: s.height, weight: s.weight }));
+    const p10 = weightedPercentile(band, 0.1)!;
+    const p90 = weightedPercentile(band, 0.9)!;
+
+    return {
+      ...point,
+      ensembleBreakingWaveHeightFt: roundTenth(samples.reduce((sum, s) => sum + s.height * s.weight, 0) / totalWeight),
+      ensembleQualityScore:
+        scoredWeight > 0 ? Math.round(scored.reduce((sum, s) => sum + s.score! * s.weight, 0) / scoredWeight) : null,
+      breakingHeightP10Ft: roundTenth(p10),
+      breakingHeightP90Ft: roundTenth(p90),
+      ensembleSources: samples.map((s) => s.source),
+      modelConfidence: samples.length >= 2 ? calculateConfidence(p10, p90) : point.modelConfidence,
+    };
+  });
+}
+
+/**
+ * A spot's ensemble weights, cached per server instance for WEIGHTS_TTL_MS
+ */
+export async function getEnsembleWeights(spotId: number): Promise<EnsembleWeights> {
+  const cached = weightsCache.get(spotId);
+  if (cached && Date.now() < cached.expiresAt) return cached.weights;
+
+  const weights = computeEnsembleWeights(await getForecastVerificationStats(VERIFICATION_WINDOW_DAYS, spotId));
+  weightsCache.set(spotId, { weights, expiresAt: Date.now() + WEIGHTS_TTL_MS });
+  return weights;
+}
+
+/**
+ * The primary timeline with the other sources folded in: Euro fields from the ECMWF source's
+ * scored timeline, then the weighted ensemble across every source
+ */
+export async function applyForecastSources(
+  spot: SurfSpot,
+  timeline: ForecastWithConfidence[],
+  options: { applyHeightCorrection?: boolean } = {}
+): Promise<ForecastWithConfidence[]> {
+  const others = await Promise.all(
+    TIMELINE_FORECAST_SOURCES.filter((source) => source !== PRIMARY_FORECAST_SOURCE).map(async (source) => ({
+      source,
+      timeline: (await getCachedTimeline(spot, { applyHeightCorrection: options.applyHeightCorrection, source })).timeline,
+    }))
+  );
+  const members: EnsembleMember[] = [{ source: PRIMARY_FORECAST_SOURCE, timeline }, ...others];
+
+  const euro = others.find((member) => member.source === EURO_FORECAST_SOURCE)?.timeline ?? [];
+  return applyEnsemble(applyEuroTimeline(timeline, euro), members, await getEnsembleWeights(spot.id));
+}
@@ -1,7 +1,6 @@
 import type { BuoyReading, SurfSpot, ForecastPoint } from "../../drizzle/schema";
-import type { CurrentTideInfo, TidePrediction } from "./tides";
-import { fetchTidePredictions } from "./tides";
-import axios from "axios";
+import type { CurrentTideInfo, TideAt } from "../layers/environmental/clients/tides";
+import { loadTideSeries, getTideFromSeries } from "../layers/environmental/clients/tides";
 import { generateForecastOutput } from "../utils/forecastOutput";
 import { getSpotKey, getSpotProfile } from "../utils/spotProfiles";
 import {
@@ -12,7 +11,11 @@ import {
   calculateQualityScoreWithProfile,
 } from "../utils/qualityRating";
 import type { NomadsForecastPoint } from "./openMeteo";
-import { getDominantSwell, calculateBreakingWaveHeight } from "../utils/waveHeight";
+import { getDominantSwell, calculateBreakingWaveHeight, type MeasuredSwellTrain, type SwellComponentsInput } from "../utils/waveHeight";
+import { getLatestBuoySwellReading } from "../db";
+import { parseBuoySwellTrains } from "../layers/environmental/clients/ndbcSpectral";
+import { getHeightCorrection } from "../utils/heightCalibration";
+import { getWindType } from "../utils/windSectors";
 
 /**
  * Forecasting Model Service
@@ -107,7 +110,8 @@ export function generateForecast(input: ForecastInput): ForecastResult {
     ? Math.round(openMeteoPoint.windSpeedKts * 1.15078) // knots to mph
     : null;
   const windDirectionDeg = openMeteoPoint.windDirectionDeg ?? null;
-  const windType = calculateWindType(openMeteoPoint.windDirectionDeg);
+  // Offshore/onshore from the spot's shoreline orientation (south-facing default if no profile)
+  const windType = getWindType(openMeteoPoint.windDirectionDeg, getSpotProfile(spot.name));
 
   // Calculate tide data
   const tideHeightFt = tideInfo ? Math.round(tideInfo.currentHeightFt * 10) : null;
@@ -161,27 +165,6 @@ export function generateForecast(input: ForecastInput): ForecastResult {
   };
 }
 
-/**
- * Determines wind type based on direction for Long Island.
- * North (315-45) = offshore, South (135-225) = onshore,
- * WNW (295-315) = side-offshore, else = cross
- * Updated: 293° WNW is now "side-offshore" (was "cross-offshore")
- */
-function calculateWindType(windDir: number | null): "offshore" | "onshore" | "cross" | "side-offshore" | null {
-  if (windDir === null) return null;
-
-  if (windDir >= 315 || windDir <= 45) {
-    return "offshore";
-  } else if (windDir >= 135 && windDir <= 225) {
-    return "onshore";
-  } else if (windDir >= 295 && windDir < 315) {
-    // WNW range (295-315°) - side-offshore
-    return "side-offshore";
-  } else {
-    return "cross";
-  }
-}
-
 /**
  * Scores tide conditions.
  */
@@ -360,6 +343,11 @@ export interface ForecastTimelineResult {
   usabilityAdvanced: number; // 0-100
   // Day 1 MVP outputs
   breakingWaveHeightFt: number | null; // Predicted breaking wave face height in feet (numeric)
+  // Surf-report calibration (A/B): raw model height vs. height scaled by the active correction table
+  rawBreakingWaveHeightFt: number | null;
+  correctedBreakingWaveHeightFt: number | null; // null when no correction exists for this spot/period band
+  heightCorrectionFactor: number | null;
+  heightCalibrationVersion: number | null;
   quality_rating: string | null; // "Don't Bother", "Worth a Look", "Go Surf", "Firing", "All-Time"
   quality_score: number | null; // 0-100 (Day 1 MVP quality score)
   // Dominant swell (highest energy using H² × T formula) - ALWAYS calculated
@@ -388,9 +376,16 @@ export interface ForecastTimelineResult {
   // Tide data
   tideHeightFt: number | null; // in tenths of feet
   tidePhase: "rising" | "falling" | "high" | "low" | null;
+  tideSource: "noaa" | "harmonic" | null; // "harmonic" = offline fallback while NOAA is unavailable
   // Temperature data
   waterTempF: number | null;
   airTempF: number | null;
+  // Multi-model ensemble (services/ensemble.ts) - empty here, filled in by forecasts.getTimeline
+  ensembleBreakingWaveHeightFt: number | null; // Verification-weighted mean of every source's breaking height
+  ensembleQualityScore: number | null; // Weighted mean of the sources' quality scores
+  breakingHeightP10Ft: number | null; // Weighted 10th-90th percentile band of the sources' breaking heights
+  breakingHeightP90Ft: number | null;
+  ensembleSources: string[]; // Sources blended for this hour
 }
 
 interface ForecastTimelineInput {
@@ -398,6 +393,8 @@ interface ForecastTimelineInput {
   spot: SurfSpot;
   tideStationId: string;
   avgCrowdLevel: number | null; // 1-5 scale, null if no reports
+  applyHeightCorrection?: boolean; // Use the corrected height as breakingWaveHeightFt (default: raw)
+  source?: ForecastPoint["source"]; // Score only this source's points (default: every point passed in)
 }
 
 /**
@@ -407,30 +404,23 @@ interface ForecastTimelineInput {
 export async function generateForecastTimeline(
   input: ForecastTimelineInput
 ): Promise<ForecastTimelineResult[]> {
-  const { forecastPoints, spot, tideStationId, avgCrowdLevel } = input;
+  const { spot, tideStationId, avgCrowdLevel, applyHeightCorrection = false, source } = input;
+  const forecastPoints = source ? input.forecastPoints.filter((point) => point.source === source) : input.forecastPoints;
 
   if (forecastPoints.length === 0) {
     return [];
   }
 
-  // Fetch tide predictions for the forecast period
-  // Get predictions for the full range (first point to last point + buffer)
+  // Tide curve for the forecast period (cached per station, refreshed from NOAA as needed)
   const firstTimestamp = forecastPoints[0].forecastTimestamp;
   const lastTimestamp = forecastPoints[forecastPoints.length - 1].forecastTimestamp;
-  const endDate = new Date(lastTimestamp);
-  endDate.setHours(endDate.getHours() + 24); // Add buffer for tide predictions
-
-  // Fetch tide predictions for the date range
-  const tidePredictions = await fetchTidePredictionsForRange(
-    tideStationId,
-    firstTimestamp,
-    endDate
-  );
-  
+  const tideSeries = await loadTideSeries(tideStationId, firstTimestamp, lastTimestamp);
+
   const results: ForecastTimelineResult[] = [];
 
   // Get spot profile key for Day 1 MVP algorithm
   const spotKey = getSpotKey(spot.name);
+  const spotProfile = spotKey ? getSpotProfile(spotKey) : undefined;
 
   for (const point of forecastPoints) {
     // Convert database values to usable format
@@ -456,7 +446,8 @@ export async function generateForecastTimeline(
     const swellScore = calculateSwellScoreFromForecastPoint(point, spot);
     const periodScore = calculatePeriodScoreFromForecastPoint(point);
     const windScore = 50; // Placeholder - will use GFS wind data later
-    const tideScore = calculateTideScoreForTimestamp(point.forecastTimestamp, tidePredictions);
+    const tideInfo = getTideFromSeries(tideSeries, point.forecastTimestamp);
+    const tideScore = calculateTideScoreForTimestamp(tideInfo);
 
     // Weighted combination for probability score
     const rawScore = swellScore * 0.35 + periodScore * 0.30 + windScore * 0.20 + tideScore * 0.15;
@@ -481,9 +472,6 @@ export async function generateForecastTimeline(
       avgCrowdLevel
     );
 
-    // Get tide info for this timestamp
-    const tideInfo = getTideInfoForTimestamp(point.forecastTimestamp, tidePredictions);
-
     // Wind data from ForecastPoint
     // Convert knots to mph (1 knot = 1.15078 mph)
     const windSpeedMph = point.windSpeedKts !== null 
@@ -496,10 +484,8 @@ export async function generateForecastTimeline(
       ? point.windDirectionDeg 
       : null;
     
-    // Calculate wind type based on direction (simplified - would need spot-specific logic for accurate offshore/onshore)
-    const windType = windDirectionDeg !== null 
-      ? calculateWindType(windDirectionDeg)
-      : null;
+    // Wind type from the spot's shoreline orientation and wind sectors
+    const windType = getWindType(windDirectionDeg, spotProfile);
     
     // Log wind and tide data for first point
     if (results.length === 0) {
@@ -543,6 +529,9 @@ export async function generateForecastTimeline(
       console.log(`[Dominant Swell] Selected ${dominantSwell.type} swell: ${dominantSwellHeightFt}ft @ ${dominantSwellPeriodS}s (${dominantSwellLabel}) (breaking_height: ${dominantSwell.breaking_height}ft)`);
     }
 
+    // Surf-report calibration, looked up on the primary period the factors were fitted on
+    const heightCorrection = getHeightCorrection(spot.id, wavePeriodSec);
+
     // Generate Day 1 MVP forecast output (if spot profile exists)
     let breakingWaveHeightFt: number | null = null;
     let quality_rating: string | null = null;
@@ -550,9 +539,16 @@ export async function generateForecastTimeline(
 
     if (spotKey && tideInfo) {
       try {
-        const mvpOutput = generateForecastOutput(point, spotKey, tideInfo.heightFt, tideInfo.phase);
+        // Score from the corrected height when it's going to be displayed
+        const mvpOutput = generateForecastOutput(
+          point,
+          spotKey,
+          tideInfo.heightFt,
+          tideInfo.phase,
+          applyHeightCorrection ? heightCorrection?.factor : null
+        );
 
-        breakingWaveHeightFt = mvpOutput.breakingWaveHeightFt;
+        breakingWaveHeightFt = mvpOutput.rawBreakingWaveHeightFt;
 
         quality_rating = mvpOutput.quality_rating;
         quality_score = mvpOutput.quality_score;
@@ -597,6 +593,16 @@ export async function generateForecastTimeline(
       }
     }
 
+    // Corrected height is always computed so raw vs corrected can be compared,
+    // only substituted into breakingWaveHeightFt when requested
+    const rawBreakingWaveHeightFt = breakingWaveHeightFt;
+    const correctedBreakingWaveHeightFt = rawBreakingWaveHeightFt !== null && heightCorrection
+      ? Math.round(rawBreakingWaveHeightFt * heightCorrection.factor * 10) / 10
+      : null;
+    if (applyHeightCorrection && correctedBreakingWaveHeightFt !== null) {
+      breakingWaveHeightFt = correctedBreakingWaveHeightFt;
+    }
+
     // Extract temperature data (stored as decimal string in DB)
     const waterTempF = point.waterTempF !== null
       ? (typeof point.waterTempF === 'string' ? parseFloat(point.waterTempF) : point.waterTempF)
@@ -615,6 +621,10 @@ export async function generateForecastTimeline(
       usabilityAdvanced,
       // Day 1 MVP outputs
       breakingWaveHeightFt,
+      rawBreakingWaveHeightFt,
+      correctedBreakingWaveHeightFt,
+      heightCorrectionFactor: heightCorrection?.factor ?? null,
+      heightCalibrationVersion: heightCorrection?.version ?? null,
       quality_rating,
       quality_score,
       // Dominant swell (highest energy using H² × T formula)
@@ -643,20 +653,64 @@ export async function generateForecastTimeline(
       // Tide data
       tideHeightFt: tideInfo ? Math.round(tideInfo.heightFt * 10) : null,
       tidePhase: tideInfo?.phase ?? null,
+      tideSource: tideInfo?.source ?? null,
       // Temperature data
       waterTempF: isNaN(waterTempF || 0) ? null : waterTempF,
       airTempF: isNaN(airTempF || 0) ? null : airTempF,
+      // Ensemble
+      ensembleBreakingWaveHeightFt: null,
+      ensembleQualityScore: null,
+      breakingHeightP10Ft: null,
+      breakingHeightP90Ft: null,
+      ensembleSources: [],
     });
   }
 
   return results;
 }
 
+/**
+ * A scored timeline point's swell components in forecast_points units (primary height back to tenths)
+ */
+function toSwellComponents(point: ForecastTimelineResult): SwellComponentsInput {
+  return {
+    waveHeightFt: point.waveHeightFt !== null ? Math.round(point.waveHeightFt * 10) : null,
+    wavePeriodSec: point.wavePeriodSec,
+    waveDirectionDeg: point.waveDirectionDeg,
+    secondarySwellHeightFt: point.secondarySwellHeightFt,
+    secondarySwellPeriodS: point.secondarySwellPeriodS,
+    secondarySwellDirectionDeg: point.secondarySwellDirectionDeg,
+    windWaveHeightFt: point.windWaveHeightFt,
+    windWavePeriodS: point.windWavePeriodS,
+    windWaveDirectionDeg: point.windWaveDirectionDeg,
+  };
+}
+
+/**
+ * Swell trains partitioned from a stored buoy spectrum (buoy-history job), as getDominantSwell candidates
+ */
+function toMeasuredSwellTrains(swellTrains: string | null): MeasuredSwellTrain[] {
+  let seenSwell = false;
+  return parseBuoySwellTrains(swellTrains).map((train) => {
+    const type = train.windSea ? "wind" : seenSwell ? "secondary" : "primary";
+    seenSwell = seenSwell || !train.windSea;
+    return {
+      height_ft: train.heightCm / 30.48,
+      period_s: train.periodDs / 10,
+      direction_deg: train.directionDeg,
+      type,
+    };
+  });
+}
+
 /**
  * Apply buoy quality score override to the current timeline point.
  * 
  * This ensures current conditions use real NOAA buoy measurements
- * instead of Open-Meteo predictions.
+ * (the latest stored buoy_readings row for spot.buoyId, never a live fetch)
+ * instead of Open-Meteo predictions. When the buoy's spectrum has been
+ * partitioned into swell trains, getDominantSwell picks the train that drives
+ * the breaking height instead of the summary SwH / SwP.
  * 
  * @param timeline - Timeline with Open-Meteo quality scores
  * @param spot - Spot info
@@ -676,11 +730,10 @@ export async function applyBuoyOverrideToCurrentPoint(
   // Import dependencies
   const { calculateBuoyBreakingWaveHeight } = await import("../utils/waveHeight");
 
-  console.log(`[Timeline Buoy Override] Fetching buoy data...`);
-  // Route to the correct buoy based on spot
-  const buoyData = spot.name === "Montauk"
-    ? await (await import("./buoyMontauk")).fetchMontaukBuoyCached()
-    : await (await import("./buoy44065")).fetchBuoy44065Cached();
+  console.log(`[Timeline Buoy Override] Reading stored buoy data...`);
+  // Latest stored observation from the spot's configured buoy (ingested by the buoy-history job)
+  const buoyRow = await getLatestBuoySwellReading(spot.buoyId);
+  const buoyData = buoyRow ? (await import("./spotBuoy")).toSpotBuoyReading(buoyRow) : null;
   console.log(`[Timeline Buoy Override] Buoy data received:`, {
     hasData: !!buoyData,
     isStale: buoyData?.isStale,
@@ -690,7 +743,7 @@ export async function applyBuoyOverrideToCurrentPoint(
   });
   
   // If no buoy data or stale, return timeline as-is
-  if (!buoyData || buoyData.isStale) {
+  if (!buoyRow || !buoyData || buoyData.isStale) {
     console.log('[Timeline Buoy Override] Buoy data unavailable or stale, using Open-Meteo scores');
     return timeline;
   }
@@ -727,14 +780,22 @@ export async function applyBuoyOverrideToCurrentPoint(
   }
   
   try {
-    // Extract buoy wave data
-    const buoyWaveHeightFt = buoyData.waveHeight;
-    const buoyPeriodS = buoyData.dominantPeriod;
-    // Use dominant swell direction for consistency with dominant period/height
-    const buoyWaveDirectionDeg = buoyData.dominantDirectionDeg ?? buoyData.waveDirection ?? currentPoint.waveDirectionDeg;
-    
     // Calculate tide (from Open-Meteo via timeline)
     const tideFt = currentPoint.tideHeightFt !== null ? currentPoint.tideHeightFt / 10 : 0; // Convert from tenths
+
+    // Spectral swell trains from the same observation
+    const swellTrains = toMeasuredSwellTrains(buoyRow.swellTrains);
+    const dominantTrain = swellTrains.length > 0
+      ? getDominantSwell(toSwellComponents(currentPoint), profile, tideFt, currentPoint.tidePhase ?? null, null, swellTrains)
+      : null;
+
+    // Extract buoy wave data
+    const buoyWaveHeightFt = dominantTrain?.height_ft ?? buoyData.waveHeight;
+    const buoyPeriodS = dominantTrain?.period_s ?? buoyData.dominantPeriod;
+    // Use dominant swell direction for consistency with dominant period/height
+    const buoyWaveDirectionDeg = dominantTrain
+      ? (dominantTrain.direction_deg ?? buoyData.waveDirection ?? currentPoint.waveDirectionDeg)
+      : (buoyData.dominantDirectionDeg ?? buoyData.waveDirection ?? currentPoint.waveDirectionDeg);
     
     // Calculate buoy breaking height
     const buoyBreakingHeight = calculateBuoyBreakingWaveHeight(
@@ -752,6 +813,7 @@ export async function applyBuoyOverrideToCurrentPoint(
     
     console.log('[Timeline Buoy Override] Input data for quality calculation:', {
       spot: spot.name,
+      swellTrains: swellTrains.length > 0 ? `${swellTrains.length} (${dominantTrain ? dominantTrain.type : 'all blocked'} selected)` : 'none',
       buoyWave: `${buoyWaveHeightFt.toFixed(1)}ft @ ${buoyPeriodS}s ${buoyWaveDirectionDeg}°`,
       tide: currentPoint.tideHeightFt !== null ? `${tideFt.toFixed(1)}ft ${currentPoint.tidePhase}` : 'no tide data',
       wind: windSpeedKts !== null ? `${windSpeedKts.toFixed(1)}kts ${windDirectionDeg}°` : 'no wind data',
@@ -798,6 +860,13 @@ export async function applyBuoyOverrideToCurrentPoint(
       quality_score: qualityResult.score,
       // Also update breaking height for consistency
       breakingWaveHeightFt: buoyBreakingHeight,
+      ...(dominantTrain && {
+        dominantSwellHeightFt: dominantTrain.height_ft,
+        dominantSwellPeriodS: dominantTrain.period_s,
+        dominantSwellDirectionDeg: dominantTrain.direction_deg,
+        dominantSwellType: dominantTrain.type,
+        dominantSwellLabel: dominantTrain.label ?? null,
+      }),
     };
     
     return updatedTimeline;
@@ -897,166 +966,17 @@ function calculatePeriodScoreFromForecastPoint(point: ForecastPoint): number {
 }
 
 /**
- * Calculates tide score for a specific timestamp by interpolating from tide predictions.
+ * Calculates tide score for a timeline point from its interpolated tide height.
  */
-function calculateTideScoreForTimestamp(
-  timestamp: Date,
-  tidePredictions: TidePrediction[]
-): number {
-  if (tidePredictions.length < 2) return 50; // Neutral if no data
-
-  // Find surrounding tide events
-  const prevTide = tidePredictions
-    .filter(p => p.time <= timestamp)
-    .sort((a, b) => b.time.getTime() - a.time.getTime())[0];
-  const nextTide = tidePredictions
-    .filter(p => p.time > timestamp)
-    .sort((a, b) => a.time.getTime() - b.time.getTime())[0];
-
-  if (!prevTide || !nextTide) return 50;
-
-  // Interpolate tide height
-  const totalTime = nextTide.time.getTime() - prevTide.time.getTime();
-  const elapsedTime = timestamp.getTime() - prevTide.time.getTime();
-  const progress = elapsedTime / totalTime;
-  const heightFt = prevTide.heightFt + (nextTide.heightFt - prevTide.heightFt) * progress;
+function calculateTideScoreForTimestamp(tide: TideAt | null): number {
+  if (!tide) return 50; // Neutral if no data
 
   // Score based on height (same logic as calculateTideScore)
-  if (heightFt >= 2 && heightFt <= 4) {
+  if (tide.heightFt >= 2 && tide.heightFt <= 4) {
     return 90; // Ideal mid-tide
-  } else if (heightFt >= 1 && heightFt <= 5) {
+  } else if (tide.heightFt >= 1 && tide.heightFt <= 5) {
     return 70; // Acceptable
   } else {
     return 40; // Extreme tide
   }
 }
-
-/**
- * Gets tide information (height and phase) for a specific timestamp.
- */
-function getTideInfoForTimestamp(
-  timestamp: Date,
-  tidePredictions: TidePrediction[]
-): { heightFt: number; phase: "rising" | "falling" | "high" | "low" } | null {
-  if (tidePredictions.length < 2) return null;
-
-  // Find surrounding tide events
-  const prevTide = tidePredictions
-    .filter(p => p.time <= timestamp)
-    .sort((a, b) => b.time.getTime() - a.time.getTime())[0];
-  const nextTide = tidePredictions
-    .filter(p => p.time > timestamp)
-    .sort((a, b) => a.time.getTime() - b.time.getTime())[0];
-
-  if (!prevTide || !nextTide) return null;
-
-  // Interpolate tide height
-  const totalTime = nextTide.time.getTime() - prevTide.time.getTime();
-  const elapsedTime = timestamp.getTime() - prevTide.time.getTime();
-  const progress = elapsedTime / totalTime;
-  const heightFt = prevTide.heightFt + (nextTide.heightFt - prevTide.heightFt) * progress;
-
-  // Determine phase
-  let phase: "rising" | "falling" | "high" | "low";
-  if (nextTide.type === "H") {
-    phase = "rising";
-  } else {
-    phase = "falling";
-  }
-
-  // Check if we're very close to a high/low tide
-  const timeToNext = nextTide.time.getTime() - timestamp.getTime();
-  const timeFromPrev = timestamp.getTime() - prevTide.time.getTime();
-  const minTime = Math.min(timeToNext, timeFromPrev);
-  
-  // If within 30 minutes of a tide event, mark as high/low
-  if (minTime < 30 * 60 * 1000) {
-    if (timeFromPrev < timeToNext) {
-      // Closer to previous tide
-      phase = prevTide.type === "H" ? "high" : "low";
-    } else {
-      // Closer to next tide
-      phase = nextTide.type === "H" ? "high" : "low";
-    }
-  }
-
-  return {
-    heightFt: Math.round(heightFt * 10) / 10,
-    phase,
-  };
-}
-
-/**
- * Fetches tide predictions for a date range.
- * NOAA API allows up to 31 days, so we fetch in chunks if needed.
- */
-async function fetchTidePredictionsForRange(
-  stationId: string,
-  startDate: Date,
-  endDate: Date
-): Promise<TidePrediction[]> {
-  const allPredictions: TidePrediction[] = [];
-  const daysDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000));
-  
-  // NOAA allows up to 31 days per request
-  const maxDaysPerRequest = 31;
-  const numRequests = Math.ceil(daysDiff / maxDaysPerRequest);
-  
-  for (let i = 0; i < numRequests; i++) {
-    const requestStart = new Date(startDate);
-    requestStart.setDate(requestStart.getDate() + i * maxDaysPerRequest);
-    
-    const requestEnd = new Date(requestStart);
-    requestEnd.setDate(requestEnd.getDate() + Math.min(maxDaysPerRequest, daysDiff - i * maxDaysPerRequest));
-    
-    // Format dates for NOAA API (YYYYMMDD)
-    const formatDate = (date: Date): string => {
-      const year = date.getUTCFullYear();
-      const month = String(date.getUTCMonth() + 1).padStart(2, "0");
-      const day = String(date.getUTCDate()).padStart(2, "0");
-      return `${year}${month}${day}`;
-    };
-    
-    const beginDate = formatDate(requestStart);
-    const endDateStr = formatDate(requestEnd);
-    
-    const url = `https://api.tidesandcurrents.noaa.gov/api/prod/datagetter`;
-    const params = {
-      begin_date: beginDate,
-      end_date: endDateStr,
-      station: stationId,
-      product: "predictions",
-      datum: "MLLW",
-      units: "english",
-      time_zone: "gmt",
-      application: "LongIslandSurfForecast",
-      format: "json",
-      interval: "hilo", // High/Low only
-    };
-    
-    try {
-      const response = await axios.get(url, { params, timeout: 10000 });
-      
-      if (response.data.predictions) {
-        const predictions = response.data.predictions.map((p: { t: string; v: string; type: string }) => ({
-          time: new Date(p.t + "Z"),
-          heightFt: parseFloat(p.v),
-          type: p.type as "H" | "L",
-        }));
-        
-        // Add predictions, avoiding duplicates
-        predictions.forEach((p: TidePrediction) => {
-          if (!allPredictions.find(tp => tp.time.getTime() === p.time.getTime())) {
-            allPredictions.push(p);
-          }
-        });
-      }
-    } catch (error) {
-      console.warn(`[Tides] Failed to fetch predictions for ${beginDate}-${endDateStr}:`, error);
-    }
-  }
-  
-  // Sort by time
-  allPredictions.sort((a, b) => a.time.getTime() - b.time.getTime());
-  return allPredictions;
-}
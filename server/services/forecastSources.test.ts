@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { StormglassForecastPoint } from "../layers/environmental/clients/stormglass";
+import { listForecastSourceAdapters, stormglassPointToForecastPoint, TIMELINE_FORECAST_SOURCES } from "./forecastSources";
+
+describe("forecast source adapters", () => {
+  it("registers one adapter per timeline source", () => {
+    expect(listForecastSourceAdapters().map((adapter) => adapter.source)).toEqual([...TIMELINE_FORECAST_SOURCES]);
+  });
+
+  it("stores a Stormglass hour as a full stormglass row, preferring swell over combined waves", () => {
+    const hour: StormglassForecastPoint = {
+      forecastTimestamp: new Date("2026-06-20T18:00:00Z"),
+      waveHeightFt: 4.2,
+      wavePeriodS: 7,
+      waveDirectionDeg: 150,
+      swellHeightFt: 3.1,
+      swellPeriodS: 11,
+      swellDirectionDeg: 165,
+      secondarySwellHeightFt: 1.2,
+      secondarySwellPeriodS: 6,
+      secondarySwellDirectionDeg: 120,
+      windWaveHeightFt: null,
+      windWavePeriodS: null,
+      windWaveDirectionDeg: null,
+      windSpeedKts: 9.7,
+      windDirectionDeg: 320,
+      windGustsKts: 14,
+      waterTempF: 68,
+      airTempF: 75,
+      source: "ecmwf",
+    };
+
+    const row = stormglassPointToForecastPoint(hour, new Date("2026-06-20T12:00:00Z"));
+    expect(row).toMatchObject({
+      hoursOut: 6,
+      waveHeightFt: 3.1,
+      wavePeriodSec: 11,
+      waveDirectionDeg: 165,
+      secondarySwellHeightFt: 1.2,
+      windSpeedKts: 9.7,
+      windGustsKts: 14,
+      source: "stormglass",
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Forecast Source Adapters
+ *
+ * Every model stored in forecast_points comes in through a ForecastSourceAdapter, which fetches
+ * one run for a spot as full rows (primary / secondary swell, wind waves, wind, temperatures).
+ * Runs are stored per source by timelineCache.refreshForecastPoints(); getForecastTimeline() and
+ * generateForecastTimeline({ source }) read and score one source at a time, so any two sources
+ * can be compared hour by hour.
+ *
+ * - ww3: Open-Meteo's default blend - the primary timeline, refreshed by the forecast-refresh job
+ * - ecmwf_wam / gfs_wave: Open-Meteo's ECMWF WAM and GFS-Wave models, refreshed by forecast-sources
+ * - stormglass: Stormglass ECMWF, fetched by stormglass-verification (free tier: 10 requests/day)
+ */
+
+import type { SurfSpot } from "../../drizzle/schema";
+import { ENV } from "../_core/env";
+import { fetchStormglassForSpot, type StormglassForecastPoint } from "../layers/environmental/clients/stormglass";
+import { fetchOpenMeteoForecastForSpot, type NomadsForecastPoint, type OpenMeteoModelSource } from "./openMeteo";
+
+export type ForecastSource = NomadsForecastPoint["source"];
+
+export interface ForecastSourceAdapter {
+  source: TimelineForecastSource;
+  label: string;
+  refreshJob: "forecast-refresh" | "forecast-sources" | "stormglass-verification"; // Job that fetches new runs
+  minHoursBetweenRuns: number; // The job skips a spot while its latest run is younger
+  isConfigured(): boolean;
+  fetchRun(spot: SurfSpot, options: { maxHoursOut: number }): Promise<NomadsForecastPoint[]>;
+}
+
+// Sources with full stored runs that getTimeline can score (forecasts.getTimeline `source` input)
+export const TIMELINE_FORECAST_SOURCES = ["ww3", "ecmwf_wam", "gfs_wave", "stormglass"] as const;
+export type TimelineForecastSource = (typeof TIMELINE_FORECAST_SOURCES)[number];
+
+export const PRIMARY_FORECAST_SOURCE: TimelineForecastSource = "ww3";
+export const EURO_FORECAST_SOURCE: TimelineForecastSource = "ecmwf_wam"; // The EURO side of SpotDetail's model toggle
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function openMeteoModelAdapter(source: OpenMeteoModelSource, label: string): ForecastSourceAdapter {
+  return {
+    source,
+    label,
+    refreshJob: "forecast-sources",
+    minHoursBetweenRuns: 6, // Both models run every 6 hours
+    isConfigured: () => true,
+    fetchRun: (spot, { maxHoursOut }) => fetchOpenMeteoForecastForSpot(spot, { maxHoursOut, model: source }),
+  };
+}
+
+/**
+ * Stormglass hour as a forecast_points row (swell fields preferred over combined waves,
+ * as for Open-Meteo)
+ */
+export function stormglassPointToForecastPoint(point: StormglassForecastPoint, modelRunTime: Date): NomadsForecastPoint {
+  return {
+    forecastTimestamp: point.forecastTimestamp,
+    modelRunTime,
+    hoursOut: Math.round((point.forecastTimestamp.getTime() - modelRunTime.getTime()) / HOUR_MS),
+    waveHeightFt: point.swellHeightFt ?? point.waveHeightFt,
+    wavePeriodSec: point.swellPeriodS ?? point.wavePeriodS,
+    waveDirectionDeg: point.swellDirectionDeg ?? point.waveDirectionDeg,
+    secondarySwellHeightFt: point.secondarySwellHeightFt,
+    secondarySwellPeriodS: point.secondarySwellPeriodS,
+    secondarySwellDirectionDeg: point.secondarySwellDirectionDeg,
+    windWaveHeightFt: point.windWaveHeightFt,
+    windWavePeriodS: point.windWavePeriodS,
+    windWaveDirectionDeg: point.windWaveDirectionDeg,
+    windSpeedKts: point.windSpeedKts,
+    windDirectionDeg: point.windDirectionDeg,
+    windGustsKts: point.windGustsKts,
+    waterTempF: point.waterTempF,
+    airTempF: point.airTempF,
+    source: "stormglass",
+  };
+}
+
+const FORECAST_SOURCE_ADAPTERS: Record<TimelineForecastSource, ForecastSourceAdapter> = {
+  ww3: {
+    source: "ww3",
+    label: "Open-Meteo",
+    refreshJob: "forecast-refresh",
+    minHoursBetweenRuns: 0.5,
+    isConfigured: () => true,
+    fetchRun: (spot, { maxHoursOut }) => fetchOpenMeteoForecastForSpot(spot, { maxHoursOut }),
+  },
+  ecmwf_wam: openMeteoModelAdapter("ecmwf_wam", "ECMWF WAM"),
+  gfs_wave: openMeteoModelAdapter("gfs_wave", "GFS-Wave"),
+  stormglass: {
+    source: "stormglass",
+    label: "Stormglass ECMWF",
+    refreshJob: "stormglass-verification",
+    minHoursBetweenRuns: 10, // Twice daily keeps 4 spots within the free tier
+    isConfigured: () => Boolean(ENV.stormglassApiKey),
+    fetchRun: async (spot, { maxHoursOut }) => {
+      const modelRunTime = new Date();
+      const points = await fetchStormglassForSpot(spot, { hoursAhead: maxHoursOut });
+      return points.map((point) => stormglassPointToForecastPoint(point, modelRunTime));
+    },
+  },
+};
+
+export function getForecastSourceAdapter(source: TimelineForecastSource): ForecastSourceAdapter {
+  return FORECAST_SOURCE_ADAPTERS[source];
+}
+
+export function listForecastSourceAdapters(): ForecastSourceAdapter[] {
+  return TIMELINE_FORECAST_SOURCES.map((source) => FORECAST_SOURCE_ADAPTERS[source]);
+}
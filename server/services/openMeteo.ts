@@ -32,9 +32,21 @@ export interface NomadsForecastPoint {
   // Temperature data
   waterTempF: number | null;
   airTempF: number | null;
-  source: "ww3" | "gfs" | "hrrr" | "openmeteo";
+  source: "ww3" | "gfs" | "hrrr" | "openmeteo" | "ecmwf_wam" | "gfs_wave" | "stormglass";
 }
 
+/**
+ * Open-Meteo models stored as their own forecast_points source (Marine API wave model +
+ * Weather API model for wind and air temperature). Without a model Open-Meteo serves its
+ * default blend, stored as "ww3".
+ */
+export const OPEN_METEO_MODELS = {
+  ecmwf_wam: { marine: "ecmwf_wam025", weather: "ecmwf_ifs025" },
+  gfs_wave: { marine: "ncep_gfswave025", weather: "gfs_seamless" },
+} as const;
+
+export type OpenMeteoModelSource = keyof typeof OPEN_METEO_MODELS;
+
 /**
  * Open-Meteo API response structure
  */
@@ -94,22 +106,23 @@ export async function getCurrentConditionsFromOpenMeteo(
  * Fetches marine forecast data from Open-Meteo API for a specific surf spot.
  * 
  * @param spot - The surf spot with latitude/longitude
- * @param options - Optional configuration
+ * @param options - Optional configuration (model: one of OPEN_METEO_MODELS, default blend otherwise)
  * @returns Array of forecast points in the same format as NOMADS
  */
 export async function fetchOpenMeteoForecastForSpot(
   spot: SurfSpot,
-  options?: { maxHoursOut?: number }
+  options?: { maxHoursOut?: number; model?: OpenMeteoModelSource }
 ): Promise<NomadsForecastPoint[]> {
   const lat = parseFloat(spot.latitude);
   const lon = parseFloat(spot.longitude);
   const maxHoursOut = options?.maxHoursOut ?? 168; // Default 7 days (168 hours)
+  const model = options?.model ? OPEN_METEO_MODELS[options.model] : null;
 
   if (isNaN(lat) || isNaN(lon)) {
     throw new Error(`Invalid coordinates for spot ${spot.name}: ${spot.latitude}, ${spot.longitude}`);
   }
 
-  console.log(`[Open-Meteo] Fetching marine forecast for ${spot.name} (${lat}, ${lon})`);
+  console.log(`[Open-Meteo] Fetching marine forecast for ${spot.name} (${lat}, ${lon})${model ? ` from ${model.marine}` : ""}`);
 
   // Open-Meteo Marine API endpoint
   const apiUrl = "https://marine-api.open-meteo.com/v1/marine";
@@ -150,6 +163,7 @@ export async function fetchOpenMeteoForecastForSpot(
     timezone: "auto",
     forecast_days: forecastDays,
     past_days: 1, // Include earlier hours of today (otherwise API only returns from current hour forward)
+    ...(model ? { models: model.marine } : {}),
   };
 
   // 🌊 STEP 1: Open-Meteo Marine API Request
@@ -170,6 +184,7 @@ export async function fetchOpenMeteoForecastForSpot(
     timezone: "auto",
     forecast_days: forecastDays,
     past_days: 1, // Include earlier hours of today (otherwise API only returns from current hour forward)
+    ...(model ? { models: model.weather } : {}),
   };
   const weatherFullUrl = `${weatherApiUrl}?latitude=${lat}&longitude=${lon}&hourly=wind_speed_10m,wind_direction_10m,wind_gusts_10m,temperature_2m&timezone=${weatherParams.timezone}&forecast_days=${weatherParams.forecast_days}`;
   console.log('[Open-Meteo] Full Weather request URL:', weatherFullUrl);
@@ -203,6 +218,7 @@ export async function fetchOpenMeteoForecastForSpot(
     // Merge wind data into hourly object
     hourly.wind_speed_10m = weatherHourly.wind_speed_10m as (number | null)[] || [];
     hourly.wind_direction_10m = weatherHourly.wind_direction_10m as (number | null)[] || [];
+    hourly.wind_gusts_10m = weatherHourly.wind_gusts_10m as (number | null)[] || [];
     // Merge air temperature from weather response
     hourly.temperature_2m = weatherHourly.temperature_2m as (number | null)[] || [];
 
@@ -370,7 +386,7 @@ export async function fetchOpenMeteoForecastForSpot(
         // Temperature data
         waterTempF,
         airTempF,
-        source: "ww3", // Keep same source enum for compatibility
+        source: options?.model ?? "ww3", // Default blend keeps the "ww3" label for compatibility
       });
     }
 
@@ -1,39 +1,28 @@
 /**
  * Spot coordinates mapping for Open-Meteo Marine API
+ *
+ * Coordinates come from the spot profile registry (surf_spots lat/lon),
+ * so new spots are picked up without code changes.
  */
 
+import { getSpotKey, getSpotProfile } from "../../utils/spotProfiles";
+
 export interface SpotCoordinates {
   lat: number;
   lon: number;
 }
 
-/**
- * Spot coordinates map using keys
- */
-export const SPOT_COORDINATES: Record<string, SpotCoordinates> = {
-  "lido": { lat: 40.5892, lon: -73.6265 },
-  "rockaway": { lat: 40.5830, lon: -73.8160 },
-  "long-beach": { lat: 40.5880, lon: -73.6580 },
-  "montauk": { lat: 41.0359, lon: -71.9545 },
-};
-
-/**
- * Spot name to key mapping
- */
-export const SPOT_NAME_TO_KEY: Record<string, string> = {
-  "Lido Beach": "lido",
-  "Rockaway Beach": "rockaway",
-  "Long Beach": "long-beach",
-  "Montauk": "montauk",
-};
-
 /**
  * Get spot coordinates by key
  * @param spotKey - Spot key ("lido", "rockaway", "long-beach")
  * @returns Spot coordinates or undefined if not found
  */
 export function getSpotCoordinates(spotKey: string): SpotCoordinates | undefined {
-  return SPOT_COORDINATES[spotKey];
+  const profile = getSpotProfile(spotKey);
+  if (!profile || profile.lat === undefined || profile.lon === undefined) {
+    return undefined;
+  }
+  return { lat: profile.lat, lon: profile.lon };
 }
 
 /**
@@ -42,5 +31,5 @@ export function getSpotCoordinates(spotKey: string): SpotCoordinates | undefined
  * @returns Spot key or undefined if not found
  */
 export function getSpotKeyFromName(spotName: string): string | undefined {
-  return SPOT_NAME_TO_KEY[spotName];
+  return getSpotKey(spotName);
 }
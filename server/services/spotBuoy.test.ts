@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { BuoyReading } from "../../drizzle/schema";
+import { toSpotBuoyReading } from "./spotBuoy";
+
+const OBSERVED_AT = new Date("2026-09-10T12:40:00Z");
+
+function row(overrides: Partial<BuoyReading> = {}): BuoyReading {
+  return {
+    id: 1,
+    buoyId: "44025",
+    timestamp: OBSERVED_AT,
+    waveHeightCm: 150,
+    dominantPeriodDs: 110,
+    swellDirectionDeg: 160,
+    windSpeedCmps: 500,
+    windDirectionDeg: 300,
+    windGustCmps: 700,
+    averagePeriodDs: 70,
+    swellHeightCm: 122,
+    swellPeriodDs: 110,
+    swellDirDeg: 158,
+    windWaveHeightCm: 46,
+    windWavePeriodDs: 40,
+    windWaveDirDeg: 225,
+    steepness: "SWELL",
+    swellTrains: null,
+    createdAt: OBSERVED_AT,
+    ...overrides,
+  };
+}
+
+describe("toSpotBuoyReading", () => {
+  it("maps a stored row to a live-style reading from its own buoy", () => {
+    const reading = toSpotBuoyReading(row(), OBSERVED_AT.getTime() + 30 * 60 * 1000)!;
+    expect(reading).toMatchObject({
+      source: "44025",
+      dominantPeriod: 11,
+      dominantDirectionDeg: 158,
+      swellDirection: "SSE",
+      windWaveDirection: "SW",
+      waveDirection: 160,
+      isStale: false,
+    });
+    expect(reading.waveHeight).toBeCloseTo(4, 1);
+    expect(reading.windSpeedKts).toBeCloseTo(9.7, 1);
+  });
+
+  it("picks wind waves as dominant when they carry more energy", () => {
+    const reading = toSpotBuoyReading(row({ windWaveHeightCm: 200, windWavePeriodDs: 70 }))!;
+    expect(reading.dominantPeriod).toBe(7);
+    expect(reading.dominantDirectionDeg).toBe(225);
+    expect(reading.dominantWaveHeight).toBeCloseTo(6.6, 1);
+  });
+
+  it("marks old rows stale and skips rows without SwH / SwP", () => {
+    expect(toSpotBuoyReading(row(), OBSERVED_AT.getTime() + 3 * 60 * 60 * 1000)!.isStale).toBe(true);
+    expect(toSpotBuoyReading(row({ swellHeightCm: null }))).toBeNull();
+  });
+});
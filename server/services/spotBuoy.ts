@@ -0,0 +1,79 @@
+/**
+ * Spot Buoy Readings
+ *
+ * The latest stored observation from a spot's surf_spots.buoyId, in the same shape as the live
+ * NDBC readers (buoyMontauk.ts / buoy44065.ts). Rows come from buoy_readings, which the
+ * buoy-history job fills for every spot's buoy, so timeline reads never call NDBC.
+ * Unlike fetchMontaukBuoyCached there is no Block Island (44097) fallback: a spot reads its
+ * own buoy or nothing.
+ */
+
+import type { BuoyReading as BuoyReadingRow, SurfSpot } from "../../drizzle/schema";
+import { getLatestBuoySwellReading } from "../db";
+import { calculateSwellEnergy } from "../utils/waveHeight";
+import { degreesToDirection, type BuoyReading as MontaukBuoyReading } from "./buoyMontauk";
+
+export type SpotBuoyReading = Omit<MontaukBuoyReading, "source"> & {
+  source: string; // Station the reading came from
+};
+
+const STALE_THRESHOLD_MS = 2 * 60 * 60 * 1000; // 2 hours
+const CM_PER_FT = 30.48;
+const CMPS_TO_KTS = 0.0194384;
+
+/**
+ * Map a stored buoy_readings row to a live-style reading.
+ * Picks the dominant component (swell vs wind waves) by energy like the live parser.
+ *
+ * @returns null if the row has no SwH / SwP
+ */
+export function toSpotBuoyReading(row: BuoyReadingRow, now: number = Date.now()): SpotBuoyReading | null {
+  if (row.swellHeightCm === null || row.swellPeriodDs === null) return null;
+
+  const swellHeightFt = row.swellHeightCm / CM_PER_FT;
+  const swellPeriodS = row.swellPeriodDs / 10;
+  const windWaveHeightFt = row.windWaveHeightCm !== null ? row.windWaveHeightCm / CM_PER_FT : null;
+  const windWavePeriodS = row.windWavePeriodDs !== null ? row.windWavePeriodDs / 10 : null;
+
+  const windWaveEnergy = windWaveHeightFt !== null && windWavePeriodS !== null
+    ? calculateSwellEnergy(windWaveHeightFt, windWavePeriodS)
+    : 0;
+  const windWavesDominate = windWaveEnergy > calculateSwellEnergy(swellHeightFt, swellPeriodS);
+
+  const dominantHeightFt = windWavesDominate ? windWaveHeightFt! : swellHeightFt;
+  const dominantDirectionDeg = windWavesDominate ? row.windWaveDirDeg : row.swellDirDeg;
+
+  return {
+    waveHeight: swellHeightFt,
+    waveHeightMeters: row.swellHeightCm / 100,
+    dominantPeriod: windWavesDominate ? windWavePeriodS! : swellPeriodS,
+    dominantWaveHeight: dominantHeightFt,
+    dominantWaveHeightMeters: (dominantHeightFt * CM_PER_FT) / 100,
+    dominantDirectionDeg,
+    dominantDirectionLabel: dominantDirectionDeg !== null ? degreesToDirection(dominantDirectionDeg) : "N/A",
+    waveDirection: row.swellDirectionDeg ?? 0,
+    directionLabel: row.swellDirectionDeg !== null ? degreesToDirection(row.swellDirectionDeg) : "N/A",
+    timestamp: row.timestamp,
+    isStale: now - row.timestamp.getTime() > STALE_THRESHOLD_MS,
+    swellHeight: swellHeightFt,
+    swellPeriod: swellPeriodS,
+    swellDirection: row.swellDirDeg !== null ? degreesToDirection(row.swellDirDeg) : null,
+    swellDirectionDeg: row.swellDirDeg,
+    windWaveHeight: windWaveHeightFt,
+    windWavePeriod: windWavePeriodS,
+    windWaveDirection: row.windWaveDirDeg !== null ? degreesToDirection(row.windWaveDirDeg) : null,
+    windWaveDirectionDeg: row.windWaveDirDeg,
+    steepness: row.steepness,
+    windSpeedKts: row.windSpeedCmps !== null ? row.windSpeedCmps * CMPS_TO_KTS : null,
+    windDirectionDeg: row.windDirectionDeg,
+    source: row.buoyId,
+  };
+}
+
+/**
+ * Latest stored reading from the spot's configured buoy (null if none has been ingested)
+ */
+export async function getSpotBuoyReading(spot: Pick<SurfSpot, "buoyId">): Promise<SpotBuoyReading | null> {
+  const row = await getLatestBuoySwellReading(spot.buoyId);
+  return row ? toSpotBuoyReading(row) : null;
+}
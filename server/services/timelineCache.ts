@@ -0,0 +1,222 @@
+/**
+ * Computed Timeline Cache
+ *
+ * forecasts.getTimeline's heavy lifting - scoring the stored run (generateForecastTimeline, which
+ * reads stored tides), the buoy override for the current hour, Stormglass confidence and the model
+ * recommendation - is done once per spot and shared by every visitor, stale-while-revalidate:
+ *
+ * - Fresh entries (under TIMELINE_CACHE_TTL_MS) are served as is
+ * - Stale entries are served immediately while one background recompute runs
+ * - Concurrent misses for the same spot share one computation (single-flight)
+ * - Once a new run is stored, reads wait for the recompute instead of serving the replaced run
+ *
+ * Each forecast source (services/forecastSources.ts) has its own entries; only the primary
+ * source gets the buoy override and model recommendation.
+ *
+ * Reads never call an upstream API: forecast runs, buoy observations (buoy_readings) and tide
+ * predictions (tide_predictions) all come from the database. New runs are fetched by each
+ * source's job (or the refreshTimeline mutation) through refreshForecastPoints(), which
+ * invalidates that source's entries; buoy-history and tide-predictions keep the rest current.
+ * A read that finds the primary run missing or old logs a warning and answers from what's stored.
+ *
+ * Entries are per server instance; invalidation reaches the instance that ran the refresh and
+ * other replicas catch up within the TTL.
+ */
+
+import type { SurfSpot } from "../../drizzle/schema";
+import { getAverageCrowdLevel, getForecastTimeline, insertForecastPoints, isForecastDataStale } from "../db";
+import { addConfidenceToTimeline, selectRecommendedModel, type ForecastWithConfidence, type RecommendedModelResult } from "../utils/forecastConfidence";
+import { applyBuoyOverrideToCurrentPoint, generateForecastTimeline } from "./forecast";
+import { getForecastSourceAdapter, PRIMARY_FORECAST_SOURCE, type TimelineForecastSource } from "./forecastSources";
+import { convertToDbFormat, type NomadsForecastPoint } from "./openMeteo";
+import { getSpotBuoyReading } from "./spotBuoy";
+
+export const TIMELINE_CACHE_TTL_MS = 10 * 60 * 1000;
+const STORED_RUN_MAX_AGE_HOURS = 1; // forecast-refresh runs every 30 minutes
+const FORECAST_HOURS = 168;
+const STORED_TIMELINE_HOURS = 180;
+
+export interface CachedTimeline {
+  timeline: ForecastWithConfidence[]; // Every stored hour of the source's latest run (up to 180h out)
+  recommendedModel: RecommendedModelResult | null; // Primary source only
+  computedAt: number;
+}
+
+interface CacheEntry {
+  value: CachedTimeline;
+  expiresAt: number;
+  sequence: number; // Order computations started in
+  replaced: boolean; // A newer run was stored since this was computed
+}
+
+let sequence = 0;
+const entries = new Map<string, CacheEntry>();
+const computing = new Map<string, { sequence: number; promise: Promise<CachedTimeline> }>();
+const refreshing = new Map<string, Promise<number>>();
+const invalidatedAt = new Map<string, number>(); // spotId:source -> sequence at last invalidation
+
+function sourceKey(spotId: number, source: TimelineForecastSource): string {
+  return `${spotId}:${source}`;
+}
+
+function cacheKey(spotId: number, source: TimelineForecastSource, applyHeightCorrection: boolean): string {
+  return `${sourceKey(spotId, source)}:${applyHeightCorrection ? "corrected" : "raw"}`;
+}
+
+/**
+ * Auto-select the forecast model closest to what the buoy is reading now
+ */
+async function selectModelForSpot(spot: SurfSpot, timeline: ForecastWithConfidence[]): Promise<RecommendedModelResult | null> {
+  try {
+    const buoyData = await getSpotBuoyReading(spot);
+
+    // The current (first) timeline point, within the last hour
+    const now = Date.now();
+    const currentPoint = timeline.find((p) => new Date(p.forecastTimestamp).getTime() >= now - 60 * 60 * 1000);
+    if (!currentPoint) return null;
+
+    const omHeightFt = currentPoint.breakingWaveHeightFt ?? currentPoint.dominantSwellHeightFt ?? null;
+    const ecmwfHeightFt = currentPoint.ecmwfWaveHeightFt ?? null;
+    const recommendedModel = selectRecommendedModel(buoyData?.dominantWaveHeight ?? null, buoyData?.isStale ?? true, omHeightFt, ecmwfHeightFt);
+    if (recommendedModel) {
+      console.log(`[Model Selection] ${spot.name}: recommended=${recommendedModel.model} — ${recommendedModel.reason}`);
+    }
+    return recommendedModel;
+  } catch (err) {
+    console.error("[Model Selection] Error selecting recommended model:", err);
+    return null;
+  }
+}
+
+async function computeTimeline(
+  spot: SurfSpot,
+  source: TimelineForecastSource,
+  applyHeightCorrection: boolean
+): Promise<CachedTimeline> {
+  const isPrimary = source === PRIMARY_FORECAST_SOURCE;
+  const forecastPoints = await getForecastTimeline(spot.id, STORED_TIMELINE_HOURS, source);
+
+  if (isPrimary && (forecastPoints.length === 0 || (await isForecastDataStale(spot.id, STORED_RUN_MAX_AGE_HOURS)))) {
+    console.warn(`[Timeline Cache] ${spot.name}: stored run missing or older than ${STORED_RUN_MAX_AGE_HOURS}h, is forecast-refresh running?`);
+  }
+
+  const timeline = await generateForecastTimeline({
+    forecastPoints,
+    spot,
+    tideStationId: spot.tideStationId,
+    avgCrowdLevel: await getAverageCrowdLevel(spot.id),
+    applyHeightCorrection,
+    source,
+  });
+  const withBuoyOverride = isPrimary ? await applyBuoyOverrideToCurrentPoint(timeline, spot) : timeline;
+  const withConfidence = await addConfidenceToTimeline(spot.id, withBuoyOverride, spot.name);
+
+  return {
+    timeline: withConfidence,
+    recommendedModel: isPrimary ? await selectModelForSpot(spot, withConfidence) : null,
+    computedAt: Date.now(),
+  };
+}
+
+function revalidate(spot: SurfSpot, source: TimelineForecastSource, applyHeightCorrection: boolean): Promise<CachedTimeline> {
+  const key = cacheKey(spot.id, source, applyHeightCorrection);
+  const invalidationKey = sourceKey(spot.id, source);
+  const inFlight = computing.get(key);
+  // Join a running computation unless it started before the last invalidation (it read the old run)
+  if (inFlight && inFlight.sequence > (invalidatedAt.get(invalidationKey) ?? 0)) return inFlight.promise;
+
+  const started = ++sequence;
+  const promise = computeTimeline(spot, source, applyHeightCorrection)
+    .then((value) => {
+      const replaced = (invalidatedAt.get(invalidationKey) ?? 0) > started;
+      const current = entries.get(key);
+      if (!current || current.sequence < started) {
+        // Don't hold on to an empty timeline (nothing stored yet, a refresh is on its way)
+        const ttl = value.timeline.length > 0 && !replaced ? TIMELINE_CACHE_TTL_MS : 0;
+        entries.set(key, { value, expiresAt: value.computedAt + ttl, sequence: started, replaced });
+      }
+      return value;
+    })
+    .finally(() => {
+      if (computing.get(key)?.promise === promise) computing.delete(key);
+    });
+  computing.set(key, { sequence: started, promise });
+  return promise;
+}
+
+/**
+ * A spot's computed timeline for one source (default: primary), from cache when possible (see top of file)
+ */
+export async function getCachedTimeline(
+  spot: SurfSpot,
+  options: { applyHeightCorrection?: boolean; source?: TimelineForecastSource } = {}
+): Promise<CachedTimeline> {
+  const applyHeightCorrection = options.applyHeightCorrection ?? false;
+  const source = options.source ?? PRIMARY_FORECAST_SOURCE;
+  const entry = entries.get(cacheKey(spot.id, source, applyHeightCorrection));
+
+  if (!entry || entry.replaced) return revalidate(spot, source, applyHeightCorrection);
+
+  if (Date.now() >= entry.expiresAt) {
+    revalidate(spot, source, applyHeightCorrection).catch((error) =>
+      console.warn(`[Timeline Cache] Revalidation failed for ${spot.name}, serving stale:`, error)
+    );
+  }
+  return entry.value;
+}
+
+/**
+ * Mark a spot's cached timelines for one source replaced and recompute the ones in use
+ */
+export function invalidateTimelineCache(spot: SurfSpot, source: TimelineForecastSource = PRIMARY_FORECAST_SOURCE): void {
+  invalidatedAt.set(sourceKey(spot.id, source), ++sequence);
+  for (const applyHeightCorrection of [false, true]) {
+    const entry = entries.get(cacheKey(spot.id, source, applyHeightCorrection));
+    if (!entry) continue;
+    entry.replaced = true;
+    revalidate(spot, source, applyHeightCorrection).catch((error) =>
+      console.warn(`[Timeline Cache] Recompute after invalidation failed for ${spot.name}:`, error)
+    );
+  }
+}
+
+/**
+ * Store a fetched run for one source and invalidate that source's cached timelines
+ */
+export async function storeForecastRun(
+  spot: SurfSpot,
+  source: TimelineForecastSource,
+  points: NomadsForecastPoint[]
+): Promise<void> {
+  await insertForecastPoints(points.map((point) => convertToDbFormat({ ...point, source }, spot.id)));
+  invalidateTimelineCache(spot, source);
+}
+
+/**
+ * Fetch a new run from a source's adapter (default: primary), store it and invalidate the
+ * spot's cached timelines for that source. Concurrent calls for the same spot and source share one fetch.
+ * @returns Points stored
+ */
+export function refreshForecastPoints(
+  spot: SurfSpot,
+  source: TimelineForecastSource = PRIMARY_FORECAST_SOURCE
+): Promise<number> {
+  const key = sourceKey(spot.id, source);
+  const inFlight = refreshing.get(key);
+  if (inFlight) return inFlight;
+
+  const adapter = getForecastSourceAdapter(source);
+  const promise = (async () => {
+    const fetchedPoints = await adapter.fetchRun(spot, { maxHoursOut: FORECAST_HOURS });
+    if (fetchedPoints.length === 0) {
+      throw new Error(`${adapter.label} returned no forecast points for ${spot.name}`);
+    }
+
+    await storeForecastRun(spot, source, fetchedPoints);
+    return fetchedPoints.length;
+  })().finally(() => refreshing.delete(key));
+
+  refreshing.set(key, promise);
+  return promise;
+}
+
@@ -0,0 +1,232 @@
+/**
+ * Best Surf Windows
+ *
+ * Scans forecast timelines (generateForecastTimeline output) for the hours worth planning
+ * around: daylight hours at or above a quality threshold, optionally limited to certain
+ * days of the week and an earliest start time (Eastern). Contiguous qualifying hours are
+ * merged into windows, summarized (peak score, dominant swell, wind, tide) and ranked.
+ */
+
+import type { SurfSpot } from "../../drizzle/schema";
+import type { ForecastTimelineResult } from "../services/forecast";
+import { isDaylightHours, getLastLightForDate } from "./sunTimes";
+
+export interface BestWindowConstraints {
+  minQualityScore: number;
+  daysOfWeek?: number[]; // 0=Sunday … 6=Saturday (Eastern)
+  earliestStartHour?: number; // 0-23 Eastern; hours before this don't count
+  from?: Date;
+  until?: Date;
+}
+
+export interface BestWindow {
+  spotId: number;
+  spotName: string;
+  start: Date;
+  end: Date; // End of the last qualifying hour, capped at last light
+  hours: number;
+  peakScore: number;
+  peakRating: string | null;
+  peakTime: Date;
+  avgScore: number;
+  peakBreakingHeightFt: number | null;
+  dominantSwell: {
+    heightFt: number | null;
+    periodS: number | null;
+    directionDeg: number | null;
+    label: string | null;
+  };
+  wind: {
+    type: ForecastTimelineResult["windType"]; // Most common wind type across the window
+    avgSpeedMph: number | null;
+    avgGustsMph: number | null;
+    directionDeg: number | null; // Circular mean
+    compass: string | null;
+    summary: string; // e.g. "Offshore NW 8 mph"
+  };
+  tide: {
+    phaseAtStart: ForecastTimelineResult["tidePhase"];
+    phaseAtPeak: ForecastTimelineResult["tidePhase"];
+    phaseAtEnd: ForecastTimelineResult["tidePhase"];
+    heightFtAtPeak: number | null;
+  };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const WIND_TYPE_LABELS: Record<NonNullable<ForecastTimelineResult["windType"]>, string> = {
+  offshore: "Offshore",
+  "side-offshore": "Side-offshore",
+  cross: "Cross-shore",
+  onshore: "Onshore",
+};
+
+function degreesToCompass(degrees: number | null): string | null {
+  if (degrees === null) return null;
+  const directions = ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE",
+                      "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"];
+  return directions[Math.round(degrees / 22.5) % 16];
+}
+
+function circularMeanDeg(directions: Array<number | null>): number | null {
+  const valid = directions.filter((d): d is number => d !== null);
+  if (valid.length === 0) return null;
+  const sin = valid.reduce((sum, d) => sum + Math.sin((d * Math.PI) / 180), 0);
+  const cos = valid.reduce((sum, d) => sum + Math.cos((d * Math.PI) / 180), 0);
+  const mean = (Math.atan2(sin, cos) * 180) / Math.PI;
+  return Math.round((mean + 360) % 360);
+}
+
+function average(values: Array<number | null>): number | null {
+  const valid = values.filter((v): v is number => v !== null);
+  if (valid.length === 0) return null;
+  return Math.round(valid.reduce((sum, v) => sum + v, 0) / valid.length);
+}
+
+/**
+ * Day of week (0=Sunday) and hour in Eastern time — the server may run in UTC
+ */
+function getEasternDayAndHour(date: Date): { day: number; hour: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: "America/New_York",
+    weekday: "short",
+    hour: "numeric",
+    hour12: false,
+  }).formatToParts(date);
+  const weekday = parts.find((p) => p.type === "weekday")?.value ?? "Sun";
+  const hour = parseInt(parts.find((p) => p.type === "hour")?.value ?? "0", 10) % 24;
+  return { day: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(weekday), hour };
+}
+
+function pointScore(point: ForecastTimelineResult): number {
+  return point.quality_score ?? point.probabilityScore ?? 0;
+}
+
+function pointQualifies(
+  point: ForecastTimelineResult,
+  constraints: BestWindowConstraints,
+  lat: number,
+  lng: number
+): boolean {
+  const time = new Date(point.forecastTimestamp);
+  if (constraints.from && time < constraints.from) return false;
+  if (constraints.until && time > constraints.until) return false;
+  if (!isDaylightHours(time, lat, lng)) return false;
+  if (pointScore(point) < constraints.minQualityScore) return false;
+
+  if (constraints.daysOfWeek?.length || constraints.earliestStartHour !== undefined) {
+    const { day, hour } = getEasternDayAndHour(time);
+    if (constraints.daysOfWeek?.length && !constraints.daysOfWeek.includes(day)) return false;
+    if (constraints.earliestStartHour !== undefined && hour < constraints.earliestStartHour) return false;
+  }
+
+  return true;
+}
+
+function summarizeWindow(points: ForecastTimelineResult[], spot: SurfSpot, lat: number, lng: number): BestWindow {
+  const peak = points.reduce((best, p) => (pointScore(p) > pointScore(best) ? p : best), points[0]);
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  const start = new Date(first.forecastTimestamp);
+  const lastHourEnd = new Date(new Date(last.forecastTimestamp).getTime() + HOUR_MS);
+  const lastLight = getLastLightForDate(new Date(last.forecastTimestamp), lat, lng);
+  const end = lastHourEnd > lastLight ? lastLight : lastHourEnd;
+
+  // Most common wind type; ties go to the peak hour's
+  const windTypeCounts = new Map<ForecastTimelineResult["windType"], number>();
+  for (const p of points) windTypeCounts.set(p.windType, (windTypeCounts.get(p.windType) ?? 0) + 1);
+  let windType = peak.windType;
+  windTypeCounts.forEach((count, type) => {
+    if (count > (windTypeCounts.get(windType) ?? 0)) windType = type;
+  });
+
+  const avgSpeedMph = average(points.map((p) => p.windSpeedMph));
+  const avgGustsMph = average(points.map((p) => p.windGustsMph));
+  const directionDeg = circularMeanDeg(points.map((p) => p.windDirectionDeg));
+  const compass = degreesToCompass(directionDeg);
+  const summary = [
+    windType ? WIND_TYPE_LABELS[windType] : "Variable",
+    compass,
+    avgSpeedMph !== null ? `${avgSpeedMph} mph` : null,
+  ].filter(Boolean).join(" ");
+
+  return {
+    spotId: spot.id,
+    spotName: spot.name,
+    start,
+    end,
+    hours: points.length,
+    peakScore: pointScore(peak),
+    peakRating: peak.quality_rating,
+    peakTime: new Date(peak.forecastTimestamp),
+    avgScore: Math.round(points.reduce((sum, p) => sum + pointScore(p), 0) / points.length),
+    peakBreakingHeightFt: peak.breakingWaveHeightFt,
+    dominantSwell: {
+      heightFt: peak.dominantSwellHeightFt,
+      periodS: peak.dominantSwellPeriodS,
+      directionDeg: peak.dominantSwellDirectionDeg,
+      label: peak.dominantSwellLabel,
+    },
+    wind: { type: windType, avgSpeedMph, avgGustsMph, directionDeg, compass, summary },
+    tide: {
+      phaseAtStart: first.tidePhase,
+      phaseAtPeak: peak.tidePhase,
+      phaseAtEnd: last.tidePhase,
+      heightFtAtPeak: peak.tideHeightFt !== null ? peak.tideHeightFt / 10 : null, // Timeline tide is in tenths
+    },
+  };
+}
+
+/**
+ * Merge a spot's qualifying timeline hours into windows.
+ * Hours more than an hour apart (a gap in the data or a failing hour) start a new window.
+ */
+export function findBestWindows(
+  timeline: ForecastTimelineResult[],
+  spot: SurfSpot,
+  constraints: BestWindowConstraints
+): BestWindow[] {
+  const lat = parseFloat(spot.latitude);
+  const lng = parseFloat(spot.longitude);
+  const sorted = [...timeline].sort(
+    (a, b) => new Date(a.forecastTimestamp).getTime() - new Date(b.forecastTimestamp).getTime()
+  );
+
+  const windows: BestWindow[] = [];
+  let current: ForecastTimelineResult[] = [];
+
+  for (const point of sorted) {
+    if (!pointQualifies(point, constraints, lat, lng)) {
+      if (current.length > 0) windows.push(summarizeWindow(current, spot, lat, lng));
+      current = [];
+      continue;
+    }
+
+    const previous = current[current.length - 1];
+    if (
+      previous &&
+      new Date(point.forecastTimestamp).getTime() - new Date(previous.forecastTimestamp).getTime() > HOUR_MS
+    ) {
+      windows.push(summarizeWindow(current, spot, lat, lng));
+      current = [];
+    }
+    current.push(point);
+  }
+  if (current.length > 0) windows.push(summarizeWindow(current, spot, lat, lng));
+
+  return windows;
+}
+
+/**
+ * Best first: peak score, then average score, then longer windows, then sooner
+ */
+export function rankBestWindows(windows: BestWindow[]): BestWindow[] {
+  return [...windows].sort(
+    (a, b) =>
+      b.peakScore - a.peakScore ||
+      b.avgScore - a.avgScore ||
+      b.hours - a.hours ||
+      a.start.getTime() - b.start.getTime()
+  );
+}
@@ -1,8 +1,8 @@
 /**
  * Forecast Confidence Calculator
  *
- * Compares Open-Meteo forecasts against Stormglass ECMWF data
- * to determine confidence levels.
+ * Compares Open-Meteo forecasts against ECMWF (Stormglass, or the scored ECMWF WAM
+ * timeline when stored) to determine confidence levels.
  *
  * Confidence Thresholds:
  * - HIGH: Models agree within 0.5ft
@@ -147,6 +147,36 @@ export async function addConfidenceToTimeline(
   });
 }
 
+/**
+ * Fill the Euro fields from a fully scored ECMWF timeline (generateForecastTimeline over
+ * services/forecastSources.ts's EURO_FORECAST_SOURCE), so the Euro side of the model toggle
+ * is that model's own swell, wind and score rather than an Open-Meteo hour with ECMWF height.
+ * Hours the ECMWF run doesn't cover keep the Stormglass-derived values.
+ */
+export function applyEuroTimeline(
+  timeline: ForecastWithConfidence[],
+  euroTimeline: ForecastTimelineResult[]
+): ForecastWithConfidence[] {
+  if (euroTimeline.length === 0) return timeline;
+
+  const euroByHour = new Map(euroTimeline.map((point) => [buildEasternHourKey(point.forecastTimestamp), point]));
+
+  return timeline.map((point) => {
+    const euro = euroByHour.get(buildEasternHourKey(point.forecastTimestamp));
+    const ecmwfHeight = euro ? (euro.breakingWaveHeightFt ?? euro.dominantSwellHeightFt) : null;
+    if (!euro || ecmwfHeight === null) return point;
+
+    const openMeteoHeight = point.breakingWaveHeightFt ?? point.dominantSwellHeightFt ?? null;
+    return {
+      ...point,
+      modelConfidence: calculateConfidence(openMeteoHeight, ecmwfHeight),
+      ecmwfWaveHeightFt: ecmwfHeight,
+      euroQualityScore: euro.quality_score,
+      euroQualityRating: euro.quality_rating,
+    };
+  });
+}
+
 /**
  * Get a simple confidence summary for a spot.
  * Pass the already-computed ForecastWithConfidence[] to avoid a redundant DB fetch.
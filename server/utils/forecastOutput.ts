@@ -19,6 +19,7 @@ import {
 export interface ForecastOutput {
   timestamp: string; // ISO 8601 local time string
   breakingWaveHeightFt: number; // Predicted breaking wave face height in feet (numeric)
+  rawBreakingWaveHeightFt: number; // Breaking height before any surf-report correction
   quality_rating: string; // "Don't Bother", "Worth a Look", "Go Surf", "Firing", "All-Time"
   quality_score: number; // 0-100 (internal)
   raw_data: {
@@ -37,6 +38,13 @@ export interface ForecastOutput {
   reason: string; // Human-readable explanation
 }
 
+/**
+ * Apply a surf-report calibration factor, rounded to 0.1ft like the rest of the output
+ */
+function applyCorrection(breakingHeightFt: number, factor: number | null | undefined): number {
+  return factor != null ? Math.round(breakingHeightFt * factor * 10) / 10 : breakingHeightFt;
+}
+
 /**
  * Generate complete forecast output from forecast point
  * 
@@ -46,13 +54,16 @@ export interface ForecastOutput {
  * @param spotId - Spot identifier (name or key like "lido", "long-beach", "rockaway")
  * @param tideFt - Tide height in decimal feet
  * @param tidePhase - Tide phase: 'high', 'low', 'rising', 'falling', or null
+ * @param heightCorrectionFactor - Surf-report calibration factor; when set, the quality
+ *   score is computed from the corrected breaking height
  * @returns Complete forecast output
  */
 export function generateForecastOutput(
   forecastPoint: ForecastPoint,
   spotId: string,
   tideFt: number,
-  tidePhase?: string | null
+  tidePhase?: string | null,
+  heightCorrectionFactor?: number | null
 ): ForecastOutput {
   console.log('🎯 [generateForecastOutput] START for spot:', spotId);
   
@@ -86,7 +97,8 @@ export function generateForecastOutput(
     // Return with minimal data
     return {
       timestamp: forecastPoint.forecastTimestamp.toISOString(),
-      breakingWaveHeightFt: breakingHeightFt,
+      breakingWaveHeightFt: applyCorrection(breakingHeightFt, heightCorrectionFactor),
+      rawBreakingWaveHeightFt: breakingHeightFt,
       quality_rating: "Don't Bother",
       quality_score: 0,
       raw_data: {
@@ -111,7 +123,8 @@ export function generateForecastOutput(
   const swellHeightFt = dominantSwell.height_ft;
   const periodS = dominantSwell.period_s;
   const swellDirectionDeg = dominantSwell.direction_deg;
-  const breakingHeightFt = dominantSwell.breaking_height;
+  const rawBreakingHeightFt = dominantSwell.breaking_height;
+  const breakingHeightFt = applyCorrection(rawBreakingHeightFt, heightCorrectionFactor);
 
   // Calculate spot multiplier for logging
   const spotKey = getSpotKey(profile.name) || spotId;
@@ -122,7 +135,7 @@ export function generateForecastOutput(
     period: periodS,
     direction: swellDirectionDeg,
     energy: dominantSwell.energy?.toFixed(1),
-    breaking_height: breakingHeightFt,
+    breaking_height: rawBreakingHeightFt,
     formula: `${swellHeightFt.toFixed(1)} × ${(periodS/10).toFixed(2)} × ${spotMultiplier} = ${(swellHeightFt * (periodS/10) * spotMultiplier).toFixed(1)}ft (before penalties)`,
     spot: profile.name,
     spotMultiplier
@@ -142,12 +155,14 @@ export function generateForecastOutput(
   };
 
   // Calculate quality score (pass profile to avoid circular dependency)
+  // A corrected height overrides the one scoring would derive from the swell
   const qualityResult: QualityScoreResult = calculateQualityScoreWithProfile(
     modifiedForecastPoint,
     spotId,
     tideFt,
     profile,
-    tidePhase ?? null
+    tidePhase ?? null,
+    heightCorrectionFactor != null ? breakingHeightFt : null
   );
 
   // Debug logging for quality score breakdown
@@ -172,6 +187,7 @@ export function generateForecastOutput(
   return {
     timestamp,
     breakingWaveHeightFt: breakingHeightFt,
+    rawBreakingWaveHeightFt: rawBreakingHeightFt,
     quality_rating: qualityResult.rating,
     quality_score: qualityResult.score,
     raw_data: {
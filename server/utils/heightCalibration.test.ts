@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { CalibrationSample } from "../db";
+import { fitHeightCorrections, getPeriodBand } from "./heightCalibration";
+
+/**
+ * `count` reports at one spot + period, reported/observed in feet
+ */
+function samples(count: number, reportedFt: number, observedFt: number, wavePeriodSec = 9, spotId = 1): CalibrationSample[] {
+  return Array.from({ length: count }, () => ({
+    spotId,
+    reportedWaveHeightTenths: Math.round(reportedFt * 10),
+    observedWaveHeightTenths: Math.round(observedFt * 10),
+    wavePeriodSec,
+  }));
+}
+
+describe("getPeriodBand", () => {
+  it("assigns periods to bands with inclusive lower bounds", () => {
+    expect([0, 7.9, 8, 10.9, 11, 13.9, 14, 20].map(getPeriodBand)).toEqual([
+      "short",
+      "short",
+      "medium",
+      "medium",
+      "long",
+      "long",
+      "groundswell",
+      "groundswell",
+    ]);
+  });
+});
+
+describe("fitHeightCorrections", () => {
+  it("fits one factor per spot and period band", () => {
+    const { corrections, used, rejected } = fitHeightCorrections([
+      ...samples(8, 3, 2, 9),
+      ...samples(8, 2, 4, 15),
+      ...samples(8, 2, 2, 9, 2),
+    ]);
+
+    expect(corrections.map((c) => [c.spotId, c.periodBand, c.factor, c.meanDeltaFt])).toEqual([
+      [1, "medium", 1.5, 1],
+      [1, "groundswell", 0.6, -2], // 0.5 clamped
+      [2, "medium", 1, 0],
+    ]);
+    expect(used).toBe(24);
+    expect(rejected).toBe(0);
+  });
+
+  it("leaves out bands below the minimum sample size", () => {
+    const input = [...samples(7, 3, 2, 9), ...samples(8, 3, 2, 12)];
+    expect(fitHeightCorrections(input).corrections.map((c) => c.periodBand)).toEqual(["long"]);
+    expect(fitHeightCorrections(input, 7).corrections.map((c) => c.periodBand)).toEqual(["medium", "long"]);
+  });
+
+  it("rejects implausible reports and MAD outliers before fitting", () => {
+    const spread = [2.8, 2.9, 3, 3, 3, 3.1, 3.2, 3, 3].flatMap((ft) => samples(1, ft, 2));
+    const { corrections, used, rejected } = fitHeightCorrections([
+      ...spread,
+      ...samples(1, 5, 2), // MAD outlier
+      ...samples(1, 10, 2), // Beyond 4x
+      ...samples(1, 0, 2), // Empty report, skipped entirely
+    ]);
+
+    expect(corrections).toHaveLength(1);
+    expect(corrections[0]).toMatchObject({ sampleCount: 9, rejectedCount: 2, factor: 1.499 }); // Geometric mean
+    expect(used).toBe(9);
+    expect(rejected).toBe(2);
+  });
+
+  it("counts a band's rejections even when it ends up below the minimum", () => {
+    const { corrections, rejected } = fitHeightCorrections([...samples(7, 3, 2), ...samples(1, 12, 2)]);
+    expect(corrections).toEqual([]);
+    expect(rejected).toBe(1);
+  });
+});
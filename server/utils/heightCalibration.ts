@@ -0,0 +1,181 @@
+/**
+ * Breaking Height Calibration
+ *
+ * Fits per-spot, per-swell-period-band correction factors from surf report ground truth
+ * (surf_report_validation: what surfers reported vs. the breaking height we showed at the time).
+ *
+ * factor = geometric mean of reported / observed, after rejecting outliers on the log ratio
+ * (median ± 3 × scaled MAD) and requiring MIN_SAMPLES kept reports per spot + band.
+ * corrected height = model breaking height × factor.
+ *
+ * Bands are keyed on the primary swell period on both sides: the fit uses
+ * conditions_log.wavePeriodSec and the lookup uses forecast_points.wavePeriodSec,
+ * not the dominant swell period (conditions_log doesn't record one).
+ *
+ * Fitted tables are versioned in breaking_height_calibrations / breaking_height_corrections.
+ * loadHeightCorrections() pulls the active version into memory at startup and after each
+ * calibration, so applying a correction stays synchronous.
+ */
+
+import type { CalibrationSample } from "../db";
+
+export type PeriodBand = "short" | "medium" | "long" | "groundswell";
+
+/**
+ * Swell period bands (seconds, min inclusive / max exclusive)
+ */
+export const PERIOD_BANDS: Array<{ band: PeriodBand; minS: number; maxS: number }> = [
+  { band: "short", minS: 0, maxS: 8 }, // Wind swell
+  { band: "medium", minS: 8, maxS: 11 },
+  { band: "long", minS: 11, maxS: 14 },
+  { band: "groundswell", minS: 14, maxS: Infinity },
+];
+
+export const MIN_SAMPLES = 8;
+
+// Reports this far from the model (either way) are treated as bad input, not signal
+const MAX_RATIO = 4;
+const MAD_REJECTION_THRESHOLD = 3;
+// Keep corrections conservative until there's a lot of data
+const MIN_FACTOR = 0.6;
+const MAX_FACTOR = 1.6;
+
+export function getPeriodBand(periodS: number): PeriodBand {
+  return PERIOD_BANDS.find((b) => periodS >= b.minS && periodS < b.maxS)?.band ?? "groundswell";
+}
+
+export interface FittedCorrection {
+  spotId: number;
+  periodBand: PeriodBand;
+  factor: number;
+  sampleCount: number;
+  rejectedCount: number;
+  meanDeltaFt: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Fit correction factors from validation samples.
+ * Spot + band groups with fewer than `minSamples` kept reports are left out (no correction).
+ */
+export function fitHeightCorrections(
+  samples: CalibrationSample[],
+  minSamples: number = MIN_SAMPLES
+): { corrections: FittedCorrection[]; used: number; rejected: number } {
+  const groups = new Map<string, { spotId: number; band: PeriodBand; samples: CalibrationSample[] }>();
+
+  for (const sample of samples) {
+    if (sample.reportedWaveHeightTenths <= 0 || sample.observedWaveHeightTenths <= 0) continue;
+    const band = getPeriodBand(sample.wavePeriodSec);
+    const key = `${sample.spotId}:${band}`;
+    if (!groups.has(key)) groups.set(key, { spotId: sample.spotId, band, samples: [] });
+    groups.get(key)!.samples.push(sample);
+  }
+
+  const corrections: FittedCorrection[] = [];
+  let used = 0;
+  let rejected = 0;
+
+  for (const group of Array.from(groups.values())) {
+    const candidates = group.samples
+      .map((s) => ({ sample: s, logRatio: Math.log(s.reportedWaveHeightTenths / s.observedWaveHeightTenths) }))
+      .filter((c) => Math.abs(c.logRatio) <= Math.log(MAX_RATIO));
+
+    if (candidates.length === 0) {
+      rejected += group.samples.length;
+      continue;
+    }
+
+    // Robust outlier rejection on the log ratio (1.4826 scales MAD to σ for normal data)
+    const center = median(candidates.map((c) => c.logRatio));
+    const mad = median(candidates.map((c) => Math.abs(c.logRatio - center))) * 1.4826;
+    const kept = mad > 0
+      ? candidates.filter((c) => Math.abs(c.logRatio - center) <= MAD_REJECTION_THRESHOLD * mad)
+      : candidates;
+    const groupRejected = group.samples.length - kept.length;
+
+    if (kept.length < minSamples) {
+      rejected += groupRejected;
+      continue;
+    }
+
+    const meanLogRatio = kept.reduce((sum, c) => sum + c.logRatio, 0) / kept.length;
+    const factor = Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, Math.exp(meanLogRatio)));
+    const meanDeltaFt = kept.reduce(
+      (sum, c) => sum + (c.sample.reportedWaveHeightTenths - c.sample.observedWaveHeightTenths) / 10,
+      0
+    ) / kept.length;
+
+    corrections.push({
+      spotId: group.spotId,
+      periodBand: group.band,
+      factor: Math.round(factor * 1000) / 1000,
+      sampleCount: kept.length,
+      rejectedCount: groupRejected,
+      meanDeltaFt: Math.round(meanDeltaFt * 10) / 10,
+    });
+    used += kept.length;
+    rejected += groupRejected;
+  }
+
+  return { corrections, used, rejected };
+}
+
+/**
+ * Active correction table: spotId → band → factor
+ */
+let activeVersion: number | null = null;
+let activeFactors = new Map<number, Map<PeriodBand, number>>();
+
+/**
+ * Load the active calibration version into memory.
+ * Keeps the current table if the database is unavailable.
+ *
+ * @returns Active calibration version, or null if none
+ */
+export async function loadHeightCorrections(): Promise<number | null> {
+  try {
+    const { getActiveBreakingHeightCorrections } = await import("../db");
+    const active = await getActiveBreakingHeightCorrections();
+
+    const factors = new Map<number, Map<PeriodBand, number>>();
+    for (const correction of active?.corrections ?? []) {
+      if (!factors.has(correction.spotId)) factors.set(correction.spotId, new Map());
+      factors.get(correction.spotId)!.set(correction.periodBand as PeriodBand, parseFloat(correction.factor));
+    }
+
+    activeVersion = active?.calibration.id ?? null;
+    activeFactors = factors;
+    console.log(
+      activeVersion !== null
+        ? `[Height Calibration] Loaded v${activeVersion} (${active!.corrections.length} corrections)`
+        : "[Height Calibration] No active calibration"
+    );
+    return activeVersion;
+  } catch (error) {
+    console.error("[Height Calibration] Failed to load corrections, keeping current table:", error);
+    return activeVersion;
+  }
+}
+
+export interface HeightCorrection {
+  factor: number;
+  periodBand: PeriodBand;
+  version: number;
+}
+
+/**
+ * Correction for a spot at a given primary swell period, or null if that spot/band has no fitted factor
+ */
+export function getHeightCorrection(spotId: number, periodS: number | null): HeightCorrection | null {
+  if (activeVersion === null || periodS === null) return null;
+  const periodBand = getPeriodBand(periodS);
+  const factor = activeFactors.get(spotId)?.get(periodBand);
+  if (factor === undefined) return null;
+  return { factor, periodBand, version: activeVersion };
+}
@@ -8,6 +8,7 @@
 import type { SpotProfile } from './spotProfiles';
 import type { ForecastPoint } from '../../drizzle/schema';
 import { calculateBreakingWaveHeight } from './waveHeight';
+import { getOffshoreBearing, getWindTier, getWindTypeForTier, type WindTier } from './windSectors';
 
 export interface QualityBreakdown {
   swell_quality: number; // 0-60 points
@@ -247,87 +248,13 @@ export function scoreTide(tideFt: number, breakingHeightFt: number, spotName?: s
 }
 
 // ============================================================================
-// WIND DIRECTION TIER HELPER FUNCTIONS (8-Tier System)
-// Shared by all spot scoring functions and capping logic.
-// All south-facing Long Island beaches (Lido, Long Beach, Rockaway) face ~180°.
+// WIND DIRECTION TIERS (8-Tier System)
+// Each spot's wind direction is classified by getWindTier() (windSectors.ts) from its
+// shoreline-normal bearing and sector table. Degree ranges below are for the
+// south-facing beaches (Lido, Long Beach, Rockaway), where dead offshore is N.
+// Rockaway's table marks W/WNW as sheltered; Montauk's is rotated to its SSE-facing shore.
 // ============================================================================
 
-/**
- * Tier 1 — Premium Offshore (330–20°): N, NNW, NN
- * E (core)
- * Best possible wind for south-facing beaches.
- */
-function isPremiumOffshore(windDir: number): boolean {
-  const normalized = ((windDir % 360) + 360) % 360;
-  return normalized >= 330 || normalized <= 20;
-}
-
-/**
- * Tier 2 — Solid Offshore NW (310–329°, plus 21–34° NNE transition): NW + NNE fringe
- * Very good offshore, slightly off the ideal N axis.
- */
-function isSolidOffshoreNW(windDir: number): boolean {
-  const normalized = ((windDir % 360) + 360) % 360;
-  return (normalized >= 310 && normalized < 330) || (normalized >= 21 && normalized <= 34);
-}
-
-/**
- * Tier 3 — Okay Offshore NE (35–50°): NE
- * Decent offshore but notably weaker than NW, especially on small swells (<4ft).
- */
-function isOkayOffshoreNE(windDir: number): boolean {
-  const normalized = ((windDir % 360) + 360) % 360;
-  return normalized >= 35 && normalized <= 50;
-}
-
-/**
- * Any offshore direction (Tiers 1–3, 310–50°): for bonus/cap logic
- */
-function isAnyOffshore(windDir: number): boolean {
-  const normalized = ((windDir % 360) + 360) % 360;
-  return normalized >= 310 || normalized <= 50;
-}
-
-/**
- * Tier 4 — Solid Side-Offshore WNW (290–309°): WNW
- * Best non-offshore wind for Rockaway; acceptable for Lido/Long Beach at low speeds.
- */
-function isSolidSideOffshoreWNW(windDir: number): boolean {
-  const normalized = ((windDir % 360) + 360) % 360;
-  return normalized >= 290 && normalized < 310;
-}
-
-/**
- * Tier 5 — BAD Side-Offshore ENE (51–70°): ENE
- * Poor for all south-facing beaches — angle creates chop with no cleanup benefit.
- */
-function isBadSideOffshoreENE(windDir: number): boolean {
-  const normalized = ((windDir % 360) + 360) % 360;
-  return normalized > 50 && normalized <= 70;
-}
-
-/**
- * Tier 6 — Not-great Side-Shore E (71–110°): E
- * Cross-shore from the east; adds chop, no offshore component.
- */
-function isNotGreatSideShoreE(windDir: number): boolean {
-  const normalized = ((windDir % 360) + 360) % 360;
-  return normalized > 70 && normalized <= 110;
-}
-
-/**
- * Tier 7 — Better Side-Shore W (260–289°): W
- * Cross-shore from the west; less problematic than E, best side-shore for Rockaway.
- */
-function isBetterSideShoreW(windDir: number): boolean {
-  const normalized = ((windDir % 360) + 360) % 360;
-  return normalized >= 260 && normalized < 290;
-}
-
-// Tier 8 — Onshore ALL BAD (111–259°): ESE through WSW
-// No helper needed — it's the else/fallthrough case in scoring functions.
-// Range expanded from old 135–225° to include ESE (110°) and WSW (225–259°).
-
 /**
  * Lido Beach-specific wind scoring — 8-Tier System
  *
@@ -356,18 +283,16 @@ function isBetterSideShoreW(windDir: number): boolean {
  * @param breakingHeightFt - Breaking wave height in feet (for NE wave-size logic)
  * @returns Score from -60 to +20
  */
-function getWindQualityForLido(windSpeedKt: number, windDirectionDeg: number, breakingHeightFt: number = 0): number {
-  const normalized = ((windDirectionDeg % 360) + 360) % 360;
-
+function getWindQualityForLido(windSpeedKt: number, windDirectionDeg: number, tier: WindTier, breakingHeightFt: number = 0): number {
   console.log('🔍 [getWindQualityForLido] Lido wind scoring:', {
     windSpeedKt: windSpeedKt.toFixed(1),
     windDirectionDeg,
-    normalized: normalized.toFixed(1),
+    tier,
     breakingHeightFt: breakingHeightFt.toFixed(2),
   });
 
   // TIER 1 — Premium Offshore (330–34°): N, NNE, NNW
-  if (isPremiumOffshore(normalized)) {
+  if (tier === 'premium_offshore') {
     let score: number;
     if (windSpeedKt <= 12) score = 20;
     else if (windSpeedKt <= 18) score = 15;
@@ -378,7 +303,7 @@ function getWindQualityForLido(windSpeedKt: number, windDirectionDeg: number, br
   }
 
   // TIER 2 — Solid Offshore NW (310–329°): NW
-  if (isSolidOffshoreNW(normalized)) {
+  if (tier === 'solid_offshore') {
     let score: number;
     if (windSpeedKt <= 12) score = 18;
     else if (windSpeedKt <= 18) score = 12;
@@ -388,7 +313,7 @@ function getWindQualityForLido(windSpeedKt: number, windDirectionDeg: number, br
   }
 
   // TIER 3 — Okay Offshore NE (35–50°): wave-size dependent
-  if (isOkayOffshoreNE(normalized)) {
+  if (tier === 'okay_offshore') {
     const isBigWave = breakingHeightFt >= 4.0;
     let score: number;
     if (isBigWave) {
@@ -405,7 +330,7 @@ function getWindQualityForLido(windSpeedKt: number, windDirectionDeg: number, br
   }
 
   // TIER 4 — Solid Side-Offshore WNW (290–309°)
-  if (isSolidSideOffshoreWNW(normalized)) {
+  if (tier === 'solid_side_offshore' || tier === 'sheltered_side_offshore') {
     let score: number;
     if (windSpeedKt <= 10) score = 5;
     else if (windSpeedKt < 15) score = 0;
@@ -416,7 +341,7 @@ function getWindQualityForLido(windSpeedKt: number, windDirectionDeg: number, br
   }
 
   // TIER 5 — BAD Side-Offshore ENE (51–70°)
-  if (isBadSideOffshoreENE(normalized)) {
+  if (tier === 'bad_side_offshore') {
     let score: number;
     if (windSpeedKt <= 10) score = -5;
     else if (windSpeedKt < 15) score = -20;
@@ -427,7 +352,7 @@ function getWindQualityForLido(windSpeedKt: number, windDirectionDeg: number, br
   }
 
   // TIER 6 — Not-great Side-Shore E (71–110°)
-  if (isNotGreatSideShoreE(normalized)) {
+  if (tier === 'poor_side_shore') {
     let score: number;
     if (windSpeedKt <= 10) score = -12;
     else if (windSpeedKt <= 18) score = -25;
@@ -437,7 +362,7 @@ function getWindQualityForLido(windSpeedKt: number, windDirectionDeg: number, br
   }
 
   // TIER 7 — Better Side-Shore W (260–289°)
-  if (isBetterSideShoreW(normalized)) {
+  if (tier === 'better_side_shore' || tier === 'sheltered_side_shore') {
     let score: number;
     if (windSpeedKt <= 10) score = -8;
     else if (windSpeedKt < 15) score = -20;
@@ -472,13 +397,15 @@ function getWindQualityForLido(windSpeedKt: number, windDirectionDeg: number, br
  * @param windDirectionDeg - Wind direction in degrees (0-360)
  * @param windSpeedKt - Wind speed in knots
  * @param periodS - Swell period in seconds
+ * @param profile - Spot profile (shoreline orientation + wind sectors)
  * @returns Bonus points (0 to +15)
  */
 function getOffshoreSmallWaveBonus(
   breakingHeightFt: number,
   windDirectionDeg: number | null,
   windSpeedKt: number | null,
-  periodS: number
+  periodS: number,
+  profile: SpotProfile
 ): number {
   // Only applies when breaking height < 2.5ft
   if (breakingHeightFt >= 2.5) {
@@ -495,28 +422,28 @@ function getOffshoreSmallWaveBonus(
     return 0;
   }
 
-  const normalized = ((windDirectionDeg % 360) + 360) % 360;
+  const tier = getWindTier(windDirectionDeg, profile);
 
   // Premium offshore (330-30°) + period ≥ 8s: +15 points
-  if (isPremiumOffshore(normalized)) {
+  if (tier === 'premium_offshore') {
     console.log('🔍 [getOffshoreSmallWaveBonus] Premium offshore small wave bonus: +15');
     return 15;
   }
 
   // Solid Offshore NW (310–329°) + period ≥ 8s: +10 points
-  if (isSolidOffshoreNW(normalized)) {
+  if (tier === 'solid_offshore') {
     console.log('🔍 [getOffshoreSmallWaveBonus] Solid Offshore NW small wave bonus: +10');
     return 10;
   }
 
   // Okay Offshore NE (35–50°) + period ≥ 8s: +5 points (NE less effective on small days)
-  if (isOkayOffshoreNE(normalized)) {
+  if (tier === 'okay_offshore') {
     console.log('🔍 [getOffshoreSmallWaveBonus] Okay Offshore NE small wave bonus: +5');
     return 5;
   }
 
   // Solid Side-Offshore WNW (290–309°) + period ≥ 8s: +3 points
-  if (isSolidSideOffshoreWNW(normalized)) {
+  if (tier === 'solid_side_offshore' || tier === 'sheltered_side_offshore') {
     console.log('🔍 [getOffshoreSmallWaveBonus] Solid Side-Offshore WNW small wave bonus: +3');
     return 3;
   }
@@ -525,25 +452,26 @@ function getOffshoreSmallWaveBonus(
 }
 
 /**
- * Score wind quality for Long Island south shore beaches (Long Beach, Rockaway)
+ * Score wind quality for a spot
  *
- * Uses the 8-tier wind direction system. Lido Beach is handled by getWindQualityForLido().
+ * Uses the 8-tier wind direction system, with the tier taken from the spot's wind
+ * sector table. Lido Beach is handled by getWindQualityForLido().
  *
  * TIER 1 — Premium Offshore (330–34°): +20 | +15 | +10
  * TIER 2 — Solid Offshore NW (310–329°): +18 | +12 | +8
  * TIER 3 — Okay Offshore NE (35–50°): wave-size dependent
  *   ≥4ft: +8 | +4 | 0    <4ft: +3 | 0 | -5
  * TIER 4 — Solid Side-Offshore WNW (290–309°):
- *   Rockaway: +12 | +6 | -8 | -20    General: +5 | 0 | -15 | -30
+ *   Sheltered (Rockaway): +12 | +6 | -8 | -20    General: +5 | 0 | -15 | -30
  * TIER 5 — BAD Side-Offshore ENE (51–70°): -5 | -20 | -40 | -55
  * TIER 6 — Not-great Side-Shore E (71–110°): -12 | -25 | -45
  * TIER 7 — Better Side-Shore W (260–289°):
- *   Rockaway: -3 | -12 | -30    General: -8 | -20 | -40
+ *   Sheltered (Rockaway): -3 | -12 | -30    General: -8 | -20 | -40
  * TIER 8 — Onshore ALL BAD (111–259°): -10 | -45 | -60
  *
  * @param windSpeedKt - Wind speed in knots or null
  * @param windDirectionDeg - Wind direction in degrees (0-360) or null
- * @param profile - Spot profile (used for Rockaway-specific logic)
+ * @param profile - Spot profile (shoreline orientation + wind sectors)
  * @param breakingHeightFt - Breaking wave height in feet (for NE wave-size scoring)
  * @returns Score from -60 to +20
  */
@@ -558,37 +486,36 @@ export function scoreWind(
     return 0;
   }
 
+  const tier = getWindTier(windDirectionDeg, profile);
+
   // Use Lido-specific wind scoring for Lido Beach
   if (profile.name === "Lido Beach") {
-    return getWindQualityForLido(windSpeedKt, windDirectionDeg, breakingHeightFt);
+    return getWindQualityForLido(windSpeedKt, windDirectionDeg, tier, breakingHeightFt);
   }
 
-  const isRockaway = profile.name === "Rockaway Beach";
-  const normalized = ((windDirectionDeg % 360) + 360) % 360;
-
   console.log('🔍 [scoreWind] Wind calculation:', {
     windSpeedKt: windSpeedKt.toFixed(1),
     windDirectionDeg,
-    normalized: normalized.toFixed(1),
+    tier,
     spot: profile.name,
   });
 
   // TIER 1 — Premium Offshore (330–34°): N, NNE, NNW
-  if (isPremiumOffshore(normalized)) {
+  if (tier === 'premium_offshore') {
     if (windSpeedKt <= 12) return 20;
     if (windSpeedKt <= 18) return 15;
     return 10;
   }
 
   // TIER 2 — Solid Offshore NW (310–329°): NW
-  if (isSolidOffshoreNW(normalized)) {
+  if (tier === 'solid_offshore') {
     if (windSpeedKt <= 12) return 18;
     if (windSpeedKt <= 18) return 12;
     return 8;
   }
 
   // TIER 3 — Okay Offshore NE (35–50°): wave-size dependent
-  if (isOkayOffshoreNE(normalized)) {
+  if (tier === 'okay_offshore') {
     const isBigWave = breakingHeightFt >= 4.0;
     if (isBigWave) {
       if (windSpeedKt <= 12) return 8;
@@ -601,23 +528,24 @@ export function scoreWind(
     }
   }
 
-  // TIER 4 — Solid Side-Offshore WNW (290–309°): Rockaway handles WNW much better
-  if (isSolidSideOffshoreWNW(normalized)) {
-    if (isRockaway) {
-      if (windSpeedKt <= 10) return 12;
-      if (windSpeedKt < 15) return 6;
-      if (windSpeedKt < 20) return -8;
-      return -20;
-    } else {
-      if (windSpeedKt <= 10) return 5;
-      if (windSpeedKt < 15) return 0;
-      if (windSpeedKt < 20) return -15;
-      return -30;
-    }
+  // TIER 4 — Sheltered Side-Offshore WNW (290–309°): Rockaway's jetties handle WNW much better
+  if (tier === 'sheltered_side_offshore') {
+    if (windSpeedKt <= 10) return 12;
+    if (windSpeedKt < 15) return 6;
+    if (windSpeedKt < 20) return -8;
+    return -20;
+  }
+
+  // TIER 4 — Solid Side-Offshore WNW (290–309°)
+  if (tier === 'solid_side_offshore') {
+    if (windSpeedKt <= 10) return 5;
+    if (windSpeedKt < 15) return 0;
+    if (windSpeedKt < 20) return -15;
+    return -30;
   }
 
   // TIER 5 — BAD Side-Offshore ENE (51–70°): poor for all spots
-  if (isBadSideOffshoreENE(normalized)) {
+  if (tier === 'bad_side_offshore') {
     if (windSpeedKt <= 10) return -5;
     if (windSpeedKt < 15) return -20;
     if (windSpeedKt < 20) return -40;
@@ -625,23 +553,24 @@ export function scoreWind(
   }
 
   // TIER 6 — Not-great Side-Shore E (71–110°)
-  if (isNotGreatSideShoreE(normalized)) {
+  if (tier === 'poor_side_shore') {
     if (windSpeedKt <= 10) return -12;
     if (windSpeedKt <= 18) return -25;
     return -45;
   }
 
-  // TIER 7 — Better Side-Shore W (260–289°): Rockaway handles W better
-  if (isBetterSideShoreW(normalized)) {
-    if (isRockaway) {
-      if (windSpeedKt <= 10) return -3;
-      if (windSpeedKt < 15) return -12;
-      return -30;
-    } else {
-      if (windSpeedKt <= 10) return -8;
-      if (windSpeedKt < 15) return -20;
-      return -40;
-    }
+  // TIER 7 — Sheltered Side-Shore W (260–289°): Rockaway's jetties handle W better
+  if (tier === 'sheltered_side_shore') {
+    if (windSpeedKt <= 10) return -3;
+    if (windSpeedKt < 15) return -12;
+    return -30;
+  }
+
+  // TIER 7 — Better Side-Shore W (260–289°)
+  if (tier === 'better_side_shore') {
+    if (windSpeedKt <= 10) return -8;
+    if (windSpeedKt < 15) return -20;
+    return -40;
   }
 
   // TIER 8 — Onshore ALL BAD (111–259°): ESE through WSW
@@ -665,12 +594,14 @@ export function scoreWind(
  * @param windSpeedKts - Sustained wind speed in knots
  * @param windGustsKts - Wind gust speed in knots
  * @param windDirectionDeg - Wind direction in degrees
+ * @param profile - Spot profile (shoreline orientation + wind sectors); defaults to a south-facing beach
  * @returns Penalty from 0 to -20
  */
 export function scoreWindGusts(
   windSpeedKts: number | null,
   windGustsKts: number | null,
-  windDirectionDeg: number | null
+  windDirectionDeg: number | null,
+  profile?: SpotProfile | null
 ): number {
   // No penalty if data is missing
   if (windSpeedKts === null || windGustsKts === null || windDirectionDeg === null) {
@@ -685,17 +616,14 @@ export function scoreWindGusts(
     return 0;
   }
 
-  // Check if wind is offshore (315-45°) - offshore gusts can help clean up conditions
-  const normalized = ((windDirectionDeg % 360) + 360) % 360;
-  const isOffshore = normalized >= 315 || normalized <= 45;
-
-  // Offshore gusts are less problematic
-  if (isOffshore) {
+  // Offshore gusts can help clean up conditions
+  const windType = getWindTypeForTier(getWindTier(windDirectionDeg, profile));
+  if (windType === 'offshore') {
     return 0;
   }
 
-  // Check if onshore (135-225°) vs cross-shore
-  const isOnshore = normalized >= 135 && normalized <= 225;
+  // Onshore vs cross-shore / side-offshore
+  const isOnshore = windType === 'onshore';
 
   // Calculate penalty based on gust strength
   // Onshore gusts get harsher penalties than cross-shore
@@ -885,7 +813,8 @@ export function calculateQualityScoreWithProfile(
   const gustPenalty = scoreWindGusts(
     forecastPoint.windSpeedKts ?? null,
     forecastPoint.windGustsKts ?? null,
-    forecastPoint.windDirectionDeg ?? null
+    forecastPoint.windDirectionDeg ?? null,
+    profile
   );
 
   // Calculate raw score (sum of components)
@@ -899,7 +828,8 @@ export function calculateQualityScoreWithProfile(
       breakingHeightFt,
       forecastPoint.windDirectionDeg ?? null,
       forecastPoint.windSpeedKts ?? null,
-      periodS
+      periodS,
+      profile
     );
     if (offshoreBonus > 0) {
       rawScore += offshoreBonus;
@@ -1010,25 +940,26 @@ export function calculateQualityScoreWithProfile(
 
     if (windDir !== null && breakingHeightFt >= 1.0 && periodS >= 6) {
       // Check wind tier and apply appropriate small-wave cap
-      if (isPremiumOffshore(windDir)) {
+      const windTier = getWindTier(windDir, profile);
+      if (windTier === 'premium_offshore') {
         // Tier 1 Premium Offshore (330–34°): cap at 60
         rawScore = Math.min(rawScore, 60);
         if (beforeClamp !== rawScore) {
           console.log('🔍 [Quality Score Debug] Premium offshore small wave clamp:', beforeClamp, '→', rawScore);
         }
-      } else if (isSolidOffshoreNW(windDir)) {
+      } else if (windTier === 'solid_offshore') {
         // Tier 2 Solid Offshore NW (310–329°): cap at 55
         rawScore = Math.min(rawScore, 55);
         if (beforeClamp !== rawScore) {
           console.log('🔍 [Quality Score Debug] Solid Offshore NW small wave clamp:', beforeClamp, '→', rawScore);
         }
-      } else if (isOkayOffshoreNE(windDir)) {
+      } else if (windTier === 'okay_offshore') {
         // Tier 3 Okay Offshore NE (35–50°): cap at 45 (NE less useful on small days)
         rawScore = Math.min(rawScore, 45);
         if (beforeClamp !== rawScore) {
           console.log('🔍 [Quality Score Debug] Okay Offshore NE small wave clamp:', beforeClamp, '→', rawScore);
         }
-      } else if (isSolidSideOffshoreWNW(windDir)) {
+      } else if (windTier === 'solid_side_offshore' || windTier === 'sheltered_side_offshore') {
         // Tier 4 Solid Side-Offshore WNW (290–309°): cap at 42
         rawScore = Math.min(rawScore, 42);
         if (beforeClamp !== rawScore) {
@@ -1086,9 +1017,9 @@ export function calculateQualityScoreWithProfile(
   const windDir = forecastPoint.windDirectionDeg;
   const windSpeed = forecastPoint.windSpeedKts;
   if (windDir !== null && windSpeed !== null) {
-    const normalizedWindDir = ((windDir % 360) + 360) % 360;
-    // Onshore ALL BAD range now spans 110–259° (ESE through WSW)
-    const isOnshoreWind = normalizedWindDir >= 110 && normalizedWindDir <= 259;
+    const windTier = getWindTier(windDir, profile);
+    // Onshore ALL BAD sector (ESE through WSW on the south-facing beaches)
+    const isOnshoreWind = windTier === 'onshore';
 
     // Light onshore cap: 5-7mph (~4.3-6kts) winds cap at 50
     if (isOnshoreWind && windSpeed >= 4.3 && windSpeed <= 6) {
@@ -1108,10 +1039,9 @@ export function calculateQualityScoreWithProfile(
       }
     }
 
-    // Hard rating caps based on wind speed and direction off optimal (N = 0°)
-    // Calculate angular distance from optimal (N = 0°)
-    const optimalDir = 0; // North is optimal for south-facing beaches
-    const angleOffOptimal = calculateAngularDistance(normalizedWindDir, optimalDir);
+    // Hard rating caps based on wind speed and direction off optimal (dead offshore)
+    const optimalDir = getOffshoreBearing(profile); // N for the south-facing beaches
+    const angleOffOptimal = calculateAngularDistance(((windDir % 360) + 360) % 360, optimalDir);
 
     // Cap 1: If wind >15kts AND direction >45° off optimal → cap at 60 ("Worth a Look")
     if (windSpeed > 15 && angleOffOptimal > 45) {
@@ -1124,7 +1054,8 @@ export function calculateQualityScoreWithProfile(
 
     // Cap 2: If wind >20kts AND direction >30° off optimal → cap at 39 ("Don't Bother")
     // Guard: skip for beneficial offshore/side-offshore directions (Tiers 1–4: NW, WNW, N, NE)
-    const isBeneficialWindDir = isAnyOffshore(normalizedWindDir) || isSolidSideOffshoreWNW(normalizedWindDir);
+    const beneficialWindType = getWindTypeForTier(windTier);
+    const isBeneficialWindDir = beneficialWindType === 'offshore' || beneficialWindType === 'side-offshore';
     if (windSpeed > 20 && angleOffOptimal > 30 && !isBeneficialWindDir) {
       const beforeClamp = rawScore;
       rawScore = Math.min(rawScore, 39);
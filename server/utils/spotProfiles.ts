@@ -1,28 +1,81 @@
 /**
  * Spot Profiles for Day 1 MVP Forecasting System
- * 
+ *
  * Defines the characteristics of each surf spot used in wave height
  * and quality rating calculations.
+ *
+ * Profiles live in the spot_profiles table (joined with surf_spots for
+ * coordinates and stations). loadSpotProfiles() pulls them into an in-memory
+ * registry at startup and after admin edits, so the lookups below stay
+ * synchronous. DEFAULT_SPOT_PROFILES seeds the registry until the first load
+ * succeeds (or when the database is unavailable).
  */
 
+import type { SpotProfileWithSpot } from "../db";
+import type { WindSector } from "./windSectors";
+
 export interface SpotProfile {
   name: string;
   swell_target_deg: number; // Ideal swell direction in degrees
   swell_tolerance_deg: number; // Acceptable deviation from target (degrees)
   min_period_s: number; // Minimum usable period (seconds)
   multiplier: number; // Fixed wave height multiplier for this spot
+  // Multiplier tiers (calculateSpotMultiplier)
+  base_multiplier: number; // Bathymetry multiplier for swells that escape small-swell damping
+  groundswell_bonus: number; // Added to base_multiplier for long-period swell
+  groundswell_min_period_s: number; // Bonus applies when period exceeds this
+  small_swell_multiplier: number; // Damping for small (<2ft) wind swell
+  // Tide rules (getTideMultiplier)
+  rising_tide_boost: boolean; // 1.2x on a rising 1-2.1ft tide
+  high_tide_multiplier: number; // Applied above 3.2ft
+  buoy_tide_adjustment: boolean; // Apply tide multiplier to buoy-derived breaking heights
+  // Wind + stations
+  shoreline_normal_deg: number; // Direction the beach faces (seaward); dead offshore is this + 180°
+  wind_sectors?: WindSector[]; // Offshore/cross/onshore sectors relative to dead offshore (default: DEFAULT_WIND_SECTORS)
+  buoy_id?: string;
+  tide_station_id?: string;
+  lat?: number;
+  lon?: number;
 }
 
 /**
- * Spot profile configurations for Lido Beach, Long Beach, and Rockaway Beach
+ * Rockaway: default table with W and WNW marked sheltered (scored better than the other beaches)
  */
-export const SPOT_PROFILES: Record<string, SpotProfile> = {
+export const ROCKAWAY_WIND_SECTORS: WindSector[] = [
+  { tier: "solid_offshore", startDeg: 21 },
+  { tier: "okay_offshore", startDeg: 35 },
+  { tier: "bad_side_offshore", startDeg: 51 },
+  { tier: "poor_side_shore", startDeg: 71 },
+  { tier: "onshore", startDeg: 111 },
+  { tier: "sheltered_side_shore", startDeg: 260 },
+  { tier: "sheltered_side_offshore", startDeg: 290 },
+  { tier: "solid_offshore", startDeg: 310 },
+  { tier: "premium_offshore", startDeg: 330 },
+];
+
+/**
+ * Built-in profiles for Lido Beach, Long Beach, Rockaway Beach and Montauk.
+ * Mirrors the rows seeded by drizzle/0023_spot_profiles.sql.
+ */
+export const DEFAULT_SPOT_PROFILES: Record<string, SpotProfile> = {
   'lido': {
     name: 'Lido Beach',
     swell_target_deg: 145, // Center of ideal range (110-180°)
     swell_tolerance_deg: 35, // Covers 110° (ESE) to 180° (S) without penalty
     min_period_s: 6,
     multiplier: 1.5, // Fixed wave height multiplier
+    base_multiplier: 1.1, // Hudson Canyon refraction + inlet shoaling
+    groundswell_bonus: 0.1,
+    groundswell_min_period_s: 10,
+    small_swell_multiplier: 0.8,
+    rising_tide_boost: true,
+    high_tide_multiplier: 0.9, // 10% reduction
+    buoy_tide_adjustment: true,
+    shoreline_normal_deg: 180,
+    buoy_id: '44065',
+    tide_station_id: '8518750',
+    lat: 40.5892,
+    lon: -73.6265,
   },
   'long-beach': {
     name: 'Long Beach',
@@ -30,6 +83,18 @@ export const SPOT_PROFILES: Record<string, SpotProfile> = {
     swell_tolerance_deg: 45, // Covers 100° (ESE) to 180° (S)
     min_period_s: 5,
     multiplier: 1.3, // Fixed wave height multiplier
+    base_multiplier: 1.05, // Jetty-driven sandbars
+    groundswell_bonus: 0.1,
+    groundswell_min_period_s: 10,
+    small_swell_multiplier: 0.8,
+    rising_tide_boost: true,
+    high_tide_multiplier: 0.8, // 20% reduction
+    buoy_tide_adjustment: true,
+    shoreline_normal_deg: 180,
+    buoy_id: '44065',
+    tide_station_id: '8518750',
+    lat: 40.5880,
+    lon: -73.6580,
   },
   'rockaway': {
     name: 'Rockaway Beach',
@@ -37,6 +102,20 @@ export const SPOT_PROFILES: Record<string, SpotProfile> = {
     swell_tolerance_deg: 35, // Covers 110° (ESE) to 180° (S) without penalty
     min_period_s: 5,
     multiplier: 1.1, // Fixed wave height multiplier
+    base_multiplier: 1.1, // Deep in NY Bight shadow
+    groundswell_bonus: 0.1,
+    groundswell_min_period_s: 10,
+    small_swell_multiplier: 0.8,
+    rising_tide_boost: true,
+    high_tide_multiplier: 1.0, // No high-tide penalty
+    buoy_tide_adjustment: false, // Bathymetry handles high tide better
+    shoreline_normal_deg: 180,
+    // Jetties every few blocks break up west winds blowing along the beach
+    wind_sectors: ROCKAWAY_WIND_SECTORS,
+    buoy_id: '44065',
+    tide_station_id: '8518750',
+    lat: 40.5830,
+    lon: -73.8160,
   },
   'montauk': {
     name: 'Montauk',
@@ -45,61 +124,156 @@ export const SPOT_PROFILES: Record<string, SpotProfile> = {
     swell_tolerance_deg: 55, // Covers 80° (ENE) to 190° (SSW)
     min_period_s: 6,
     multiplier: 1.2, // Exposed headland; open-ocean fetch, good refraction
+    base_multiplier: 1.15, // Full open-ocean fetch
+    groundswell_bonus: 0.1,
+    groundswell_min_period_s: 10,
+    small_swell_multiplier: 0.8,
+    rising_tide_boost: false,
+    high_tide_multiplier: 1.0,
+    buoy_tide_adjustment: false,
+    shoreline_normal_deg: 160, // Ditch Plains faces SSE, so NNW is dead offshore
+    buoy_id: '44017',
+    tide_station_id: '8510560',
+    lat: 41.0359,
+    lon: -71.9545,
   },
 };
 
 /**
- * Maps database spot names to profile keys
+ * Registry of active profiles keyed by profile key, plus the name → key index
  */
-const SPOT_NAME_TO_KEY: Record<string, string> = {
-  'Lido Beach': 'lido',
-  'Long Beach': 'long-beach',
-  'Rockaway Beach': 'rockaway',
-  'Montauk': 'montauk',
-};
+let profilesByKey: Record<string, SpotProfile> = { ...DEFAULT_SPOT_PROFILES };
+let nameToKey: Record<string, string> = buildNameIndex(profilesByKey);
+
+function buildNameIndex(profiles: Record<string, SpotProfile>): Record<string, string> {
+  const index: Record<string, string> = {};
+  for (const [key, profile] of Object.entries(profiles)) {
+    index[profile.name] = key;
+  }
+  return index;
+}
+
+/**
+ * Parse the spot_profiles.windSectors JSON column (undefined = default table)
+ */
+function parseWindSectors(json: string | null): WindSector[] | undefined {
+  if (!json) return undefined;
+  try {
+    const sectors = JSON.parse(json) as WindSector[];
+    return Array.isArray(sectors) && sectors.length > 0 ? sectors : undefined;
+  } catch {
+    console.warn("[Spot Profiles] Ignoring invalid windSectors JSON:", json);
+    return undefined;
+  }
+}
+
+/**
+ * Convert a spot_profiles row (joined with surf_spots) into a SpotProfile
+ */
+export function rowToSpotProfile(row: SpotProfileWithSpot): SpotProfile {
+  return {
+    name: row.spotName,
+    swell_target_deg: row.swellTargetDeg,
+    swell_tolerance_deg: row.swellToleranceDeg,
+    min_period_s: row.minPeriodS,
+    multiplier: parseFloat(row.multiplier),
+    base_multiplier: parseFloat(row.baseMultiplier),
+    groundswell_bonus: parseFloat(row.groundswellBonus),
+    groundswell_min_period_s: row.groundswellMinPeriodS,
+    small_swell_multiplier: parseFloat(row.smallSwellMultiplier),
+    rising_tide_boost: row.risingTideBoost === 1,
+    high_tide_multiplier: parseFloat(row.highTideMultiplier),
+    buoy_tide_adjustment: row.buoyTideAdjustment === 1,
+    shoreline_normal_deg: row.shorelineNormalDeg,
+    wind_sectors: parseWindSectors(row.windSectors),
+    buoy_id: row.buoyId,
+    tide_station_id: row.tideStationId,
+    lat: parseFloat(row.latitude),
+    lon: parseFloat(row.longitude),
+  };
+}
+
+/**
+ * Load spot profiles from the database into the registry.
+ * Keeps the current registry if the database is unavailable or has no profiles yet.
+ *
+ * @returns Number of profiles loaded from the database
+ */
+export async function loadSpotProfiles(): Promise<number> {
+  try {
+    const { getAllSpotProfiles } = await import("../db");
+    const rows = await getAllSpotProfiles();
+    if (rows.length === 0) {
+      console.log("[Spot Profiles] No profiles in database, using built-in defaults");
+      return 0;
+    }
+
+    const loaded: Record<string, SpotProfile> = {};
+    for (const row of rows) {
+      loaded[row.profileKey] = rowToSpotProfile(row);
+    }
+
+    profilesByKey = loaded;
+    nameToKey = buildNameIndex(loaded);
+    console.log(`[Spot Profiles] Loaded ${rows.length} profile(s): ${Object.keys(loaded).join(", ")}`);
+    return rows.length;
+  } catch (error) {
+    console.error("[Spot Profiles] Failed to load profiles, keeping current registry:", error);
+    return 0;
+  }
+}
+
+/**
+ * Get all active spot profiles keyed by profile key
+ */
+export function getAllSpotProfiles(): Record<string, SpotProfile> {
+  return profilesByKey;
+}
 
 /**
  * Get spot profile by spot name or key
- * 
+ *
  * @param spotIdentifier - Spot name from database (e.g., "Lido Beach") or profile key (e.g., "lido")
  * @returns SpotProfile or undefined if not found
  */
 export function getSpotProfile(spotIdentifier: string): SpotProfile | undefined {
   // Try direct key lookup first
-  if (SPOT_PROFILES[spotIdentifier]) {
-    return SPOT_PROFILES[spotIdentifier];
+  if (profilesByKey[spotIdentifier]) {
+    return profilesByKey[spotIdentifier];
   }
-  
+
   // Try name-to-key mapping
-  const key = SPOT_NAME_TO_KEY[spotIdentifier];
-  if (key && SPOT_PROFILES[key]) {
-    return SPOT_PROFILES[key];
+  const key = nameToKey[spotIdentifier];
+  if (key && profilesByKey[key]) {
+    return profilesByKey[key];
   }
-  
+
   return undefined;
 }
 
 /**
  * Get spot profile key from spot name
- * 
+ *
  * @param spotName - Spot name from database
  * @returns Profile key (e.g., "lido") or undefined
  */
 export function getSpotKey(spotName: string): string | undefined {
-  return SPOT_NAME_TO_KEY[spotName];
+  return nameToKey[spotName];
 }
 
 /**
  * Calculate physically accurate spot multiplier based on swell height and period
- * 
+ *
  * Implements period-based tier system and global small swell damping ("Lake Atlantic" rule).
- * 
+ *
  * ENHANCEMENT: Long-period groundswells (>10s) receive an additional +0.1 multiplier
  * because they produce disproportionately larger breaking waves due to:
  * - More energy per wave
  * - Better refraction into the breaks
  * - Hudson Canyon effect amplification for Lido
- * 
+ *
+ * Tier values (base, groundswell bonus, small swell damping) come from the spot profile.
+ *
  * @param spotKey - Spot identifier key ("lido", "long-beach", "rockaway")
  * @param swellHeightFt - Offshore swell height in feet
  * @param periodS - Swell period in seconds
@@ -110,59 +284,33 @@ export function calculateSpotMultiplier(
   swellHeightFt: number,
   periodS: number
 ): number {
+  const profile = getSpotProfile(spotKey);
+  if (!profile) {
+    // Fallback to neutral multiplier for unknown spots
+    console.warn(`[calculateSpotMultiplier] Unknown spot key: ${spotKey}, using 1.0`);
+  }
+
   // Global Small Swell Damping (The "Lake Atlantic" Rule)
   // IMPORTANT: Only apply to wind swell (period < 10s), NOT groundswell!
   // Small wind swells lose energy to friction and cannot use canyon mechanics
   // But small groundswells (period ≥ 10s) maintain energy and refract properly
   if (swellHeightFt < 2.0 && periodS < 10) {
-    return 0.8;  // Wind swell damping only
+    return profile?.small_swell_multiplier ?? 0.8;  // Wind swell damping only
   }
 
   // Groundswell bonus: +0.1 for periods > 10s
   // Long-period groundswells produce disproportionately larger breaking waves
-  const groundswellBonus = periodS > 10 ? 0.1 : 0;
-
-  // Spot-specific period-based tiers
-  let baseMultiplier: number;
-  
-  switch (spotKey) {
-    case 'lido':
-    case 'LIDO_BEACH':
-      // Lido Beach: Hudson Canyon refraction + inlet shoaling
-      baseMultiplier = 1.1;
-      break;
-
-    case 'long-beach':
-    case 'LONG_BEACH':
-      // Long Beach: Jetty-driven sandbars
-      baseMultiplier = 1.05;
-      break;
-
-    case 'rockaway':
-    case 'ROCKAWAY':
-      // Rockaway Beach: Deep in NY Bight shadow
-      baseMultiplier = 1.1;
-      break;
-
-    case 'montauk':
-    case 'MONTAUK':
-      // Montauk: Exposed headland, full open-ocean fetch
-      baseMultiplier = 1.15;
-      break;
-
-    default:
-      // Fallback to neutral multiplier for unknown spots
-      console.warn(`[calculateSpotMultiplier] Unknown spot key: ${spotKey}, using 1.0`);
-      baseMultiplier = 1.0;
-  }
+  const bonusMinPeriod = profile?.groundswell_min_period_s ?? 10;
+  const groundswellBonus = periodS > bonusMinPeriod ? (profile?.groundswell_bonus ?? 0.1) : 0;
+
+  // Spot-specific base multiplier (bathymetry)
+  const baseMultiplier = profile?.base_multiplier ?? 1.0;
 
   const finalMultiplier = baseMultiplier + groundswellBonus;
-  
+
   if (groundswellBonus > 0) {
-    console.log(`🌊 [Groundswell Bonus] Period ${periodS}s > 10s: ${baseMultiplier} + ${groundswellBonus} = ${finalMultiplier}`);
+    console.log(`🌊 [Groundswell Bonus] Period ${periodS}s > ${bonusMinPeriod}s: ${baseMultiplier} + ${groundswellBonus} = ${finalMultiplier}`);
   }
 
   return finalMultiplier;
 }
-
-
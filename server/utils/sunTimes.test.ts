@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { calculateFirstLight, calculateLastLight, calculateSunrise, calculateSunset, isDaylightHours } from "./sunTimes";
+
+describe("calculateSunTime solar day", () => {
+  it("keeps NYC's summer evening on the same local day after 00:00 UTC", () => {
+    // June in NYC: civil dusk is ~8:53pm EDT, i.e. 00:53 UTC the next day
+    expect(calculateLastLight(40.588, -73.658, new Date("2026-06-03T14:00:00Z"))).toEqual(new Date("2026-06-04T00:53:00Z"));
+    // 8:30pm EDT is still June 3 locally, so its first light is that morning's
+    expect(calculateFirstLight(40.588, -73.658, new Date("2026-06-04T00:30:00Z"))).toEqual(new Date("2026-06-03T08:53:00Z"));
+    // 1:30am EDT is past solar midnight: the coming morning
+    expect(calculateFirstLight(40.588, -73.658, new Date("2026-06-04T05:30:00Z"))).toEqual(new Date("2026-06-04T08:52:00Z"));
+    expect(calculateSunrise(40.588, -73.658, new Date("2026-06-03T14:00:00Z"))).toEqual(new Date("2026-06-03T09:25:00Z"));
+  });
+
+  it("handles longitudes far from Greenwich on both sides", () => {
+    // Santa Monica: civil dusk 8:30pm PDT
+    expect(calculateLastLight(33.99, -118.48, new Date("2026-06-03T20:00:00Z"))).toEqual(new Date("2026-06-04T03:30:00Z"));
+    // Sydney: 6:52am / 4:54pm AEST, so sunrise is on the previous UTC date
+    expect(calculateSunrise(-33.87, 151.21, new Date("2026-06-03T01:00:00Z"))).toEqual(new Date("2026-06-02T20:52:00Z"));
+    expect(calculateSunset(-33.87, 151.21, new Date("2026-06-03T01:00:00Z"))).toEqual(new Date("2026-06-03T06:54:00Z"));
+  });
+
+  it("doesn't depend on the server timezone at the turn of the year", () => {
+    expect(calculateLastLight(40.588, -73.658, new Date("2026-12-31T23:30:00Z"))).toEqual(new Date("2026-12-31T22:08:00Z"));
+  });
+});
+
+describe("isDaylightHours", () => {
+  it("treats summer evenings after 00:00 UTC as the same local day", () => {
+    expect(isDaylightHours(new Date("2026-06-03T14:00:00Z"))).toBe(true); // 10am
+    expect(isDaylightHours(new Date("2026-06-04T00:30:00Z"))).toBe(true); // 8:30pm
+    expect(isDaylightHours(new Date("2026-06-04T02:00:00Z"))).toBe(false); // 10pm
+  });
+
+  it("handles winter days", () => {
+    expect(isDaylightHours(new Date("2026-12-15T15:00:00Z"))).toBe(true); // 10am EST
+    expect(isDaylightHours(new Date("2026-12-15T23:00:00Z"))).toBe(false); // 6pm EST
+    expect(isDaylightHours(new Date("2026-12-15T10:00:00Z"))).toBe(false); // 5am EST
+  });
+});
@@ -32,20 +32,25 @@ function toDegrees(radians: number): number {
 }
 
 /**
- * Get day of year (1-365/366)
+ * Get day of year (1-365/366) of the date's UTC calendar date, independent of the server timezone
  */
 function getDayOfYear(date: Date): number {
-  const start = new Date(date.getFullYear(), 0, 0);
-  const diff = date.getTime() - start.getTime();
+  const start = Date.UTC(date.getUTCFullYear(), 0, 0);
+  const diff = date.getTime() - start;
   const oneDay = 1000 * 60 * 60 * 24;
   return Math.floor(diff / oneDay);
 }
 
 /**
  * Calculate sunrise or sunset time using astronomical formula
+ * for the local solar day (midnight to midnight at `lng`) that `date` falls in
  */
 function calculateSunTime(lat: number, lng: number, date: Date, isMorning: boolean, zenith: number): Date {
-  const dayOfYear = getDayOfYear(date);
+  // Work on the local solar day the timestamp falls in, so a dusk after 00:00 UTC (NYC in summer)
+  // lands on the next UTC date instead of the morning before
+  const solarDay = new Date(date.getTime() + (lng / 15) * 60 * 60 * 1000);
+  const solarDayStart = Date.UTC(solarDay.getUTCFullYear(), solarDay.getUTCMonth(), solarDay.getUTCDate());
+  const dayOfYear = getDayOfYear(solarDay);
 
   // Convert longitude to hour value
   const lngHour = lng / 15;
@@ -107,16 +112,12 @@ function calculateSunTime(lat: number, lng: number, date: Date, isMorning: boole
   let UT = T - lngHour;
   // Normalize to 0-24
   UT = ((UT % 24) + 24) % 24;
+  // Then to within 12 hours of local solar noon (may run past 24 into the next UTC date)
+  const solarNoonUT = 12 - lngHour;
+  if (UT < solarNoonUT - 12) UT += 24;
+  else if (UT > solarNoonUT + 12) UT -= 24;
 
-  // Create result date
-  const result = new Date(date);
-  const hours = Math.floor(UT);
-  const minutes = Math.round((UT - hours) * 60);
-
-  // Set UTC time then let JavaScript handle timezone
-  result.setUTCHours(hours, minutes, 0, 0);
-
-  return result;
+  return new Date(solarDayStart + Math.round(UT * 60) * 60 * 1000);
 }
 
 /**
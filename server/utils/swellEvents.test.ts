@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { clusterSwellHours, matchSwellEvents, type SwellCluster, type SwellHour, type TrackedSwellEvent } from "./swellEvents";
+
+const START_MS = Date.UTC(2026, 8, 10, 0);
+const hourAt = (h: number) => new Date(START_MS + h * 60 * 60 * 1000);
+
+/**
+ * Hourly swell from `fromHour` for `count` hours, rising to a peak halfway through
+ */
+function swell(fromHour: number, count: number, directionDeg: number, periodS: number, peakFt = 4): SwellHour[] {
+  return Array.from({ length: count }, (_, i) => {
+    const heightFt = peakFt - Math.abs(i - Math.floor(count / 2)) * 0.2;
+    return { time: hourAt(fromHour + i), heightFt, periodS, directionDeg, breakingHeightFt: heightFt * 1.2 };
+  });
+}
+
+function tracked(id: number, cluster: SwellCluster): TrackedSwellEvent {
+  const { directionDeg, periodS, startTime, peakTime, endTime } = cluster;
+  return { id, directionDeg, periodS, startTime, peakTime, endTime };
+}
+
+describe("clusterSwellHours", () => {
+  it("summarizes a steady swell as one cluster", () => {
+    const [cluster, ...rest] = clusterSwellHours(swell(0, 12, 150, 12));
+    expect(rest).toEqual([]);
+    expect(cluster).toMatchObject({
+      startTime: hourAt(0),
+      endTime: hourAt(11),
+      peakTime: hourAt(6),
+      peakHeightFt: 4,
+      peakBreakingHeightFt: 4.8,
+      directionDeg: 150,
+      periodS: 12,
+      hours: 12,
+    });
+  });
+
+  it("splits on a direction jump, a period jump or a gap, and drops short clusters", () => {
+    const clusters = clusterSwellHours([
+      ...swell(0, 8, 150, 12),
+      ...swell(8, 8, 90, 12), // New direction
+      ...swell(16, 8, 90, 7), // New period
+      ...swell(28, 8, 90, 7), // After a 5h gap
+      ...swell(36, 4, 200, 9), // Too short to be an event
+    ]);
+    expect(clusters.map((c) => [c.startTime, c.directionDeg, c.periodS])).toEqual([
+      [hourAt(0), 150, 12],
+      [hourAt(8), 90, 12],
+      [hourAt(16), 90, 7],
+      [hourAt(28), 90, 7],
+    ]);
+  });
+
+  it("follows gradual drift and wraps direction through north", () => {
+    const hours = swell(0, 10, 350, 14).map((hour, i) => ({
+      ...hour,
+      directionDeg: (350 + i * 3) % 360,
+      periodS: 14 - i * 0.5,
+    }));
+    const clusters = clusterSwellHours(hours);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].directionDeg).toBe(4);
+    expect(clusters[0].periodS).toBe(12);
+  });
+});
+
+describe("matchSwellEvents", () => {
+  it("keeps a revised swell on its tracked event across runs", () => {
+    const [groundswell, windswell] = clusterSwellHours([...swell(24, 18, 160, 14), ...swell(60, 12, 70, 7)]);
+    const events = [tracked(1, windswell), tracked(2, groundswell)];
+
+    // Next run: the groundswell arrives 12h earlier and veers 15°, the wind swell is unchanged
+    const next = clusterSwellHours([...swell(12, 18, 175, 13), ...swell(60, 12, 70, 7)]);
+    expect(matchSwellEvents(next, events)).toEqual(
+      new Map([
+        [0, 2],
+        [1, 1],
+      ])
+    );
+  });
+
+  it("matches each event at most once, closest pair first", () => {
+    const [event] = clusterSwellHours(swell(24, 12, 160, 14));
+    const next = clusterSwellHours([...swell(18, 12, 130, 14), ...swell(30, 12, 160, 14)]);
+    expect(next).toHaveLength(2);
+    expect(matchSwellEvents(next, [tracked(7, event)])).toEqual(new Map([[1, 7]]));
+  });
+
+  it("leaves events unmatched when the swell is too different or too far away in time", () => {
+    const [event] = clusterSwellHours(swell(24, 12, 160, 14));
+    const events = [tracked(3, event)];
+
+    expect(matchSwellEvents(clusterSwellHours(swell(24, 12, 90, 14)), events).size).toBe(0); // Direction
+    expect(matchSwellEvents(clusterSwellHours(swell(24, 12, 160, 8)), events).size).toBe(0); // Period
+    expect(matchSwellEvents(clusterSwellHours(swell(96, 12, 160, 14)), events).size).toBe(0); // 3 days later
+    expect(matchSwellEvents([], events).size).toBe(0);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Swell Events
+ *
+ * Turns one forecast model run into swell events and matches them to the events
+ * already being tracked, so "the SE groundswell arriving Thursday" keeps one id while
+ * its predicted size and timing get revised run over run.
+ *
+ * Clustering: each hour's dominant swell (getDominantSwell) is chained to the previous
+ * hour while direction and period only drift gradually (a swell's period drops steadily
+ * as it fades). A jump, a gap, or the swell dropping below MIN_EVENT_HEIGHT_FT ends
+ * the cluster; clusters shorter than MIN_EVENT_HOURS are noise.
+ *
+ * Matching: a new cluster continues an existing event if direction, period and timing
+ * are close enough; the closest pairs are taken first and each event matches at most once.
+ */
+
+import type { ForecastPoint } from "../../drizzle/schema";
+import type { SpotProfile } from "./spotProfiles";
+import { getDominantSwell, getSwellLabel } from "./waveHeight";
+
+export const MIN_EVENT_HEIGHT_FT = 1.0;
+export const MIN_EVENT_HOURS = 6;
+
+// Hour-to-hour drift allowed within one event
+const MAX_GAP_HOURS = 3;
+const DIRECTION_STEP_DEG = 25;
+const PERIOD_STEP_S = 2;
+
+// Run-to-run drift allowed when matching a cluster to an existing event
+const MATCH_DIRECTION_DEG = 45;
+const MATCH_PERIOD_S = 4;
+const MATCH_PEAK_SHIFT_HOURS = 36;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface SwellHour {
+  time: Date;
+  heightFt: number; // Offshore dominant swell height
+  periodS: number;
+  directionDeg: number;
+  breakingHeightFt: number;
+}
+
+export interface SwellCluster {
+  startTime: Date;
+  endTime: Date;
+  peakTime: Date;
+  peakHeightFt: number;
+  peakPeriodS: number;
+  peakBreakingHeightFt: number;
+  directionDeg: number; // Circular mean over the cluster
+  periodS: number; // Mean over the cluster
+  hours: number;
+}
+
+/**
+ * Minimal view of a tracked event needed for matching
+ */
+export interface TrackedSwellEvent {
+  id: number;
+  directionDeg: number;
+  periodS: number;
+  startTime: Date;
+  peakTime: Date;
+  endTime: Date;
+}
+
+export function angularDifferenceDeg(a: number, b: number): number {
+  const diff = Math.abs((((a - b) % 360) + 360) % 360);
+  return diff > 180 ? 360 - diff : diff;
+}
+
+function circularMeanDeg(directions: number[]): number {
+  const sin = directions.reduce((sum, d) => sum + Math.sin((d * Math.PI) / 180), 0);
+  const cos = directions.reduce((sum, d) => sum + Math.cos((d * Math.PI) / 180), 0);
+  return Math.round((((Math.atan2(sin, cos) * 180) / Math.PI) + 360) % 360);
+}
+
+/**
+ * Display label from direction and period, e.g. "SE Groundswell"
+ */
+export function getSwellEventLabel(directionDeg: number, periodS: number): string {
+  const compass = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"][Math.round(directionDeg / 45) % 8];
+  return `${compass} ${getSwellLabel(periodS)}`;
+}
+
+/**
+ * Dominant swell for each forecast hour (skipping hours without a usable swell)
+ */
+export function getSwellHours(points: ForecastPoint[], profile: SpotProfile): SwellHour[] {
+  const hours: SwellHour[] = [];
+  for (const point of points) {
+    const swell = getDominantSwell(point, profile);
+    if (!swell || swell.direction_deg === null || swell.height_ft < MIN_EVENT_HEIGHT_FT) continue;
+    hours.push({
+      time: new Date(point.forecastTimestamp),
+      heightFt: swell.height_ft,
+      periodS: swell.period_s,
+      directionDeg: swell.direction_deg,
+      breakingHeightFt: swell.breaking_height,
+    });
+  }
+  return hours.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+function summarizeCluster(hours: SwellHour[]): SwellCluster {
+  const peak = hours.reduce((best, h) => (h.heightFt > best.heightFt ? h : best), hours[0]);
+  return {
+    startTime: hours[0].time,
+    endTime: hours[hours.length - 1].time,
+    peakTime: peak.time,
+    peakHeightFt: Math.round(peak.heightFt * 10) / 10,
+    peakPeriodS: peak.periodS,
+    peakBreakingHeightFt: Math.round(peak.breakingHeightFt * 10) / 10,
+    directionDeg: circularMeanDeg(hours.map((h) => h.directionDeg)),
+    periodS: Math.round(hours.reduce((sum, h) => sum + h.periodS, 0) / hours.length),
+    hours: hours.length,
+  };
+}
+
+/**
+ * Group consecutive hours with a gradually evolving dominant swell into clusters
+ */
+export function clusterSwellHours(hours: SwellHour[]): SwellCluster[] {
+  const clusters: SwellCluster[] = [];
+  let current: SwellHour[] = [];
+
+  const flush = () => {
+    if (current.length >= MIN_EVENT_HOURS) clusters.push(summarizeCluster(current));
+    current = [];
+  };
+
+  for (const hour of hours) {
+    const previous = current[current.length - 1];
+    if (
+      previous &&
+      (hour.time.getTime() - previous.time.getTime() > MAX_GAP_HOURS * HOUR_MS ||
+        angularDifferenceDeg(hour.directionDeg, previous.directionDeg) > DIRECTION_STEP_DEG ||
+        Math.abs(hour.periodS - previous.periodS) > PERIOD_STEP_S)
+    ) {
+      flush();
+    }
+    current.push(hour);
+  }
+  flush();
+
+  return clusters;
+}
+
+/**
+ * Pair this run's clusters with tracked events
+ *
+ * @returns cluster index → event id (unmatched clusters are new events)
+ */
+export function matchSwellEvents(clusters: SwellCluster[], events: TrackedSwellEvent[]): Map<number, number> {
+  const candidates: Array<{ clusterIndex: number; eventId: number; cost: number }> = [];
+
+  clusters.forEach((cluster, clusterIndex) => {
+    for (const event of events) {
+      const directionDiff = angularDifferenceDeg(cluster.directionDeg, event.directionDeg);
+      const periodDiff = Math.abs(cluster.periodS - event.periodS);
+      const peakShiftHours = Math.abs(cluster.peakTime.getTime() - event.peakTime.getTime()) / HOUR_MS;
+      const overlaps = cluster.startTime <= event.endTime && cluster.endTime >= event.startTime;
+
+      if (directionDiff > MATCH_DIRECTION_DEG || periodDiff > MATCH_PERIOD_S) continue;
+      if (!overlaps && peakShiftHours > MATCH_PEAK_SHIFT_HOURS) continue;
+
+      // Roughly: 12h of timing shift ≈ 15° of direction ≈ 2s of period
+      candidates.push({
+        clusterIndex,
+        eventId: event.id,
+        cost: peakShiftHours / 12 + directionDiff / 15 + periodDiff / 2,
+      });
+    }
+  });
+
+  const matches = new Map<number, number>();
+  const matchedEvents = new Set<number>();
+  for (const candidate of candidates.sort((a, b) => a.cost - b.cost)) {
+    if (matches.has(candidate.clusterIndex) || matchedEvents.has(candidate.eventId)) continue;
+    matches.set(candidate.clusterIndex, candidate.eventId);
+    matchedEvents.add(candidate.eventId);
+  }
+  return matches;
+}
@@ -7,8 +7,7 @@
  */
 
 import type { SpotProfile } from './spotProfiles';
-import type { ForecastPoint } from '../../drizzle/schema';
-import { calculateSpotMultiplier, getSpotKey } from './spotProfiles';
+import { calculateSpotMultiplier, getSpotKey, getSpotProfile } from './spotProfiles';
 
 /**
  * Get period-based label for a swell component
@@ -39,6 +38,17 @@ export interface SwellComponent {
   label?: string; // Period-based label for display: "Wind Swell", "Swell", or "Groundswell"
 }
 
+/**
+ * A measured swell train (e.g. partitioned from a buoy spectrum) offered to getDominantSwell
+ * in place of the forecast point's primary / secondary / wind components
+ */
+export interface MeasuredSwellTrain {
+  height_ft: number;
+  period_s: number;
+  direction_deg: number | null;
+  type: SwellComponent['type'];
+}
+
 /**
  * Get period-quality factor for swell energy calculation
  *
@@ -154,19 +164,19 @@ export function getDirectionalPenalty(directionDeg: number | null): number {
  * High tide reduces breaking wave height (waves break in deeper water, sandbars submerged,
  * inlet/canyon effects dampened). Low tide increases it (shallow water, sandbars exposed).
  * 
- * SPECIAL RULE FOR LIDO, LONG BEACH & ROCKAWAY:
+ * RISING TIDE BOOST (spots whose profile has rising_tide_boost, e.g. Lido, Long Beach & Rockaway):
  * - Rising tide between 1ft-2.1ft: 1.2x multiplier (20% boost)
  * - This is NOT a generic low tide multiplier, but specifically for rising tide conditions
  *
  * TIDE RANGES:
  * - <1.0ft: No boost (1.0x multiplier)
- * - Rising tide window (Lido, Long Beach & Rockaway): 1.0-2.1ft during rising tide: 1.2x boost
+ * - Rising tide window (rising_tide_boost spots): 1.0-2.1ft during rising tide: 1.2x boost
  * - Mid-tide (2.1-3.2ft): Linear interpolation from 1.2x to 0.85x
- * - High tide (>3.2ft): 0.7x penalty
+ * - High tide (>3.2ft): profile high_tide_multiplier (1.0x for unknown spots)
  *
  * @param tideHeightFt - Tide height in decimal feet (e.g., 3.5, not 35) or null
  * @param tidePhase - Tide phase: 'high', 'low', 'rising', 'falling', or null
- * @param spotName - Spot name (e.g., "Lido Beach", "Long Beach", "Rockaway Beach")
+ * @param spotName - Spot name or profile key (e.g., "Lido Beach", "long-beach")
  * @returns Multiplier to apply to breaking height
  */
 export function getTideMultiplier(
@@ -177,10 +187,12 @@ export function getTideMultiplier(
   // If no tide data, return neutral multiplier
   if (tideHeightFt === null || tideHeightFt === undefined) return 1.0;
 
-  // SPECIAL RULE: Rising tide boost for Lido Beach, Long Beach, and Rockaway Beach
+  const profile = spotName ? getSpotProfile(spotName) : undefined;
+
+  // SPECIAL RULE: Rising tide boost for spots with rising_tide_boost in their profile
   // Only applies during rising tide between 1ft-2.1ft
   if (
-    (spotName === "Lido Beach" || spotName === "Long Beach" || spotName === "Rockaway Beach") &&
+    profile?.rising_tide_boost &&
     tidePhase === "rising" &&
     tideHeightFt >= 1.0 &&
     tideHeightFt <= 2.1
@@ -190,10 +202,7 @@ export function getTideMultiplier(
 
   // High tide (>3.2ft): spot-specific (Rockaway none, Lido 10%, Long Beach 20%, others none)
   if (tideHeightFt > 3.2) {
-    if (spotName === "Rockaway Beach") return 1.0;   // No high-tide penalty
-    if (spotName === "Lido Beach") return 0.9;      // 10% reduction
-    if (spotName === "Long Beach") return 0.8;     // 20% reduction
-    return 1.0;                                    // No penalty for any other spot
+    return profile?.high_tide_multiplier ?? 1.0;
   }
 
   // Mid-tide (2.1-3.2ft): Linear interpolation from 1.2 to 0.85
@@ -224,6 +233,22 @@ export function getTideMultiplier(
   return 1.0;
 }
 
+/**
+ * The swell components getDominantSwell reads, in forecast_points units.
+ * A stored ForecastPoint satisfies it; other shapes (scored timeline points) need converting.
+ */
+export interface SwellComponentsInput {
+  waveHeightFt: number | null; // Tenths of a foot
+  wavePeriodSec: number | null;
+  waveDirectionDeg: number | null;
+  secondarySwellHeightFt: string | number | null; // Feet
+  secondarySwellPeriodS: number | null;
+  secondarySwellDirectionDeg: number | null;
+  windWaveHeightFt: string | number | null; // Feet
+  windWavePeriodS: number | null;
+  windWaveDirectionDeg: number | null;
+}
+
 /**
  * Get the dominant swell from forecast point based on RAW ENERGY (H² × T)
  *
@@ -237,19 +262,25 @@ export function getTideMultiplier(
  * DYNAMIC PERIOD SELECTION: If buoyPeriodS is provided (from NOAA buoy), it will be
  * passed to calculateBreakingWaveHeight for more accurate period-based amplification.
  *
+ * MEASURED SWELLS: If measuredSwells is non-empty (buoy spectral partitions), those trains
+ * are the candidates instead of the forecast point's three components, so a secondary
+ * long-period pulse the summary buoy data hides can still be selected.
+ *
  * @param forecastPoint - Forecast point with all swell components
  * @param profile - Spot profile with multiplier for breaking height calculation
  * @param tideHeightFt - Tide height in decimal feet (e.g., 3.5, not 35) or null
  * @param tidePhase - Tide phase: 'high', 'low', 'rising', 'falling', or null
  * @param buoyPeriodS - Optional: NOAA buoy dominant period in seconds (for Dynamic Period Selection)
+ * @param measuredSwells - Optional: measured swell trains that replace the point's components
  * @returns Dominant swell component with breaking_height calculated, or null if no valid data
  */
 export function getDominantSwell(
-  forecastPoint: ForecastPoint,
+  forecastPoint: SwellComponentsInput,
   profile: SpotProfile,
   tideHeightFt?: number | null,
   tidePhase?: string | null,
-  buoyPeriodS?: number | null
+  buoyPeriodS?: number | null,
+  measuredSwells?: MeasuredSwellTrain[] | null
 ): SwellComponent | null {
   console.log('🔍 [getDominantSwell] Checking forecast point:', {
     primary: {
@@ -279,8 +310,22 @@ export function getDominantSwell(
 
   const candidates: SwellCandidate[] = [];
 
+  // Measured trains (buoy spectrum) replace the forecast components entirely
+  for (const train of measuredSwells ?? []) {
+    if (train.height_ft > 0 && train.period_s > 0) {
+      candidates.push({
+        height_ft: train.height_ft,
+        period_s: train.period_s,
+        direction_deg: train.direction_deg,
+        energy: calculateSwellEnergy(train.height_ft, train.period_s),
+        type: train.type,
+      });
+    }
+  }
+  const useForecastComponents = candidates.length === 0;
+
   // Primary swell (from waveHeightFt - stored as integer tenths of feet)
-  if (forecastPoint.waveHeightFt !== null && forecastPoint.wavePeriodSec !== null) {
+  if (useForecastComponents && forecastPoint.waveHeightFt !== null && forecastPoint.wavePeriodSec !== null) {
     const heightFt = forecastPoint.waveHeightFt / 10; // Convert from tenths to feet
     if (heightFt > 0) {
       const energy = calculateSwellEnergy(heightFt, forecastPoint.wavePeriodSec);
@@ -295,7 +340,7 @@ export function getDominantSwell(
   }
 
   // Secondary swell (stored as decimal string)
-  if (forecastPoint.secondarySwellHeightFt !== null && forecastPoint.secondarySwellPeriodS !== null) {
+  if (useForecastComponents && forecastPoint.secondarySwellHeightFt !== null && forecastPoint.secondarySwellPeriodS !== null) {
     const heightFt = typeof forecastPoint.secondarySwellHeightFt === 'string'
       ? parseFloat(forecastPoint.secondarySwellHeightFt)
       : forecastPoint.secondarySwellHeightFt;
@@ -312,7 +357,7 @@ export function getDominantSwell(
   }
 
   // Wind waves (stored as decimal string)
-  if (forecastPoint.windWaveHeightFt !== null && forecastPoint.windWavePeriodS !== null) {
+  if (useForecastComponents && forecastPoint.windWaveHeightFt !== null && forecastPoint.windWavePeriodS !== null) {
     const heightFt = typeof forecastPoint.windWaveHeightFt === 'string'
       ? parseFloat(forecastPoint.windWaveHeightFt)
       : forecastPoint.windWaveHeightFt;
@@ -538,7 +583,7 @@ export function calculateBreakingWaveHeight(
   // STEP 3: Apply Tide Multiplier
   // High tide reduces breaking height (deeper water, submerged sandbars)
   // Low tide increases breaking height (shallow water, exposed sandbars)
-  // SPECIAL: Lido, Long Beach & Rockaway get 1.2x boost during rising tide (1ft-2.1ft only)
+  // SPECIAL: rising_tide_boost spots (Lido, Long Beach & Rockaway) get 1.2x during rising tide (1ft-2.1ft only)
   const tideMultiplier = getTideMultiplier(
     tideHeightFt ?? null,
     tidePhase ?? null,
@@ -590,7 +635,7 @@ export function calculateBreakingWaveHeight(
  *
  * @param buoyHeightFt - Buoy swell height in feet (from NOAA 44065)
  * @param periodS - Swell period in seconds
- * @param spotName - Spot name for tide adjustments
+ * @param spotName - Spot name for tide adjustments (uses profile buoy_tide_adjustment)
  * @param swellDirectionDeg - Swell direction in degrees (0-360) or null
  * @param tideHeightFt - Tide height in decimal feet or null
  * @param tidePhase - Tide phase: 'rising', 'falling', etc. or null
@@ -625,9 +670,10 @@ export function calculateBuoyBreakingWaveHeight(
   const directionalPenalty = getDirectionalPenalty(swellDirectionDeg ?? null);
   breakingHeight = breakingHeight * directionalPenalty;
 
-  // STEP 5: Apply tide multiplier for Lido and Long Beach ONLY
+  // STEP 5: Apply tide multiplier for spots with buoy_tide_adjustment (Lido and Long Beach)
   // Rockaway excluded: its bathymetry handles high tide better (no penalty) and doesn't need low tide boost
-  if (spotName === "Lido Beach" || spotName === "Long Beach") {
+  const profile = spotName ? getSpotProfile(spotName) : undefined;
+  if (profile?.buoy_tide_adjustment) {
     const tideMultiplier = getTideMultiplier(tideHeightFt ?? null, tidePhase, spotName);
     // Suppress tide penalty on big surf (>3ft): high tide won't flatten it
     const effectiveTideMultiplier = breakingHeight > 3.0 ? Math.max(1.0, tideMultiplier) : tideMultiplier;
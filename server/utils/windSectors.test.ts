@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SPOT_PROFILES } from "./spotProfiles";
+import { getOffshoreBearing, getWindTier, getWindType } from "./windSectors";
+import { scoreWind, scoreWindGusts } from "./qualityRating";
+
+const { lido, rockaway, montauk } = DEFAULT_SPOT_PROFILES;
+const longBeach = DEFAULT_SPOT_PROFILES["long-beach"];
+
+describe("wind sectors", () => {
+  describe.each([
+    ["Lido Beach", lido],
+    ["Long Beach", longBeach],
+  ])("%s (south-facing, default table)", (_name, profile) => {
+    it("is dead offshore from the north", () => {
+      expect(getOffshoreBearing(profile)).toBe(0);
+    });
+
+    it.each([
+      [0, "premium_offshore"],
+      [20, "premium_offshore"],
+      [330, "premium_offshore"],
+      [21, "solid_offshore"],
+      [34, "solid_offshore"],
+      [315, "solid_offshore"],
+      [35, "okay_offshore"],
+      [50, "okay_offshore"],
+      [51, "bad_side_offshore"],
+      [70, "bad_side_offshore"],
+      [71, "poor_side_shore"],
+      [110, "poor_side_shore"],
+      [111, "onshore"],
+      [180, "onshore"],
+      [259, "onshore"],
+      [260, "better_side_shore"],
+      [289, "better_side_shore"],
+      [290, "solid_side_offshore"],
+      [309, "solid_side_offshore"],
+    ])("classifies %i° as %s", (deg, tier) => {
+      expect(getWindTier(deg, profile)).toBe(tier);
+    });
+
+    it.each([
+      [0, "offshore"],
+      [45, "offshore"],
+      [300, "side-offshore"],
+      [60, "cross"],
+      [90, "cross"],
+      [270, "cross"],
+      [200, "onshore"],
+    ])("reports %i° as %s", (deg, windType) => {
+      expect(getWindType(deg, profile)).toBe(windType);
+    });
+  });
+
+  describe("Rockaway Beach (jetty-sheltered W/WNW)", () => {
+    it("keeps the south-facing offshore sectors", () => {
+      expect(getWindTier(0, rockaway)).toBe("premium_offshore");
+      expect(getWindTier(320, rockaway)).toBe("solid_offshore");
+      expect(getWindTier(45, rockaway)).toBe("okay_offshore");
+      expect(getWindTier(180, rockaway)).toBe("onshore");
+    });
+
+    it.each([
+      [260, "sheltered_side_shore"],
+      [289, "sheltered_side_shore"],
+      [290, "sheltered_side_offshore"],
+      [309, "sheltered_side_offshore"],
+    ])("classifies %i° as %s", (deg, tier) => {
+      expect(getWindTier(deg, rockaway)).toBe(tier);
+    });
+
+    it("scores W and WNW better than Long Beach", () => {
+      expect(scoreWind(8, 300, rockaway)).toBe(12);
+      expect(scoreWind(8, 300, longBeach)).toBe(5);
+      expect(scoreWind(8, 275, rockaway)).toBe(-3);
+      expect(scoreWind(8, 275, longBeach)).toBe(-8);
+    });
+  });
+
+  describe("Montauk (SSE-facing)", () => {
+    it("is dead offshore from the NNW", () => {
+      expect(getOffshoreBearing(montauk)).toBe(340);
+    });
+
+    it.each([
+      [340, "premium_offshore"],
+      [310, "premium_offshore"],
+      [0, "premium_offshore"],
+      [1, "solid_offshore"],
+      [15, "okay_offshore"],
+      [31, "bad_side_offshore"],
+      [51, "poor_side_shore"],
+      [91, "onshore"],
+      [160, "onshore"],
+      [239, "onshore"],
+      [240, "better_side_shore"],
+      [270, "solid_side_offshore"],
+      [290, "solid_offshore"],
+    ])("classifies %i° as %s", (deg, tier) => {
+      expect(getWindTier(deg, montauk)).toBe(tier);
+    });
+
+    it("treats a south-shore offshore NE wind as cross-shore", () => {
+      expect(getWindType(45, lido)).toBe("offshore");
+      expect(getWindType(45, montauk)).toBe("cross");
+    });
+
+    it("treats WSW and W winds as cross-shore or side-offshore rather than onshore", () => {
+      expect(getWindType(250, lido)).toBe("onshore");
+      expect(getWindType(250, montauk)).toBe("cross");
+      expect(getWindType(275, montauk)).toBe("side-offshore");
+    });
+  });
+
+  describe("custom sector tables", () => {
+    it("wraps the last sector around to the first start", () => {
+      const profile = {
+        shoreline_normal_deg: 90,
+        wind_sectors: [
+          { tier: "onshore" as const, startDeg: 90 },
+          { tier: "premium_offshore" as const, startDeg: 300 },
+        ],
+      };
+      expect(getWindTier(270, profile)).toBe("premium_offshore"); // Offset 0
+      expect(getWindTier(300, profile)).toBe("premium_offshore"); // Offset 30
+      expect(getWindTier(0, profile)).toBe("onshore"); // Offset 90
+      expect(getWindTier(210, profile)).toBe("premium_offshore"); // Offset 300
+    });
+
+    it("falls back to a south-facing beach without a profile", () => {
+      expect(getWindType(0, null)).toBe("offshore");
+      expect(getWindType(null, lido)).toBeNull();
+    });
+  });
+
+  describe("gust penalty", () => {
+    it("follows the spot's offshore and onshore sectors", () => {
+      expect(scoreWindGusts(10, 22, 150, lido)).toBe(-15);
+      expect(scoreWindGusts(10, 22, 150, montauk)).toBe(-15);
+      expect(scoreWindGusts(10, 22, 340, montauk)).toBe(0);
+      expect(scoreWindGusts(10, 22, 60, montauk)).toBe(-8);
+    });
+  });
+});
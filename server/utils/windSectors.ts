@@ -0,0 +1,114 @@
+/**
+ * Wind Sectors
+ *
+ * Classifies wind direction against a spot's shoreline orientation. Each spot carries a
+ * shoreline-normal bearing (the direction the beach faces, looking out to sea) and a
+ * sector table. Sector starts are offsets clockwise from dead offshore (normal + 180°),
+ * so one table works for any orientation, and each sector runs until the next one starts
+ * so every direction falls in exactly one sector.
+ *
+ * The tiers drive wind scoring (scoreWind / scoreWindGusts / caps in qualityRating.ts);
+ * the coarse WindType drives windType on forecasts and the alert wind label.
+ */
+
+export const WIND_TIERS = [
+  "premium_offshore", // Dead offshore — best possible wind
+  "solid_offshore", // Offshore, slightly off axis
+  "okay_offshore", // Offshore but weaker (wave-size dependent)
+  "solid_side_offshore", // Best non-offshore wind
+  "sheltered_side_offshore", // Side-offshore that local structure (jetties, point) cleans up
+  "bad_side_offshore", // Angle creates chop with no cleanup benefit
+  "poor_side_shore", // Cross-shore, adds chop
+  "better_side_shore", // Cross-shore, less problematic
+  "sheltered_side_shore", // Cross-shore with some shelter
+  "onshore", // Blown out
+] as const;
+
+export type WindTier = (typeof WIND_TIERS)[number];
+
+export type WindType = "offshore" | "side-offshore" | "cross" | "onshore";
+
+export interface WindSector {
+  tier: WindTier;
+  startDeg: number; // Offset clockwise from dead offshore (0-359)
+}
+
+export const DEFAULT_SHORELINE_NORMAL_DEG = 180; // South-facing Long Island beaches
+
+/**
+ * 8-tier table for a straight beach. For a south-facing beach the offsets equal compass
+ * bearings: N premium, NW solid, NE okay, WNW side-offshore, ENE bad, E poor, W better,
+ * ESE through WSW onshore.
+ */
+export const DEFAULT_WIND_SECTORS: WindSector[] = [
+  { tier: "solid_offshore", startDeg: 21 }, // 21–34: NNE fringe
+  { tier: "okay_offshore", startDeg: 35 }, // 35–50
+  { tier: "bad_side_offshore", startDeg: 51 }, // 51–70
+  { tier: "poor_side_shore", startDeg: 71 }, // 71–110
+  { tier: "onshore", startDeg: 111 }, // 111–259
+  { tier: "better_side_shore", startDeg: 260 }, // 260–289
+  { tier: "solid_side_offshore", startDeg: 290 }, // 290–309
+  { tier: "solid_offshore", startDeg: 310 }, // 310–329
+  { tier: "premium_offshore", startDeg: 330 }, // 330–20
+];
+
+const TIER_WIND_TYPE: Record<WindTier, WindType> = {
+  premium_offshore: "offshore",
+  solid_offshore: "offshore",
+  okay_offshore: "offshore",
+  solid_side_offshore: "side-offshore",
+  sheltered_side_offshore: "side-offshore",
+  bad_side_offshore: "cross",
+  poor_side_shore: "cross",
+  better_side_shore: "cross",
+  sheltered_side_shore: "cross",
+  onshore: "onshore",
+};
+
+/**
+ * Orientation fields of a SpotProfile
+ */
+export interface WindOrientation {
+  shoreline_normal_deg: number;
+  wind_sectors?: WindSector[];
+}
+
+function normalizeDeg(deg: number): number {
+  return ((deg % 360) + 360) % 360;
+}
+
+/**
+ * Wind direction (from) that blows dead offshore
+ */
+export function getOffshoreBearing(orientation?: WindOrientation | null): number {
+  return normalizeDeg((orientation?.shoreline_normal_deg ?? DEFAULT_SHORELINE_NORMAL_DEG) + 180);
+}
+
+/**
+ * Sector containing a wind direction (degrees, from)
+ */
+export function getWindTier(windDirectionDeg: number, orientation?: WindOrientation | null): WindTier {
+  const sectors = orientation?.wind_sectors?.length ? orientation.wind_sectors : DEFAULT_WIND_SECTORS;
+  const offset = normalizeDeg(windDirectionDeg - getOffshoreBearing(orientation));
+  const sorted = [...sectors].sort((a, b) => a.startDeg - b.startDeg);
+
+  // Last sector starting at or before the offset; before the first start, the last sector wraps around
+  let match = sorted[sorted.length - 1];
+  for (const sector of sorted) {
+    if (sector.startDeg <= offset) match = sector;
+    else break;
+  }
+  return match.tier;
+}
+
+export function getWindTypeForTier(tier: WindTier): WindType {
+  return TIER_WIND_TYPE[tier];
+}
+
+/**
+ * Offshore / side-offshore / cross / onshore for a wind direction, or null without one
+ */
+export function getWindType(windDirectionDeg: number | null, orientation?: WindOrientation | null): WindType | null {
+  if (windDirectionDeg === null) return null;
+  return TIER_WIND_TYPE[getWindTier(windDirectionDeg, orientation)];
+}